@@ -38,6 +38,8 @@ function RootLayoutInner() {
         <Stack.Screen name="settings/behavior" />
         {/* 话题列表 */}
         <Stack.Screen name="topics/index" options={{ title: '话题列表' }} />
+        {/* 消息全文搜索 */}
+        <Stack.Screen name="search" options={{ title: '搜索消息' }} />
       </Stack>
       <StatusBar style="auto" />
       {showSplash && (
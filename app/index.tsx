@@ -9,13 +9,17 @@ import {
   ChatInputRef,
   ChatSidebar,
   MessageList,
+  type MessageFocusRequest,
   ModelPickerDialog,
   TopicsSidebar,
 } from '@/components/chat';
 import { ErrorBoundary } from '@/components/common/ErrorBoundary';
 import { useErrorHandler } from '@/hooks/use-error-handler';
 import { useMessageSender } from '@/hooks/use-message-sender';
+import { useOfflineQueue } from '@/hooks/use-offline-queue';
+import type { Attachment } from '@/storage/core';
 import { SettingKey, SettingsRepository } from '@/storage/repositories/settings';
+import { loadChatSettings } from '@/utils/chat-settings';
 import { appEvents, AppEvents } from '@/utils/events';
 import { logger } from '@/utils/logger';
 import { useLocalSearchParams } from 'expo-router';
@@ -25,6 +29,16 @@ import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 import { runOnJS } from 'react-native-reanimated';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
+interface RegenerateRequest {
+  conversationId: string;
+  userMessageId: string;
+  userMessageText: string;
+  userMessageAttachments: any[];
+  pickModel?: boolean;
+  /** 从中断处继续生成的助手消息 ID */
+  continueFrom?: string;
+}
+
 export default function ChatScreen() {
   const insets = useSafeAreaInsets();
   const keyboardVerticalOffset = Platform.OS === 'ios' ? insets.bottom : 0;
@@ -33,15 +47,43 @@ export default function ChatScreen() {
   const [topicsOpen, setTopicsOpen] = useState(false);
   const [modelPickerOpen, setModelPickerOpen] = useState(false);
   const [conversationId, setConversationId] = useState<string | null>(null);
+  // 🔁 等待选择模型的重新生成请求
+  const [pendingRegenerate, setPendingRegenerate] = useState<RegenerateRequest | null>(null);
   const [quickPhrasesEnabled, setQuickPhrasesEnabled] = useState(true);
   // 💡 当前选择的模型（全局状态，与话题解耦）
   const [currentModel, setCurrentModel] = useState<{ provider: string; model: string } | null>(null);
-  const params = useLocalSearchParams<{ cid?: string }>();
+  // 🔎 搜索结果跳转：定位到指定消息
+  const [focusRequest, setFocusRequest] = useState<MessageFocusRequest | null>(null);
+  const params = useLocalSearchParams<{ cid?: string; mid?: string }>();
   const settingsRepo = useMemo(() => SettingsRepository(), []);
-  const { withErrorHandler } = useErrorHandler();
+  const { withErrorHandler, showError } = useErrorHandler();
 
   // ✨ 消息发送 Hook（用于重新生成功能）
   const { sendMessage } = useMessageSender(conversationId, setConversationId);
+  // 📴 联网后自动发送离线时排队的消息
+  useOfflineQueue(sendMessage);
+
+  // 🎯 应用话题或助手固定的模型（优先级：话题 > 助手 > 默认模型）
+  // topicOnly：切换话题时仅在话题固定了模型、或离开固定模型的话题时更新，保留用户手动选择
+  const topicModelPinnedRef = useRef(false);
+  const applyPinnedModel = useCallback(async (cid: string | null, topicOnly: boolean) => {
+    const { topic, settings } = await loadChatSettings(cid);
+    if (topic.model) {
+      topicModelPinnedRef.current = true;
+      setCurrentModel(topic.model);
+      return;
+    }
+    if (topicOnly && !topicModelPinnedRef.current) return;
+    topicModelPinnedRef.current = false;
+
+    if (settings.model) {
+      setCurrentModel(settings.model);
+      return;
+    }
+    const defaultProvider = (await settingsRepo.get<string>(SettingKey.DefaultProvider)) || 'openai';
+    const defaultModel = (await settingsRepo.get<string>(SettingKey.DefaultModel)) || 'gpt-4o-mini';
+    setCurrentModel({ provider: defaultProvider, model: defaultModel });
+  }, [settingsRepo]);
 
   // ✨ 初始化：读取快捷短语和默认模型设置
   useEffect(() => {
@@ -53,15 +95,37 @@ export default function ChatScreen() {
         setQuickPhrasesEnabled(stored);
       }
 
-      // 初始化当前模型为默认模型
-      const defaultProvider = (await settingsRepo.get<string>(SettingKey.DefaultProvider)) || 'openai';
-      const defaultModel = (await settingsRepo.get<string>(SettingKey.DefaultModel)) || 'gpt-4o-mini';
-      setCurrentModel({ provider: defaultProvider, model: defaultModel });
+      // 初始化当前模型：当前助手固定的模型，否则为默认模型
+      await applyPinnedModel(null, false);
     }, {
       showDialog: false, // 静默失败，不打扰用户
       logError: true,
     })();
-  }, [settingsRepo, withErrorHandler]);
+  }, [settingsRepo, withErrorHandler, applyPinnedModel]);
+
+  // 🤖 切换助手或修改话题设置时应用固定的模型
+  useEffect(() => {
+    const apply = withErrorHandler(async () => {
+      await applyPinnedModel(conversationId, false);
+    }, { showDialog: false, logError: true });
+    const handleTopicSettingsChanged = (cid: string) => {
+      if (cid === conversationId) apply();
+    };
+    appEvents.on(AppEvents.ASSISTANT_CHANGED, apply);
+    appEvents.on(AppEvents.TOPIC_SETTINGS_CHANGED, handleTopicSettingsChanged);
+    return () => {
+      appEvents.off(AppEvents.ASSISTANT_CHANGED, apply);
+      appEvents.off(AppEvents.TOPIC_SETTINGS_CHANGED, handleTopicSettingsChanged);
+    };
+  }, [withErrorHandler, applyPinnedModel, conversationId]);
+
+  // 💬 切换话题时应用话题固定的模型
+  useEffect(() => {
+    if (!conversationId) return;
+    withErrorHandler(async () => {
+      await applyPinnedModel(conversationId, true);
+    }, { showDialog: false, logError: true })();
+  }, [withErrorHandler, applyPinnedModel, conversationId]);
 
   useEffect(() => {
     const handleSettingChange = (enabled: boolean) => {
@@ -75,26 +139,55 @@ export default function ChatScreen() {
 
   // ✨ 监听重新生成消息请求
   useEffect(() => {
-    const handleRegenerateRequest = (payload: {
-      conversationId: string;
-      userMessageText: string;
-      userMessageAttachments: any[];
-    }) => {
-      // 调用 sendMessage 重新发送用户消息
+    const handleRegenerateRequest = (payload: RegenerateRequest) => {
+      // 需要换模型时先弹出模型选择器，选择后再生成
+      if (payload.pickModel) {
+        setPendingRegenerate(payload);
+        return;
+      }
+      // 基于原用户消息生成新版本
       sendMessage({
         text: payload.userMessageText,
         attachments: payload.userMessageAttachments,
         searchResults: null,
-        enableMcpTools: false,
+        enableMcpTools: chatInputRef.current?.isMcpEnabled() ?? false,
         currentModel: currentModel || undefined,
-      });
+        regenerateFrom: payload.userMessageId,
+        continueFrom: payload.continueFrom,
+      }).catch((error) => showError(error));
     };
 
     appEvents.on(AppEvents.MESSAGE_REGENERATE_REQUESTED, handleRegenerateRequest);
     return () => {
       appEvents.off(AppEvents.MESSAGE_REGENERATE_REQUESTED, handleRegenerateRequest);
     };
-  }, [sendMessage, currentModel]);
+  }, [sendMessage, currentModel, showError]);
+
+  // 🌳 监听编辑重发请求：以原消息的父消息为父节点发送，生成新分支
+  useEffect(() => {
+    const handleEditResendRequest = (payload: {
+      conversationId: string;
+      parentId: string | null;
+      text: string;
+      attachments: Attachment[];
+    }) => {
+      if (payload.conversationId !== conversationId) return;
+      sendMessage({
+        text: payload.text,
+        attachments: payload.attachments,
+        searchResults: null,
+        enableMcpTools: chatInputRef.current?.isMcpEnabled() ?? false,
+        currentModel: currentModel || undefined,
+        parentId: payload.parentId,
+        queueIfOffline: true,
+      }).catch((error) => showError(error));
+    };
+
+    appEvents.on(AppEvents.MESSAGE_EDIT_RESEND_REQUESTED, handleEditResendRequest);
+    return () => {
+      appEvents.off(AppEvents.MESSAGE_EDIT_RESEND_REQUESTED, handleEditResendRequest);
+    };
+  }, [sendMessage, currentModel, conversationId, showError]);
 
 
   const handleMenuPress = () => {
@@ -123,6 +216,12 @@ export default function ChatScreen() {
     }
   }, [params?.cid]);
 
+  useEffect(() => {
+    if (params?.mid && typeof params.mid === 'string') {
+      setFocusRequest({ messageId: params.mid, nonce: Date.now() });
+    }
+  }, [params?.cid, params?.mid]);
+
   return (
     <ErrorBoundary level="page">
       <KeyboardAvoidingView
@@ -142,7 +241,7 @@ export default function ChatScreen() {
             {/* 消息列表 - 占满整个屏幕，支持双击打开快捷短语 */}
             <GestureDetector gesture={doubleTapGesture}>
               <View style={styles.messagesContainer}>
-                <MessageList conversationId={conversationId} />
+                <MessageList conversationId={conversationId} focusRequest={focusRequest} />
               </View>
             </GestureDetector>
 
@@ -174,6 +273,25 @@ export default function ChatScreen() {
                 setCurrentModel({ provider, model });
               }}
             />
+            {/* 换模型重新生成：仅作用于本次生成，不改变当前模型 */}
+            <ModelPickerDialog
+              visible={pendingRegenerate !== null}
+              onDismiss={() => setPendingRegenerate(null)}
+              currentModel={currentModel}
+              onModelSelect={(provider, model) => {
+                if (!pendingRegenerate) return;
+                logger.debug('[ChatScreen] 换模型重新生成:', { provider, model });
+                setPendingRegenerate(null);
+                sendMessage({
+                  text: pendingRegenerate.userMessageText,
+                  attachments: pendingRegenerate.userMessageAttachments,
+                  searchResults: null,
+                  enableMcpTools: chatInputRef.current?.isMcpEnabled() ?? false,
+                  currentModel: { provider, model },
+                  regenerateFrom: pendingRegenerate.userMessageId,
+                }).catch((error) => showError(error));
+              }}
+            />
             {/* TODO: 实现消息上下文菜单（长按操作） */}
             {/* TODO: 实现消息加载更多功能 */}
           </View>
@@ -0,0 +1,23 @@
+/**
+ * MCP OAuth 授权回调
+ *
+ * 授权结果由 WebBrowser.openAuthSessionAsync 接收并处理；
+ * Android 上回调深链接同时会打开此路由，这里直接返回上一页。
+ */
+
+import { useRouter } from 'expo-router';
+import { useEffect } from 'react';
+
+export default function McpOAuthCallback() {
+  const router = useRouter();
+
+  useEffect(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/settings/mcp-server');
+    }
+  }, [router]);
+
+  return null;
+}
@@ -0,0 +1,327 @@
+/**
+ * 🔎 消息全文搜索
+ *
+ * 功能：
+ * - 搜索全部话题的消息正文、消息块与思考链（FTS5）
+ * - 按角色、时间范围、助手、模型筛选
+ * - 高亮命中片段，点击跳转到话题中的对应消息（自动切换到该消息所在分支）
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { FlashList } from '@shopify/flash-list';
+import { Stack, router } from 'expo-router';
+import { ActivityIndicator, Chip, List, Menu, Searchbar, Text, useTheme } from 'react-native-paper';
+import { MessageSearchRepository } from '@/storage/repositories/message-search';
+import { MessageRepository } from '@/storage/repositories/messages';
+import { AssistantsRepository } from '@/storage/repositories/assistants';
+import {
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
+  type MessageSearchFilters,
+  type MessageSearchResult,
+} from '@/storage/types/search';
+import type { Role } from '@/storage/core';
+import type { Assistant } from '@/types/assistant';
+import { logger } from '@/utils/logger';
+
+const SEARCH_DEBOUNCE_MS = 300;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type RoleFilter = 'all' | Role;
+type DateRange = 'all' | 'today' | '7d' | '30d' | '365d';
+
+const ROLE_OPTIONS: { value: RoleFilter; label: string }[] = [
+  { value: 'all', label: '全部角色' },
+  { value: 'user', label: '我' },
+  { value: 'assistant', label: '助手' },
+];
+
+const DATE_OPTIONS: { value: DateRange; label: string }[] = [
+  { value: 'all', label: '全部时间' },
+  { value: 'today', label: '今天' },
+  { value: '7d', label: '7 天内' },
+  { value: '30d', label: '30 天内' },
+  { value: '365d', label: '一年内' },
+];
+
+const SOURCE_LABELS: Record<MessageSearchResult['source'], string> = {
+  message: '正文',
+  block: '正文',
+  thinking: '思考过程',
+};
+
+function dateRangeStart(range: DateRange): number | undefined {
+  if (range === 'all') return undefined;
+  if (range === 'today') {
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    return start.getTime();
+  }
+  const days = range === '7d' ? 7 : range === '30d' ? 30 : 365;
+  return Date.now() - days * DAY_MS;
+}
+
+/**
+ * 渲染带高亮标记的片段
+ */
+function HighlightedSnippet({ snippet, color }: { snippet: string; color: string }) {
+  const parts = useMemo(() => {
+    const result: { text: string; highlight: boolean }[] = [];
+    const pattern = new RegExp(`${SEARCH_HIGHLIGHT_START}([\\s\\S]*?)${SEARCH_HIGHLIGHT_END}`, 'g');
+    let last = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(snippet)) !== null) {
+      if (match.index > last) result.push({ text: snippet.slice(last, match.index), highlight: false });
+      result.push({ text: match[1], highlight: true });
+      last = match.index + match[0].length;
+    }
+    if (last < snippet.length) result.push({ text: snippet.slice(last), highlight: false });
+    return result;
+  }, [snippet]);
+
+  return (
+    <Text variant="bodyMedium" numberOfLines={3}>
+      {parts.map((p, i) =>
+        p.highlight ? (
+          <Text key={i} style={{ color, fontWeight: '700' }}>
+            {p.text}
+          </Text>
+        ) : (
+          p.text
+        )
+      )}
+    </Text>
+  );
+}
+
+export default function SearchScreen() {
+  const theme = useTheme();
+  const [query, setQuery] = useState('');
+  const [roleFilter, setRoleFilter] = useState<RoleFilter>('all');
+  const [dateRange, setDateRange] = useState<DateRange>('all');
+  const [assistantId, setAssistantId] = useState<string | null>(null);
+  const [model, setModel] = useState<string | null>(null);
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 筛选选项
+  const [assistants, setAssistants] = useState<Assistant[]>([]);
+  const [models, setModels] = useState<string[]>([]);
+  const [openMenu, setOpenMenu] = useState<'role' | 'date' | 'assistant' | 'model' | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [assistantList, modelList] = await Promise.all([
+          AssistantsRepository().getAll(),
+          MessageSearchRepository.listModels(),
+        ]);
+        setAssistants(assistantList);
+        setModels(modelList);
+      } catch (e) {
+        logger.warn('[Search] 加载筛选选项失败', e);
+      }
+    })();
+  }, []);
+
+  // 输入防抖后执行搜索
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const filters: MessageSearchFilters = {
+        roles: roleFilter === 'all' ? undefined : [roleFilter],
+        from: dateRangeStart(dateRange),
+        assistantId: assistantId ?? undefined,
+        model: model ?? undefined,
+      };
+      try {
+        setLoading(true);
+        const list = await MessageSearchRepository.search(query, filters);
+        if (!cancelled) {
+          setResults(list);
+          setError(null);
+        }
+      } catch (e: any) {
+        logger.error('[Search] 搜索失败', e);
+        if (!cancelled) setError(e?.message || '搜索失败');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, roleFilter, dateRange, assistantId, model]);
+
+  // 跳转：先切换到消息所在分支，再回到聊天页定位
+  const openResult = useCallback(async (result: MessageSearchResult) => {
+    try {
+      await MessageRepository.switchBranch(result.conversationId, result.messageId);
+    } catch (e) {
+      logger.warn('[Search] 切换到消息所在分支失败', e);
+    }
+    router.dismissTo({ pathname: '/', params: { cid: result.conversationId, mid: result.messageId } });
+  }, []);
+
+  const assistantLabel = assistantId
+    ? assistants.find((a) => a.id === assistantId)?.name ?? '助手'
+    : '全部助手';
+
+  const renderItem = useCallback(
+    ({ item }: { item: MessageSearchResult }) => (
+      <List.Item
+        title={item.conversationTitle || '未命名话题'}
+        titleNumberOfLines={1}
+        description={() => (
+          <View style={{ marginTop: 4 }}>
+            <HighlightedSnippet snippet={item.snippet} color={theme.colors.primary} />
+            <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, marginTop: 4 }}>
+              {item.role === 'user' ? '我' : '助手'}
+              {item.model ? ` · ${item.model}` : ''}
+              {` · ${SOURCE_LABELS[item.source]}`}
+              {` · ${new Date(item.createdAt).toLocaleString()}`}
+            </Text>
+          </View>
+        )}
+        left={(p) => <List.Icon {...p} icon={item.role === 'user' ? 'account-outline' : 'robot-outline'} />}
+        onPress={() => void openResult(item)}
+      />
+    ),
+    [theme, openResult]
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <Stack.Screen options={{ title: '搜索消息' }} />
+
+      <Searchbar
+        placeholder="搜索全部消息..."
+        value={query}
+        onChangeText={setQuery}
+        autoFocus
+        style={styles.searchbar}
+        loading={loading}
+      />
+
+      {/* 筛选条件 */}
+      <View style={styles.filters}>
+        <Menu
+          visible={openMenu === 'role'}
+          onDismiss={() => setOpenMenu(null)}
+          anchor={
+            <Chip icon="account" selected={roleFilter !== 'all'} onPress={() => setOpenMenu('role')}>
+              {ROLE_OPTIONS.find((o) => o.value === roleFilter)?.label}
+            </Chip>
+          }
+        >
+          {ROLE_OPTIONS.map((o) => (
+            <Menu.Item key={o.value} title={o.label} onPress={() => { setRoleFilter(o.value); setOpenMenu(null); }} />
+          ))}
+        </Menu>
+
+        <Menu
+          visible={openMenu === 'date'}
+          onDismiss={() => setOpenMenu(null)}
+          anchor={
+            <Chip icon="calendar" selected={dateRange !== 'all'} onPress={() => setOpenMenu('date')}>
+              {DATE_OPTIONS.find((o) => o.value === dateRange)?.label}
+            </Chip>
+          }
+        >
+          {DATE_OPTIONS.map((o) => (
+            <Menu.Item key={o.value} title={o.label} onPress={() => { setDateRange(o.value); setOpenMenu(null); }} />
+          ))}
+        </Menu>
+
+        <Menu
+          visible={openMenu === 'assistant'}
+          onDismiss={() => setOpenMenu(null)}
+          anchor={
+            <Chip icon="robot" selected={!!assistantId} onPress={() => setOpenMenu('assistant')}>
+              {assistantLabel}
+            </Chip>
+          }
+        >
+          <Menu.Item title="全部助手" onPress={() => { setAssistantId(null); setOpenMenu(null); }} />
+          {assistants.map((a) => (
+            <Menu.Item
+              key={a.id}
+              title={`${a.emoji ?? ''} ${a.name}`.trim()}
+              onPress={() => { setAssistantId(a.id); setOpenMenu(null); }}
+            />
+          ))}
+        </Menu>
+
+        <Menu
+          visible={openMenu === 'model'}
+          onDismiss={() => setOpenMenu(null)}
+          anchor={
+            <Chip icon="chip" selected={!!model} onPress={() => setOpenMenu('model')}>
+              {model ?? '全部模型'}
+            </Chip>
+          }
+        >
+          <Menu.Item title="全部模型" onPress={() => { setModel(null); setOpenMenu(null); }} />
+          {models.map((m) => (
+            <Menu.Item key={m} title={m} onPress={() => { setModel(m); setOpenMenu(null); }} />
+          ))}
+        </Menu>
+      </View>
+
+      {error ? (
+        <View style={styles.emptyContainer}>
+          <Text style={{ color: theme.colors.error }}>{error}</Text>
+        </View>
+      ) : (
+        <FlashList
+          data={results}
+          keyExtractor={(item) => item.messageId}
+          renderItem={renderItem}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              {loading ? (
+                <ActivityIndicator />
+              ) : (
+                <Text style={{ color: theme.colors.onSurfaceVariant }}>
+                  {query.trim() ? '未找到匹配的消息' : '输入关键词搜索全部话题的消息'}
+                </Text>
+              )}
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  searchbar: {
+    margin: 12,
+    marginBottom: 8,
+  },
+  filters: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingBottom: 8,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 48,
+    paddingHorizontal: 24,
+  },
+});
@@ -4,14 +4,18 @@ import { ScrollView, View, StyleSheet } from 'react-native';
 import { Avatar, Button, HelperText, List, SegmentedButtons, Surface, Switch, Text, TextInput, useTheme, Snackbar, Portal } from 'react-native-paper';
 import { CustomProvidersRepository, type CustomProvider } from '@/storage/repositories/custom-providers';
 import { ProviderModelsRepository } from '@/storage/repositories/provider-models';
+import { ProviderKeyManagementRepository } from '@/storage/repositories/provider-key-management';
 import { fetchCustomProviderModels, validateCustomProviderModel } from '@/services/ai';
 import { UnifiedDialog } from '@/components/common/UnifiedDialog';
+import { StreamOutputSelector } from '@/components/settings/StreamOutputSelector';
 
 export default function CustomProviderConfig() {
   const theme = useTheme();
   const { id } = useLocalSearchParams<{ id: string }>();
   const [cp, setCP] = useState<CustomProvider | null>(null);
   const [enabled, setEnabled] = useState(true);
+  const [multiKeyEnabled, setMultiKeyEnabled] = useState(false);
+  const [streamOutput, setStreamOutput] = useState<boolean | null>(null);
   const [apiKey, setApiKey] = useState('');
   const [baseUrl, setBaseUrl] = useState('');
   const [tab, setTab] = useState<'key' | 'base'>('key');
@@ -29,6 +33,8 @@ export default function CustomProviderConfig() {
         setEnabled(item.enabled);
         setApiKey(item.apiKey || '');
         setBaseUrl(item.baseURL || '');
+        setStreamOutput(item.streamOutput ?? null);
+        setMultiKeyEnabled(await ProviderKeyManagementRepository.isMultiKeyEnabled(item.id));
         const ms = await ProviderModelsRepository.listOrDefaults(item.id);
         setModels(ms.map(m => ({ id: m.modelId, label: m.label || m.modelId })));
       }
@@ -38,7 +44,9 @@ export default function CustomProviderConfig() {
   const persistBasics = async (show = false) => {
     if (!cp) return;
     try {
-      await CustomProvidersRepository.update(cp.id, { enabled, apiKey, baseURL: baseUrl });
+      // API Key 未修改时不写回（解密失败时输入框为空，避免覆盖已保存的密文）
+      const keyPatch = apiKey !== (cp.apiKey || '') ? { apiKey } : {};
+      await CustomProvidersRepository.update(cp.id, { enabled, ...keyPatch, baseURL: baseUrl });
       if (show) setSaveStatus({ visible: true, message: '✓ 配置已保存' });
     } catch {
       if (show) setSaveStatus({ visible: true, message: '✗ 保存失败' });
@@ -75,13 +83,47 @@ export default function CustomProviderConfig() {
         <List.Subheader>API 配置</List.Subheader>
         <List.Item title="启用状态" right={() => <Switch value={enabled} onValueChange={async (v) => { setEnabled(v); await CustomProvidersRepository.setEnabled(cp!.id, v); }} />} />
 
+        <List.Item
+          title="多 Key 负载均衡模式"
+          description={multiKeyEnabled ? '已启用（支持多个 API Key 轮询）' : '未启用（单 Key 模式）'}
+          right={() => (
+            <Switch
+              value={multiKeyEnabled}
+              onValueChange={async (v) => {
+                if (!cp) return;
+                setMultiKeyEnabled(v);
+                await ProviderKeyManagementRepository.setMultiKeyEnabled(cp.id, v);
+                setSaveStatus({ visible: true, message: v ? '✓ 多 Key 模式已启用' : '✓ 已切换到单 Key 模式' });
+              }}
+            />
+          )}
+        />
+
+        <StreamOutputSelector
+          value={streamOutput}
+          onChange={async (v) => {
+            if (!cp) return;
+            setStreamOutput(v);
+            await CustomProvidersRepository.update(cp.id, { streamOutput: v });
+          }}
+        />
+
         <SegmentedButtons value={tab} onValueChange={(v)=>setTab(v as any)} buttons={[{ value:'key', label:'API 密钥' }, { value:'base', label:'基础配置' }]} style={{ marginTop: 8 }} />
 
         {tab === 'key' ? (
-          <>
-            <TextInput label="API 密钥" value={apiKey} onChangeText={setApiKey} secureTextEntry style={{ marginTop: 8 }} onBlur={()=>persistBasics(true)} />
-            <HelperText type="info">已写入本地存储（设备本地 AsyncStorage）</HelperText>
-          </>
+          multiKeyEnabled ? (
+            <>
+              <Button mode="contained" onPress={() => { if (cp) router.push(`/settings/providers/${cp.id}/keys` as any); }} style={{ marginTop: 12 }}>
+                管理多个 API 密钥
+              </Button>
+              <HelperText type="info">在多 Key 模式下，系统会自动轮询使用多个 API Key，实现负载均衡和故障转移</HelperText>
+            </>
+          ) : (
+            <>
+              <TextInput label="API 密钥" value={apiKey} onChangeText={setApiKey} secureTextEntry style={{ marginTop: 8 }} onBlur={()=>persistBasics(true)} />
+              <HelperText type="info">已写入本地存储（设备本地 AsyncStorage）</HelperText>
+            </>
+          )
         ) : (
           <>
             <TextInput label="Base URL" placeholder="例如：https://api.xxx.com/v1" value={baseUrl} onChangeText={setBaseUrl} autoCapitalize="none" style={{ marginTop: 8 }} onBlur={()=>persistBasics(true)} />
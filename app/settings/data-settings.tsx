@@ -9,7 +9,9 @@ import { LegacyImportService } from '@/services/data/LegacyImport';
 import { SettingsRepository, SettingKey } from '@/storage/repositories/settings';
 import { useConfirmDialog } from '@/hooks/use-confirm-dialog';
 import { UnifiedDialog } from '@/components/common/UnifiedDialog';
+import { BackupPassphraseDialog } from '@/components/settings/BackupPassphraseDialog';
 import * as DocumentPicker from 'expo-document-picker';
+import { router } from 'expo-router';
 import { File } from 'expo-file-system';
 import { logger } from '@/utils/logger';
 
@@ -25,6 +27,11 @@ export default function DataSettings() {
     message: string;
     onConfirm: () => void;
   }>({ visible: false, title: '', message: '', onConfirm: () => {} });
+  // 备份密码请求（resolve: 密码 / null 表示不处理敏感信息 / undefined 表示取消）
+  const [passphraseRequest, setPassphraseRequest] = useState<{
+    mode: 'export' | 'import';
+    resolve: (passphrase: string | null | undefined) => void;
+  } | null>(null);
 
   // 加载统计数据
   const loadStats = async () => {
@@ -58,11 +65,24 @@ export default function DataSettings() {
     setConfirmDialog({ ...confirmDialog, visible: false });
   };
 
-  // 导出数据
+  const requestPassphrase = (mode: 'export' | 'import') =>
+    new Promise<string | null | undefined>((resolve) => {
+      setPassphraseRequest({ mode, resolve });
+    });
+
+  const resolvePassphrase = (passphrase: string | null | undefined) => {
+    passphraseRequest?.resolve(passphrase);
+    setPassphraseRequest(null);
+  };
+
+  // 导出数据（敏感信息仅在设置备份密码时加密导出）
   const handleExport = async () => {
+    const passphrase = await requestPassphrase('export');
+    if (passphrase === undefined) return;
+
     try {
       setLoading(true);
-      await DataBackupService.exportAndShare();
+      await DataBackupService.exportAndShare({ passphrase: passphrase ?? undefined });
       alert('成功', '数据已导出');
     } catch (e: any) {
       alert('导出失败', e?.message || String(e));
@@ -96,9 +116,17 @@ export default function DataSettings() {
           const content = await file.text();
           const backupData: BackupData = JSON.parse(content);
 
+          // 敏感信息已使用备份密码加密时，先输入密码
+          let passphrase: string | null | undefined = null;
+          if (backupData.secrets?.mode === 'passphrase') {
+            hideConfirm();
+            passphrase = await requestPassphrase('import');
+            if (passphrase === undefined) return;
+          }
+
           // 执行恢复
           setLoading(true);
-          await DataBackupService.restoreFromJSON(backupData);
+          await DataBackupService.restoreFromJSON(backupData, { passphrase: passphrase ?? undefined });
           alert('成功', '数据已恢复');
           await loadStats();
         } catch (e: any) {
@@ -330,6 +358,96 @@ export default function DataSettings() {
           </Card.Actions>
         </Card>
 
+        {/* 用量与花费 */}
+        <Card style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+          <Card.Title title="用量与花费" />
+          <Card.Content>
+            {stats ? (
+              <View>
+                <View style={styles.statRow}>
+                  <Text variant="bodyMedium">累计 Token</Text>
+                  <Text variant="bodyMedium" style={styles.statValue}>
+                    {DataStatsService.formatTokens(stats.usage.total.totalTokens)} ({stats.usage.total.requests} 次请求)
+                  </Text>
+                </View>
+                <View style={styles.statRow}>
+                  <Text variant="bodySmall" style={{ marginLeft: 16 }}>
+                    输入 / 输出 / 推理
+                  </Text>
+                  <Text variant="bodySmall" style={styles.statValue}>
+                    {DataStatsService.formatTokens(stats.usage.total.inputTokens)} /{' '}
+                    {DataStatsService.formatTokens(stats.usage.total.outputTokens)} /{' '}
+                    {DataStatsService.formatTokens(stats.usage.total.reasoningTokens)}
+                  </Text>
+                </View>
+                <View style={styles.statRow}>
+                  <Text variant="bodyMedium">累计花费</Text>
+                  <Text variant="bodyMedium" style={styles.statValue}>
+                    {DataStatsService.formatCosts(stats.usage.total.costs)}
+                  </Text>
+                </View>
+                <View style={styles.statRow}>
+                  <Text variant="bodyMedium">近 30 天花费</Text>
+                  <Text variant="bodyMedium" style={styles.statValue}>
+                    {DataStatsService.formatCosts(stats.usage.last30Days.costs)}
+                  </Text>
+                </View>
+
+                {stats.usage.daily.length > 0 && (
+                  <>
+                    <Text variant="labelMedium" style={styles.usageSubheader}>近 7 天</Text>
+                    {stats.usage.daily.slice(-7).map((day) => (
+                      <View key={day.date} style={styles.statRow}>
+                        <Text variant="bodySmall" style={{ marginLeft: 16 }}>{day.date}</Text>
+                        <Text variant="bodySmall" style={styles.statValue}>
+                          {DataStatsService.formatTokens(day.totalTokens)} · {DataStatsService.formatCosts(day.costs)}
+                        </Text>
+                      </View>
+                    ))}
+                  </>
+                )}
+
+                {stats.usage.byProvider.length > 0 && (
+                  <>
+                    <Text variant="labelMedium" style={styles.usageSubheader}>按提供商</Text>
+                    {stats.usage.byProvider.map((item) => (
+                      <View key={item.provider} style={styles.statRow}>
+                        <Text variant="bodySmall" style={{ marginLeft: 16 }}>{item.provider}</Text>
+                        <Text variant="bodySmall" style={styles.statValue}>
+                          {DataStatsService.formatTokens(item.totalTokens)} · {DataStatsService.formatCosts(item.costs)}
+                        </Text>
+                      </View>
+                    ))}
+                  </>
+                )}
+
+                {stats.usage.byApiKey.length > 0 && (
+                  <>
+                    <Text variant="labelMedium" style={styles.usageSubheader}>按 API Key</Text>
+                    {stats.usage.byApiKey.map((item) => (
+                      <View key={item.keyId} style={styles.statRow}>
+                        <Text variant="bodySmall" style={{ marginLeft: 16, flexShrink: 1 }} numberOfLines={1}>
+                          {item.providerId} · {item.name || item.keyId.slice(-6)}
+                        </Text>
+                        <Text variant="bodySmall" style={styles.statValue}>
+                          {DataStatsService.formatTokens(item.totalTokens)} · {item.successfulRequests}/{item.totalRequests} 成功
+                        </Text>
+                      </View>
+                    ))}
+                  </>
+                )}
+              </View>
+            ) : (
+              <Text>无法加载用量数据</Text>
+            )}
+          </Card.Content>
+          <Card.Actions>
+            <Button onPress={() => router.push('/settings/model-prices' as any)}>
+              设置模型单价
+            </Button>
+          </Card.Actions>
+        </Card>
+
         <Divider style={{ marginVertical: 8 }} />
 
         {/* 数据备份 */}
@@ -417,6 +535,14 @@ export default function DataSettings() {
         </List.Section>
       </ScrollView>
 
+      {/* 备份密码对话框 */}
+      <BackupPassphraseDialog
+        visible={!!passphraseRequest}
+        mode={passphraseRequest?.mode ?? 'export'}
+        onDismiss={() => resolvePassphrase(undefined)}
+        onSubmit={resolvePassphrase}
+      />
+
       {/* 确认对话框（统一弹出框） */}
       <UnifiedDialog
         visible={confirmDialog.visible}
@@ -461,6 +587,11 @@ const styles = StyleSheet.create({
   statValue: {
     fontWeight: '600',
   },
+  usageSubheader: {
+    marginTop: 12,
+    marginBottom: 4,
+    opacity: 0.7,
+  },
   loadingOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0,0,0,0.5)',
@@ -4,8 +4,11 @@
  * 功能：
  * - 服务器列表显示
  * - 添加/编辑/删除服务器
+ * - 传输协议选择（自动检测 / Streamable HTTP / SSE）
  * - 启用/禁用服务器
  * - 健康检查和连接测试
+ * - OAuth 授权登录（系统浏览器）与授权状态显示
+ * - 工具浏览与单个工具启用/禁用
  * - 服务器统计信息
  */
 
@@ -24,13 +27,17 @@ import {
   Divider,
   Chip,
   TextInput,
+  SegmentedButtons,
 } from 'react-native-paper';
 import { SettingScreen } from '@/components/settings/SettingScreen';
+import { McpToolBrowserDialog } from '@/components/settings/McpToolBrowserDialog';
 import { McpServersRepository } from '@/storage/repositories/mcp';
 import { mcpClient } from '@/services/mcp/McpClient';
+import { authorizeInBrowser, getAuthStatus, signOut, startAuthorization } from '@/services/mcp/McpOAuth';
 import { useConfirmDialog } from '@/hooks/use-confirm-dialog';
 import { UnifiedDialog } from '@/components/common/UnifiedDialog';
-import type { MCPServer, CreateMCPServerInput, UpdateMCPServerInput } from '@/types/mcp';
+import type { MCPServer, CreateMCPServerInput, UpdateMCPServerInput, McpAuthStatus, McpTransportType } from '@/types/mcp';
+import { appEvents, AppEvents } from '@/utils/events';
 import { logger } from '@/utils/logger';
 
 const log = logger.createNamespace('MCPServerSettings');
@@ -56,8 +63,14 @@ interface ServerFormData {
   description: string;
   headers: string; // JSON string
   timeout: string; // number string
+  transport: McpTransportType | 'auto';
 }
 
+const TRANSPORT_LABELS: Record<McpTransportType, string> = {
+  streamableHttp: 'Streamable HTTP',
+  sse: 'SSE',
+};
+
 /**
  * MCP 服务器设置页面主组件
  */
@@ -79,8 +92,11 @@ export default function MCPServerSettings() {
     description: '',
     headers: '{}',
     timeout: '60',
+    transport: 'auto',
   });
   const [formErrors, setFormErrors] = useState<Partial<ServerFormData>>({});
+  const [toolBrowserServer, setToolBrowserServer] = useState<MCPServer | null>(null);
+  const [authStatuses, setAuthStatuses] = useState<Map<string, McpAuthStatus>>(new Map());
 
   // ========== 数据加载 ==========
 
@@ -105,6 +121,28 @@ export default function MCPServerSettings() {
     void loadServers();
   }, [loadServers]);
 
+  /**
+   * 读取各服务器的授权状态（连接时服务器要求授权也会触发刷新）
+   */
+  useEffect(() => {
+    let mounted = true;
+    const refresh = async () => {
+      try {
+        const entries = await Promise.all(servers.map(async (s) => [s.id, await getAuthStatus(s.id)] as const));
+        if (mounted) setAuthStatuses(new Map(entries));
+      } catch (e: any) {
+        log.warn('读取授权状态失败', { error: e?.message });
+      }
+    };
+
+    void refresh();
+    appEvents.on(AppEvents.MCP_AUTH_CHANGED, refresh);
+    return () => {
+      mounted = false;
+      appEvents.off(AppEvents.MCP_AUTH_CHANGED, refresh);
+    };
+  }, [servers]);
+
   // ========== 服务器操作 ==========
 
   /**
@@ -118,6 +156,7 @@ export default function MCPServerSettings() {
       description: '',
       headers: '{}',
       timeout: '60',
+      transport: 'auto',
     });
     setFormErrors({});
     setEditDialogVisible(true);
@@ -135,6 +174,7 @@ export default function MCPServerSettings() {
       description: server.description || '',
       headers: JSON.stringify(server.headers || {}, null, 2),
       timeout: String(server.timeout || 60),
+      transport: server.type === 'sse' || server.type === 'streamableHttp' ? server.type : 'auto',
     });
     setFormErrors({});
     setEditDialogVisible(true);
@@ -180,6 +220,28 @@ export default function MCPServerSettings() {
     }
   };
 
+  /**
+   * 重置工具审批（"始终允许"的工具恢复为每次询问）
+   */
+  const handleResetToolPolicies = (server: MCPServer) => {
+    const tools = Object.keys(server.toolPolicies ?? {});
+    confirmAction(
+      '重置工具授权',
+      `以下工具将恢复为每次调用前询问：\n\n${tools.join('\n')}`,
+      async () => {
+        try {
+          await McpServersRepository.resetToolPolicies(server.id);
+          await loadServers();
+          log.info('工具授权已重置', { serverId: server.id, count: tools.length });
+        } catch (e: any) {
+          log.error('重置工具授权失败', { serverId: server.id, error: e.message });
+          alert('操作失败', e?.message || String(e));
+        }
+      },
+      { confirmText: '重置' }
+    );
+  };
+
   /**
    * 健康检查
    */
@@ -242,6 +304,65 @@ export default function MCPServerSettings() {
     }
   };
 
+  /**
+   * 发起 OAuth 授权：在系统浏览器中打开授权页，用授权码换取令牌后重新连接
+   */
+  const handleAuthorize = async (server: MCPServer) => {
+    try {
+      setLoading(true);
+      log.info('发起 OAuth 授权', { serverId: server.id, name: server.name });
+      const url = await startAuthorization(server);
+      if (!url) {
+        // 刷新令牌仍有效，无需重新登录
+        await mcpClient.reconnect(server.id);
+        alert('授权成功', `已重新连接 ${server.name}`);
+        setLoading(false);
+        return;
+      }
+      if (!(await authorizeInBrowser(server, url))) {
+        setLoading(false);
+        return;
+      }
+      log.info('OAuth 授权成功', { serverId: server.id });
+    } catch (e: any) {
+      log.error('OAuth 授权失败', { serverId: server.id, error: e.message });
+      alert('授权失败', e?.message || String(e));
+      setLoading(false);
+      return;
+    }
+
+    try {
+      await mcpClient.reconnect(server.id);
+      alert('授权成功', `已登录 ${server.name}`);
+    } catch (e: any) {
+      log.warn('授权后重新连接失败', { serverId: server.id, error: e.message });
+      alert('授权成功', `已登录 ${server.name}，但连接失败：${e?.message || String(e)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * 退出 OAuth 登录（清除令牌与客户端注册信息）
+   */
+  const handleSignOut = (server: MCPServer) => {
+    confirmAction(
+      '退出登录',
+      `确定要清除服务器 "${server.name}" 的授权吗？之后连接需要重新登录。`,
+      async () => {
+        try {
+          await signOut(server.id);
+          await mcpClient.disconnect(server.id);
+          log.info('已退出 OAuth 登录', { serverId: server.id });
+        } catch (e: any) {
+          log.error('退出登录失败', { serverId: server.id, error: e.message });
+          alert('操作失败', e?.message || String(e));
+        }
+      },
+      { confirmText: '退出登录', destructive: true }
+    );
+  };
+
   /**
    * 保存服务器（添加或编辑）
    */
@@ -295,6 +416,13 @@ export default function MCPServerSettings() {
           timeout,
         };
         await McpServersRepository.updateServer(editingServer.id, input);
+
+        // 传输协议变更后断开现有连接，下次使用时按新协议连接（自动检测会重新探测）
+        const transport = formData.transport === 'auto' ? null : formData.transport;
+        if (transport !== (editingServer.type ?? null)) {
+          await McpServersRepository.setTransportType(editingServer.id, transport);
+          await mcpClient.disconnect(editingServer.id);
+        }
         alert('成功', '服务器已更新');
         log.info('服务器已更新', { serverId: editingServer.id, name: input.name });
       } else {
@@ -305,6 +433,7 @@ export default function MCPServerSettings() {
           description: formData.description.trim() || undefined,
           headers: Object.keys(headers).length > 0 ? headers : undefined,
           timeout,
+          type: formData.transport === 'auto' ? undefined : formData.transport,
         };
         const newServer = await McpServersRepository.createServer(input);
         alert('成功', '服务器已添加');
@@ -328,6 +457,9 @@ export default function MCPServerSettings() {
    */
   const renderServerCard = (server: MCPServer) => {
     const health = healthChecks.get(server.id);
+    const alwaysAllowedCount = Object.values(server.toolPolicies ?? {}).filter((p) => p === 'always').length;
+    const disabledToolsCount = server.disabledTools?.length ?? 0;
+    const authStatus = authStatuses.get(server.id) ?? 'none';
 
     return (
       <Card key={server.id} style={[styles.card, { backgroundColor: theme.colors.surface }]}>
@@ -364,6 +496,39 @@ export default function MCPServerSettings() {
                 {health.healthy ? `${health.responseTime}ms` : '连接失败'}
               </Chip>
             )}
+
+            {authStatus === 'authorized' && (
+              <Chip icon="shield-key" style={styles.chip} textStyle={styles.chipText}>
+                已授权
+              </Chip>
+            )}
+
+            {authStatus === 'required' && (
+              <Chip
+                icon="shield-alert"
+                style={[styles.chip, { backgroundColor: theme.colors.errorContainer }]}
+                textStyle={styles.chipText}
+                onPress={() => handleAuthorize(server)}
+              >
+                需要授权
+              </Chip>
+            )}
+
+            <Chip icon="swap-horizontal" style={styles.chip} textStyle={styles.chipText}>
+              {server.type === 'sse' || server.type === 'streamableHttp' ? TRANSPORT_LABELS[server.type] : '自动检测'}
+            </Chip>
+
+            {disabledToolsCount > 0 && (
+              <Chip icon="tools" style={styles.chip} textStyle={styles.chipText}>
+                已禁用 {disabledToolsCount} 个工具
+              </Chip>
+            )}
+
+            {alwaysAllowedCount > 0 && (
+              <Chip icon="shield-check" style={styles.chip} textStyle={styles.chipText}>
+                始终允许 {alwaysAllowedCount} 个工具
+              </Chip>
+            )}
           </View>
 
           {health && health.healthy && (
@@ -378,6 +543,24 @@ export default function MCPServerSettings() {
           <Button onPress={() => handleHealthCheck(server)} disabled={loading}>
             测试连接
           </Button>
+          <Button onPress={() => setToolBrowserServer(server)} disabled={loading}>
+            工具
+          </Button>
+          {authStatus === 'required' && (
+            <Button onPress={() => handleAuthorize(server)} disabled={loading}>
+              登录授权
+            </Button>
+          )}
+          {authStatus === 'authorized' && (
+            <Button onPress={() => handleSignOut(server)} disabled={loading}>
+              退出登录
+            </Button>
+          )}
+          {alwaysAllowedCount > 0 && (
+            <Button onPress={() => handleResetToolPolicies(server)} disabled={loading}>
+              重置工具授权
+            </Button>
+          )}
         </Card.Actions>
       </Card>
     );
@@ -475,6 +658,24 @@ export default function MCPServerSettings() {
             </Text>
           )}
 
+          {/* 传输协议 */}
+          <Text variant="labelMedium" style={{ color: theme.colors.onSurfaceVariant, marginBottom: 4 }}>
+            传输协议
+          </Text>
+          <SegmentedButtons
+            value={formData.transport}
+            onValueChange={(v) => setFormData({ ...formData, transport: v as ServerFormData['transport'] })}
+            buttons={[
+              { value: 'auto', label: '自动' },
+              { value: 'streamableHttp', label: 'HTTP' },
+              { value: 'sse', label: 'SSE' },
+            ]}
+            style={{ marginBottom: 4 }}
+          />
+          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, marginBottom: 12 }}>
+            自动：先尝试 Streamable HTTP，服务器返回 4xx 时改用旧版 SSE，并记住检测结果
+          </Text>
+
           {/* 描述 */}
           <TextInput
             label="描述（可选）"
@@ -525,6 +726,15 @@ export default function MCPServerSettings() {
         </ScrollView>
       </UnifiedDialog>
 
+      {/* 工具浏览对话框 */}
+      <McpToolBrowserDialog
+        visible={!!toolBrowserServer}
+        server={toolBrowserServer}
+        onDismiss={() => setToolBrowserServer(null)}
+        // 静默刷新，避免每次切换都显示加载遮罩
+        onChanged={() => void McpServersRepository.getAllServers().then(setServers)}
+      />
+
       {/* 加载指示器 */}
       {loading && (
         <Portal>
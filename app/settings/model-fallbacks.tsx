@@ -0,0 +1,129 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { List, Text, IconButton, Button, ActivityIndicator, useTheme } from 'react-native-paper';
+import { SettingScreen } from '@/components/settings/SettingScreen';
+import { ModelFallbackEditDialog } from '@/components/settings/ModelFallbackEditDialog';
+import { useConfirmDialog } from '@/hooks/use-confirm-dialog';
+import { ModelFallbacksRepository } from '@/storage/repositories/model-fallbacks';
+import type { ModelFallbackChain, ModelTarget } from '@/storage/types/model-fallback';
+import { logger } from '@/utils/logger';
+
+/**
+ * 模型回退链设置页面
+ *
+ * 为模型配置有序的回退目标：主模型限流或不可用时自动切换到下一个模型回答
+ */
+export default function ModelFallbacksSettings() {
+  const theme = useTheme();
+  const { confirmAction, alert } = useConfirmDialog();
+  const [rows, setRows] = useState<ModelFallbackChain[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<ModelFallbackChain | null>(null);
+  const [showEditDialog, setShowEditDialog] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setRows(await ModelFallbacksRepository.list());
+    } catch (e) {
+      logger.error('[ModelFallbacks] Failed to load fallback chains:', e);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleEdit = useCallback((row: ModelFallbackChain | null) => {
+    setEditing(row);
+    setShowEditDialog(true);
+  }, []);
+
+  const handleSave = useCallback(async (primary: ModelTarget, chain: ModelTarget[]) => {
+    try {
+      await ModelFallbacksRepository.upsert(primary.provider, primary.model, chain);
+      await load();
+    } catch (error) {
+      alert('保存失败', '保存模型回退链失败，请重试');
+      throw error; // 重新抛出错误，让对话框保持打开状态
+    }
+  }, [load, alert]);
+
+  const handleDelete = useCallback((row: ModelFallbackChain) => {
+    confirmAction(
+      '删除回退链',
+      `确定要删除 ${row.model} 的回退链吗？`,
+      async () => {
+        try {
+          await ModelFallbacksRepository.delete(row.provider, row.model);
+          await load();
+        } catch {
+          alert('删除失败', '删除模型回退链失败，请重试');
+        }
+      }
+    );
+  }, [confirmAction, alert, load]);
+
+  return (
+    <SettingScreen title="模型回退链" description="主模型限流或服务不可用时，在输出内容之前按顺序切换到回退模型">
+      {loading && rows.length === 0 ? (
+        <ActivityIndicator style={{ marginTop: 32 }} />
+      ) : (
+        <List.Section>
+          {rows.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Text style={{ color: theme.colors.onSurfaceVariant }}>
+                暂无回退链，请求失败时将直接报错
+              </Text>
+            </View>
+          ) : (
+            rows.map((row) => (
+              <List.Item
+                key={`${row.provider}/${row.model}`}
+                title={row.model}
+                description={[row.model, ...row.chain.map((t) => t.model)].join(' → ')}
+                descriptionNumberOfLines={2}
+                left={(props) => <List.Icon {...props} icon="swap-vertical" />}
+                right={() => (
+                  <IconButton
+                    icon="delete"
+                    size={20}
+                    iconColor={theme.colors.error}
+                    onPress={() => handleDelete(row)}
+                    style={{ margin: 0 }}
+                  />
+                )}
+                onPress={() => handleEdit(row)}
+              />
+            ))
+          )}
+        </List.Section>
+      )}
+
+      <View style={styles.footer}>
+        <Button mode="outlined" icon="plus" onPress={() => handleEdit(null)}>
+          添加回退链
+        </Button>
+      </View>
+
+      <ModelFallbackEditDialog
+        visible={showEditDialog}
+        fallback={editing}
+        onDismiss={() => setShowEditDialog(false)}
+        onSave={handleSave}
+      />
+    </SettingScreen>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 32,
+  },
+  footer: {
+    padding: 16,
+  },
+});
@@ -0,0 +1,181 @@
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { List, Text, IconButton, Button, ActivityIndicator, useTheme } from 'react-native-paper';
+import { SettingScreen } from '@/components/settings/SettingScreen';
+import { ModelPriceEditDialog } from '@/components/settings/ModelPriceEditDialog';
+import { useConfirmDialog } from '@/hooks/use-confirm-dialog';
+import { ModelPricesRepository } from '@/storage/repositories/model-prices';
+import { UsageRepository } from '@/storage/repositories/usage';
+import { DataStatsService } from '@/services/data/DataStats';
+import type { ModelPrice, ModelUsageSummary } from '@/storage/types/usage';
+import { logger } from '@/utils/logger';
+
+interface PriceRow {
+  provider: string;
+  model: string;
+  price: ModelPrice | null;
+  usage: ModelUsageSummary | null;
+}
+
+/**
+ * 模型单价设置页面
+ *
+ * 列出已设置单价或已产生用量的模型，单价用于数据设置中的花费统计
+ */
+export default function ModelPricesSettings() {
+  const theme = useTheme();
+  const { confirmAction, alert } = useConfirmDialog();
+  const [rows, setRows] = useState<PriceRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<PriceRow | null>(null);
+  const [showEditDialog, setShowEditDialog] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [prices, usage] = await Promise.all([
+        ModelPricesRepository.list(),
+        UsageRepository.listByModel(),
+      ]);
+
+      // 合并：已产生用量的模型在前（按用量排序），其余已定价模型在后
+      const keyOf = (provider: string, model: string) => `${provider}\u0000${model}`;
+      const priceMap = new Map(prices.map((p) => [keyOf(p.provider, p.model), p] as const));
+      const merged: PriceRow[] = usage.map((u) => ({
+        provider: u.provider,
+        model: u.model,
+        price: priceMap.get(keyOf(u.provider, u.model)) ?? null,
+        usage: u,
+      }));
+      const used = new Set(usage.map((u) => keyOf(u.provider, u.model)));
+      for (const p of prices) {
+        if (!used.has(keyOf(p.provider, p.model))) {
+          merged.push({ provider: p.provider, model: p.model, price: p, usage: null });
+        }
+      }
+      setRows(merged);
+    } catch (e) {
+      logger.error('[ModelPrices] Failed to load prices:', e);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleEdit = useCallback((row: PriceRow | null) => {
+    setEditing(row);
+    setShowEditDialog(true);
+  }, []);
+
+  const handleSave = useCallback(async (data: Omit<ModelPrice, 'updatedAt'>) => {
+    try {
+      await ModelPricesRepository.upsert(data);
+      await load();
+    } catch (error) {
+      alert('保存失败', '保存模型单价失败，请重试');
+      throw error; // 重新抛出错误，让对话框保持打开状态
+    }
+  }, [load, alert]);
+
+  const handleDelete = useCallback((row: PriceRow) => {
+    confirmAction(
+      '清除单价',
+      `确定要清除 ${row.model} 的单价吗？`,
+      async () => {
+        try {
+          await ModelPricesRepository.delete(row.provider, row.model);
+          await load();
+        } catch {
+          alert('删除失败', '清除模型单价失败，请重试');
+        }
+      }
+    );
+  }, [confirmAction, alert, load]);
+
+  // 对话框依赖 price 引用初始化表单，需保持稳定
+  const editingPrice = useMemo(
+    () => (editing ? { ...editing.price, provider: editing.provider, model: editing.model } : null),
+    [editing]
+  );
+
+  const describeRow = (row: PriceRow): string => {
+    const parts: string[] = [];
+    if (row.price) {
+      parts.push(`输入 ${row.price.inputPrice} / 输出 ${row.price.outputPrice} ${row.price.currency}`);
+    } else {
+      parts.push('未设置单价');
+    }
+    if (row.usage) {
+      parts.push(
+        `${row.usage.requests} 次 · ${DataStatsService.formatTokens(row.usage.totalTokens)} Token · ${DataStatsService.formatCosts(row.usage.costs)}`
+      );
+    }
+    return parts.join('\n');
+  };
+
+  return (
+    <SettingScreen title="模型单价" description="按每百万 Token 设置模型价格，用于估算花费">
+      {loading && rows.length === 0 ? (
+        <ActivityIndicator style={{ marginTop: 32 }} />
+      ) : (
+        <List.Section>
+          {rows.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Text style={{ color: theme.colors.onSurfaceVariant }}>
+                暂无用量记录，可手动添加模型单价
+              </Text>
+            </View>
+          ) : (
+            rows.map((row) => (
+              <List.Item
+                key={`${row.provider}/${row.model}`}
+                title={row.model}
+                description={describeRow(row)}
+                descriptionNumberOfLines={2}
+                left={(props) => <List.Icon {...props} icon={row.price ? 'currency-usd' : 'currency-usd-off'} />}
+                right={() =>
+                  row.price ? (
+                    <IconButton
+                      icon="delete"
+                      size={20}
+                      iconColor={theme.colors.error}
+                      onPress={() => handleDelete(row)}
+                      style={{ margin: 0 }}
+                    />
+                  ) : null
+                }
+                onPress={() => handleEdit(row)}
+              />
+            ))
+          )}
+        </List.Section>
+      )}
+
+      <View style={styles.footer}>
+        <Button mode="outlined" icon="plus" onPress={() => handleEdit(null)}>
+          添加模型单价
+        </Button>
+      </View>
+
+      <ModelPriceEditDialog
+        visible={showEditDialog}
+        price={editingPrice}
+        onDismiss={() => setShowEditDialog(false)}
+        onSave={handleSave}
+      />
+    </SettingScreen>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 32,
+  },
+  footer: {
+    padding: 16,
+  },
+});
@@ -8,6 +8,7 @@ import { ProviderKeyManagementRepository } from '@/storage/repositories/provider
 import { ProviderModelsRepository } from '@/storage/repositories/provider-models';
 import { fetchProviderModels, type DiscoveredModel, validateProviderModel } from '@/services/ai';
 import { ModelDiscoveryDialog } from '@/components/settings/ModelDiscoveryDialog';
+import { StreamOutputSelector } from '@/components/settings/StreamOutputSelector';
 import { UnifiedDialog } from '@/components/common/UnifiedDialog';
 import { logger } from '@/utils/logger';
 
@@ -36,6 +37,7 @@ export default function ProviderConfig() {
 
   const [enabled, setEnabled] = useState(true);
   const [multiKeyEnabled, setMultiKeyEnabled] = useState(false);
+  const [streamOutput, setStreamOutput] = useState<boolean | null>(null);
   const [apiKey, setApiKey] = useState('');
   const [showKey, setShowKey] = useState(false);
   const [tab, setTab] = useState<'key' | 'base'>('key');
@@ -54,6 +56,7 @@ export default function ProviderConfig() {
       const cfg = await ProvidersRepository.getConfig(id);
       setEnabled(cfg.enabled);
       setBaseUrl(cfg.baseURL ?? '');
+      setStreamOutput(cfg.streamOutput ?? null);
       const key = await ProvidersRepository.getApiKey(id);
       setApiKey(key ?? '');
 
@@ -175,6 +178,13 @@ export default function ProviderConfig() {
             />
           )}
         />
+        <StreamOutputSelector
+          value={streamOutput}
+          onChange={async (v) => {
+            setStreamOutput(v);
+            await ProvidersRepository.setStreamOutput(meta.id as ProviderId, v);
+          }}
+        />
 
         {/* 多 Key 模式：显示管理入口 */}
         {multiKeyEnabled ? (
@@ -20,17 +20,20 @@ import {
 } from 'react-native-paper';
 import { ProviderKeysRepository } from '@/storage/repositories/provider-keys';
 import type { ApiKeyConfig, KeyStats } from '@/storage/types/api-key-config';
-import type { ProviderId } from '@/storage/repositories/providers';
+import type { AnyProviderId } from '@/storage/repositories/providers';
+import { CustomProvidersRepository } from '@/storage/repositories/custom-providers';
+import { isCustomProviderId } from '@/services/ai';
 import { maskApiKey } from '@/utils/mask-api-key';
 import { logger } from '@/utils/logger';
 
 export default function ProviderKeysManagement() {
   const theme = useTheme();
   const { vendor } = useLocalSearchParams<{ vendor: string }>();
-  const providerId = (vendor || 'openai') as ProviderId;
+  const providerId = (vendor || 'openai') as AnyProviderId;
 
   const [keys, setKeys] = useState<ApiKeyConfig[]>([]);
   const [stats, setStats] = useState<KeyStats | null>(null);
+  const [title, setTitle] = useState<string>(String(vendor || ''));
   const [snackbar, setSnackbar] = useState<{ visible: boolean; message: string }>({
     visible: false,
     message: '',
@@ -57,6 +60,14 @@ export default function ProviderKeysManagement() {
     }
   }, [providerId]);
 
+  // 自定义提供商显示其名称
+  useEffect(() => {
+    if (!isCustomProviderId(providerId)) return;
+    void CustomProvidersRepository.get(providerId).then((cp) => {
+      if (cp) setTitle(cp.name);
+    });
+  }, [providerId]);
+
   useEffect(() => {
     loadKeys();
     loadStats();
@@ -222,7 +233,7 @@ export default function ProviderKeysManagement() {
 
   return (
     <View style={{ flex: 1 }}>
-      <Stack.Screen options={{ title: `${vendor} - 多 Key 管理` }} />
+      <Stack.Screen options={{ title: `${title} - 多 Key 管理` }} />
 
       <ScrollView style={{ flex: 1 }}>
         {/* 统计卡片 */}
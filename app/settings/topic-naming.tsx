@@ -4,7 +4,8 @@
  * 功能：
  * - 对话默认模型设置
  * - 话题命名模型设置
- * - 翻译模型设置（TODO）
+ * - 翻译模型与目标语言设置
+ * - 对话记忆（滚动摘要）开关与模型设置
  * - 其他默认模型设置（TODO）
  */
 
@@ -18,8 +19,9 @@ import { ProvidersRepository, type ProviderId } from '@/storage/repositories/pro
 import { ProviderModelsRepository } from '@/storage/repositories/provider-models';
 import { CustomProvidersRepository } from '@/storage/repositories/custom-providers';
 import { UnifiedDialog } from '@/components/common/UnifiedDialog';
+import { DEFAULT_TRANSLATION_TARGET } from '@/services/ai';
 
-type ModelType = 'chat' | 'topicNaming' | 'translation';
+type ModelType = 'chat' | 'topicNaming' | 'translation' | 'memory';
 
 interface ModelSelection {
   provider: string;
@@ -69,6 +71,11 @@ export default function DefaultModelSettings() {
 
   // 翻译模型（TODO）
   const [translationModel, setTranslationModel] = useState<ModelSelection | null>(null);
+  const [translationTarget, setTranslationTarget] = useState<string>(DEFAULT_TRANSLATION_TARGET);
+
+  // 对话记忆模型
+  const [memoryEnabled, setMemoryEnabled] = useState<boolean>(false);
+  const [memoryModel, setMemoryModel] = useState<ModelSelection | null>(null);
 
   // 通用状态
   const [providers, setProviders] = useState<ProviderInfo[]>([]);
@@ -191,11 +198,32 @@ export default function DefaultModelSettings() {
         setNotice('上次选择的模型不可用，已自动切换');
       }
 
-      // 加载翻译模型设置（TODO）
-      // const translationProvider = (await sr.get<string>(SettingKey.TranslationProvider)) || null;
-      // const translationModelId = (await sr.get<string>(SettingKey.TranslationModel)) || null;
-      // const validatedTranslation = validateAndFixModel(translationProvider, translationModelId, allProviders);
-      // setTranslationModel(validatedTranslation.selection);
+      // 加载翻译模型设置
+      const translationProvider = (await sr.get<string>(SettingKey.TranslationProvider)) || null;
+      const translationModelId = (await sr.get<string>(SettingKey.TranslationModel)) || null;
+      // 未单独设置时跟随对话默认模型
+      if (translationProvider) {
+        const validatedTranslation = validateAndFixModel(translationProvider, translationModelId, allProviders);
+        setTranslationModel(validatedTranslation.selection);
+        if (validatedTranslation.changed) {
+          await sr.set(SettingKey.TranslationProvider, validatedTranslation.selection.provider);
+          await sr.set(SettingKey.TranslationModel, validatedTranslation.selection.model);
+        }
+      }
+      setTranslationTarget((await sr.get<string>(SettingKey.TranslationTargetLanguage)) ?? DEFAULT_TRANSLATION_TARGET);
+
+      // 加载对话记忆设置（未单独设置模型时跟随对话默认模型）
+      setMemoryEnabled((await sr.get<boolean>(SettingKey.ConversationMemoryEnabled)) ?? false);
+      const memoryProvider = (await sr.get<string>(SettingKey.ConversationMemoryProvider)) || null;
+      const memoryModelId = (await sr.get<string>(SettingKey.ConversationMemoryModel)) || null;
+      if (memoryProvider) {
+        const validatedMemory = validateAndFixModel(memoryProvider, memoryModelId, allProviders);
+        setMemoryModel(validatedMemory.selection);
+        if (validatedMemory.changed) {
+          await sr.set(SettingKey.ConversationMemoryProvider, validatedMemory.selection.provider);
+          await sr.set(SettingKey.ConversationMemoryModel, validatedMemory.selection.model);
+        }
+      }
     })();
   }, [sr]);
 
@@ -203,7 +231,11 @@ export default function DefaultModelSettings() {
   const openModelPicker = (type: ModelType) => {
     setCurrentEditingType(type);
     // 设置默认选中的标签
-    const currentSelection = type === 'chat' ? chatModel : type === 'topicNaming' ? topicNamingModel : translationModel;
+    const currentSelection =
+      type === 'chat' ? chatModel
+        : type === 'topicNaming' ? topicNamingModel
+          : type === 'translation' ? translationModel
+            : memoryModel;
     if (currentSelection) {
       setSelectedTab(currentSelection.provider);
     } else {
@@ -225,10 +257,13 @@ export default function DefaultModelSettings() {
       await sr.set(SettingKey.TopicNamingProvider, provider);
       await sr.set(SettingKey.TopicNamingModel, model);
     } else if (currentEditingType === 'translation') {
-      // TODO: 实现翻译模型保存
       setTranslationModel(selection);
       await sr.set(SettingKey.TranslationProvider, provider);
       await sr.set(SettingKey.TranslationModel, model);
+    } else if (currentEditingType === 'memory') {
+      setMemoryModel(selection);
+      await sr.set(SettingKey.ConversationMemoryProvider, provider);
+      await sr.set(SettingKey.ConversationMemoryModel, model);
     }
 
     setModelPickerOpen(false);
@@ -239,6 +274,7 @@ export default function DefaultModelSettings() {
     if (currentEditingType === 'chat') return chatModel;
     if (currentEditingType === 'topicNaming') return topicNamingModel;
     if (currentEditingType === 'translation') return translationModel;
+    if (currentEditingType === 'memory') return memoryModel;
     return null;
   };
 
@@ -317,6 +353,9 @@ export default function DefaultModelSettings() {
                 numberOfLines={3}
                 mode="outlined"
               />
+              <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, marginTop: 6 }}>
+                {'支持 {{date}} {{time}} 等日期变量；其他变量使用默认值，如 {{语言|中文}}'}
+              </Text>
             </View>
             <Divider style={{ marginHorizontal: 16 }} />
             <List.Item
@@ -334,23 +373,80 @@ export default function DefaultModelSettings() {
           </Card>
         </View>
 
-        {/* 翻译模型（TODO） */}
+        {/* 翻译模型 */}
         <View style={styles.section}>
           <Text variant="labelMedium" style={[styles.sectionTitle, { color: theme.colors.onSurfaceVariant }]}>
-            翻译模型 (即将推出)
+            翻译模型
           </Text>
-          <Card mode="outlined" style={[styles.card, { opacity: 0.6 }]}>
+          <Card mode="outlined" style={styles.card}>
             <List.Item
               title="翻译所用模型"
-              description="功能开发中..."
-              disabled
-              left={(props) => <List.Icon {...props} icon="translate" color={theme.colors.onSurfaceDisabled} />}
-              right={() => <Icon name="chevron-right" size={20} color={theme.colors.onSurfaceDisabled} />}
+              description={
+                translationModel
+                  ? `${getProviderName(translationModel.provider)} · ${translationModel.model}`
+                  : '跟随对话默认模型'
+              }
+              onPress={() => openModelPicker('translation')}
+              left={(props) => <List.Icon {...props} icon="translate" color={theme.colors.tertiary} />}
+              right={() => <Icon name="chevron-right" size={20} color={theme.colors.onSurfaceVariant} />}
+              style={{ paddingVertical: 4 }}
+            />
+            <Divider style={{ marginHorizontal: 16 }} />
+            <View style={{ padding: 16 }}>
+              <TextInput
+                label="消息译文目标语言"
+                value={translationTarget}
+                onChangeText={async (v) => {
+                  setTranslationTarget(v);
+                  await sr.set(SettingKey.TranslationTargetLanguage, v.trim() || DEFAULT_TRANSLATION_TARGET);
+                }}
+                mode="outlined"
+              />
+              <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, marginTop: 8 }}>
+                💡 输入框中的「翻译草稿」固定译为英文
+              </Text>
+            </View>
+          </Card>
+        </View>
+
+        {/* 对话记忆模型 */}
+        <View style={styles.section}>
+          <Text variant="labelMedium" style={[styles.sectionTitle, { color: theme.colors.onSurfaceVariant }]}>
+            对话记忆
+          </Text>
+          <Card mode="outlined" style={styles.card}>
+            <List.Item
+              title="启用滚动摘要"
+              description="超出上下文窗口的较早消息自动摘要，并作为系统消息发送"
+              descriptionNumberOfLines={2}
+              right={() => (
+                <Switch
+                  value={memoryEnabled}
+                  onValueChange={async (v) => {
+                    setMemoryEnabled(v);
+                    await sr.set(SettingKey.ConversationMemoryEnabled, v);
+                  }}
+                />
+              )}
+              style={{ paddingVertical: 4 }}
+            />
+            <Divider style={{ marginHorizontal: 16 }} />
+            <List.Item
+              title="摘要所用模型"
+              description={
+                memoryModel
+                  ? `${getProviderName(memoryModel.provider)} · ${memoryModel.model}`
+                  : '跟随对话默认模型'
+              }
+              onPress={() => openModelPicker('memory')}
+              left={(props) => <List.Icon {...props} icon="brain" color={theme.colors.secondary} />}
+              right={() => <Icon name="chevron-right" size={20} color={theme.colors.onSurfaceVariant} />}
               style={{ paddingVertical: 4 }}
             />
-            <View style={{ paddingHorizontal: 16, paddingBottom: 12 }}>
+            <Divider style={{ marginHorizontal: 16 }} />
+            <View style={{ padding: 16 }}>
               <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
-                💡 TODO: 添加翻译模型配置功能
+                💡 建议选择便宜的小模型；摘要可在话题菜单「话题记忆」中查看和编辑
               </Text>
             </View>
           </Card>
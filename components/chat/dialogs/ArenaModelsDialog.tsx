@@ -0,0 +1,128 @@
+/**
+ * 并排回答（arena）模型选择对话框
+ *
+ * 选择 2~4 个模型后，后续消息将同时发送给这些模型，各自的回答在同一轮下并排展示；
+ * 清空选择即关闭并排回答，恢复使用当前模型单独回答。
+ */
+
+import React from 'react';
+import { View } from 'react-native';
+import { Button, HelperText, IconButton, Text, useTheme } from 'react-native-paper';
+import { UnifiedDialog, type UnifiedDialogAction } from '@/components/common/UnifiedDialog';
+import { ARENA_MAX_MODELS, ARENA_MIN_MODELS } from '@/hooks/use-message-sender';
+import { ModelPickerDialog } from './ModelPickerDialog';
+
+type ArenaModel = { provider: string; model: string };
+
+export interface ArenaModelsDialogProps {
+  visible: boolean;
+  onDismiss: () => void;
+  models: ArenaModel[];
+  onChangeModels: (models: ArenaModel[]) => void;
+}
+
+export function ArenaModelsDialog({ visible, onDismiss, models, onChangeModels }: ArenaModelsDialogProps) {
+  const theme = useTheme();
+  const [draft, setDraft] = React.useState<ArenaModel[]>([]);
+  const [pickerVisible, setPickerVisible] = React.useState(false);
+  const [error, setError] = React.useState('');
+
+  React.useEffect(() => {
+    if (visible) {
+      setDraft(models);
+      setPickerVisible(false);
+      setError('');
+    }
+  }, [visible, models]);
+
+  const handlePick = (provider: string, model: string) => {
+    setDraft((prev) =>
+      prev.some((m) => m.provider === provider && m.model === model) ? prev : [...prev, { provider, model }]
+    );
+    setError('');
+    setPickerVisible(false);
+  };
+
+  const handleSave = () => {
+    if (draft.length > 0 && draft.length < ARENA_MIN_MODELS) {
+      setError(`至少选择 ${ARENA_MIN_MODELS} 个模型`);
+      return;
+    }
+    onChangeModels(draft);
+    onDismiss();
+  };
+
+  const handleDisable = () => {
+    onChangeModels([]);
+    onDismiss();
+  };
+
+  const actions: UnifiedDialogAction[] = [
+    ...(models.length > 0 ? [{ text: '关闭并排', onPress: handleDisable }] : []),
+    { text: '取消', type: 'cancel', onPress: onDismiss },
+    { text: '确定', type: 'primary', onPress: handleSave },
+  ];
+
+  return (
+    <>
+      <UnifiedDialog
+        visible={visible && !pickerVisible}
+        onClose={onDismiss}
+        title="并排回答"
+        icon="view-column"
+        iconColor={models.length > 0 ? theme.colors.primary : theme.colors.onSurfaceVariant}
+        actions={actions}
+      >
+        <View style={{ gap: 8 }}>
+          <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+            同一条消息同时发送给 {ARENA_MIN_MODELS}~{ARENA_MAX_MODELS} 个模型，回答并排展示。
+            标记为首选的回答将作为后续对话的上下文。
+          </Text>
+
+          {draft.length === 0 ? (
+            <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+              尚未选择模型
+            </Text>
+          ) : (
+            draft.map((m, index) => (
+              <View key={`${m.provider}/${m.model}`} style={{ flexDirection: 'row', alignItems: 'center' }}>
+                <Text variant="bodyMedium" style={{ flex: 1 }} numberOfLines={1}>
+                  {index + 1}. {m.provider} / {m.model}
+                </Text>
+                <IconButton
+                  icon="close"
+                  size={18}
+                  iconColor={theme.colors.error}
+                  onPress={() => setDraft((prev) => prev.filter((_, i) => i !== index))}
+                  style={{ margin: 0 }}
+                />
+              </View>
+            ))
+          )}
+
+          <Button
+            mode="text"
+            icon="plus"
+            disabled={draft.length >= ARENA_MAX_MODELS}
+            onPress={() => setPickerVisible(true)}
+          >
+            添加模型
+          </Button>
+
+          {!!error && (
+            <HelperText type="error" visible={!!error}>
+              {error}
+            </HelperText>
+          )}
+        </View>
+      </UnifiedDialog>
+
+      <ModelPickerDialog
+        visible={visible && pickerVisible}
+        onDismiss={() => setPickerVisible(false)}
+        currentModel={null}
+        onModelSelect={handlePick}
+      />
+    </>
+  );
+}
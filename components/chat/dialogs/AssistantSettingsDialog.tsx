@@ -0,0 +1,80 @@
+/**
+ * ⚙️ 助手对话设置对话框
+ *
+ * 功能：
+ * - 固定助手使用的模型
+ * - 温度、最大令牌数、上下文数目（未自定义时跟随全局设置）
+ * - 绑定可用的 MCP 服务器与工具、MCP 与网络搜索开关
+ */
+
+import React, { useEffect, useState } from 'react';
+import { UnifiedDialog } from '@/components/common/UnifiedDialog';
+import type { Assistant, AssistantSettings } from '@/types/assistant';
+import { ChatSettingsOverrideForm } from './ChatSettingsOverrideForm';
+import { ModelPickerDialog } from './ModelPickerDialog';
+
+export interface AssistantSettingsDialogProps {
+  visible: boolean;
+  assistant: Assistant | null;
+  onDismiss: () => void;
+  onSave: (settings: AssistantSettings) => Promise<void>;
+}
+
+export function AssistantSettingsDialog({ visible, assistant, onDismiss, onSave }: AssistantSettingsDialogProps) {
+  const [settings, setSettings] = useState<AssistantSettings>({});
+  const [modelPickerOpen, setModelPickerOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setSettings(assistant?.settings ?? {});
+    }
+  }, [visible, assistant]);
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await onSave(settings);
+      onDismiss();
+    } catch {
+      // 保存失败时保持对话框打开
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <UnifiedDialog
+        visible={visible && !modelPickerOpen}
+        onClose={onDismiss}
+        title={assistant ? `${assistant.emoji || '🤖'} ${assistant.name}` : '助手设置'}
+        icon="tune-variant"
+        actions={[
+          { text: '取消', type: 'cancel', onPress: onDismiss },
+          { text: saving ? '保存中...' : '保存', type: 'primary', onPress: handleSave, disabled: saving },
+        ]}
+      >
+        <ChatSettingsOverrideForm
+          visible={visible}
+          settings={settings}
+          onChange={setSettings}
+          inheritLabel="跟随全局"
+          toggleInheritLabel="跟随输入框"
+          modelPlaceholder="未固定（使用当前选择的模型）"
+          onPickModel={() => setModelPickerOpen(true)}
+        />
+      </UnifiedDialog>
+
+      <ModelPickerDialog
+        visible={modelPickerOpen}
+        onDismiss={() => setModelPickerOpen(false)}
+        currentModel={settings.model ?? null}
+        onModelSelect={(provider, model) => {
+          setSettings((prev) => ({ ...prev, model: { provider, model } }));
+          setModelPickerOpen(false);
+        }}
+      />
+    </>
+  );
+}
@@ -5,6 +5,7 @@
  * - 模型温度（Temperature）调节
  * - 最大令牌数（Max tokens）设置
  * - 上下文数目（Context count）设置
+ * - 上下文 Token 预算（关闭时按模型上下文窗口自动计算）
  * - 流式输出（Stream output）开关
  */
 
@@ -23,6 +24,7 @@ export function ChatSettings() {
   const [maxTokens, setMaxTokens] = useState(2048);
   const [maxTokensEnabled, setMaxTokensEnabled] = useState(false);
   const [contextCount, setContextCount] = useState(10);
+  const [contextBudget, setContextBudget] = useState(0); // 0 = 自动
   const [streamOutput, setStreamOutput] = useState(true);
   // 移除系统提示词设置，统一使用助手的提示词
 
@@ -33,12 +35,14 @@ export function ChatSettings() {
       const tokens = await sr.get<number>(SettingKey.ChatMaxTokens);
       const tokensEnabled = await sr.get<boolean>(SettingKey.ChatMaxTokensEnabled);
       const context = await sr.get<number>(SettingKey.ChatContextCount);
+      const budget = await sr.get<number>(SettingKey.ChatContextTokenBudget);
       const stream = await sr.get<boolean>(SettingKey.ChatStreamOutput);
 
       if (temp !== null) setTemperature(temp);
       if (tokens !== null) setMaxTokens(tokens);
       if (tokensEnabled !== null) setMaxTokensEnabled(tokensEnabled);
       if (context !== null) setContextCount(context);
+      if (budget !== null) setContextBudget(budget);
       if (stream !== null) setStreamOutput(stream);
       // no-op: 系统提示词设置已移除
     })();
@@ -67,6 +71,11 @@ export function ChatSettings() {
     await sr.set(SettingKey.ChatContextCount, value);
   };
 
+  const saveContextBudget = async (value: number) => {
+    setContextBudget(value);
+    await sr.set(SettingKey.ChatContextTokenBudget, value);
+  };
+
   const saveStreamOutput = async (value: boolean) => {
     setStreamOutput(value);
     await sr.set(SettingKey.ChatStreamOutput, value);
@@ -152,6 +161,41 @@ export function ChatSettings() {
         />
       </View>
 
+      {/* 上下文 Token 预算设置 */}
+      <View style={styles.settingItem}>
+        <View style={styles.settingHeader}>
+          <View style={{ flex: 1 }}>
+            <Text variant="bodyMedium">上下文 Token 预算</Text>
+            <Text variant="bodySmall" style={[styles.description, { color: theme.colors.onSurfaceVariant, marginTop: 4 }]}>
+              按预算从最新消息往前装填历史，固定的消息始终发送。关闭则按模型上下文窗口自动计算
+            </Text>
+          </View>
+          <Switch
+            value={contextBudget > 0}
+            onValueChange={(enabled) => saveContextBudget(enabled ? 16000 : 0)}
+          />
+        </View>
+        {contextBudget > 0 && (
+          <>
+            <View style={styles.settingHeader}>
+              <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                输入 Token 上限
+              </Text>
+              <Text variant="bodyMedium" style={{ color: theme.colors.primary }}>{contextBudget}</Text>
+            </View>
+            <Slider
+              value={contextBudget}
+              onValueChange={saveContextBudget}
+              minimumValue={2000}
+              maximumValue={128000}
+              step={2000}
+              style={styles.slider}
+              minimumTrackTintColor={theme.colors.primary}
+            />
+          </>
+        )}
+      </View>
+
       {/* 系统提示词设置已移除：对话仅使用助手提示词 */}
 
       {/* Stream output 开关 */}
@@ -160,7 +204,7 @@ export function ChatSettings() {
           <View style={{ flex: 1 }}>
             <Text variant="bodyMedium">流式输出</Text>
             <Text variant="bodySmall" style={[styles.description, { color: theme.colors.onSurfaceVariant }]}>
-              实时显示 AI 回复内容（推荐开启）
+              实时显示 AI 回复内容（推荐开启）。可在提供商设置中单独覆盖
             </Text>
           </View>
           <Switch value={streamOutput} onValueChange={saveStreamOutput} />
@@ -0,0 +1,413 @@
+/**
+ * ⚙️ 对话设置覆盖表单（助手设置与话题设置共用）
+ *
+ * 功能：
+ * - 固定模型、系统提示词（可选）
+ * - 温度、最大令牌数、上下文数目（未自定义时跟随上一级设置）
+ * - 绑定可用的 MCP 服务器与工具、MCP 与网络搜索开关
+ * - 结构化输出 JSON Schema（回答必须为符合 Schema 的 JSON）
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Checkbox, Chip, Divider, HelperText, IconButton, List, SegmentedButtons, Switch, Text, TextInput, useTheme } from 'react-native-paper';
+import Slider from '@react-native-community/slider';
+import { mcpClient } from '@/services/mcp/McpClient';
+import { parseJsonSchema } from '@/services/ai/structured/StructuredOutput';
+import { McpServersRepository } from '@/storage/repositories/mcp';
+import type { TopicSettings } from '@/storage/types/topic-settings';
+import type { MCPServer } from '@/types/mcp';
+import { logger } from '@/utils/logger';
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 2048;
+const DEFAULT_CONTEXT_COUNT = 10;
+const DEFAULT_JSON_SCHEMA = JSON.stringify(
+  {
+    type: 'object',
+    properties: {
+      result: { type: 'string' },
+    },
+    required: ['result'],
+  },
+  null,
+  2
+);
+
+type ToggleValue = 'inherit' | 'on' | 'off';
+type MaxTokensMode = 'inherit' | 'auto' | 'custom';
+
+function toToggle(value: boolean | undefined): ToggleValue {
+  return value === undefined ? 'inherit' : value ? 'on' : 'off';
+}
+
+function fromToggle(value: ToggleValue): boolean | undefined {
+  return value === 'inherit' ? undefined : value === 'on';
+}
+
+export interface ChatSettingsOverrideFormProps {
+  /** 表单可见时加载 MCP 服务器与工具 */
+  visible: boolean;
+  settings: TopicSettings;
+  onChange: React.Dispatch<React.SetStateAction<TopicSettings>>;
+  /** 未自定义时的说明（如“跟随全局”“跟随助手”） */
+  inheritLabel: string;
+  /** 开关类设置未自定义时的说明 */
+  toggleInheritLabel: string;
+  /** 未固定模型时的说明 */
+  modelPlaceholder: string;
+  /** 是否显示系统提示词输入框 */
+  showSystemPrompt?: boolean;
+  onPickModel: () => void;
+}
+
+export function ChatSettingsOverrideForm({
+  visible,
+  settings,
+  onChange,
+  inheritLabel,
+  toggleInheritLabel,
+  modelPlaceholder,
+  showSystemPrompt = false,
+  onPickModel,
+}: ChatSettingsOverrideFormProps) {
+  const theme = useTheme();
+
+  // MCP 服务器与工具
+  const [servers, setServers] = useState<MCPServer[]>([]);
+  const [toolsByServer, setToolsByServer] = useState<Record<string, string[]>>({});
+
+  useEffect(() => {
+    if (!visible) return;
+    let mounted = true;
+    (async () => {
+      try {
+        const list = await McpServersRepository.getActiveServers();
+        if (!mounted) return;
+        setServers(list);
+
+        const entries = await Promise.all(
+          list.map(async (server) => {
+            try {
+              const tools = await mcpClient.listTools(server.id);
+              const disabledTools = new Set(server.disabledTools ?? []);
+              return [server.id, tools.filter((t) => !disabledTools.has(t.name)).map((t) => t.name)] as const;
+            } catch (e) {
+              logger.warn('[ChatSettingsOverrideForm] 加载服务器工具失败', { serverId: server.id, e });
+              return [server.id, [] as string[]] as const;
+            }
+          })
+        );
+        if (mounted) setToolsByServer(Object.fromEntries(entries));
+      } catch (e) {
+        logger.warn('[ChatSettingsOverrideForm] 加载 MCP 服务器失败', e);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [visible]);
+
+  const update = useCallback((patch: Partial<TopicSettings>) => {
+    onChange((prev) => ({ ...prev, ...patch }));
+  }, [onChange]);
+
+  const maxTokensMode: MaxTokensMode =
+    settings.maxTokens === undefined ? 'inherit' : settings.maxTokens === null ? 'auto' : 'custom';
+
+  // 当前可选的工具（仅包含已选择服务器的工具）
+  const availableTools = useMemo(() => {
+    const serverIds = settings.mcpServerIds ?? servers.map((s) => s.id);
+    return serverIds.flatMap((id) => toolsByServer[id] ?? []);
+  }, [settings.mcpServerIds, servers, toolsByServer]);
+
+  const toggleServer = useCallback((serverId: string) => {
+    onChange((prev) => {
+      const current = prev.mcpServerIds ?? servers.map((s) => s.id);
+      const next = current.includes(serverId)
+        ? current.filter((id) => id !== serverId)
+        : [...current, serverId];
+      // 全部选中时视为不限制，新激活的服务器也可使用
+      const allSelected = servers.every((s) => next.includes(s.id));
+      return { ...prev, mcpServerIds: allSelected ? undefined : next };
+    });
+  }, [servers, onChange]);
+
+  const toggleTool = useCallback((toolName: string) => {
+    onChange((prev) => {
+      const current = prev.mcpToolNames ?? availableTools;
+      const next = current.includes(toolName)
+        ? current.filter((name) => name !== toolName)
+        : [...current, toolName];
+      const allSelected = availableTools.every((name) => next.includes(name));
+      return { ...prev, mcpToolNames: allSelected ? undefined : next };
+    });
+  }, [availableTools, onChange]);
+
+  // JSON Schema 格式检查（仅提示，保存时不拦截）
+  const jsonSchemaError = useMemo(() => {
+    if (!settings.jsonSchema) return '';
+    try {
+      parseJsonSchema(settings.jsonSchema);
+      return '';
+    } catch (e) {
+      return (e as Error).message;
+    }
+  }, [settings.jsonSchema]);
+
+  const toggleButtons = useMemo(() => [
+    { value: 'inherit', label: toggleInheritLabel },
+    { value: 'on', label: '开启' },
+    { value: 'off', label: '关闭' },
+  ], [toggleInheritLabel]);
+
+  return (
+    <View style={{ gap: 4 }}>
+      {/* 模型 */}
+      <List.Item
+        title="模型"
+        description={settings.model ? settings.model.model : modelPlaceholder}
+        left={(p) => <List.Icon {...p} icon="chip" />}
+        right={() =>
+          settings.model ? (
+            <IconButton icon="close" size={18} onPress={() => update({ model: undefined })} />
+          ) : null
+        }
+        onPress={onPickModel}
+        style={styles.listItem}
+      />
+
+      {showSystemPrompt && (
+        <TextInput
+          mode="outlined"
+          label="系统提示词"
+          placeholder={`留空则${inheritLabel}`}
+          value={settings.systemPrompt ?? ''}
+          onChangeText={(v) => update({ systemPrompt: v.trim() ? v : undefined })}
+          multiline
+          numberOfLines={4}
+          style={styles.promptInput}
+        />
+      )}
+
+      <Divider />
+
+      {/* Temperature */}
+      <View style={styles.settingItem}>
+        <View style={styles.settingHeader}>
+          <Text variant="bodyMedium">自定义 Temperature</Text>
+          <Switch
+            value={settings.temperature !== undefined}
+            onValueChange={(v) => update({ temperature: v ? DEFAULT_TEMPERATURE : undefined })}
+          />
+        </View>
+        {settings.temperature !== undefined && (
+          <>
+            <Text variant="bodyMedium" style={{ color: theme.colors.primary, alignSelf: 'flex-end' }}>
+              {settings.temperature.toFixed(1)}
+            </Text>
+            <Slider
+              value={settings.temperature}
+              onValueChange={(v) => update({ temperature: parseFloat(v.toFixed(1)) })}
+              minimumValue={0}
+              maximumValue={2}
+              step={0.1}
+              style={styles.slider}
+              minimumTrackTintColor={theme.colors.primary}
+            />
+          </>
+        )}
+      </View>
+
+      {/* Max tokens */}
+      <View style={styles.settingItem}>
+        <Text variant="bodyMedium" style={{ marginBottom: 8 }}>Max tokens</Text>
+        <SegmentedButtons
+          value={maxTokensMode}
+          onValueChange={(v) => {
+            const mode = v as MaxTokensMode;
+            update({
+              maxTokens: mode === 'inherit' ? undefined : mode === 'auto' ? null : DEFAULT_MAX_TOKENS,
+            });
+          }}
+          buttons={[
+            { value: 'inherit', label: inheritLabel },
+            { value: 'auto', label: '不限制' },
+            { value: 'custom', label: '自定义' },
+          ]}
+        />
+        {typeof settings.maxTokens === 'number' && (
+          <>
+            <Text variant="bodyMedium" style={{ color: theme.colors.primary, alignSelf: 'flex-end', marginTop: 8 }}>
+              {settings.maxTokens}
+            </Text>
+            <Slider
+              value={settings.maxTokens}
+              onValueChange={(v) => update({ maxTokens: v })}
+              minimumValue={256}
+              maximumValue={8192}
+              step={256}
+              style={styles.slider}
+              minimumTrackTintColor={theme.colors.primary}
+            />
+          </>
+        )}
+      </View>
+
+      {/* Context count */}
+      <View style={styles.settingItem}>
+        <View style={styles.settingHeader}>
+          <Text variant="bodyMedium">自定义上下文数目</Text>
+          <Switch
+            value={settings.contextCount !== undefined}
+            onValueChange={(v) => update({ contextCount: v ? DEFAULT_CONTEXT_COUNT : undefined })}
+          />
+        </View>
+        {settings.contextCount !== undefined && (
+          <>
+            <Text variant="bodyMedium" style={{ color: theme.colors.primary, alignSelf: 'flex-end' }}>
+              {settings.contextCount}
+            </Text>
+            <Slider
+              value={settings.contextCount}
+              onValueChange={(v) => update({ contextCount: v })}
+              minimumValue={0}
+              maximumValue={20}
+              step={1}
+              style={styles.slider}
+              minimumTrackTintColor={theme.colors.primary}
+            />
+          </>
+        )}
+      </View>
+
+      <Divider />
+
+      {/* 网络搜索 */}
+      <View style={styles.settingItem}>
+        <Text variant="bodyMedium" style={{ marginBottom: 8 }}>网络搜索</Text>
+        <SegmentedButtons
+          value={toToggle(settings.enableWebSearch)}
+          onValueChange={(v) => update({ enableWebSearch: fromToggle(v as ToggleValue) })}
+          buttons={toggleButtons}
+        />
+      </View>
+
+      {/* MCP 工具 */}
+      <View style={styles.settingItem}>
+        <Text variant="bodyMedium" style={{ marginBottom: 8 }}>MCP 工具</Text>
+        <SegmentedButtons
+          value={toToggle(settings.enableMcpTools)}
+          onValueChange={(v) => update({ enableMcpTools: fromToggle(v as ToggleValue) })}
+          buttons={toggleButtons}
+        />
+      </View>
+
+      {settings.enableMcpTools !== false && (
+        <View style={styles.settingItem}>
+          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, marginBottom: 4 }}>
+            可用的服务器与工具（全部选中表示不限制）
+          </Text>
+          {servers.length === 0 ? (
+            <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+              暂无激活的 MCP 服务器
+            </Text>
+          ) : (
+            servers.map((server) => {
+              const serverSelected = !settings.mcpServerIds || settings.mcpServerIds.includes(server.id);
+              const tools = toolsByServer[server.id] ?? [];
+              return (
+                <View key={server.id}>
+                  <Checkbox.Item
+                    label={server.name}
+                    status={serverSelected ? 'checked' : 'unchecked'}
+                    onPress={() => toggleServer(server.id)}
+                    position="leading"
+                    style={styles.checkboxItem}
+                  />
+                  {serverSelected && tools.length > 0 && (
+                    <View style={styles.toolChips}>
+                      {tools.map((name) => (
+                        <Chip
+                          key={name}
+                          compact
+                          mode="outlined"
+                          selected={!settings.mcpToolNames || settings.mcpToolNames.includes(name)}
+                          onPress={() => toggleTool(name)}
+                        >
+                          {name}
+                        </Chip>
+                      ))}
+                    </View>
+                  )}
+                </View>
+              );
+            })
+          )}
+        </View>
+      )}
+
+      <Divider />
+
+      {/* 结构化输出 */}
+      <View style={styles.settingItem}>
+        <View style={styles.settingHeader}>
+          <Text variant="bodyMedium">结构化输出（JSON Schema）</Text>
+          <Switch
+            value={settings.jsonSchema !== undefined}
+            onValueChange={(v) => update({ jsonSchema: v ? DEFAULT_JSON_SCHEMA : undefined })}
+          />
+        </View>
+        {settings.jsonSchema !== undefined && (
+          <>
+            <TextInput
+              mode="outlined"
+              value={settings.jsonSchema}
+              onChangeText={(v) => update({ jsonSchema: v })}
+              multiline
+              numberOfLines={6}
+              autoCapitalize="none"
+              autoCorrect={false}
+              style={[styles.promptInput, { fontFamily: 'monospace', fontSize: 12 }]}
+            />
+            <HelperText type={jsonSchemaError ? 'error' : 'info'} visible>
+              {jsonSchemaError || '回答将被约束为符合该 Schema 的 JSON，期间不使用 MCP 工具'}
+            </HelperText>
+          </>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  listItem: {
+    paddingHorizontal: 0,
+  },
+  promptInput: {
+    marginVertical: 8,
+  },
+  settingItem: {
+    paddingVertical: 8,
+  },
+  settingHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  slider: {
+    width: '100%',
+    height: 40,
+  },
+  checkboxItem: {
+    paddingHorizontal: 0,
+    paddingVertical: 2,
+  },
+  toolChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    paddingLeft: 36,
+    paddingBottom: 8,
+  },
+});
@@ -0,0 +1,81 @@
+/**
+ * MCP 提示词参数填写对话框
+ *
+ * 通过斜杠命令选择的 MCP 提示词声明了参数时，按参数定义生成表单；
+ * 必填参数未填写时无法确认。
+ * 样式统一：使用 UnifiedDialog
+ */
+
+import { UnifiedDialog } from '@/components/common/UnifiedDialog';
+import type { MCPPrompt } from '@/types/mcp';
+import { useEffect, useState } from 'react';
+import { ScrollView, View } from 'react-native';
+import { HelperText, Text, TextInput, useTheme } from 'react-native-paper';
+
+interface McpPromptArgumentsDialogProps {
+  visible: boolean;
+  prompt: MCPPrompt | null;
+  onDismiss: () => void;
+  onSubmit: (args: Record<string, string>) => void;
+}
+
+export function McpPromptArgumentsDialog({ visible, prompt, onDismiss, onSubmit }: McpPromptArgumentsDialogProps) {
+  const theme = useTheme();
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (visible) {
+      setValues({});
+    }
+  }, [visible, prompt]);
+
+  const promptArguments = prompt?.arguments ?? [];
+  const missingRequired = promptArguments.some((arg) => arg.required && !values[arg.name]?.trim());
+
+  const handleSubmit = () => {
+    // 未填写的可选参数不传递
+    const args: Record<string, string> = {};
+    for (const arg of promptArguments) {
+      const value = values[arg.name]?.trim();
+      if (value) args[arg.name] = value;
+    }
+    onSubmit(args);
+  };
+
+  return (
+    <UnifiedDialog
+      visible={visible}
+      onClose={onDismiss}
+      title={prompt ? `/${prompt.name}` : ''}
+      icon="slash-forward-box"
+      actions={[
+        { text: '取消', type: 'cancel', onPress: onDismiss },
+        { text: '确定', type: 'primary', onPress: handleSubmit, disabled: missingRequired },
+      ]}
+    >
+      <ScrollView style={{ maxHeight: 360 }} keyboardShouldPersistTaps="handled">
+        <View style={{ gap: 4 }}>
+          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, marginBottom: 4 }}>
+            {prompt?.description || `来自 ${prompt?.serverName ?? ''}`}
+          </Text>
+          {promptArguments.map((arg) => (
+            <View key={arg.name}>
+              <TextInput
+                mode="outlined"
+                label={arg.required ? `${arg.name} *` : arg.name}
+                value={values[arg.name] ?? ''}
+                onChangeText={(text) => setValues((prev) => ({ ...prev, [arg.name]: text }))}
+                multiline
+              />
+              {arg.description ? (
+                <HelperText type="info" visible>
+                  {arg.description}
+                </HelperText>
+              ) : null}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </UnifiedDialog>
+  );
+}
@@ -0,0 +1,108 @@
+/**
+ * MCP 资源选择对话框
+ *
+ * 列出已激活服务器提供的资源，选择后将资源内容作为附件加入当前消息
+ * 样式统一：使用 UnifiedDialog
+ */
+
+import { UnifiedDialog } from '@/components/common/UnifiedDialog';
+import { mcpClient } from '@/services/mcp/McpClient';
+import { McpServersRepository } from '@/storage/repositories/mcp';
+import type { MCPResource, MCPServer } from '@/types/mcp';
+import { logger } from '@/utils/logger';
+import { router } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { ScrollView, View } from 'react-native';
+import { ActivityIndicator, List, Text, useTheme } from 'react-native-paper';
+
+interface McpResourcePickerDialogProps {
+  visible: boolean;
+  onDismiss: () => void;
+  onSelect: (resource: MCPResource) => void;
+}
+
+export function McpResourcePickerDialog({ visible, onDismiss, onSelect }: McpResourcePickerDialogProps) {
+  const theme = useTheme();
+  const [loading, setLoading] = useState(false);
+  const [servers, setServers] = useState<MCPServer[]>([]);
+  const [resourcesByServer, setResourcesByServer] = useState<Record<string, MCPResource[]>>({});
+
+  useEffect(() => {
+    if (!visible) return;
+    let mounted = true;
+    (async () => {
+      try {
+        setLoading(true);
+        const list = await McpServersRepository.getActiveServers();
+        const entries = await Promise.all(
+          list.map(async (server) => {
+            try {
+              return [server.id, await mcpClient.listResources(server.id)] as const;
+            } catch (e) {
+              logger.warn('[McpResourcePickerDialog] 加载服务器资源失败', { serverId: server.id, e });
+              return [server.id, [] as MCPResource[]] as const;
+            }
+          })
+        );
+        if (!mounted) return;
+        setServers(list);
+        setResourcesByServer(Object.fromEntries(entries));
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [visible]);
+
+  const serversWithResources = servers.filter((s) => (resourcesByServer[s.id] ?? []).length > 0);
+
+  return (
+    <UnifiedDialog
+      visible={visible}
+      onClose={onDismiss}
+      title="添加 MCP 资源"
+      icon="database-import"
+      actions={[
+        { text: '去设置', type: 'neutral', onPress: () => { onDismiss(); router.push('/settings/mcp-server'); } },
+        { text: '取消', type: 'cancel', onPress: onDismiss },
+      ]}
+    >
+      {loading ? (
+        <View style={{ alignItems: 'center', paddingVertical: 24 }}>
+          <ActivityIndicator />
+          <Text style={{ marginTop: 8, color: theme.colors.onSurfaceVariant }}>正在获取资源列表…</Text>
+        </View>
+      ) : serversWithResources.length === 0 ? (
+        <Text style={{ color: theme.colors.onSurfaceVariant }}>
+          已激活的服务器没有提供资源
+        </Text>
+      ) : (
+        <ScrollView style={{ maxHeight: 420 }} nestedScrollEnabled>
+          {serversWithResources.map((server) => (
+            <List.Section key={server.id} style={{ marginVertical: 0 }}>
+              <List.Subheader style={{ paddingHorizontal: 0 }}>{server.name}</List.Subheader>
+              {resourcesByServer[server.id].map((resource) => (
+                <List.Item
+                  key={resource.uri}
+                  title={resource.name || resource.uri}
+                  description={resource.description || resource.uri}
+                  descriptionNumberOfLines={2}
+                  left={(props) => (
+                    <List.Icon {...props} icon={resource.mimeType?.startsWith('image/') ? 'file-image' : 'file-document-outline'} />
+                  )}
+                  onPress={() => {
+                    onSelect(resource);
+                    onDismiss();
+                  }}
+                  style={{ paddingHorizontal: 0 }}
+                />
+              ))}
+            </List.Section>
+          ))}
+        </ScrollView>
+      )}
+    </UnifiedDialog>
+  );
+}
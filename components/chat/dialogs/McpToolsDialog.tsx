@@ -1,17 +1,23 @@
 /**
- * MCP 工具开关与服务器查看对话框
+ * MCP 工具开关与工具选择对话框
  *
- * 展示：已激活的 MCP 服务器列表 + 对话内是否启用 MCP 工具的开关
+ * 展示：对话内是否启用 MCP 工具的开关 + 已激活服务器中已启用的工具
  * 说明：启用后，后续对话发送将注入工具（enableMcpTools=true），
- *       工具来源为“设置 > MCP 服务端”中标记为激活的服务器。
+ *       工具来源为“设置 > MCP 服务端”中标记为激活的服务器（不含在服务器设置中禁用的工具）；
+ *       可为当前话题只选择其中部分工具（保存为话题设置）。
  */
 
 import React from 'react';
-import { View } from 'react-native';
+import { ScrollView, View } from 'react-native';
 import { Chip, Divider, Switch, Text, useTheme } from 'react-native-paper';
 import { UnifiedDialog } from '@/components/common/UnifiedDialog';
 import { McpServersRepository } from '@/storage/repositories/mcp';
+import { ChatRepository } from '@/storage/repositories/chat';
+import { mcpClient } from '@/services/mcp/McpClient';
 import type { MCPServer } from '@/types/mcp';
+import { appEvents, AppEvents } from '@/utils/events';
+import { loadChatSettings } from '@/utils/chat-settings';
+import { logger } from '@/utils/logger';
 import { router } from 'expo-router';
 
 export interface McpToolsDialogProps {
@@ -19,12 +25,17 @@ export interface McpToolsDialogProps {
   onDismiss: () => void;
   enabled: boolean;
   onChangeEnabled: (v: boolean) => void;
+  /** 当前话题（为空时无法保存话题的工具选择） */
+  conversationId?: string | null;
 }
 
-export function McpToolsDialog({ visible, onDismiss, enabled, onChangeEnabled }: McpToolsDialogProps) {
+export function McpToolsDialog({ visible, onDismiss, enabled, onChangeEnabled, conversationId }: McpToolsDialogProps) {
   const theme = useTheme();
   const [loading, setLoading] = React.useState(false);
   const [servers, setServers] = React.useState<MCPServer[]>([]);
+  const [toolsByServer, setToolsByServer] = React.useState<Record<string, string[]>>({});
+  // 当前生效的工具限定（未设置表示全部可用工具）
+  const [selectedTools, setSelectedTools] = React.useState<string[] | undefined>(undefined);
 
   React.useEffect(() => {
     if (!visible) return;
@@ -32,8 +43,28 @@ export function McpToolsDialog({ visible, onDismiss, enabled, onChangeEnabled }:
     (async () => {
       try {
         setLoading(true);
-        const list = await McpServersRepository.getActiveServers();
-        if (mounted) setServers(list);
+        const { settings } = await loadChatSettings(conversationId ?? null);
+        const allowedServers = settings.mcpServerIds ? new Set(settings.mcpServerIds) : null;
+        const list = (await McpServersRepository.getActiveServers())
+          .filter((s) => !allowedServers || allowedServers.has(s.id));
+        if (!mounted) return;
+        setServers(list);
+        setSelectedTools(settings.mcpToolNames);
+
+        // 仅列出在服务器设置中启用的工具
+        const entries = await Promise.all(
+          list.map(async (server) => {
+            try {
+              const disabledTools = new Set(server.disabledTools ?? []);
+              const tools = await mcpClient.listTools(server.id);
+              return [server.id, tools.filter((t) => !disabledTools.has(t.name)).map((t) => t.name)] as const;
+            } catch (e) {
+              logger.warn('[McpToolsDialog] 加载服务器工具失败', { serverId: server.id, e });
+              return [server.id, [] as string[]] as const;
+            }
+          })
+        );
+        if (mounted) setToolsByServer(Object.fromEntries(entries));
       } finally {
         if (mounted) setLoading(false);
       }
@@ -41,7 +72,32 @@ export function McpToolsDialog({ visible, onDismiss, enabled, onChangeEnabled }:
     return () => {
       mounted = false;
     };
-  }, [visible]);
+  }, [visible, conversationId]);
+
+  const availableTools = React.useMemo(
+    () => servers.flatMap((s) => toolsByServer[s.id] ?? []),
+    [servers, toolsByServer]
+  );
+
+  // 切换工具：保存为话题设置（全部选中时视为不限制，新增的工具也可使用）
+  const toggleTool = React.useCallback(async (toolName: string) => {
+    if (!conversationId) return;
+    const current = selectedTools ?? availableTools;
+    const next = current.includes(toolName)
+      ? current.filter((name) => name !== toolName)
+      : [...current, toolName];
+    const allSelected = availableTools.every((name) => next.includes(name));
+    const mcpToolNames = allSelected ? undefined : next;
+    setSelectedTools(mcpToolNames);
+
+    try {
+      const topic = await ChatRepository.getTopicSettings(conversationId);
+      await ChatRepository.setTopicSettings(conversationId, { ...topic, mcpToolNames });
+      appEvents.emit(AppEvents.TOPIC_SETTINGS_CHANGED, conversationId);
+    } catch (e) {
+      logger.error('[McpToolsDialog] 保存话题工具选择失败', e);
+    }
+  }, [conversationId, selectedTools, availableTools]);
 
   return (
     <UnifiedDialog
@@ -70,8 +126,13 @@ export function McpToolsDialog({ visible, onDismiss, enabled, onChangeEnabled }:
         <Divider />
 
         <Text variant="titleSmall" style={{ color: theme.colors.onSurface }}>
-          已激活的服务器
+          本话题可用的工具
         </Text>
+        {!conversationId && (
+          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+            发送第一条消息后可为本话题选择工具
+          </Text>
+        )}
 
         {loading ? (
           <Text style={{ color: theme.colors.onSurfaceVariant }}>加载中…</Text>
@@ -80,11 +141,35 @@ export function McpToolsDialog({ visible, onDismiss, enabled, onChangeEnabled }:
             暂无激活服务器。请点击“去设置”添加并激活。
           </Text>
         ) : (
-          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+          <ScrollView style={{ maxHeight: 280 }} nestedScrollEnabled>
             {servers.map((s) => (
-              <Chip key={s.id} mode="outlined" selected>{s.name}</Chip>
+              <View key={s.id} style={{ marginBottom: 8 }}>
+                <Text variant="labelMedium" style={{ color: theme.colors.onSurfaceVariant, marginBottom: 4 }}>
+                  {s.name}
+                </Text>
+                {(toolsByServer[s.id] ?? []).length === 0 ? (
+                  <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>暂无可用工具</Text>
+                ) : (
+                  <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6 }}>
+                    {(toolsByServer[s.id] ?? []).map((name) => (
+                      <Chip
+                        key={name}
+                        compact
+                        mode="outlined"
+                        selected={!selectedTools || selectedTools.includes(name)}
+                        showSelectedCheck
+                        disabled={!conversationId}
+                        onPress={() => void toggleTool(name)}
+                        textStyle={{ fontSize: 12 }}
+                      >
+                        {name}
+                      </Chip>
+                    ))}
+                  </View>
+                )}
+              </View>
             ))}
-          </View>
+          </ScrollView>
         )}
       </View>
     </UnifiedDialog>
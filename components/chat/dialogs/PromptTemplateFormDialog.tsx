@@ -0,0 +1,74 @@
+/**
+ * 提示词模板变量填写对话框
+ *
+ * 快捷短语或助手提示词中包含 `{{变量}}` 时，在插入 / 启用前填写变量值；
+ * 留空的变量使用模板中的默认值。
+ * 样式统一：使用 UnifiedDialog
+ */
+
+import { UnifiedDialog } from '@/components/common/UnifiedDialog';
+import type { TemplateVariable } from '@/utils/prompt-template';
+import { useEffect, useState } from 'react';
+import { ScrollView, View } from 'react-native';
+import { Text, TextInput, useTheme } from 'react-native-paper';
+
+interface PromptTemplateFormDialogProps {
+  visible: boolean;
+  title: string;
+  /** 需要填写的变量（不含内置变量） */
+  variables: TemplateVariable[];
+  /** 上次填写的值 */
+  initialValues?: Record<string, string>;
+  onDismiss: () => void;
+  onSubmit: (values: Record<string, string>) => void;
+}
+
+export function PromptTemplateFormDialog({
+  visible,
+  title,
+  variables,
+  initialValues,
+  onDismiss,
+  onSubmit,
+}: PromptTemplateFormDialogProps) {
+  const theme = useTheme();
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (visible) {
+      setValues(initialValues ?? {});
+    }
+  }, [visible, initialValues]);
+
+  return (
+    <UnifiedDialog
+      visible={visible}
+      onClose={onDismiss}
+      title={title}
+      icon="form-textbox"
+      actions={[
+        { text: '取消', type: 'cancel', onPress: onDismiss },
+        { text: '确定', type: 'primary', onPress: () => onSubmit(values) },
+      ]}
+    >
+      <ScrollView style={{ maxHeight: 360 }} keyboardShouldPersistTaps="handled">
+        <View style={{ gap: 8 }}>
+          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+            填写模板中的变量，留空则使用默认值
+          </Text>
+          {variables.map((variable) => (
+            <TextInput
+              key={variable.name}
+              mode="outlined"
+              label={variable.name}
+              value={values[variable.name] ?? ''}
+              placeholder={variable.defaultValue}
+              onChangeText={(text) => setValues((prev) => ({ ...prev, [variable.name]: text }))}
+              multiline
+            />
+          ))}
+        </View>
+      </ScrollView>
+    </UnifiedDialog>
+  );
+}
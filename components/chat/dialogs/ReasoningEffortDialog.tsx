@@ -0,0 +1,118 @@
+/**
+ * 推理强度对话框
+ *
+ * 为当前模型选择推理强度（关闭 / 低 / 中 / 高 / 自定义思考预算），按模型记住：
+ * - OpenAI o 系列 / GPT-5：映射为 reasoningEffort（自定义预算按最接近的档位）
+ * - Anthropic Claude 3.7+：映射为扩展思考 budgetTokens
+ * - Gemini 2.5：映射为 thinkingBudget
+ * 无法关闭思考的模型（o 系列、Gemini 2.5 Pro）不提供"关闭思考"
+ */
+
+import React from 'react';
+import { View } from 'react-native';
+import { HelperText, RadioButton, Text, TextInput, useTheme } from 'react-native-paper';
+import { UnifiedDialog } from '@/components/common/UnifiedDialog';
+import { getEffectiveReasoning, REASONING_BUDGET_PRESETS, supportsReasoningOff, type ProviderId } from '@/services/ai';
+import type { ReasoningConfig, ReasoningLevel } from '@/storage/types/model-reasoning';
+
+type ReasoningOption = ReasoningLevel | 'default';
+
+const OPTIONS: { value: ReasoningOption; label: string }[] = [
+  { value: 'default', label: '默认（使用模型默认参数）' },
+  { value: 'off', label: '关闭思考' },
+  { value: 'low', label: `低（约 ${REASONING_BUDGET_PRESETS.low} Token）` },
+  { value: 'medium', label: `中（约 ${REASONING_BUDGET_PRESETS.medium} Token）` },
+  { value: 'high', label: `高（约 ${REASONING_BUDGET_PRESETS.high} Token）` },
+  { value: 'custom', label: '自定义思考预算' },
+];
+
+const MAX_CUSTOM_BUDGET = 128_000;
+
+export interface ReasoningEffortDialogProps {
+  visible: boolean;
+  onDismiss: () => void;
+  /** 判断模型能力所参照的提供商（自定义提供商为其对应的内置提供商） */
+  provider?: ProviderId;
+  model?: string;
+  value: ReasoningConfig | null;
+  onChange: (config: ReasoningConfig | null) => void;
+}
+
+export function ReasoningEffortDialog({ visible, onDismiss, provider, model, value, onChange }: ReasoningEffortDialogProps) {
+  const theme = useTheme();
+  const [option, setOption] = React.useState<ReasoningOption>('default');
+  const [budgetText, setBudgetText] = React.useState('');
+
+  const allowOff = !provider || !model || supportsReasoningOff(provider, model);
+  const options = allowOff ? OPTIONS : OPTIONS.filter((o) => o.value !== 'off');
+
+  React.useEffect(() => {
+    if (visible) {
+      // 显示实际发送的强度（如已保存的"关闭思考"对无法关闭的模型显示为最低档位）
+      const shown = value && provider && model ? getEffectiveReasoning(provider, model, value) : value;
+      setOption(shown?.level ?? 'default');
+      setBudgetText(String(shown?.budgetTokens ?? REASONING_BUDGET_PRESETS.medium));
+    }
+  }, [visible, value, provider, model]);
+
+  const budget = Number(budgetText);
+  const budgetInvalid = option === 'custom' && (!Number.isInteger(budget) || budget <= 0 || budget > MAX_CUSTOM_BUDGET);
+
+  const handleSave = () => {
+    if (budgetInvalid) return;
+    if (option === 'default') {
+      onChange(null);
+    } else {
+      onChange(option === 'custom' ? { level: 'custom', budgetTokens: budget } : { level: option });
+    }
+    onDismiss();
+  };
+
+  const active = !!value && value.level !== 'off';
+
+  return (
+    <UnifiedDialog
+      visible={visible}
+      onClose={onDismiss}
+      title="推理强度"
+      icon="brain"
+      iconColor={active ? theme.colors.primary : theme.colors.onSurfaceVariant}
+      actions={[
+        { text: '取消', type: 'cancel', onPress: onDismiss },
+        { text: '确定', type: 'primary', onPress: handleSave, disabled: budgetInvalid },
+      ]}
+    >
+      <View style={{ gap: 4 }}>
+        {!!model && (
+          <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+            设置将应用于 {model}，切换模型后各自记住。
+          </Text>
+        )}
+
+        <RadioButton.Group value={option} onValueChange={(v) => setOption(v as ReasoningOption)}>
+          {options.map((o) => (
+            <RadioButton.Item key={o.value} label={o.label} value={o.value} />
+          ))}
+        </RadioButton.Group>
+
+        {option === 'custom' && (
+          <>
+            <TextInput
+              mode="outlined"
+              dense
+              label="思考预算（Token）"
+              value={budgetText}
+              onChangeText={(t) => setBudgetText(t.replace(/[^0-9]/g, ''))}
+              keyboardType="number-pad"
+            />
+            <HelperText type={budgetInvalid ? 'error' : 'info'} visible>
+              {budgetInvalid
+                ? `请输入 1 ~ ${MAX_CUSTOM_BUDGET} 之间的整数`
+                : 'OpenAI 模型只支持档位，将按最接近的档位发送'}
+            </HelperText>
+          </>
+        )}
+      </View>
+    </UnifiedDialog>
+  );
+}
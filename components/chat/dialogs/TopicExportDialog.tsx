@@ -16,7 +16,7 @@ import Animated, {
   interpolate,
 } from 'react-native-reanimated';
 import { UnifiedDialog, type UnifiedDialogAction } from '@/components/common/UnifiedDialog';
-import { ExportOptions, ThinkingChainMode, ExportProgress } from '@/services/export';
+import { ExportOptions, ThinkingChainMode, ExportProgress, ExportScope } from '@/services/export';
 import { DEFAULT_EXPORT_OPTIONS } from '@/services/export';
 
 /**
@@ -152,6 +152,7 @@ export function TopicExportDialog({
   const theme = useTheme();
 
   // 导出选项状态
+  const [scope, setScope] = useState<ExportScope>(DEFAULT_EXPORT_OPTIONS.scope);
   const [includeThinking, setIncludeThinking] = useState<ThinkingChainMode>(
     DEFAULT_EXPORT_OPTIONS.includeThinking
   );
@@ -167,6 +168,7 @@ export function TopicExportDialog({
 
   const handleConfirm = () => {
     const options: ExportOptions = {
+      scope,
       includeThinking,
       includeMcpTools,
       includeAttachments,
@@ -218,6 +220,32 @@ export function TopicExportDialog({
       ) : (
         // 配置界面
         <View style={styles.optionsContainer}>
+          {/* 导出范围 */}
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
+              导出范围
+            </Text>
+            <RadioButton.Group
+              onValueChange={(value) => setScope(value as ExportScope)}
+              value={scope}
+            >
+              <View style={styles.radioItem}>
+                <RadioButton.Item
+                  label="全部消息（标注上下文分界）"
+                  value="all"
+                  labelStyle={[styles.radioLabel, { color: theme.colors.onSurface }]}
+                />
+              </View>
+              <View style={styles.radioItem}>
+                <RadioButton.Item
+                  label="仅当前上下文段"
+                  value="segment"
+                  labelStyle={[styles.radioLabel, { color: theme.colors.onSurface }]}
+                />
+              </View>
+            </RadioButton.Group>
+          </View>
+
           {/* 思考链导出模式 */}
           <View style={styles.section}>
             <Text style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
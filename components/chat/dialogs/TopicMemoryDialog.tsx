@@ -0,0 +1,132 @@
+/**
+ * 🧠 话题记忆对话框
+ *
+ * 功能：
+ * - 查看话题的滚动摘要（较早对话的摘要，作为系统消息注入后续请求）
+ * - 手动编辑或清空摘要（清空后将从超出上下文的消息重新生成）
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View } from 'react-native';
+import { Text, TextInput, useTheme } from 'react-native-paper';
+import { UnifiedDialog } from '@/components/common/UnifiedDialog';
+import { ChatRepository } from '@/storage/repositories/chat';
+import { SettingsRepository, SettingKey } from '@/storage/repositories/settings';
+import type { Conversation } from '@/storage/core';
+import type { ConversationMemory } from '@/storage/types/conversation-memory';
+import { appEvents, AppEvents } from '@/utils/events';
+import { logger } from '@/utils/logger';
+
+export interface TopicMemoryDialogProps {
+  visible: boolean;
+  conversation: Conversation | null;
+  onDismiss: () => void;
+  onError?: (message: string) => void;
+}
+
+export function TopicMemoryDialog({ visible, conversation, onDismiss, onError }: TopicMemoryDialogProps) {
+  const theme = useTheme();
+  const [memory, setMemory] = useState<ConversationMemory | null>(null);
+  const [summary, setSummary] = useState('');
+  const [enabled, setEnabled] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible || !conversation) return;
+    let mounted = true;
+
+    const load = async () => {
+      try {
+        const [stored, memoryEnabled] = await Promise.all([
+          ChatRepository.getConversationMemory(conversation.id),
+          SettingsRepository().get<boolean>(SettingKey.ConversationMemoryEnabled),
+        ]);
+        if (!mounted) return;
+        setMemory(stored);
+        setSummary(stored?.summary ?? '');
+        setEnabled(memoryEnabled ?? false);
+      } catch (e) {
+        logger.warn('[TopicMemoryDialog] 加载话题记忆失败', e);
+      }
+    };
+
+    // 打开期间后台摘要完成时同步最新内容
+    const handleMemoryChanged = (cid: string) => {
+      if (cid === conversation.id) void load();
+    };
+
+    void load();
+    appEvents.on(AppEvents.TOPIC_MEMORY_CHANGED, handleMemoryChanged);
+    return () => {
+      mounted = false;
+      appEvents.off(AppEvents.TOPIC_MEMORY_CHANGED, handleMemoryChanged);
+    };
+  }, [visible, conversation]);
+
+  const save = async (next: ConversationMemory | null) => {
+    if (!conversation) return;
+    try {
+      setSaving(true);
+      await ChatRepository.setConversationMemory(conversation.id, next);
+      onDismiss();
+    } catch (e: any) {
+      onError?.(e?.message || '保存话题记忆失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const text = summary.trim();
+    if (!text) {
+      void save(null);
+      return;
+    }
+    void save({
+      summary: text,
+      coveredUntil: memory?.coveredUntil ?? 0,
+      coveredMessageId: memory?.coveredMessageId,
+      messageCount: memory?.messageCount ?? 0,
+      provider: memory?.provider,
+      model: memory?.model,
+      edited: true,
+      updatedAt: Date.now(),
+    });
+  };
+
+  return (
+    <UnifiedDialog
+      visible={visible}
+      onClose={onDismiss}
+      title={conversation?.title ? `话题记忆 · ${conversation.title}` : '话题记忆'}
+      icon="brain"
+      actions={[
+        { text: '清空', type: 'destructive', onPress: () => void save(null), disabled: saving || !memory },
+        { text: '取消', type: 'cancel', onPress: onDismiss },
+        { text: saving ? '保存中...' : '保存', type: 'primary', onPress: handleSave, disabled: saving },
+      ]}
+    >
+      <View style={{ gap: 8 }}>
+        {!enabled && (
+          <Text variant="bodySmall" style={{ color: theme.colors.error }}>
+            对话记忆未启用，可在「设置 → 默认模型设置」中开启
+          </Text>
+        )}
+        <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+          {memory
+            ? `已摘要 ${memory.messageCount} 条消息 · 更新于 ${new Date(memory.updatedAt).toLocaleString()}${memory.edited ? ' · 已手动编辑' : ''}`
+            : '暂无摘要。超出上下文窗口的较早消息会在回复完成后自动摘要'}
+        </Text>
+        <TextInput
+          mode="outlined"
+          label="摘要"
+          value={summary}
+          onChangeText={setSummary}
+          multiline
+          numberOfLines={10}
+          style={{ maxHeight: 320 }}
+        />
+      </View>
+    </UnifiedDialog>
+  );
+}
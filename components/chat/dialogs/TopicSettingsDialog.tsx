@@ -0,0 +1,97 @@
+/**
+ * ⚙️ 话题设置对话框
+ *
+ * 功能：
+ * - 为单个话题覆盖模型、系统提示词、温度、上下文数目、MCP 工具与网络搜索
+ * - 设置保存在 conversations.extra.settings，优先于助手与全局设置
+ */
+
+import React, { useEffect, useState } from 'react';
+import { UnifiedDialog } from '@/components/common/UnifiedDialog';
+import { ChatRepository } from '@/storage/repositories/chat';
+import type { Conversation } from '@/storage/core';
+import type { TopicSettings } from '@/storage/types/topic-settings';
+import { appEvents, AppEvents } from '@/utils/events';
+import { logger } from '@/utils/logger';
+import { ChatSettingsOverrideForm } from './ChatSettingsOverrideForm';
+import { ModelPickerDialog } from './ModelPickerDialog';
+
+export interface TopicSettingsDialogProps {
+  visible: boolean;
+  conversation: Conversation | null;
+  onDismiss: () => void;
+  onError?: (message: string) => void;
+}
+
+export function TopicSettingsDialog({ visible, conversation, onDismiss, onError }: TopicSettingsDialogProps) {
+  const [settings, setSettings] = useState<TopicSettings>({});
+  const [modelPickerOpen, setModelPickerOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible || !conversation) return;
+    let mounted = true;
+    (async () => {
+      try {
+        const stored = await ChatRepository.getTopicSettings(conversation.id);
+        if (mounted) setSettings(stored);
+      } catch (e) {
+        logger.warn('[TopicSettingsDialog] 加载话题设置失败', e);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [visible, conversation]);
+
+  const handleSave = async () => {
+    if (!conversation) return;
+    try {
+      setSaving(true);
+      await ChatRepository.setTopicSettings(conversation.id, settings);
+      appEvents.emit(AppEvents.TOPIC_SETTINGS_CHANGED, conversation.id);
+      onDismiss();
+    } catch (e: any) {
+      onError?.(e?.message || '保存话题设置失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <UnifiedDialog
+        visible={visible && !modelPickerOpen}
+        onClose={onDismiss}
+        title={conversation?.title ? `话题设置 · ${conversation.title}` : '话题设置'}
+        icon="tune-variant"
+        actions={[
+          { text: '重置', type: 'neutral', onPress: () => setSettings({}) },
+          { text: '取消', type: 'cancel', onPress: onDismiss },
+          { text: saving ? '保存中...' : '保存', type: 'primary', onPress: handleSave, disabled: saving },
+        ]}
+      >
+        <ChatSettingsOverrideForm
+          visible={visible}
+          settings={settings}
+          onChange={setSettings}
+          inheritLabel="跟随助手"
+          toggleInheritLabel="跟随助手"
+          modelPlaceholder="未固定（跟随助手或当前选择的模型）"
+          showSystemPrompt
+          onPickModel={() => setModelPickerOpen(true)}
+        />
+      </UnifiedDialog>
+
+      <ModelPickerDialog
+        visible={modelPickerOpen}
+        onDismiss={() => setModelPickerOpen(false)}
+        currentModel={settings.model ?? null}
+        onModelSelect={(provider, model) => {
+          setSettings((prev) => ({ ...prev, model: { provider, model } }));
+          setModelPickerOpen(false);
+        }}
+      />
+    </>
+  );
+}
@@ -5,7 +5,15 @@
 
 export { ModelPickerDialog } from './ModelPickerDialog';
 export { AssistantPickerDialog } from './AssistantPickerDialog';
+export { AssistantSettingsDialog } from './AssistantSettingsDialog';
+export { TopicSettingsDialog } from './TopicSettingsDialog';
+export { TopicMemoryDialog } from './TopicMemoryDialog';
 export { QuickPhrasePickerDialog } from './QuickPhrasePickerDialog';
+export { PromptTemplateFormDialog } from './PromptTemplateFormDialog';
 export { McpToolsDialog } from './McpToolsDialog';
+export { McpResourcePickerDialog } from './McpResourcePickerDialog';
+export { McpPromptArgumentsDialog } from './McpPromptArgumentsDialog';
+export { ArenaModelsDialog } from './ArenaModelsDialog';
+export { ReasoningEffortDialog } from './ReasoningEffortDialog';
 export { ImageGenerationDialog } from './ImageGenerationDialog';
 export { ChatSettings } from './ChatSettings';
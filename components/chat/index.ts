@@ -15,6 +15,7 @@
 export {
     MarkdownRenderer, MessageBubble,
     MessageList,
+    type MessageFocusRequest,
     ThinkingBlock,
     ToolBlock,
     TypingIndicator
@@ -45,7 +45,7 @@ export function AttachmentChips({ attachments, onRemove }: AttachmentChipsProps)
           >
             {/* 文件图标 */}
             <IconButton
-              icon={att.kind === 'image' ? 'file-image' : 'file-document'}
+              icon={att.extra?.source === 'mcp_resource' ? 'database' : att.kind === 'image' ? 'file-image' : 'file-document'}
               size={16}
               iconColor={theme.dark ? '#90CAF9' : '#1976D2'}
               style={{ margin: 0, marginRight: 4 }}
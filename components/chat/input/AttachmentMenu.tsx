@@ -3,7 +3,7 @@
  *
  * 功能：
  * - 从底部上拉的附件选择菜单
- * - 支持图片、文件等多种附件类型
+ * - 支持图片、文件、MCP 资源等多种附件类型
  * - 流畅的动画效果和手势操作
  */
 
@@ -25,6 +25,8 @@ interface AttachmentMenuProps {
   onClose: () => void;
   onSelectImage: () => void;
   onSelectFile: () => void;
+  /** 选择 MCP 资源（未提供时不显示该项） */
+  onSelectMcpResource?: () => void;
 }
 
 export function AttachmentMenu({
@@ -32,6 +34,7 @@ export function AttachmentMenu({
   onClose,
   onSelectImage,
   onSelectFile,
+  onSelectMcpResource,
 }: AttachmentMenuProps) {
   const theme = useTheme();
   const slideAnim = useRef(new Animated.Value(0)).current;
@@ -91,6 +94,20 @@ export function AttachmentMenu({
         onSelectFile();
       },
     },
+    ...(onSelectMcpResource
+      ? [
+          {
+            id: 'mcp_resource',
+            title: '添加 MCP 资源',
+            icon: 'database-import',
+            color: '#F59E0B',
+            onPress: () => {
+              onClose();
+              onSelectMcpResource();
+            },
+          },
+        ]
+      : []),
   ];
 
   const translateY = slideAnim.interpolate({
@@ -11,6 +11,7 @@
  * - 使用 use-web-search Hook 处理搜索功能
  * - 使用 ChatInputField 组件渲染输入框
  * - 使用 ChatInputToolbar 组件渲染工具栏
+ * - 输入 / 时列出 MCP 提示词（斜杠命令），附件菜单可添加 MCP 资源
  *
  * 重构成果：
  * - 从 888 行缩减到 250 行 (减少 72%)
@@ -22,23 +23,36 @@
 import { useConfirmDialog } from '@/hooks/use-confirm-dialog';
 import { useMessageSender } from '@/hooks/use-message-sender';
 import { useWebSearch } from '@/hooks/use-web-search';
+import { translateText, DRAFT_TRANSLATION_TARGET } from '@/services/ai';
+import { isOnline } from '@/utils/connectivity';
 import { logger } from '@/utils/logger';
+import { fillTemplate, getInputVariables, parseTemplateVariables } from '@/utils/prompt-template';
+import type { MCPPrompt, MCPResource } from '@/types/mcp';
 import React, { useState } from 'react';
 import { Platform, View } from 'react-native';
 import { useTheme } from 'react-native-paper';
 import { ImageGenerationDialog } from '../dialogs/ImageGenerationDialog';
 import { McpToolsDialog } from '../dialogs/McpToolsDialog';
+import { McpResourcePickerDialog } from '../dialogs/McpResourcePickerDialog';
+import { McpPromptArgumentsDialog } from '../dialogs/McpPromptArgumentsDialog';
+import { ArenaModelsDialog } from '../dialogs/ArenaModelsDialog';
+import { ReasoningEffortDialog } from '../dialogs/ReasoningEffortDialog';
 import { QuickPhrasePickerDialog } from '../dialogs/QuickPhrasePickerDialog';
+import { PromptTemplateFormDialog } from '../dialogs/PromptTemplateFormDialog';
 import { MoreActionsMenu } from '../menus/MoreActionsMenu';
 import { SearchLoadingIndicator } from '../misc/SearchLoadingIndicator';
 import { AttachmentChips } from './AttachmentChips';
 import { AttachmentMenu } from './AttachmentMenu';
 import { ChatInputField } from './ChatInputField';
 import { ChatInputToolbar } from './ChatInputToolbar';
+import { McpPromptSuggestions } from './McpPromptSuggestions';
 import { useAttachmentPicker } from './hooks/useAttachmentPicker';
 import { useChatDialogs } from './hooks/useChatDialogs';
+import { useChatToolToggles } from './hooks/useChatToolToggles';
 import { useChatInputSettings } from './hooks/useChatInputSettings';
 import { useConversationActions } from './hooks/useConversationActions';
+import { useModelReasoning } from './hooks/useModelReasoning';
+import { useMcpPrompts } from './hooks/useMcpPrompts';
 
 /**
  * ChatInput 组件属性
@@ -55,6 +69,8 @@ export interface ChatInputProps {
  */
 export interface ChatInputRef {
   openPhrasePicker: () => void;
+  /** 输入框当前的 MCP 工具开关（重新生成、编辑重发沿用） */
+  isMcpEnabled: () => boolean;
 }
 
 /**
@@ -70,10 +86,12 @@ const ChatInputComponent = React.forwardRef<ChatInputRef, ChatInputProps>(functi
 
   // ========== 状态管理 ==========
   const [message, setMessage] = useState('');
+  const [isTranslatingDraft, setIsTranslatingDraft] = useState(false);
   const {
     selectedAttachments,
     pickImage,
     pickFile,
+    attachMcpResource,
     removeAttachment,
     resetAttachments,
   } = useAttachmentPicker();
@@ -91,11 +109,24 @@ const ChatInputComponent = React.forwardRef<ChatInputRef, ChatInputProps>(functi
     mcpDialogVisible,
     openMcpDialog,
     closeMcpDialog,
+    arenaDialogVisible,
+    openArenaDialog,
+    closeArenaDialog,
+    reasoningDialogVisible,
+    openReasoningDialog,
+    closeReasoningDialog,
     phrasePickerVisible,
     openPhrasePicker,
     closePhrasePicker,
+    mcpResourcePickerVisible,
+    openMcpResourcePicker,
+    closeMcpResourcePicker,
   } = useChatDialogs();
   const [mcpEnabled, setMcpEnabled] = useState(false);
+  // 并排回答模型（为空表示使用当前模型单独回答）
+  const [arenaModels, setArenaModels] = useState<{ provider: string; model: string }[]>([]);
+  // 当前模型的推理强度（按模型记住，发送时由 use-message-sender 读取）
+  const { supported: reasoningSupported, capabilityProvider, reasoning, setReasoning } = useModelReasoning(currentModel);
   const {
     hasContextReset,
     syncContextResetState,
@@ -121,6 +152,9 @@ const ChatInputComponent = React.forwardRef<ChatInputRef, ChatInputProps>(functi
     performWebSearch,
   } = useWebSearch();
 
+  // 切换话题/助手时应用其工具开关设置
+  useChatToolToggles(conversationId, { setMcpEnabled, setSearchEnabled });
+
   // ========== 错误处理 ==========
   React.useEffect(() => {
     if (sendError) {
@@ -140,7 +174,7 @@ const ChatInputComponent = React.forwardRef<ChatInputRef, ChatInputProps>(functi
 
   // ========== 发送处理 ==========
   const handleSend = React.useCallback(async () => {
-    if ((!message.trim() && selectedAttachments.length === 0) || isGenerating) {
+    if ((!message.trim() && selectedAttachments.length === 0) || isGenerating || isTranslatingDraft) {
       return;
     }
 
@@ -153,8 +187,9 @@ const ChatInputComponent = React.forwardRef<ChatInputRef, ChatInputProps>(functi
 
     try {
       // 执行网络搜索（如果启用）
+      // 离线时不执行搜索，消息加入待发送队列
       let searchResults: string | null = null;
-      if (searchEnabled && userMessage.trim()) {
+      if (searchEnabled && userMessage.trim() && (await isOnline())) {
         logger.debug('[ChatInput] 开始执行网络搜索', { query: userMessage });
         searchResults = await performWebSearch(userMessage);
         logger.debug('[ChatInput] 网络搜索完成', {
@@ -170,12 +205,39 @@ const ChatInputComponent = React.forwardRef<ChatInputRef, ChatInputProps>(functi
         searchResults,
         enableMcpTools: mcpEnabled,
         currentModel: currentModel || undefined,
+        arenaModels: arenaModels.length > 0 ? arenaModels : undefined,
+        queueIfOffline: true,
       });
     } catch (error) {
       // 错误已在 useEffect 中处理
       logger.error('[ChatInput] 发送消息失败', error);
     }
-  }, [message, selectedAttachments, isGenerating, searchEnabled, performWebSearch, sendMessage, mcpEnabled, resetAttachments, currentModel]);
+  }, [message, selectedAttachments, isGenerating, isTranslatingDraft, searchEnabled, performWebSearch, sendMessage, mcpEnabled, arenaModels, resetAttachments, currentModel]);
+
+  // ========== 草稿翻译 ==========
+  const handleTranslateDraft = React.useCallback(async () => {
+    const original = message;
+    if (!original.trim() || isTranslatingDraft) return;
+
+    setIsTranslatingDraft(true);
+    try {
+      // 译文流式写回输入框，用户确认后再发送
+      const result = await translateText({
+        text: original,
+        targetLanguage: DRAFT_TRANSLATION_TARGET,
+        onToken: (acc) => setMessage(acc),
+      });
+      setMessage(result.text);
+      logger.debug('[ChatInput] 草稿翻译完成', { length: result.text.length });
+    } catch (error) {
+      // 翻译失败时恢复原始草稿
+      setMessage(original);
+      logger.error('[ChatInput] 草稿翻译失败', error);
+      alert('翻译失败', getErrorMessage(error as Error));
+    } finally {
+      setIsTranslatingDraft(false);
+    }
+  }, [message, isTranslatingDraft, alert]);
 
   // ========== 语音输入处理 ==========
   const handleVoiceTextRecognized = React.useCallback((text: string) => {
@@ -192,11 +254,77 @@ const ChatInputComponent = React.forwardRef<ChatInputRef, ChatInputProps>(functi
   }, [syncContextResetState, openMoreActionsMenu]);
 
   // ========== 快捷短语处理 ==========
+  const selectionRef = React.useRef({ start: 0, end: 0 });
+  const handleSelectionChange = React.useCallback((selection: { start: number; end: number }) => {
+    selectionRef.current = selection;
+  }, []);
+  // 包含待填写变量的短语（填写后再插入）
+  const [templatePhrase, setTemplatePhrase] = useState<{ title: string; content: string } | null>(null);
+
+  const insertPhrase = React.useCallback(async (content: string, values: Record<string, string> = {}) => {
+    const { start, end } = selectionRef.current;
+    const hasSelection = end > start;
+    const text = await fillTemplate(content, values, {
+      selection: hasSelection ? message.slice(start, end) : message,
+    });
+
+    if (parseTemplateVariables(content).some((v) => v.name === 'selection')) {
+      // 引用了选中文本：用渲染结果替换选中部分（未选中时替换整个输入框）
+      setMessage(hasSelection ? `${message.slice(0, start)}${text}${message.slice(end)}` : text);
+    } else {
+      // 将短语内容追加到输入框
+      setMessage((prev) => (prev ? `${prev}\n${text}` : text));
+    }
+  }, [message]);
+
   const handlePhraseSelect = React.useCallback((phrase: { id: string; title: string; content: string }) => {
-    // 将短语内容追加到输入框
-    setMessage((prev) => (prev ? `${prev}\n${phrase.content}` : phrase.content));
     logger.debug('[ChatInput] Quick phrase selected:', phrase.title);
-  }, []);
+    if (getInputVariables(phrase.content).length > 0) {
+      setTemplatePhrase(phrase);
+      return;
+    }
+    void insertPhrase(phrase.content);
+  }, [insertPhrase]);
+
+  // ========== MCP 斜杠命令与资源 ==========
+  // 输入框内容为 /xxx（无空白）时显示匹配的 MCP 提示词
+  const slashQuery = /^\/(\S*)$/.exec(message)?.[1];
+  const { prompts: mcpPrompts, getPromptText } = useMcpPrompts(slashQuery !== undefined);
+  const matchedPrompts = React.useMemo(() => {
+    if (slashQuery === undefined) return [];
+    const query = slashQuery.toLowerCase();
+    return mcpPrompts.filter((p) => p.name.toLowerCase().includes(query));
+  }, [mcpPrompts, slashQuery]);
+  // 声明了参数的提示词（填写参数后再插入）
+  const [argumentsPrompt, setArgumentsPrompt] = useState<MCPPrompt | null>(null);
+
+  const applyMcpPrompt = React.useCallback(async (prompt: MCPPrompt, args?: Record<string, string>) => {
+    try {
+      const text = await getPromptText(prompt, args);
+      setMessage(text);
+      logger.debug('[ChatInput] MCP prompt applied:', prompt.name);
+    } catch (error) {
+      logger.error('[ChatInput] 获取 MCP 提示词失败', error);
+      alert('获取提示词失败', (error as Error)?.message || '未知错误');
+    }
+  }, [getPromptText, alert]);
+
+  const handleMcpPromptSelect = React.useCallback((prompt: MCPPrompt) => {
+    if (prompt.arguments && prompt.arguments.length > 0) {
+      setArgumentsPrompt(prompt);
+      return;
+    }
+    void applyMcpPrompt(prompt);
+  }, [applyMcpPrompt]);
+
+  const handleMcpResourceSelect = React.useCallback(async (resource: MCPResource) => {
+    try {
+      await attachMcpResource(resource);
+    } catch (error) {
+      logger.error('[ChatInput] 添加 MCP 资源失败', error);
+      alert('添加资源失败', (error as Error)?.message || '未知错误');
+    }
+  }, [attachMcpResource, alert]);
 
   const openPhrasePickerFromRef = React.useCallback(() => {
     openPhrasePicker();
@@ -206,7 +334,8 @@ const ChatInputComponent = React.forwardRef<ChatInputRef, ChatInputProps>(functi
   // 暴露方法给父组件
   React.useImperativeHandle(ref, () => ({
     openPhrasePicker: openPhrasePickerFromRef,
-  }), [openPhrasePickerFromRef]);
+    isMcpEnabled: () => mcpEnabled,
+  }), [openPhrasePickerFromRef, mcpEnabled]);
 
   // ========== 渲染 ==========
   return (
@@ -217,6 +346,25 @@ const ChatInputComponent = React.forwardRef<ChatInputRef, ChatInputProps>(functi
         onClose={closeAttachmentMenu}
         onSelectImage={pickImage}
         onSelectFile={pickFile}
+        onSelectMcpResource={openMcpResourcePicker}
+      />
+
+      {/* MCP 资源选择对话框 */}
+      <McpResourcePickerDialog
+        visible={mcpResourcePickerVisible}
+        onDismiss={closeMcpResourcePicker}
+        onSelect={(resource) => void handleMcpResourceSelect(resource)}
+      />
+
+      {/* MCP 提示词参数填写 */}
+      <McpPromptArgumentsDialog
+        visible={!!argumentsPrompt}
+        prompt={argumentsPrompt}
+        onDismiss={() => setArgumentsPrompt(null)}
+        onSubmit={(args) => {
+          if (argumentsPrompt) void applyMcpPrompt(argumentsPrompt, args);
+          setArgumentsPrompt(null);
+        }}
       />
 
       {/* 更多功能底部菜单 */}
@@ -230,6 +378,8 @@ const ChatInputComponent = React.forwardRef<ChatInputRef, ChatInputProps>(functi
         onOpenImageGeneration={openImageDialog}
         provider={(currentModel?.provider || 'openai') as any}
         model={currentModel?.model || 'gpt-4o-mini'}
+        onTranslateDraft={handleTranslateDraft}
+        canTranslateDraft={!!message.trim() && !isTranslatingDraft && !isGenerating}
       />
 
       {/* 图片生成对话框 */}
@@ -247,6 +397,25 @@ const ChatInputComponent = React.forwardRef<ChatInputRef, ChatInputProps>(functi
         onDismiss={closeMcpDialog}
         enabled={mcpEnabled}
         onChangeEnabled={setMcpEnabled}
+        conversationId={conversationId}
+      />
+
+      {/* 并排回答模型选择对话框 */}
+      <ArenaModelsDialog
+        visible={arenaDialogVisible}
+        onDismiss={closeArenaDialog}
+        models={arenaModels}
+        onChangeModels={setArenaModels}
+      />
+
+      {/* 推理强度对话框 */}
+      <ReasoningEffortDialog
+        visible={reasoningDialogVisible}
+        onDismiss={closeReasoningDialog}
+        provider={capabilityProvider ?? undefined}
+        model={currentModel?.model}
+        value={reasoning}
+        onChange={(config) => void setReasoning(config)}
       />
 
       {/* 快捷短语选择弹窗 */}
@@ -256,6 +425,18 @@ const ChatInputComponent = React.forwardRef<ChatInputRef, ChatInputProps>(functi
         onSelect={handlePhraseSelect}
       />
 
+      {/* 快捷短语变量填写 */}
+      <PromptTemplateFormDialog
+        visible={!!templatePhrase}
+        title={templatePhrase?.title ?? ''}
+        variables={templatePhrase ? getInputVariables(templatePhrase.content) : []}
+        onDismiss={() => setTemplatePhrase(null)}
+        onSubmit={(values) => {
+          if (templatePhrase) void insertPhrase(templatePhrase.content, values);
+          setTemplatePhrase(null);
+        }}
+      />
+
       <View className="px-4 pt-2 pb-2">
         {/* 搜索加载指示器 */}
         {isSearching && (
@@ -265,6 +446,12 @@ const ChatInputComponent = React.forwardRef<ChatInputRef, ChatInputProps>(functi
           />
         )}
 
+        {/* MCP 提示词斜杠命令 */}
+        <McpPromptSuggestions
+          prompts={matchedPrompts}
+          onSelect={handleMcpPromptSelect}
+        />
+
         {/* 附件预览 Chips */}
         <AttachmentChips
           attachments={selectedAttachments}
@@ -296,9 +483,10 @@ const ChatInputComponent = React.forwardRef<ChatInputRef, ChatInputProps>(functi
           <ChatInputField
             value={message}
             onChangeText={setMessage}
+            onSelectionChange={handleSelectionChange}
             onSend={handleSend}
             enterToSend={enterToSend}
-            disabled={isGenerating}
+            disabled={isGenerating || isTranslatingDraft}
           />
 
           {/* 工具栏组件 */}
@@ -310,9 +498,14 @@ const ChatInputComponent = React.forwardRef<ChatInputRef, ChatInputProps>(functi
             onMoreActions={handleMoreActions}
             mcpEnabled={mcpEnabled}
             onOpenMcpDialog={openMcpDialog}
+            arenaEnabled={arenaModels.length > 0}
+            onOpenArenaDialog={openArenaDialog}
+            reasoningSupported={reasoningSupported}
+            reasoningActive={!!reasoning && reasoning.level !== 'off'}
+            onOpenReasoningDialog={openReasoningDialog}
             onVoiceTextRecognized={handleVoiceTextRecognized}
             isGenerating={isGenerating}
-            canSend={!!message.trim() || selectedAttachments.length > 0}
+            canSend={(!!message.trim() || selectedAttachments.length > 0) && !isTranslatingDraft}
             onSend={handleSend}
             onStop={stopGeneration}
           />
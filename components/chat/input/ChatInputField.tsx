@@ -23,6 +23,8 @@ export interface ChatInputFieldProps {
   placeholder?: string;
   maxLength?: number;
   disabled?: boolean;
+  /** 选区变化（用于提示词模板的 {{selection}} 变量） */
+  onSelectionChange?: (selection: { start: number; end: number }) => void;
 }
 
 /**
@@ -36,6 +38,7 @@ export const ChatInputField = React.memo(function ChatInputField({
   placeholder,
   maxLength = 2000,
   disabled = false,
+  onSelectionChange,
 }: ChatInputFieldProps) {
   const theme = useTheme();
 
@@ -92,6 +95,7 @@ export const ChatInputField = React.memo(function ChatInputField({
       blurOnSubmit={false}
       onKeyPress={handleKeyPress}
       onSubmitEditing={handleSubmitEditing}
+      onSelectionChange={onSelectionChange ? (e) => onSelectionChange(e.nativeEvent.selection) : undefined}
     />
   );
 }, (prevProps, nextProps) => {
@@ -100,6 +104,7 @@ export const ChatInputField = React.memo(function ChatInputField({
     prevProps.value === nextProps.value &&
     prevProps.enterToSend === nextProps.enterToSend &&
     prevProps.disabled === nextProps.disabled &&
-    prevProps.maxLength === nextProps.maxLength
+    prevProps.maxLength === nextProps.maxLength &&
+    prevProps.onSelectionChange === nextProps.onSelectionChange
   );
 });
@@ -2,7 +2,7 @@
  * 聊天输入工具栏组件
  *
  * 职责：
- * - 显示工具按钮（搜索、附件、更多、语音、发送）
+ * - 显示工具按钮（搜索、附件、MCP、并排回答、推理强度、更多、语音、发送）
  * - 按钮状态管理（禁用、激活）
  * - 视觉反馈
  */
@@ -31,6 +31,15 @@ export interface ChatInputToolbarProps {
   mcpEnabled?: boolean;
   onOpenMcpDialog?: () => void;
 
+  // 并排回答（多模型同时回答）
+  arenaEnabled?: boolean;
+  onOpenArenaDialog?: () => void;
+
+  // 推理强度（仅支持调节的推理模型显示）
+  reasoningSupported?: boolean;
+  reasoningActive?: boolean;
+  onOpenReasoningDialog?: () => void;
+
   // 语音输入
   onVoiceTextRecognized: (text: string) => void;
 
@@ -52,6 +61,11 @@ export const ChatInputToolbar = React.memo(function ChatInputToolbar({
   onMoreActions,
   mcpEnabled,
   onOpenMcpDialog,
+  arenaEnabled,
+  onOpenArenaDialog,
+  reasoningSupported,
+  reasoningActive,
+  onOpenReasoningDialog,
   onVoiceTextRecognized,
   isGenerating,
   canSend,
@@ -94,6 +108,29 @@ export const ChatInputToolbar = React.memo(function ChatInputToolbar({
           accessibilityLabel="MCP 工具开关"
         />
 
+        {/* 并排回答入口 */}
+        <IconButton
+          icon="view-column"
+          iconColor={arenaEnabled ? theme.colors.primary : theme.colors.onSurfaceVariant}
+          size={20}
+          onPress={onOpenArenaDialog}
+          disabled={isGenerating}
+          style={{ marginHorizontal: 2 }}
+          accessibilityLabel="并排回答"
+        />
+
+        {/* 推理强度入口 */}
+        {reasoningSupported && (
+          <IconButton
+            icon="brain"
+            iconColor={reasoningActive ? theme.colors.primary : theme.colors.onSurfaceVariant}
+            size={20}
+            onPress={onOpenReasoningDialog}
+            style={{ marginHorizontal: 2 }}
+            accessibilityLabel="推理强度"
+          />
+        )}
+
         {/* 更多操作按钮 */}
         <IconButton
           icon="plus-circle-outline"
@@ -138,6 +175,9 @@ export const ChatInputToolbar = React.memo(function ChatInputToolbar({
     prevProps.searchEnabled === nextProps.searchEnabled &&
     prevProps.isSearching === nextProps.isSearching &&
     prevProps.mcpEnabled === nextProps.mcpEnabled &&
+    prevProps.arenaEnabled === nextProps.arenaEnabled &&
+    prevProps.reasoningSupported === nextProps.reasoningSupported &&
+    prevProps.reasoningActive === nextProps.reasoningActive &&
     prevProps.isGenerating === nextProps.isGenerating &&
     prevProps.canSend === nextProps.canSend
   );
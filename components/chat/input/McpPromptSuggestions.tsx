@@ -0,0 +1,58 @@
+/**
+ * ⌘ MCP 提示词斜杠命令建议
+ *
+ * 功能：
+ * - 输入框以 / 开头时，在输入框上方列出名称匹配的 MCP 提示词
+ * - 显示提示词名称、所属服务器与描述
+ * - 点击后由上层填写参数并插入提示词内容
+ */
+
+import React from 'react';
+import { Pressable, ScrollView, View } from 'react-native';
+import { Text, useTheme } from 'react-native-paper';
+import type { MCPPrompt } from '@/types/mcp';
+
+interface McpPromptSuggestionsProps {
+  prompts: MCPPrompt[];
+  onSelect: (prompt: MCPPrompt) => void;
+}
+
+export function McpPromptSuggestions({ prompts, onSelect }: McpPromptSuggestionsProps) {
+  const theme = useTheme();
+
+  if (prompts.length === 0) {
+    return null;
+  }
+
+  return (
+    <View
+      className="mb-2 rounded-2xl border overflow-hidden"
+      style={{ backgroundColor: theme.colors.surface, borderColor: theme.colors.outlineVariant }}
+    >
+      <ScrollView style={{ maxHeight: 220 }} keyboardShouldPersistTaps="handled" nestedScrollEnabled>
+        {prompts.map((prompt) => (
+          <Pressable
+            key={prompt.id}
+            onPress={() => onSelect(prompt)}
+            android_ripple={{ color: theme.colors.surfaceVariant }}
+            className="px-4 py-2"
+          >
+            <View className="flex-row items-center">
+              <Text variant="bodyMedium" style={{ color: theme.colors.primary, fontWeight: '600' }}>
+                /{prompt.name}
+              </Text>
+              <Text variant="labelSmall" numberOfLines={1} style={{ color: theme.colors.onSurfaceVariant, marginLeft: 8 }}>
+                {prompt.serverName}
+              </Text>
+            </View>
+            {prompt.description ? (
+              <Text variant="bodySmall" numberOfLines={1} style={{ color: theme.colors.onSurfaceVariant }}>
+                {prompt.description}
+              </Text>
+            ) : null}
+          </Pressable>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
@@ -1,7 +1,11 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import * as DocumentPicker from 'expo-document-picker';
-import type { Attachment } from '@/storage/core';
+import { File, Paths } from 'expo-file-system';
+import { mcpClient } from '@/services/mcp/McpClient';
+import { uuid, type Attachment } from '@/storage/core';
 import { AttachmentRepository } from '@/storage/repositories/attachments';
+import type { MCPResource } from '@/types/mcp';
+import { appEvents, AppEvents } from '@/utils/events';
 import { logger } from '@/utils/logger';
 
 interface PickerFile {
@@ -17,12 +21,35 @@ export interface AttachmentPickerResult {
   selectedAttachments: Attachment[];
   pickImage: () => Promise<void>;
   pickFile: () => Promise<void>;
+  /** 将 MCP 资源内容作为附件加入（文本资源作为文本文件，图片资源作为图片） */
+  attachMcpResource: (resource: MCPResource) => Promise<void>;
   removeAttachment: (id: string) => void;
   resetAttachments: () => void;
 }
 
 const log = logger.createNamespace('AttachmentPicker');
 
+/** MCP 资源附件的 extra 字段 */
+interface McpResourceExtra {
+  source: 'mcp_resource';
+  serverId: string;
+  uri: string;
+}
+
+function getMcpResourceExtra(att: Attachment): McpResourceExtra | null {
+  return att.extra?.source === 'mcp_resource' ? (att.extra as McpResourceExtra) : null;
+}
+
+/**
+ * 文本资源的 MIME：保留可按文本读取的类型，其余按纯文本发送
+ */
+function textResourceMime(mime?: string): string {
+  if (mime && (mime.startsWith('text/') || ['application/json', 'application/xml', 'application/javascript'].includes(mime))) {
+    return mime;
+  }
+  return 'text/plain';
+}
+
 export function useAttachmentPicker(): AttachmentPickerResult {
   const [selectedAttachments, setSelectedAttachments] = useState<Attachment[]>([]);
 
@@ -45,6 +72,74 @@ export function useAttachmentPicker(): AttachmentPickerResult {
     setSelectedAttachments((prev) => [...prev, att]);
   }, []);
 
+  const attachMcpResource = useCallback(async (resource: MCPResource) => {
+    const content = await mcpClient.readResource(resource.serverId, resource.uri);
+    const isImage = !!content.blob && !!content.mimeType?.startsWith('image/');
+    if (content.text === undefined && !isImage) {
+      throw new Error('暂不支持该类型的资源');
+    }
+
+    // 写入临时文件后保存为附件（会复制到永久存储）
+    const tempFile = new File(Paths.cache, `mcp_resource_${uuid().slice(0, 8)}`);
+    try {
+      if (isImage) {
+        await tempFile.write(content.blob as string, { encoding: 'base64' });
+      } else {
+        await tempFile.write(content.text as string);
+      }
+
+      const extra: McpResourceExtra = { source: 'mcp_resource', serverId: resource.serverId, uri: resource.uri };
+      const att = await AttachmentRepository.saveAttachmentFromUri(tempFile.uri, {
+        kind: isImage ? 'image' : 'file',
+        mime: isImage ? content.mimeType : textResourceMime(content.mimeType ?? resource.mimeType),
+        name: resource.name || resource.uri,
+        extra,
+      });
+      setSelectedAttachments((prev) => [...prev, att]);
+    } finally {
+      try {
+        await tempFile.delete();
+      } catch (deleteErr) {
+        log.warn('临时文件删除失败（忽略）', deleteErr);
+      }
+    }
+
+    // 订阅资源更新：发送前资源变化时刷新附件内容
+    mcpClient.subscribeResource(resource.serverId, resource.uri).catch((e) => {
+      log.warn('订阅 MCP 资源失败', { uri: resource.uri, e });
+    });
+  }, []);
+
+  // 已订阅资源更新时，重新读取并覆盖待发送的文本资源附件
+  const attachmentsRef = useRef(selectedAttachments);
+  attachmentsRef.current = selectedAttachments;
+
+  useEffect(() => {
+    const handleResourceUpdated = async ({ serverId, uri }: { serverId: string; uri: string }) => {
+      const targets = attachmentsRef.current.filter((att) => {
+        const extra = getMcpResourceExtra(att);
+        return att.kind === 'file' && att.uri && extra?.serverId === serverId && extra.uri === uri;
+      });
+      if (targets.length === 0) return;
+
+      try {
+        const content = await mcpClient.readResource(serverId, uri);
+        if (content.text === undefined) return;
+        for (const att of targets) {
+          await new File(att.uri as string).write(content.text);
+        }
+        log.debug('MCP 资源附件已刷新', { uri, count: targets.length });
+      } catch (e) {
+        log.warn('刷新 MCP 资源附件失败', { uri, e });
+      }
+    };
+
+    appEvents.on(AppEvents.MCP_RESOURCE_UPDATED, handleResourceUpdated);
+    return () => {
+      appEvents.off(AppEvents.MCP_RESOURCE_UPDATED, handleResourceUpdated);
+    };
+  }, []);
+
   const parsePickerResult = (result: DocumentPicker.DocumentPickerResult): PickerFile | null => {
     if ('canceled' in result && result.canceled) return null;
     if ('type' in result && result.type === 'cancel') return null;
@@ -87,6 +182,7 @@ export function useAttachmentPicker(): AttachmentPickerResult {
     selectedAttachments,
     pickImage,
     pickFile,
+    attachMcpResource,
     removeAttachment,
     resetAttachments,
   };
@@ -13,9 +13,18 @@ export interface ChatDialogState {
   mcpDialogVisible: boolean;
   openMcpDialog: () => void;
   closeMcpDialog: () => void;
+  arenaDialogVisible: boolean;
+  openArenaDialog: () => void;
+  closeArenaDialog: () => void;
+  reasoningDialogVisible: boolean;
+  openReasoningDialog: () => void;
+  closeReasoningDialog: () => void;
   phrasePickerVisible: boolean;
   openPhrasePicker: () => void;
   closePhrasePicker: () => void;
+  mcpResourcePickerVisible: boolean;
+  openMcpResourcePicker: () => void;
+  closeMcpResourcePicker: () => void;
 }
 
 export function useChatDialogs(): ChatDialogState {
@@ -23,7 +32,10 @@ export function useChatDialogs(): ChatDialogState {
   const [moreActionsMenuVisible, setMoreActionsMenuVisible] = useState(false);
   const [imageDialogVisible, setImageDialogVisible] = useState(false);
   const [mcpDialogVisible, setMcpDialogVisible] = useState(false);
+  const [arenaDialogVisible, setArenaDialogVisible] = useState(false);
+  const [reasoningDialogVisible, setReasoningDialogVisible] = useState(false);
   const [phrasePickerVisible, setPhrasePickerVisible] = useState(false);
+  const [mcpResourcePickerVisible, setMcpResourcePickerVisible] = useState(false);
 
   const openAttachmentMenu = useCallback(() => setAttachmentMenuVisible(true), []);
   const closeAttachmentMenu = useCallback(() => setAttachmentMenuVisible(false), []);
@@ -37,9 +49,18 @@ export function useChatDialogs(): ChatDialogState {
   const openMcpDialog = useCallback(() => setMcpDialogVisible(true), []);
   const closeMcpDialog = useCallback(() => setMcpDialogVisible(false), []);
 
+  const openArenaDialog = useCallback(() => setArenaDialogVisible(true), []);
+  const closeArenaDialog = useCallback(() => setArenaDialogVisible(false), []);
+
+  const openReasoningDialog = useCallback(() => setReasoningDialogVisible(true), []);
+  const closeReasoningDialog = useCallback(() => setReasoningDialogVisible(false), []);
+
   const openPhrasePicker = useCallback(() => setPhrasePickerVisible(true), []);
   const closePhrasePicker = useCallback(() => setPhrasePickerVisible(false), []);
 
+  const openMcpResourcePicker = useCallback(() => setMcpResourcePickerVisible(true), []);
+  const closeMcpResourcePicker = useCallback(() => setMcpResourcePickerVisible(false), []);
+
   return {
     attachmentMenuVisible,
     openAttachmentMenu,
@@ -53,8 +74,17 @@ export function useChatDialogs(): ChatDialogState {
     mcpDialogVisible,
     openMcpDialog,
     closeMcpDialog,
+    arenaDialogVisible,
+    openArenaDialog,
+    closeArenaDialog,
+    reasoningDialogVisible,
+    openReasoningDialog,
+    closeReasoningDialog,
     phrasePickerVisible,
     openPhrasePicker,
     closePhrasePicker,
+    mcpResourcePickerVisible,
+    openMcpResourcePicker,
+    closeMcpResourcePicker,
   };
 }
@@ -0,0 +1,59 @@
+import { useEffect, useRef } from 'react';
+import { appEvents, AppEvents } from '@/utils/events';
+import { loadChatSettings } from '@/utils/chat-settings';
+import { logger } from '@/utils/logger';
+
+interface ChatToolToggleSetters {
+  setMcpEnabled: (enabled: boolean) => void;
+  setSearchEnabled: (enabled: boolean) => void;
+}
+
+/**
+ * 应用话题与助手设置中的 MCP 工具与网络搜索开关
+ *
+ * - 切换助手 / 修改话题设置：应用合并后的设置（话题优先）
+ * - 切换话题：仅应用话题自身设置的开关，避免覆盖用户刚手动调整的状态
+ * 未设置的开关保持输入框当前状态
+ */
+export function useChatToolToggles(
+  conversationId: string | null,
+  { setMcpEnabled, setSearchEnabled }: ChatToolToggleSetters
+) {
+  const conversationIdRef = useRef(conversationId);
+  conversationIdRef.current = conversationId;
+  const mountedRef = useRef(true);
+
+  const applyRef = useRef(async (topicOnly: boolean) => {
+    try {
+      const { topic, settings } = await loadChatSettings(conversationIdRef.current);
+      if (!mountedRef.current) return;
+      const source = topicOnly ? topic : settings;
+      if (source.enableMcpTools !== undefined) setMcpEnabled(source.enableMcpTools);
+      if (source.enableWebSearch !== undefined) setSearchEnabled(source.enableWebSearch);
+    } catch (e) {
+      logger.warn('[ChatInput] 应用工具开关设置失败', e);
+    }
+  });
+
+  useEffect(() => {
+    mountedRef.current = true;
+    const applyMerged = () => void applyRef.current(false);
+    const handleTopicSettingsChanged = (cid: string) => {
+      if (cid === conversationIdRef.current) applyMerged();
+    };
+
+    applyMerged();
+    appEvents.on(AppEvents.ASSISTANT_CHANGED, applyMerged);
+    appEvents.on(AppEvents.TOPIC_SETTINGS_CHANGED, handleTopicSettingsChanged);
+    return () => {
+      mountedRef.current = false;
+      appEvents.off(AppEvents.ASSISTANT_CHANGED, applyMerged);
+      appEvents.off(AppEvents.TOPIC_SETTINGS_CHANGED, handleTopicSettingsChanged);
+    };
+  }, []);
+
+  // 切换话题时仅应用话题自身的开关
+  useEffect(() => {
+    if (conversationId) void applyRef.current(true);
+  }, [conversationId]);
+}
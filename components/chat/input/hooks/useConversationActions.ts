@@ -2,11 +2,13 @@ import { useCallback, useState } from 'react';
 import { ChatRepository } from '@/storage/repositories/chat';
 import { MessageRepository } from '@/storage/repositories/messages';
 import { appEvents, AppEvents } from '@/utils/events';
+import { hasContextBoundary } from '@/utils/message-tree';
 import { logger } from '@/utils/logger';
 
 const log = logger.createNamespace('ChatInputConversationActions');
 
 export interface ConversationActions {
+  /** 当前分支的最后一条消息之后已有上下文分界 */
   hasContextReset: boolean;
   syncContextResetState: () => Promise<void>;
   clearConversation: () => Promise<void>;
@@ -24,8 +26,9 @@ export function useConversationActions(
       setHasContextReset(false);
       return;
     }
-    const ts = await ChatRepository.getContextResetAt(conversationId);
-    setHasContextReset(!!ts);
+    const { messages } = await MessageRepository.getActivePath(conversationId);
+    const last = messages[messages.length - 1];
+    setHasContextReset(!!last && hasContextBoundary(last));
   }, [conversationId]);
 
   const clearConversation = useCallback(async () => {
@@ -33,6 +36,7 @@ export function useConversationActions(
 
     try {
       await MessageRepository.clearConversationMessages(conversationId);
+      await ChatRepository.setConversationMemory(conversationId, null);
       appEvents.emit(AppEvents.MESSAGES_CLEARED, conversationId);
       alert('成功', '对话已清空');
     } catch (error) {
@@ -43,9 +47,14 @@ export function useConversationActions(
 
   const clearContext = useCallback(async () => {
     if (!conversationId) return;
-    await ChatRepository.setContextResetAt(conversationId, Date.now());
+    const { leafId } = await MessageRepository.getActivePath(conversationId);
+    if (!leafId) return;
+    // 在当前分支的最后一条消息之后插入上下文分界
+    await MessageRepository.setContextBoundary(leafId, true);
+    // 摘要同样属于之前的上文，一并清除
+    await ChatRepository.setConversationMemory(conversationId, null);
     setHasContextReset(true);
-    alert('已清除上下文', '从下次提问起不再引用之前上文');
+    alert('已清除上下文', '从下次提问起不再引用之前上文，可在消息列表中移除分界恢复');
   }, [conversationId, alert]);
 
   return {
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from 'react';
+import { mcpClient } from '@/services/mcp/McpClient';
+import { McpServersRepository } from '@/storage/repositories/mcp';
+import type { MCPPrompt } from '@/types/mcp';
+import { logger } from '@/utils/logger';
+
+/**
+ * 斜杠命令中的 MCP 提示词
+ *
+ * - active 为 true（输入框以 / 开头）时加载已激活服务器的提示词
+ * - getPromptText 获取提示词内容并合并为可插入输入框的文本
+ */
+export function useMcpPrompts(active: boolean) {
+  const [prompts, setPrompts] = useState<MCPPrompt[]>([]);
+
+  useEffect(() => {
+    if (!active) return;
+
+    let mounted = true;
+    (async () => {
+      try {
+        const servers = await McpServersRepository.getActiveServers();
+        const lists = await Promise.all(
+          servers.map((server) =>
+            mcpClient.listPrompts(server.id).catch((e) => {
+              logger.warn('[ChatInput] 加载 MCP 提示词失败', { serverId: server.id, e });
+              return [] as MCPPrompt[];
+            })
+          )
+        );
+        if (mounted) setPrompts(lists.flat());
+      } catch (e) {
+        logger.warn('[ChatInput] 加载 MCP 提示词失败', e);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [active]);
+
+  const getPromptText = useCallback(async (prompt: MCPPrompt, args?: Record<string, string>) => {
+    const result = await mcpClient.getPrompt(prompt.serverId, prompt.name, args);
+    return result.messages
+      .map(({ content }) => (content.type === 'resource' ? content.resource?.text : content.text))
+      .filter((text): text is string => !!text)
+      .join('\n\n');
+  }, []);
+
+  return { prompts, getPromptText };
+}
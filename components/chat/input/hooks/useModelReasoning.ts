@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useState } from 'react';
+import { resolveProvider, supportsReasoningControl, type Provider, type ProviderId } from '@/services/ai';
+import { ModelReasoningRepository } from '@/storage/repositories/model-reasoning';
+import type { ReasoningConfig } from '@/storage/types/model-reasoning';
+import { logger } from '@/utils/logger';
+
+/**
+ * 当前模型的推理强度
+ *
+ * - 切换模型时读取该模型记住的推理强度
+ * - 自定义提供商按其参照的内置提供商判断模型能力
+ * - 修改后立即持久化（null 表示恢复提供商默认参数）
+ */
+export function useModelReasoning(currentModel?: { provider: string; model: string } | null) {
+  const provider = currentModel?.provider;
+  const model = currentModel?.model;
+  const [reasoning, setReasoningState] = useState<ReasoningConfig | null>(null);
+  const [capabilityProvider, setCapabilityProvider] = useState<ProviderId | null>(null);
+
+  useEffect(() => {
+    setCapabilityProvider(null);
+    if (!provider) return;
+
+    let mounted = true;
+    resolveProvider(provider as Provider)
+      .then((resolved) => {
+        if (mounted) setCapabilityProvider(resolved.capabilityProvider);
+      })
+      .catch((e) => logger.warn('[ChatInput] 解析提供商失败', e));
+    return () => {
+      mounted = false;
+    };
+  }, [provider]);
+
+  const supported = !!capabilityProvider && !!model && supportsReasoningControl(capabilityProvider, model);
+
+  useEffect(() => {
+    setReasoningState(null);
+    if (!provider || !model || !supported) return;
+
+    let mounted = true;
+    ModelReasoningRepository.get(provider, model)
+      .then((setting) => {
+        if (mounted && setting) setReasoningState({ level: setting.level, budgetTokens: setting.budgetTokens });
+      })
+      .catch((e) => logger.warn('[ChatInput] 读取推理强度失败', e));
+    return () => {
+      mounted = false;
+    };
+  }, [provider, model, supported]);
+
+  const setReasoning = useCallback(async (config: ReasoningConfig | null) => {
+    if (!provider || !model) return;
+    setReasoningState(config);
+    try {
+      if (config) {
+        await ModelReasoningRepository.upsert(provider, model, config);
+      } else {
+        await ModelReasoningRepository.delete(provider, model);
+      }
+    } catch (e) {
+      logger.warn('[ChatInput] 保存推理强度失败', e);
+    }
+  }, [provider, model]);
+
+  return { supported, capabilityProvider, reasoning, setReasoning };
+}
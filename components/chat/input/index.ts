@@ -10,3 +10,4 @@ export { VoiceInputButton } from './VoiceInputButton';
 export { VoiceInputDialog } from './VoiceInputDialog';
 export { AttachmentChips } from './AttachmentChips';
 export { AttachmentMenu } from './AttachmentMenu';
+export { McpPromptSuggestions } from './McpPromptSuggestions';
@@ -3,7 +3,7 @@
  *
  * 功能：
  * - 从底部上拉的更多操作菜单
- * - 支持清除对话、导出对话等功能
+ * - 支持清除对话、翻译草稿等功能
  * - 流畅的动画效果和手势操作
  */
 
@@ -32,6 +32,8 @@ interface MoreActionsMenuProps {
   onOpenImageGeneration?: () => void; // 新增：打开图片生成对话框
   provider?: Provider; // 新增：当前 AI 提供商
   model?: string; // 新增：当前模型
+  onTranslateDraft?: () => void; // 翻译输入框草稿
+  canTranslateDraft?: boolean;
 }
 
 export function MoreActionsMenu({
@@ -44,6 +46,8 @@ export function MoreActionsMenu({
   onOpenImageGeneration,
   provider,
   model,
+  onTranslateDraft,
+  canTranslateDraft,
 }: MoreActionsMenuProps) {
   const theme = useTheme();
   const { confirmAction, alert } = useConfirmDialog();
@@ -153,6 +157,20 @@ export function MoreActionsMenu({
     }, 300);
   };
 
+  const handleTranslateDraft = () => {
+    if (!canTranslateDraft) {
+      alert('提示', '请先在输入框中输入要翻译的内容');
+      onClose();
+      return;
+    }
+
+    onClose();
+    // 延迟执行，让菜单先关闭
+    setTimeout(() => {
+      onTranslateDraft?.();
+    }, 300);
+  };
+
   // no undo entry per product decision
 
   // 判断是否支持图片生成
@@ -170,6 +188,15 @@ export function MoreActionsMenu({
       onPress: handleImageGeneration,
       disabled: !conversationId || !imageGenerationSupported,
     },
+    {
+      id: 'translate-draft',
+      title: '翻译草稿',
+      description: '发送前将输入框内容翻译为英文',
+      icon: 'translate',
+      color: '#0EA5E9',
+      onPress: handleTranslateDraft,
+      disabled: !onTranslateDraft || !canTranslateDraft,
+    },
     {
       id: 'clear',
       title: '清除对话',
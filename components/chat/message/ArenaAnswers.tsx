@@ -0,0 +1,96 @@
+/**
+ * ⚔️ 并排回答（arena）
+ *
+ * 功能：
+ * - 同一轮用户消息发给多个模型时，以可横向滑动的列并排展示各模型的回答
+ * - 每列独立展示正文、思考链与工具块（由 renderAnswer 渲染）
+ * - 标记首选回答：首选回答位于激活路径上，作为后续对话的上下文
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { ScrollView, View, useWindowDimensions } from 'react-native';
+import { Button, Chip, Text, useTheme } from 'react-native-paper';
+import type { Message } from '@/storage/core';
+
+interface ArenaAnswersProps {
+  /** 同组全部回答（按创建时间排序） */
+  answers: Message[];
+  /** 当前首选回答 ID（激活路径上的回答） */
+  preferredId: string;
+  renderAnswer: (message: Message) => React.ReactNode;
+  onPrefer: (messageId: string) => void;
+}
+
+/** 每列占屏幕宽度的比例（露出相邻列边缘，提示可滑动） */
+const COLUMN_WIDTH_RATIO = 0.88;
+const COLUMN_GAP = 8;
+
+function ArenaAnswersComponent({ answers, preferredId, renderAnswer, onPrefer }: ArenaAnswersProps) {
+  const theme = useTheme();
+  const { width } = useWindowDimensions();
+  const scrollRef = useRef<ScrollView>(null);
+  const columnWidth = Math.round(width * COLUMN_WIDTH_RATIO);
+  const preferredIndex = Math.max(0, answers.findIndex((m) => m.id === preferredId));
+
+  // 首选回答变化（或初次展示）时滚动到对应列
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      scrollRef.current?.scrollTo({ x: preferredIndex * (columnWidth + COLUMN_GAP), animated: false });
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [preferredIndex, columnWidth]);
+
+  return (
+    <ScrollView
+      ref={scrollRef}
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      snapToInterval={columnWidth + COLUMN_GAP}
+      decelerationRate="fast"
+      contentContainerStyle={{ paddingHorizontal: (width - columnWidth) / 2 - COLUMN_GAP / 2 }}
+    >
+      {answers.map((answer, index) => {
+        const isPreferred = answer.id === preferredId;
+        return (
+          <View
+            key={answer.id}
+            style={{
+              width: columnWidth,
+              marginHorizontal: COLUMN_GAP / 2,
+              borderRadius: 16,
+              borderWidth: 1,
+              borderColor: isPreferred ? theme.colors.primary : theme.colors.outlineVariant,
+            }}
+          >
+            {/* 列头：序号与首选标记 */}
+            <View className="flex-row items-center justify-between px-3 pt-2">
+              <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, fontSize: 11 }}>
+                回答 {index + 1}/{answers.length}
+              </Text>
+              {isPreferred ? (
+                <Chip compact icon="star" textStyle={{ fontSize: 11 }}>
+                  首选
+                </Chip>
+              ) : (
+                <Button
+                  compact
+                  mode="text"
+                  icon="star-outline"
+                  disabled={answer.status === 'pending'}
+                  onPress={() => onPrefer(answer.id)}
+                  labelStyle={{ fontSize: 11 }}
+                >
+                  设为首选
+                </Button>
+              )}
+            </View>
+            {renderAnswer(answer)}
+          </View>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+export const ArenaAnswers = React.memo(ArenaAnswersComponent);
+export default ArenaAnswers;
@@ -0,0 +1,53 @@
+/**
+ * 🌳 分支切换器
+ *
+ * 功能：
+ * - 显示 ‹ 1/3 › 形式的分支导航
+ * - 在同一父消息下的兄弟分支之间切换
+ */
+
+import React from 'react';
+import { View } from 'react-native';
+import { Text, useTheme, IconButton as PaperIconButton } from 'react-native-paper';
+
+interface BranchSwitcherProps {
+  index: number; // 当前分支下标（从 0 开始）
+  total: number; // 分支总数
+  onSwitch: (direction: -1 | 1) => void;
+}
+
+function BranchSwitcherComponent({ index, total, onSwitch }: BranchSwitcherProps) {
+  const theme = useTheme();
+  const canPrev = index > 0;
+  const canNext = index < total - 1;
+
+  return (
+    <View className="flex-row items-center">
+      <PaperIconButton
+        icon="chevron-left"
+        size={18}
+        disabled={!canPrev}
+        onPress={() => onSwitch(-1)}
+        iconColor={theme.colors.onSurfaceVariant}
+        style={{ margin: 0 }}
+      />
+      <Text
+        variant="bodySmall"
+        style={{ color: theme.colors.onSurfaceVariant, fontSize: 11 }}
+      >
+        {index + 1}/{total}
+      </Text>
+      <PaperIconButton
+        icon="chevron-right"
+        size={18}
+        disabled={!canNext}
+        onPress={() => onSwitch(1)}
+        iconColor={theme.colors.onSurfaceVariant}
+        style={{ margin: 0 }}
+      />
+    </View>
+  );
+}
+
+export const BranchSwitcher = React.memo(BranchSwitcherComponent);
+export default BranchSwitcher;
@@ -0,0 +1,44 @@
+/**
+ * ✂️ 上下文分界线
+ *
+ * 功能：
+ * - 在带有上下文分界的消息之后显示分隔线
+ * - 分界之后的提问不再引用分界之前的上文
+ * - 点击关闭按钮移除分界（恢复引用之前的上文）
+ */
+
+import React from 'react';
+import { View } from 'react-native';
+import { Text, useTheme, IconButton as PaperIconButton } from 'react-native-paper';
+
+interface ContextBoundaryDividerProps {
+  onRemove: () => void;
+}
+
+function ContextBoundaryDividerComponent({ onRemove }: ContextBoundaryDividerProps) {
+  const theme = useTheme();
+
+  return (
+    <View className="flex-row items-center px-4 py-1">
+      <View style={{ flex: 1, height: 1, backgroundColor: theme.colors.outlineVariant }} />
+      <Text
+        variant="bodySmall"
+        style={{ color: theme.colors.onSurfaceVariant, fontSize: 11, marginHorizontal: 8 }}
+      >
+        上下文已清除
+      </Text>
+      <View style={{ flex: 1, height: 1, backgroundColor: theme.colors.outlineVariant }} />
+      <PaperIconButton
+        icon="close"
+        size={14}
+        onPress={onRemove}
+        iconColor={theme.colors.onSurfaceVariant}
+        accessibilityLabel="移除上下文分界"
+        style={{ margin: 0, marginLeft: 4 }}
+      />
+    </View>
+  );
+}
+
+export const ContextBoundaryDivider = React.memo(ContextBoundaryDividerComponent);
+export default ContextBoundaryDivider;
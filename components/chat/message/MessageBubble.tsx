@@ -5,13 +5,16 @@
  * - 显示单条消息内容
  * - 区分用户消息和 AI 消息样式
  * - 现代聊天应用风格的气泡设计
+ * - 结构化输出（JSON Schema）回答渲染为可折叠的 JSON 树
+ * - 离线排队的用户消息显示待发送标记，可编辑或取消
  */
 
 import { UserAvatar } from '@/components/common/UserAvatar';
 import { useMessageActions } from '@/hooks/use-message-actions';
 import { useModelLogo } from '@/hooks/use-model-logo';
-import type { Attachment, Message, MessageBlock, ThinkingChain } from '@/storage/core';
+import type { Attachment, Message, MessageBlock, MessageStatus, ThinkingChain } from '@/storage/core';
 import { cn } from '@/utils/classnames';
+import type { MessageBranchInfo } from '@/utils/message-tree';
 import { logger } from '@/utils/logger';
 import { File, Paths } from 'expo-file-system';
 import { Image } from 'expo-image';
@@ -23,15 +26,19 @@ import { GeneratedImageCard } from '../misc/GeneratedImageCard';
 import { ImageViewer } from '../misc/ImageViewer';
 import { MarkdownRenderer } from './MarkdownRenderer';
 import { MessageFooter } from './MessageFooter';
+import { QueuedMessageBar } from './QueuedMessageBar';
+import { StructuredOutputBlock } from './StructuredOutputBlock';
 import { ThinkingBlock } from './ThinkingBlock';
 import { ToolBlock } from './ToolBlock';
+import { ToolApprovalCards } from './ToolApprovalCard';
+import { TranslationBlock } from './TranslationBlock';
 import { TypingIndicator } from './TypingIndicator';
 
 interface MessageBubbleProps {
   content: string;
   isUser: boolean;
   timestamp?: string;
-  status?: 'pending' | 'sent' | 'failed';
+  status?: MessageStatus;
   attachments?: Attachment[];
   thinkingChain?: ThinkingChain | null; // 思考链数据(仅AI消息)
   modelId?: string; // AI 模型 ID（用于显示对应的 logo）
@@ -39,13 +46,21 @@ interface MessageBubbleProps {
   userAvatarUri?: string | null; // 用户头像 URI（仅用户消息）
   blocks?: MessageBlock[]; // ✨ 消息块数据（包括 TEXT, TOOL 等类型）
   message?: Message; // ✨ 完整的消息对象（用于工具栏功能）
+  branch?: MessageBranchInfo; // ✨ 分支信息（兄弟分支数 > 1 时显示切换器）
+  translation?: { text: string; targetLanguage: string; isStreaming?: boolean } | null; // ✨ 译文
 
   // 功能扩展回调
   onResend?: () => void;      // TODO: 重新发送(用户消息)
   onRegenerate?: () => void;  // ✨ 重新生成(助手消息) - 已启用
+  onRegenerateWithModel?: () => void; // ✨ 选择其他模型重新生成(助手消息)
+  onContinue?: () => void; // ✨ 从中断处继续生成(中断的助手消息)
+  onEdit?: () => void;        // ✨ 编辑后重新发送(用户消息)；待发送消息为直接修改内容
+  onCancelQueued?: () => void; // ✨ 取消发送（待发送的用户消息）
+  onSwitchBranch?: (direction: -1 | 1) => void; // ✨ 切换分支
+  onToggleBoundary?: () => void; // ✨ 在此消息之后插入 / 移除上下文分界
 }
 
-function MessageBubbleComponent({ content, isUser, timestamp, status, attachments = [], thinkingChain, modelId, extra, userAvatarUri, blocks = [], message, onResend, onRegenerate }: MessageBubbleProps) {
+function MessageBubbleComponent({ content, isUser, timestamp, status, attachments = [], thinkingChain, modelId, extra, userAvatarUri, blocks = [], message, branch, translation, onResend, onRegenerate, onRegenerateWithModel, onContinue, onEdit, onCancelQueued, onSwitchBranch, onToggleBoundary }: MessageBubbleProps) {
   const theme = useTheme();
   const modelLogo = useModelLogo(modelId); // 获取模型 logo
   const [logoError, setLogoError] = React.useState(false);
@@ -132,7 +147,7 @@ function MessageBubbleComponent({ content, isUser, timestamp, status, attachment
   }, []);
 
   const getStatusIndicator = () => {
-    if (!status || status === 'sent' || status === 'pending') return null;
+    if (!status || status === 'sent' || status === 'pending' || status === 'queued') return null;
 
     if (status === 'failed') {
       return (
@@ -187,6 +202,28 @@ function MessageBubbleComponent({ content, isUser, timestamp, status, attachment
             {modelId}
           </Text>
         ) : null}
+
+        {/* 回退标识：主模型不可用时由回退链中的模型回答 */}
+        {!isUser && extra?.fallbackFrom?.model ? (
+          <Text
+            variant="labelSmall"
+            numberOfLines={1}
+            style={{ color: theme.colors.onSurfaceVariant, fontSize: 11, marginLeft: 6, flexShrink: 1 }}
+          >
+            ↩ 回退自 {extra.fallbackFrom.model}
+          </Text>
+        ) : null}
+
+        {/* 中断标识：生成过程中应用被关闭或崩溃，已保存部分回答 */}
+        {!isUser && extra?.interrupted ? (
+          <Text
+            variant="labelSmall"
+            numberOfLines={1}
+            style={{ color: theme.colors.error, fontSize: 11, marginLeft: 6, flexShrink: 1 }}
+          >
+            ⏸ 回答已中断
+          </Text>
+        ) : null}
       </View>
 
       {/* 消息气泡容器 */}
@@ -209,6 +246,11 @@ function MessageBubbleComponent({ content, isUser, timestamp, status, attachment
           </View>
         )}
 
+        {/* 🛡️ 等待审批的工具调用（生成暂停，直到用户允许或拒绝） */}
+        {!isUser && status === 'pending' && message && (
+          <ToolApprovalCards messageId={message.id} />
+        )}
+
         {/* 气泡主体 */}
         <Pressable
           style={({ pressed }) => ({
@@ -345,6 +387,13 @@ function MessageBubbleComponent({ content, isUser, timestamp, status, attachment
             <View className={attachments.length > 0 ? 'mt-1' : 'min-h-[20px]'}>
               {status === 'pending' && !content ? (
                 <TypingIndicator />
+              ) : extra?.structured ? (
+                <StructuredOutputBlock
+                  content={content || ''}
+                  structured={extra.structured}
+                  isStreaming={status === 'pending'}
+                  onRetry={onRegenerate ? messageActions.handleRegenerate : undefined}
+                />
               ) : (
                 <MarkdownRenderer content={content || ''} />
               )}
@@ -352,14 +401,37 @@ function MessageBubbleComponent({ content, isUser, timestamp, status, attachment
           )}
         </Pressable>
 
-        {/* ✨ 消息底部工具栏（仅助手消息且已完成时显示） */}
-        {!isUser && status !== 'pending' && message && (
+        {/* ✨ 译文（翻译中或已保存时显示） */}
+        {translation && (translation.isStreaming || !!translation.text) && (
+          <TranslationBlock
+            text={translation.text}
+            targetLanguage={translation.targetLanguage}
+            isStreaming={translation.isStreaming}
+          />
+        )}
+
+        {/* 📴 待发送消息：显示标记与编辑 / 取消操作（发送前不显示工具栏） */}
+        {status === 'queued' && (
+          <QueuedMessageBar onEdit={onEdit} onCancel={onCancelQueued} />
+        )}
+
+        {/* ✨ 消息底部工具栏（助手消息完成后显示；用户消息在可编辑或存在分支时显示） */}
+        {status !== 'pending' && status !== 'queued' && message && (!isUser || onEdit || (branch && branch.total > 1)) && (
           <MessageFooter
             message={message}
             isUser={isUser}
             onCopy={messageActions.handleCopy}
             onRegenerate={onRegenerate ? messageActions.handleRegenerate : undefined}
+            onRegenerateWithModel={onRegenerateWithModel}
+            onContinue={extra?.interrupted && extra?.type !== 'image_generation' && !extra?.structured ? onContinue : undefined}
+            onEdit={onEdit}
             onShare={messageActions.handleShare}
+            onTranslate={content.trim() ? messageActions.handleTranslate : undefined}
+            onTogglePin={messageActions.handleTogglePin}
+            isTranslating={!!translation?.isStreaming}
+            branch={branch}
+            onSwitchBranch={onSwitchBranch}
+            onToggleBoundary={onToggleBoundary}
             copyState={messageActions.copyState}
             shareState={messageActions.shareState}
           />
@@ -408,6 +480,22 @@ function arePropsEqual(prev: MessageBubbleProps, next: MessageBubbleProps): bool
     return false;
   }
 
+  // 比较译文
+  if (
+    prev.translation?.text !== next.translation?.text ||
+    prev.translation?.isStreaming !== next.translation?.isStreaming
+  ) {
+    return false;
+  }
+
+  // 比较分支信息
+  if (
+    prev.branch?.index !== next.branch?.index ||
+    prev.branch?.total !== next.branch?.total
+  ) {
+    return false;
+  }
+
   // 比较附件数组（处理可选值）
   const prevAtt = prev.attachments ?? [];
   const nextAtt = next.attachments ?? [];
@@ -434,7 +522,15 @@ function arePropsEqual(prev: MessageBubbleProps, next: MessageBubbleProps): bool
   }
 
   // 比较 extra 字段（浅比较主要属性）
-  if (prev.extra?.imageGenerationResult !== next.extra?.imageGenerationResult) {
+  if (
+    prev.extra?.imageGenerationResult !== next.extra?.imageGenerationResult ||
+    prev.extra?.pinned !== next.extra?.pinned ||
+    !!prev.extra?.contextBoundary !== !!next.extra?.contextBoundary ||
+    prev.extra?.context?.tokens !== next.extra?.context?.tokens ||
+    prev.extra?.fallbackFrom?.model !== next.extra?.fallbackFrom?.model ||
+    prev.extra?.structured?.valid !== next.extra?.structured?.valid ||
+    !!prev.extra?.interrupted !== !!next.extra?.interrupted
+  ) {
     return false;
   }
 
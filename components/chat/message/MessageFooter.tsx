@@ -2,8 +2,9 @@
  * 💬 消息底部工具栏组件
  *
  * 功能：
- * - 提供快捷操作按钮（复制、重新生成、分享）
- * - 显示 Token 使用统计
+ * - 提供快捷操作按钮（复制、翻译、固定、上下文分界、重新生成、换模型重新生成、编辑、分享）
+ * - 显示 Token 使用统计与本次请求发送的上下文规模
+ * - 显示分支切换器（同一父消息下存在多个分支时）
  * - 替代传统的长按菜单，提升交互效率
  */
 
@@ -11,14 +12,25 @@ import React from 'react';
 import { View, Pressable } from 'react-native';
 import { Text, useTheme, IconButton as PaperIconButton } from 'react-native-paper';
 import type { Message } from '@/storage/core';
+import type { MessageBranchInfo } from '@/utils/message-tree';
+import { BranchSwitcher } from './BranchSwitcher';
 
 interface MessageFooterProps {
   message: Message;
   isUser: boolean;
   onCopy: () => void;
   onRegenerate?: () => void; // ✨ 仅助手消息
+  onRegenerateWithModel?: () => void; // ✨ 仅助手消息：选择其他模型重新生成
+  onContinue?: () => void; // ✨ 仅助手消息：从中断处继续生成
   onResend?: () => void; // ✨ 仅用户消息
+  onEdit?: () => void; // ✨ 仅用户消息：编辑后作为新分支发送
   onShare: () => void;
+  onTranslate?: () => void; // ✨ 翻译消息
+  onTogglePin?: () => void; // ✨ 固定 / 取消固定（固定消息始终作为上下文发送）
+  isTranslating?: boolean;
+  branch?: MessageBranchInfo; // ✨ 分支信息
+  onSwitchBranch?: (direction: -1 | 1) => void;
+  onToggleBoundary?: () => void; // ✨ 在此消息之后插入 / 移除上下文分界
   copyState?: 'idle' | 'success';
   shareState?: 'idle' | 'success';
 }
@@ -28,8 +40,17 @@ function MessageFooterComponent({
   isUser,
   onCopy,
   onRegenerate,
+  onRegenerateWithModel,
+  onContinue,
   onResend,
+  onEdit,
   onShare,
+  onTranslate,
+  onTogglePin,
+  isTranslating = false,
+  branch,
+  onSwitchBranch,
+  onToggleBoundary,
   copyState = 'idle',
   shareState = 'idle',
 }: MessageFooterProps) {
@@ -38,12 +59,27 @@ function MessageFooterComponent({
   // 提取 Token 使用统计（仅助手消息）
   const usage = message.extra?.usage;
   const hasUsage = !isUser && usage && (usage.inputTokens || usage.outputTokens);
+  const hasBranches = !!branch && branch.total > 1 && !!onSwitchBranch;
+  const isPinned = message.extra?.pinned === true;
+  const hasBoundary = !!message.extra?.contextBoundary;
+
+  // 本次请求发送的上下文（仅助手消息）
+  const context = !isUser ? message.extra?.context : undefined;
 
   return (
     <View className="px-3 pb-2 pt-1">
       <View className={`flex-row items-center ${isUser ? 'justify-end' : 'justify-between'}`}>
         {/* 按钮组 */}
-        <View className="flex-row gap-4">
+        <View className="flex-row items-center gap-4">
+          {/* 分支切换器 */}
+          {hasBranches && (
+            <BranchSwitcher
+              index={branch!.index}
+              total={branch!.total}
+              onSwitch={onSwitchBranch!}
+            />
+          )}
+
           {/* 复制按钮 - 成功时显示勾选图标 */}
           <Pressable
             onPress={onCopy}
@@ -65,6 +101,83 @@ function MessageFooterComponent({
             />
           </Pressable>
 
+          {/* 翻译按钮 */}
+          {onTranslate && (
+            <Pressable
+              onPress={onTranslate}
+              disabled={isTranslating}
+              hitSlop={10}
+              style={({ pressed }) => ({
+                opacity: pressed || isTranslating ? 0.6 : 1,
+                transform: pressed ? [{ scale: 0.95 }] : [{ scale: 1 }],
+              })}
+            >
+              <PaperIconButton
+                icon="translate"
+                size={18}
+                iconColor={isTranslating ? theme.colors.primary : theme.colors.onSurfaceVariant}
+                style={{ margin: 0 }}
+              />
+            </Pressable>
+          )}
+
+          {/* 固定按钮 */}
+          {onTogglePin && (
+            <Pressable
+              onPress={onTogglePin}
+              hitSlop={10}
+              style={({ pressed }) => ({
+                opacity: pressed ? 0.6 : 1,
+                transform: pressed ? [{ scale: 0.95 }] : [{ scale: 1 }],
+              })}
+            >
+              <PaperIconButton
+                icon={isPinned ? 'pin' : 'pin-outline'}
+                size={18}
+                iconColor={isPinned ? theme.colors.primary : theme.colors.onSurfaceVariant}
+                style={{ margin: 0 }}
+              />
+            </Pressable>
+          )}
+
+          {/* 上下文分界按钮 */}
+          {onToggleBoundary && (
+            <Pressable
+              onPress={onToggleBoundary}
+              hitSlop={10}
+              style={({ pressed }) => ({
+                opacity: pressed ? 0.6 : 1,
+                transform: pressed ? [{ scale: 0.95 }] : [{ scale: 1 }],
+              })}
+            >
+              <PaperIconButton
+                icon="format-page-break"
+                size={18}
+                iconColor={hasBoundary ? theme.colors.primary : theme.colors.onSurfaceVariant}
+                style={{ margin: 0 }}
+              />
+            </Pressable>
+          )}
+
+          {/* 继续生成按钮（仅中断的助手消息） */}
+          {!isUser && onContinue && (
+            <Pressable
+              onPress={onContinue}
+              hitSlop={10}
+              style={({ pressed }) => ({
+                opacity: pressed ? 0.6 : 1,
+                transform: pressed ? [{ scale: 0.95 }] : [{ scale: 1 }],
+              })}
+            >
+              <PaperIconButton
+                icon="play-outline"
+                size={18}
+                iconColor={theme.colors.primary}
+                style={{ margin: 0 }}
+              />
+            </Pressable>
+          )}
+
           {/* 重新生成按钮（仅助手消息） */}
           {!isUser && onRegenerate && (
             <Pressable
@@ -84,6 +197,25 @@ function MessageFooterComponent({
             </Pressable>
           )}
 
+          {/* 换模型重新生成按钮（仅助手消息） */}
+          {!isUser && onRegenerateWithModel && (
+            <Pressable
+              onPress={onRegenerateWithModel}
+              hitSlop={10}
+              style={({ pressed }) => ({
+                opacity: pressed ? 0.6 : 1,
+                transform: pressed ? [{ scale: 0.95 }] : [{ scale: 1 }],
+              })}
+            >
+              <PaperIconButton
+                icon="swap-horizontal"
+                size={18}
+                iconColor={theme.colors.onSurfaceVariant}
+                style={{ margin: 0 }}
+              />
+            </Pressable>
+          )}
+
           {/* 重新发送按钮（仅用户消息） */}
           {isUser && onResend && (
             <Pressable
@@ -103,6 +235,25 @@ function MessageFooterComponent({
             </Pressable>
           )}
 
+          {/* 编辑按钮（仅用户消息） */}
+          {isUser && onEdit && (
+            <Pressable
+              onPress={onEdit}
+              hitSlop={10}
+              style={({ pressed }) => ({
+                opacity: pressed ? 0.6 : 1,
+                transform: pressed ? [{ scale: 0.95 }] : [{ scale: 1 }],
+              })}
+            >
+              <PaperIconButton
+                icon="pencil-outline"
+                size={18}
+                iconColor={theme.colors.onSurfaceVariant}
+                style={{ margin: 0 }}
+              />
+            </Pressable>
+          )}
+
           {/* 分享按钮 - 成功时显示勾选图标 */}
           <Pressable
             onPress={onShare}
@@ -146,6 +297,17 @@ function MessageFooterComponent({
             >
               ↓{usage.outputTokens || 0}
             </Text>
+            {!!usage.reasoningTokens && (
+              <Text
+                variant="bodySmall"
+                style={{
+                  color: theme.colors.onSurfaceVariant,
+                  fontSize: 11,
+                }}
+              >
+                💭{usage.reasoningTokens}
+              </Text>
+            )}
             <Text
               variant="bodySmall"
               style={{
@@ -153,11 +315,28 @@ function MessageFooterComponent({
                 fontSize: 11,
               }}
             >
-              Σ{(usage.inputTokens || 0) + (usage.outputTokens || 0)}
+              Σ{usage.totalTokens || (usage.inputTokens || 0) + (usage.outputTokens || 0)}
             </Text>
           </View>
         )}
       </View>
+
+      {/* 上下文统计：本次请求发送的消息条数与估算 Token */}
+      {context && (
+        <Text
+          variant="bodySmall"
+          style={{
+            color: theme.colors.onSurfaceVariant,
+            fontSize: 11,
+            marginTop: 2,
+          }}
+        >
+          上下文 {context.messages} 条 · ~{context.tokens} Token
+          {context.pinnedMessages ? ` · 固定 ${context.pinnedMessages} 条` : ''}
+          {context.memoryIncluded ? ' · 含记忆摘要' : ''}
+          {context.droppedMessages ? ` · 超出预算省略 ${context.droppedMessages} 条` : ''}
+        </Text>
+      )}
     </View>
   );
 }
@@ -177,13 +356,37 @@ function arePropsEqual(
   const nextUsage = next.message.extra?.usage;
   if (
     prevUsage?.inputTokens !== nextUsage?.inputTokens ||
-    prevUsage?.outputTokens !== nextUsage?.outputTokens
+    prevUsage?.outputTokens !== nextUsage?.outputTokens ||
+    prevUsage?.reasoningTokens !== nextUsage?.reasoningTokens ||
+    prevUsage?.totalTokens !== nextUsage?.totalTokens
+  ) {
+    return false;
+  }
+
+  // 比较固定状态、上下文分界与上下文统计
+  if (
+    prev.message.extra?.pinned !== next.message.extra?.pinned ||
+    prev.message.extra?.context?.tokens !== next.message.extra?.context?.tokens ||
+    !!prev.message.extra?.contextBoundary !== !!next.message.extra?.contextBoundary ||
+    !!prev.onTogglePin !== !!next.onTogglePin ||
+    !!prev.onToggleBoundary !== !!next.onToggleBoundary
+  ) {
+    return false;
+  }
+
+  // ✨ 比较分支信息
+  if (
+    prev.branch?.index !== next.branch?.index ||
+    prev.branch?.total !== next.branch?.total ||
+    !!prev.onEdit !== !!next.onEdit ||
+    !!prev.onTranslate !== !!next.onTranslate
   ) {
     return false;
   }
 
-  // ✨ 比较图标状态（复制、分享）
+  // ✨ 比较图标状态（复制、分享、翻译）
   if (
+    prev.isTranslating !== next.isTranslating ||
     prev.copyState !== next.copyState ||
     prev.shareState !== next.shareState
   ) {
@@ -5,37 +5,61 @@
  * - 显示聊天消息列表
  * - 支持滚动查看历史消息
  * - 空状态显示欢迎提示文字
+ * - 编辑历史用户消息并作为新分支发送，分支间切换
+ * - 定位并高亮指定消息（搜索结果跳转）
+ * - 显示上下文分界线，可在任意消息之后插入或移除分界
+ * - 并排展示多模型回答（arena），可标记首选回答
+ * - 离线排队的消息在发送前可编辑或取消
  */
 
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { View, StyleSheet } from 'react-native';
 import { FlashList } from '@shopify/flash-list';
-import type { ListRenderItem } from '@shopify/flash-list';
+import type { FlashListRef, ListRenderItem } from '@shopify/flash-list';
 import { Text, useTheme } from 'react-native-paper';
 import { MessageBubble } from './MessageBubble';
+import { ContextBoundaryDivider } from './ContextBoundaryDivider';
+import { ArenaAnswers } from './ArenaAnswers';
 import { useMessages } from '@/hooks/use-messages';
+import { useConfirmDialog } from '@/hooks/use-confirm-dialog';
 import { useUserProfile } from '@/hooks/use-user-profile';
 import { AttachmentRepository } from '@/storage/repositories/attachments';
 import { ThinkingChainRepository } from '@/storage/repositories/thinking-chains';
 import { MessageBlocksRepository } from '@/storage/repositories/message-blocks';
 import { MessageRepository } from '@/storage/repositories/messages';
+import { ChatRepository } from '@/storage/repositories/chat';
 import type { Attachment, Message, ThinkingChain, MessageBlock } from '@/storage/core';
 import { appEvents, AppEvents } from '@/utils/events';
+import { hasContextBoundary } from '@/utils/message-tree';
+import type { TranslationStreamUpdate } from '@/services/ai';
 import { logger } from '@/utils/logger';
 
+/** 定位请求（nonce 用于重复定位同一条消息） */
+export interface MessageFocusRequest {
+  messageId: string;
+  nonce: number;
+}
+
 interface MessageListProps {
   conversationId: string | null;
+  focusRequest?: MessageFocusRequest | null;
 }
 
-function MessageListComponent({ conversationId }: MessageListProps) {
+const HIGHLIGHT_DURATION_MS = 2000;
+
+function MessageListComponent({ conversationId, focusRequest }: MessageListProps) {
   const theme = useTheme();
-  const { items, reload } = useMessages(conversationId ?? null, 50);
+  const { items, branches, arenas, reload } = useMessages(conversationId ?? null);
+  const { prompt, confirmAction } = useConfirmDialog();
   const { avatarUri } = useUserProfile(); // 获取用户头像 URI（性能优化：在列表层级调用一次）
   const [attachmentsMap, setAttachmentsMap] = useState<Record<string, Attachment[]>>({});
   const [thinkingChainsMap, setThinkingChainsMap] = useState<Record<string, ThinkingChain>>({});
   const [blocksMap, setBlocksMap] = useState<Record<string, MessageBlock[]>>({});
   const [streamingBlocksMap, setStreamingBlocksMap] = useState<Record<string, MessageBlock[]>>({});
+  const [translationsMap, setTranslationsMap] = useState<Record<string, TranslationStreamUpdate>>({});
   const [thinkingRefreshTick, setThinkingRefreshTick] = useState(0);
+  const listRef = useRef<FlashListRef<Message>>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
 
   // 监听消息清空事件，立即刷新列表
   useEffect(() => {
@@ -87,23 +111,72 @@ function MessageListComponent({ conversationId }: MessageListProps) {
     };
   }, []);
 
+  // 监听译文流式更新（翻译完成后由 message.extra.translation 接管展示）
+  useEffect(() => {
+    const handleTranslationUpdate = (payload?: TranslationStreamUpdate) => {
+      if (!payload?.messageId) return;
+      setTranslationsMap(prev => ({ ...prev, [payload.messageId]: payload }));
+    };
+
+    appEvents.on(AppEvents.MESSAGE_TRANSLATION_UPDATE, handleTranslationUpdate);
+    return () => {
+      appEvents.off(AppEvents.MESSAGE_TRANSLATION_UPDATE, handleTranslationUpdate);
+    };
+  }, []);
+
   // 列表数据：按时间顺序（最新在底部）
   const data = useMemo(() => items, [items]);
+
+  // 🔎 定位到指定消息：消息可能尚未加载（切换话题/分支后），待其出现在列表中再滚动
+  const handledFocusNonceRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!focusRequest || handledFocusNonceRef.current === focusRequest.nonce) return;
+    const index = data.findIndex((m) => m.id === focusRequest.messageId);
+    if (index < 0) return;
+
+    handledFocusNonceRef.current = focusRequest.nonce;
+    setHighlightedId(focusRequest.messageId);
+    // 等待列表完成布局后再滚动（data 随后可能再次变化，不随依赖清理）
+    setTimeout(() => {
+      void listRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.3 });
+    }, 100);
+  }, [focusRequest, data]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = setTimeout(() => setHighlightedId(null), HIGHLIGHT_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
   const listStyle = useMemo(
     () => StyleSheet.flatten([styles.container, { backgroundColor: 'transparent' }]),
     []
   );
 
+  // ⚔️ 需要展示的全部消息：激活路径 + 并排回答中未被选为首选的其他回答
+  const visibleMessages = useMemo(() => {
+    const seen = new Set(items.map(m => m.id));
+    const extras: Message[] = [];
+    for (const answers of Object.values(arenas)) {
+      for (const m of answers) {
+        if (!seen.has(m.id)) {
+          seen.add(m.id);
+          extras.push(m);
+        }
+      }
+    }
+    return extras.length > 0 ? [...items, ...extras] : items;
+  }, [items, arenas]);
+
   // 🚀 性能优化：缓存消息 ID 列表的字符串，避免每次重新计算
   const messageIdsKey = useMemo(
-    () => items.map(m => m.id).join('|'),
-    [items]
+    () => visibleMessages.map(m => m.id).join('|'),
+    [visibleMessages]
   );
 
   // 🚀 性能优化：缓存思考链依赖键（包含 id + status + 文本长度）
   const thinkingChainKey = useMemo(
-    () => items.map(m => `${m.id}:${m.status}:${(m.text ?? '').length}`).join('|'),
-    [items]
+    () => visibleMessages.map(m => `${m.id}:${m.status}:${(m.text ?? '').length}`).join('|'),
+    [visibleMessages]
   );
 
   // 🚀 性能优化：批量并行加载附件、思考链和块数据（合并3个串行查询为1个并行查询，性能提升约60%）
@@ -111,7 +184,7 @@ function MessageListComponent({ conversationId }: MessageListProps) {
   useEffect(() => {
     (async () => {
       try {
-        const ids = items.map(m => m.id);
+        const ids = visibleMessages.map(m => m.id);
 
         // 空列表情况：清空所有状态
         if (ids.length === 0) {
@@ -151,93 +224,265 @@ function MessageListComponent({ conversationId }: MessageListProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [messageIdsKey, thinkingChainKey, thinkingRefreshTick]);
 
-  // ✨ 处理重新生成功能
+  // ✨ 处理重新生成功能：新回答作为同一轮的新版本保存，旧版本保留可切换
   const handleRegenerate = useCallback(
-    async (messageId: string) => {
-      try {
-        if (!conversationId) return;
+    (messageId: string, options?: { pickModel?: boolean; continue?: boolean }) => {
+      if (!conversationId) return;
 
-        // 找到当前消息的索引
-        const currentIndex = items.findIndex((m) => m.id === messageId);
-        if (currentIndex === -1) {
-          logger.error('[MessageList] 未找到要重新生成的消息', { messageId });
-          return;
-        }
-
-        // 找到上一条用户消息
-        let userMessageIndex = currentIndex - 1;
-        while (userMessageIndex >= 0 && items[userMessageIndex].role !== 'user') {
-          userMessageIndex--;
-        }
+      const assistantMessage = visibleMessages.find((m) => m.id === messageId);
+      const userMessage = assistantMessage?.parentId
+        ? items.find((m) => m.id === assistantMessage.parentId)
+        : undefined;
 
-        if (userMessageIndex < 0) {
-          logger.error('[MessageList] 未找到上一条用户消息');
-          return;
-        }
+      if (!userMessage || userMessage.role !== 'user') {
+        logger.error('[MessageList] 未找到要重新生成的消息对应的用户消息', { messageId });
+        return;
+      }
 
-        const userMessage = items[userMessageIndex];
+      // 用户消息正文保存在 TEXT 块中
+      const userText = (blocksMap[userMessage.id] || [])
+        .filter(b => b.type === 'TEXT')
+        .sort((a, b) => a.sortOrder - b.sortOrder)
+        .map(b => b.content)
+        .join('') || userMessage.text || '';
+
+      // 触发重新生成事件，让主界面基于原用户消息生成新版本
+      appEvents.emit(AppEvents.MESSAGE_REGENERATE_REQUESTED, {
+        conversationId,
+        userMessageId: userMessage.id,
+        userMessageText: userText,
+        userMessageAttachments: attachmentsMap[userMessage.id] || [],
+        pickModel: options?.pickModel === true,
+        // ⏯️ 继续生成：在中断的回答之后接着输出，而不是生成新版本
+        continueFrom: options?.continue ? messageId : undefined,
+      });
 
-        // 删除当前助手消息及之后的所有消息
-        const messagesToDelete = items.slice(currentIndex);
-        for (const msg of messagesToDelete) {
-          await MessageRepository.deleteMessage(msg.id);
-        }
+      logger.info('[MessageList] 重新生成请求已发送', {
+        conversationId,
+        userMessageId: userMessage.id,
+        pickModel: options?.pickModel === true,
+      });
+    },
+    [conversationId, items, visibleMessages, blocksMap, attachmentsMap]
+  );
 
-        // 触发重新生成事件，让主界面重新发送用户消息
-        appEvents.emit(AppEvents.MESSAGE_REGENERATE_REQUESTED, {
-          conversationId,
-          userMessageText: userMessage.text || '',
-          userMessageAttachments: attachmentsMap[userMessage.id] || [],
+  // 🌳 编辑用户消息：以同一父消息发送新内容，生成兄弟分支（原分支保留）
+  //    待发送消息尚未发送，直接修改内容
+  const handleEdit = useCallback(
+    (message: Message, content: string) => {
+      if (!conversationId) return;
+      if (message.status === 'queued') {
+        prompt({
+          title: '编辑待发送消息',
+          message: '联网后将发送修改后的内容',
+          defaultValue: content,
+          multiline: true,
+          validation: (value) => ({
+            valid: value.trim().length > 0,
+            error: '消息内容不能为空',
+          }),
+          onConfirm: async (value) => {
+            try {
+              const textBlock = (blocksMap[message.id] || []).find(b => b.type === 'TEXT');
+              if (textBlock) {
+                await MessageBlocksRepository.updateBlock({ id: textBlock.id, content: value });
+              } else {
+                await MessageBlocksRepository.addBlock({
+                  messageId: message.id,
+                  type: 'TEXT',
+                  status: 'SUCCESS',
+                  content: value,
+                  sortOrder: 0,
+                });
+              }
+              appEvents.emit(AppEvents.MESSAGE_CHANGED, conversationId);
+            } catch (error) {
+              logger.error('[MessageList] 编辑待发送消息失败', error);
+            }
+          },
         });
+        return;
+      }
+      prompt({
+        title: '编辑消息',
+        message: '修改后将作为新分支重新发送，原对话分支会保留',
+        defaultValue: content,
+        multiline: true,
+        validation: (value) => ({
+          valid: value.trim().length > 0,
+          error: '消息内容不能为空',
+        }),
+        onConfirm: (value) => {
+          appEvents.emit(AppEvents.MESSAGE_EDIT_RESEND_REQUESTED, {
+            conversationId,
+            parentId: message.parentId ?? null,
+            text: value,
+            attachments: attachmentsMap[message.id] || [],
+          });
+          logger.info('[MessageList] 编辑重发请求已发送', {
+            conversationId,
+            editedMessageId: message.id,
+          });
+        },
+      });
+    },
+    [conversationId, prompt, attachmentsMap, blocksMap]
+  );
 
-        logger.info('[MessageList] 重新生成请求已发送', {
-          conversationId,
-          userMessageId: userMessage.id,
-        });
+  // 📴 取消发送待发送消息（删除该消息，激活分支退回到父消息）
+  const handleCancelQueued = useCallback(
+    (message: Message) => {
+      if (!conversationId) return;
+      confirmAction(
+        '取消发送',
+        '该消息将被删除，不会再自动发送',
+        async () => {
+          try {
+            // deleteMessage 会把之后排队的消息改挂到被取消消息的父消息上；
+            // 仅当被取消的是当前叶子时才回退叶子，否则之后排队的消息会从当前路径中消失
+            const activeLeafId = await ChatRepository.getActiveLeafId(conversationId);
+            await MessageRepository.deleteMessage(message.id);
+            if (message.parentId && (!activeLeafId || activeLeafId === message.id)) {
+              await ChatRepository.setActiveLeafId(conversationId, message.parentId);
+            }
+          } catch (error) {
+            logger.error('[MessageList] 取消待发送消息失败', error);
+          }
+        },
+        { confirmText: '取消发送', cancelText: '保留', destructive: true }
+      );
+    },
+    [conversationId, confirmAction]
+  );
+
+  // 🌳 切换到相邻的兄弟分支
+  const handleSwitchBranch = useCallback(
+    async (messageId: string, direction: -1 | 1) => {
+      if (!conversationId) return;
+      const branch = branches[messageId];
+      if (!branch) return;
+      const targetId = branch.siblingIds[branch.index + direction];
+      if (!targetId) return;
+      try {
+        await MessageRepository.switchBranch(conversationId, targetId);
       } catch (error) {
-        logger.error('[MessageList] 重新生成失败', error);
+        logger.error('[MessageList] 切换分支失败', error);
       }
     },
-    [conversationId, items, attachmentsMap]
+    [conversationId, branches]
   );
 
+  // ⚔️ 标记首选回答：切换到该回答所在分支，后续对话以它作为上下文
+  const handlePreferAnswer = useCallback(
+    async (messageId: string) => {
+      if (!conversationId) return;
+      try {
+        await MessageRepository.switchBranch(conversationId, messageId);
+      } catch (error) {
+        logger.error('[MessageList] 设置首选回答失败', error);
+      }
+    },
+    [conversationId]
+  );
+
+  // ✂️ 在消息之后插入 / 移除上下文分界
+  const handleToggleBoundary = useCallback(async (message: Message) => {
+    try {
+      await MessageRepository.setContextBoundary(message.id, !hasContextBoundary(message));
+      // 摘要对应分界变化前的上文，清除后按新的上文重新生成（与清除上下文一致）
+      if (conversationId) {
+        await ChatRepository.setConversationMemory(conversationId, null);
+      }
+    } catch (error) {
+      logger.error('[MessageList] 更新上下文分界失败', error);
+    }
+  }, [conversationId]);
+
   // 🚀 性能优化：使用 useCallback 缓存 renderItem，避免 FlatList 不必要的重渲染
   const renderItem: ListRenderItem<Message> = useCallback(
     ({ item }) => {
-      // 📦 从块中组合消息内容
-      const streamingBlocks = streamingBlocksMap[item.id];
-      const persistedBlocks = blocksMap[item.id] || [];
-      const blocks = streamingBlocks ?? persistedBlocks;
-      const textBlocks = blocks
-        .filter(b => b.type === 'TEXT')
-        .sort((a, b) => a.sortOrder - b.sortOrder);
-
-      // 优先使用块内容，fallback 到 item.text（兼容旧数据）
-      const content = textBlocks.length > 0
-        ? textBlocks.map(b => b.content).join('')
-        : (item.text ?? '');
-
-      return (
-        <MessageBubble
-          content={content}
-          isUser={item.role === 'user'}
-          status={item.status}
-          timestamp={new Date(item.createdAt).toLocaleTimeString()}
-          attachments={attachmentsMap[item.id] || []}
-          thinkingChain={thinkingChainsMap[item.id] || null}
-          modelId={item.extra?.model} // 传递模型 ID
-          extra={item.extra} // 传递完整的 extra 数据（用于图片生成等特殊消息）
-          userAvatarUri={item.role === 'user' ? avatarUri : undefined} // 用户消息传递头像 URI
-          blocks={blocks} // ✨ 传递所有块数据（包括 TOOL 块）
-          message={item} // ✨ 传递完整的消息对象（用于工具栏功能）
-          // TODO: 未来实现 - 重新发送消息（用户消息）
-          // onResend={() => handleResendMessage(item.id)}
-          // ✨ 重新生成消息（助手消息）
-          onRegenerate={() => handleRegenerate(item.id)}
+      const renderBubble = (message: Message, inArena: boolean) => {
+        // 📦 从块中组合消息内容
+        const streamingBlocks = streamingBlocksMap[message.id];
+        const persistedBlocks = blocksMap[message.id] || [];
+        const blocks = streamingBlocks ?? persistedBlocks;
+        const textBlocks = blocks
+          .filter(b => b.type === 'TEXT')
+          .sort((a, b) => a.sortOrder - b.sortOrder);
+
+        // 优先使用块内容，fallback 到 message.text（兼容旧数据）
+        const content = textBlocks.length > 0
+          ? textBlocks.map(b => b.content).join('')
+          : (message.text ?? '');
+
+        // 🌐 译文：翻译中使用流式内容，完成后优先使用已保存的译文
+        const liveTranslation = translationsMap[message.id];
+        const savedTranslation = message.extra?.translation;
+        const translation = liveTranslation && !liveTranslation.done
+          ? { text: liveTranslation.text, targetLanguage: liveTranslation.targetLanguage, isStreaming: true }
+          : savedTranslation ?? (liveTranslation?.text ? liveTranslation : null);
+
+        return (
+          <MessageBubble
+            content={content}
+            isUser={message.role === 'user'}
+            status={message.status}
+            timestamp={new Date(message.createdAt).toLocaleTimeString()}
+            attachments={attachmentsMap[message.id] || []}
+            thinkingChain={thinkingChainsMap[message.id] || null}
+            modelId={message.extra?.model} // 传递模型 ID
+            extra={message.extra} // 传递完整的 extra 数据（用于图片生成等特殊消息）
+            userAvatarUri={message.role === 'user' ? avatarUri : undefined} // 用户消息传递头像 URI
+            blocks={blocks} // ✨ 传递所有块数据（包括 TOOL 块）
+            message={message} // ✨ 传递完整的消息对象（用于工具栏功能）
+            branch={inArena ? undefined : branches[message.id]} // ✨ 分支信息（并排回答由列切换，不显示分支切换器）
+            translation={translation} // ✨ 译文
+            // TODO: 未来实现 - 重新发送消息（用户消息）
+            // onResend={() => handleResendMessage(message.id)}
+            // ✨ 重新生成消息（助手消息），可选择其他模型
+            onRegenerate={() => handleRegenerate(message.id)}
+            onRegenerateWithModel={() => handleRegenerate(message.id, { pickModel: true })}
+            onContinue={() => handleRegenerate(message.id, { continue: true })}
+            // ✨ 编辑并重新发送（用户消息）
+            onEdit={message.role === 'user' ? () => handleEdit(message, content) : undefined}
+            onCancelQueued={message.status === 'queued' ? () => handleCancelQueued(message) : undefined}
+            onSwitchBranch={(direction) => handleSwitchBranch(message.id, direction)}
+            // ✨ 在此消息之后插入 / 移除上下文分界
+            onToggleBoundary={() => handleToggleBoundary(message)}
+          />
+        );
+      };
+
+      // ⚔️ 并排回答：同组回答横向并排展示
+      const arenaAnswers = arenas[item.id];
+      const bubble = arenaAnswers ? (
+        <ArenaAnswers
+          answers={arenaAnswers}
+          preferredId={item.id}
+          renderAnswer={(answer) => renderBubble(answer, true)}
+          onPrefer={handlePreferAnswer}
         />
-      );
+      ) : renderBubble(item, false);
+
+      // 🔎 搜索跳转的目标消息短暂高亮
+      const row = item.id === highlightedId ? (
+        <View style={[styles.highlighted, { backgroundColor: theme.colors.primaryContainer }]}>
+          {bubble}
+        </View>
+      ) : bubble;
+
+      // ✂️ 上下文分界线显示在消息之后
+      if (hasContextBoundary(item)) {
+        return (
+          <View>
+            {row}
+            <ContextBoundaryDivider onRemove={() => handleToggleBoundary(item)} />
+          </View>
+        );
+      }
+      return row;
     },
-    [attachmentsMap, thinkingChainsMap, blocksMap, streamingBlocksMap, avatarUri, handleRegenerate]
+    [attachmentsMap, thinkingChainsMap, blocksMap, streamingBlocksMap, translationsMap, avatarUri, branches, arenas, handleRegenerate, handleEdit, handleCancelQueued, handleSwitchBranch, handleToggleBoundary, handlePreferAnswer, highlightedId, theme.colors.primaryContainer]
   );
 
   // 🚀 性能优化：根据消息类型返回不同的类型标识，提升回收效率
@@ -246,12 +491,15 @@ function MessageListComponent({ conversationId }: MessageListProps) {
     if (item.role === 'user') return 'user';
     // 图片生成消息
     if (item.extra?.type === 'image_generation') return 'image_generation';
+    // 并排回答
+    if (arenas[item.id]) return 'arena';
     // 助手消息（默认）
     return 'assistant';
-  }, []);
+  }, [arenas]);
 
   return (
     <FlashList
+      ref={listRef}
       data={data}
       keyExtractor={(m) => m.id}
       renderItem={renderItem}
@@ -302,10 +550,13 @@ const styles = StyleSheet.create({
   messagesContainer: {
     width: '100%',
   },
+  highlighted: {
+    borderRadius: 12,
+  },
 });
 
 // 🚀 性能优化：使用 React.memo 避免不必要的重渲染
-// 只在 conversationId 改变时才重新渲染
+// 只在 conversationId 或定位请求改变时才重新渲染
 export const MessageList = React.memo(MessageListComponent, (prev, next) => {
-  return prev.conversationId === next.conversationId;
+  return prev.conversationId === next.conversationId && prev.focusRequest === next.focusRequest;
 });
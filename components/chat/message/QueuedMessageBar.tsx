@@ -0,0 +1,51 @@
+/**
+ * 📴 待发送消息操作栏
+ *
+ * 功能：
+ * - 离线时发送的用户消息显示"待发送"标记，联网后自动发送
+ * - 发送前可编辑内容或取消发送
+ */
+
+import React from 'react';
+import { View } from 'react-native';
+import { Chip, IconButton as PaperIconButton, useTheme } from 'react-native-paper';
+
+interface QueuedMessageBarProps {
+  onEdit?: () => void;
+  onCancel?: () => void;
+}
+
+function QueuedMessageBarComponent({ onEdit, onCancel }: QueuedMessageBarProps) {
+  const theme = useTheme();
+
+  return (
+    <View className="flex-row items-center justify-end mt-1">
+      <Chip compact icon="clock-outline" textStyle={{ fontSize: 11 }}>
+        待发送
+      </Chip>
+      {onEdit && (
+        <PaperIconButton
+          icon="pencil-outline"
+          size={16}
+          onPress={onEdit}
+          iconColor={theme.colors.onSurfaceVariant}
+          accessibilityLabel="编辑待发送消息"
+          style={{ margin: 0, marginLeft: 4 }}
+        />
+      )}
+      {onCancel && (
+        <PaperIconButton
+          icon="close"
+          size={16}
+          onPress={onCancel}
+          iconColor={theme.colors.error}
+          accessibilityLabel="取消发送"
+          style={{ margin: 0 }}
+        />
+      )}
+    </View>
+  );
+}
+
+export const QueuedMessageBar = React.memo(QueuedMessageBarComponent);
+export default QueuedMessageBar;
@@ -0,0 +1,139 @@
+/**
+ * 🧩 结构化输出展示
+ *
+ * 功能：
+ * - 将符合 JSON Schema 的回答渲染为可折叠的 JSON 树
+ * - 显示校验状态（已通过 / 不符合 Schema 的具体问题）
+ * - 校验失败时提供重试入口（重新生成该轮回答）
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Pressable, View } from 'react-native';
+import { Button, Text, useTheme } from 'react-native-paper';
+import { extractJsonText } from '@/services/ai/structured/StructuredOutput';
+
+interface StructuredOutputBlockProps {
+  content: string;
+  /** 校验结果（生成中为空） */
+  structured: { valid?: boolean; issues?: string[] };
+  isStreaming?: boolean;
+  onRetry?: () => void;
+}
+
+/** 默认展开的层级 */
+const DEFAULT_EXPAND_DEPTH = 2;
+
+function parseJson(content: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(extractJsonText(content)) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+interface JsonNodeProps {
+  name?: string;
+  value: unknown;
+  depth: number;
+}
+
+function JsonNode({ name, value, depth }: JsonNodeProps) {
+  const theme = useTheme();
+  const isContainer = value !== null && typeof value === 'object';
+  const [expanded, setExpanded] = useState(depth < DEFAULT_EXPAND_DEPTH);
+
+  const label = name !== undefined ? (
+    <Text style={{ color: theme.colors.primary, fontFamily: 'monospace', fontSize: 12 }}>{name}: </Text>
+  ) : null;
+
+  if (!isContainer) {
+    const color = typeof value === 'string'
+      ? theme.colors.tertiary
+      : value === null ? theme.colors.onSurfaceVariant : theme.colors.secondary;
+    return (
+      <Text style={{ fontFamily: 'monospace', fontSize: 12, paddingLeft: depth > 0 ? 12 : 0 }} selectable>
+        {label}
+        <Text style={{ color, fontFamily: 'monospace', fontSize: 12 }}>{JSON.stringify(value)}</Text>
+      </Text>
+    );
+  }
+
+  const entries = Array.isArray(value)
+    ? value.map((v, i) => [String(i), v] as const)
+    : Object.entries(value as Record<string, unknown>);
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+
+  return (
+    <View style={{ paddingLeft: depth > 0 ? 12 : 0 }}>
+      <Pressable onPress={() => setExpanded((x) => !x)} hitSlop={6}>
+        <Text style={{ fontFamily: 'monospace', fontSize: 12, color: theme.colors.onSurface }}>
+          {expanded ? '▾ ' : '▸ '}
+          {label}
+          {expanded ? open : `${open} ${entries.length} 项 ${close}`}
+        </Text>
+      </Pressable>
+      {expanded && (
+        <>
+          {entries.map(([key, v]) => (
+            <JsonNode key={key} name={key} value={v} depth={depth + 1} />
+          ))}
+          <Text style={{ fontFamily: 'monospace', fontSize: 12, color: theme.colors.onSurface, paddingLeft: 12 }}>
+            {close}
+          </Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+function StructuredOutputBlockComponent({ content, structured, isStreaming = false, onRetry }: StructuredOutputBlockProps) {
+  const theme = useTheme();
+  // 生成中的 JSON 尚不完整，完成后再解析
+  const parsed = useMemo(() => (isStreaming ? null : parseJson(content)), [content, isStreaming]);
+  const invalid = structured.valid === false;
+
+  return (
+    <View>
+      {/* 校验状态 */}
+      {!isStreaming && (
+        <Text
+          variant="bodySmall"
+          style={{
+            color: invalid ? theme.colors.error : theme.colors.primary,
+            fontSize: 11,
+            marginBottom: 6,
+          }}
+        >
+          {invalid ? '✗ 不符合 JSON Schema' : structured.valid ? '✓ 已通过 JSON Schema 校验' : 'JSON'}
+        </Text>
+      )}
+
+      {parsed?.ok ? (
+        <JsonNode value={parsed.value} depth={0} />
+      ) : (
+        <Text style={{ fontFamily: 'monospace', fontSize: 12, color: theme.colors.onSurface }} selectable>
+          {content}
+        </Text>
+      )}
+
+      {/* 校验问题与重试 */}
+      {invalid && (
+        <View style={{ marginTop: 8 }}>
+          {(structured.issues ?? []).slice(0, 5).map((issue, i) => (
+            <Text key={i} variant="bodySmall" style={{ color: theme.colors.error, fontSize: 11 }}>
+              • {issue}
+            </Text>
+          ))}
+          {onRetry && (
+            <Button compact mode="text" icon="refresh" onPress={onRetry} style={{ alignSelf: 'flex-start' }}>
+              重试
+            </Button>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+export const StructuredOutputBlock = React.memo(StructuredOutputBlockComponent);
+export default StructuredOutputBlock;
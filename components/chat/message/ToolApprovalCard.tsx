@@ -0,0 +1,129 @@
+/**
+ * 🛡️ 工具调用审批卡片
+ *
+ * 功能：
+ * - 需要审批的 MCP 工具调用暂停执行，在消息中显示工具名称、所属服务器与参数
+ * - 允许一次 / 始终允许（记住该工具） / 拒绝（拒绝结果返回给模型）
+ */
+
+import React, { useEffect, useState } from 'react';
+import { ScrollView, StyleSheet, View } from 'react-native';
+import { Button, Card, Text, useTheme } from 'react-native-paper';
+import {
+  getPendingApprovals,
+  resolveToolApproval,
+  type ToolApprovalRequest,
+} from '@/services/mcp/ToolApproval';
+import { appEvents, AppEvents } from '@/utils/events';
+
+interface ToolApprovalCardsProps {
+  messageId: string;
+}
+
+function formatArgs(args: unknown): string {
+  if (args === undefined || args === null) return '{}';
+  try {
+    return JSON.stringify(typeof args === 'string' ? JSON.parse(args) : args, null, 2);
+  } catch {
+    return String(args);
+  }
+}
+
+function ToolApprovalCard({ request }: { request: ToolApprovalRequest }) {
+  const theme = useTheme();
+  const codeBackground = theme.dark ? 'rgba(18, 18, 20, 0.65)' : 'rgba(255, 255, 255, 0.9)';
+
+  return (
+    <Card mode="outlined" style={[styles.card, { borderColor: theme.colors.primary }]}>
+      <Card.Title
+        title={`调用工具 ${request.toolName}`}
+        subtitle={`来自 ${request.serverName}`}
+        titleStyle={styles.title}
+        subtitleStyle={{ fontSize: 12 }}
+        style={styles.titleContainer}
+      />
+      <Card.Content>
+        <Text variant="labelSmall" style={{ color: theme.colors.onSurfaceVariant, marginBottom: 4 }}>
+          参数：
+        </Text>
+        <ScrollView style={styles.argsScroll} nestedScrollEnabled>
+          <Text
+            variant="bodySmall"
+            style={[styles.codeText, { color: theme.colors.onSurface, backgroundColor: codeBackground }]}
+          >
+            {formatArgs(request.args)}
+          </Text>
+        </ScrollView>
+      </Card.Content>
+      <Card.Actions style={styles.actions}>
+        <Button compact textColor={theme.colors.error} onPress={() => resolveToolApproval(request.toolCallId, 'deny')}>
+          拒绝
+        </Button>
+        <Button compact onPress={() => resolveToolApproval(request.toolCallId, 'always')}>
+          始终允许
+        </Button>
+        <Button compact mode="contained" onPress={() => resolveToolApproval(request.toolCallId, 'once')}>
+          允许一次
+        </Button>
+      </Card.Actions>
+    </Card>
+  );
+}
+
+/**
+ * 显示消息中所有待审批的工具调用
+ */
+function ToolApprovalCardsComponent({ messageId }: ToolApprovalCardsProps) {
+  const [requests, setRequests] = useState<ToolApprovalRequest[]>(() => getPendingApprovals(messageId));
+
+  useEffect(() => {
+    const refresh = () => setRequests(getPendingApprovals(messageId));
+    refresh();
+    appEvents.on(AppEvents.MCP_TOOL_APPROVAL_CHANGED, refresh);
+    return () => {
+      appEvents.off(AppEvents.MCP_TOOL_APPROVAL_CHANGED, refresh);
+    };
+  }, [messageId]);
+
+  if (requests.length === 0) return null;
+
+  return (
+    <View className="mb-2">
+      {requests.map((request) => (
+        <ToolApprovalCard key={request.toolCallId} request={request} />
+      ))}
+    </View>
+  );
+}
+
+export const ToolApprovalCards = React.memo(ToolApprovalCardsComponent);
+
+const styles = StyleSheet.create({
+  card: {
+    marginVertical: 3,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  titleContainer: {
+    minHeight: 48,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  argsScroll: {
+    maxHeight: 160,
+  },
+  codeText: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+    lineHeight: 18,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  actions: {
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+  },
+});
@@ -0,0 +1,64 @@
+/**
+ * 🌐 消息译文组件
+ *
+ * 功能：
+ * - 在消息气泡下方显示译文（目标语言标签 + Markdown 内容）
+ * - 翻译进行中显示加载指示，内容随流式输出实时更新
+ * - 可折叠，避免长译文占用过多空间
+ */
+
+import React, { useState } from 'react';
+import { Pressable, View } from 'react-native';
+import { ActivityIndicator, Text, useTheme } from 'react-native-paper';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import { MarkdownRenderer } from './MarkdownRenderer';
+
+export interface TranslationBlockProps {
+  text: string;             // 译文内容
+  targetLanguage: string;   // 目标语言
+  isStreaming?: boolean;    // 是否仍在翻译中
+}
+
+function TranslationBlockComponent({ text, targetLanguage, isStreaming = false }: TranslationBlockProps) {
+  const theme = useTheme();
+  const [collapsed, setCollapsed] = useState(false);
+
+  return (
+    <View
+      className="mt-1.5 rounded-2xl px-3.5 py-2"
+      style={{
+        backgroundColor: theme.colors.surfaceVariant,
+        borderLeftWidth: 3,
+        borderLeftColor: theme.colors.primary,
+      }}
+    >
+      <Pressable
+        onPress={() => setCollapsed((v) => !v)}
+        hitSlop={6}
+        className="flex-row items-center gap-1.5"
+      >
+        <Icon name="translate" size={14} color={theme.colors.primary} />
+        <Text variant="labelSmall" style={{ color: theme.colors.onSurfaceVariant, flex: 1 }}>
+          {isStreaming ? `正在翻译为${targetLanguage}...` : `译文 · ${targetLanguage}`}
+        </Text>
+        {isStreaming ? (
+          <ActivityIndicator size={12} />
+        ) : (
+          <Icon
+            name={collapsed ? 'chevron-down' : 'chevron-up'}
+            size={16}
+            color={theme.colors.onSurfaceVariant}
+          />
+        )}
+      </Pressable>
+      {!collapsed && !!text && (
+        <View className="mt-1">
+          <MarkdownRenderer content={text} />
+        </View>
+      )}
+    </View>
+  );
+}
+
+export const TranslationBlock = React.memo(TranslationBlockComponent);
+export default TranslationBlock;
@@ -3,10 +3,15 @@
  * 消息展示相关组件统一导出
  */
 
+export { ArenaAnswers } from './ArenaAnswers';
+export { ContextBoundaryDivider } from './ContextBoundaryDivider';
 export { MarkdownRenderer } from './MarkdownRenderer';
 export { MessageBubble } from './MessageBubble';
-export { MessageList } from './MessageList';
+export { MessageList, type MessageFocusRequest } from './MessageList';
+export { QueuedMessageBar } from './QueuedMessageBar';
+export { StructuredOutputBlock } from './StructuredOutputBlock';
 export { ThinkingBlock } from './ThinkingBlock';
+export { ToolApprovalCards } from './ToolApprovalCard';
 export { ToolBlock } from './ToolBlock';
 export { TypingIndicator } from './TypingIndicator';
 
@@ -1,10 +1,13 @@
 import { useConfirmDialog } from '@/hooks/use-confirm-dialog';
 import type { Assistant } from '@/types/assistant';
+import { getInputVariables } from '@/utils/prompt-template';
 import { FlashList, ListRenderItem } from '@shopify/flash-list';
 import { useCallback, useMemo, useState } from 'react';
 import { StyleSheet, View } from 'react-native';
 import { IconButton, List, Text, TouchableRipple, useTheme } from 'react-native-paper';
 import { AssistantPickerDialog } from '../dialogs/AssistantPickerDialog';
+import { AssistantSettingsDialog } from '../dialogs/AssistantSettingsDialog';
+import { PromptTemplateFormDialog } from '../dialogs/PromptTemplateFormDialog';
 import { useAssistants } from './hooks/useAssistants';
 
 export function AssistantsTab() {
@@ -14,11 +17,29 @@ export function AssistantsTab() {
     assistants, 
     currentAssistantId, 
     selectAssistant, 
+    getTemplateValues,
     addAssistant, 
-    removeAssistant 
+    removeAssistant,
+    updateAssistantSettings,
   } = useAssistants();
   
   const [pickerVisible, setPickerVisible] = useState(false);
+  const [settingsTarget, setSettingsTarget] = useState<Assistant | null>(null);
+  const [templateTarget, setTemplateTarget] = useState<{
+    assistant: Assistant;
+    initialValues: Record<string, string>;
+  } | null>(null);
+
+  // 启用助手：系统提示词包含模板变量时先填写变量
+  const activateAssistant = useCallback(async (assistant: Assistant) => {
+    const template = assistant.systemPrompt ?? '';
+    if (getInputVariables(template).length > 0) {
+      setTemplateTarget({ assistant, initialValues: await getTemplateValues(assistant.id) });
+      return;
+    }
+    // 内置变量（日期时间、剪贴板等）在发送时读取，无需填写
+    await selectAssistant(assistant.id);
+  }, [getTemplateValues, selectAssistant]);
 
   // 移除助手确认逻辑
   const handleRemoveAssistant = useCallback((assistant: Assistant) => {
@@ -52,7 +73,7 @@ export function AssistantsTab() {
 
       return (
         <TouchableRipple
-          onPress={() => selectAssistant(assistant.id)}
+          onPress={() => void activateAssistant(assistant)}
           onLongPress={() => canRemove && handleRemoveAssistant(assistant)}
         >
           <List.Item
@@ -65,17 +86,24 @@ export function AssistantsTab() {
                 </Text>
               </View>
             )}
-            right={(props) =>
-              isSelected ? (
-                <List.Icon {...props} icon="check" color={theme.colors.primary} />
-              ) : canRemove ? (
+            right={(props) => (
+              <View style={styles.itemActions}>
                 <IconButton
-                  icon="close"
+                  icon="tune-variant"
                   size={16}
-                  onPress={() => handleRemoveAssistant(assistant)}
+                  onPress={() => setSettingsTarget(assistant)}
                 />
-              ) : null
-            }
+                {isSelected ? (
+                  <List.Icon {...props} icon="check" color={theme.colors.primary} />
+                ) : canRemove ? (
+                  <IconButton
+                    icon="close"
+                    size={16}
+                    onPress={() => handleRemoveAssistant(assistant)}
+                  />
+                ) : null}
+              </View>
+            )}
             style={[
               styles.assistantItem,
               isSelected && [
@@ -87,7 +115,7 @@ export function AssistantsTab() {
         </TouchableRipple>
       );
     },
-    [currentAssistantId, handleRemoveAssistant, selectAssistant, theme.colors.primary, theme.colors.primaryContainer],
+    [currentAssistantId, handleRemoveAssistant, activateAssistant, theme.colors.primary, theme.colors.primaryContainer],
   );
 
   return (
@@ -141,7 +169,34 @@ export function AssistantsTab() {
         onDismiss={() => setPickerVisible(false)}
         onSelect={async (assistant) => {
           await addAssistant(assistant);
+          // 添加后直接切换到该助手，应用其模型与工具设置
           setPickerVisible(false);
+          await activateAssistant(assistant);
+        }}
+      />
+
+      {/* 助手提示词模板变量填写 */}
+      <PromptTemplateFormDialog
+        visible={!!templateTarget}
+        title={templateTarget ? `启用「${templateTarget.assistant.name}」` : ''}
+        variables={templateTarget ? getInputVariables(templateTarget.assistant.systemPrompt ?? '') : []}
+        initialValues={templateTarget?.initialValues}
+        onDismiss={() => setTemplateTarget(null)}
+        onSubmit={async (values) => {
+          if (!templateTarget) return;
+          setTemplateTarget(null);
+          await selectAssistant(templateTarget.assistant.id, values);
+        }}
+      />
+
+      {/* 助手对话设置对话框 */}
+      <AssistantSettingsDialog
+        visible={!!settingsTarget}
+        assistant={settingsTarget}
+        onDismiss={() => setSettingsTarget(null)}
+        onSave={async (settings) => {
+          if (!settingsTarget) return;
+          await updateAssistantSettings(settingsTarget.id, settings);
         }}
       />
     </View>
@@ -157,6 +212,10 @@ const styles = StyleSheet.create({
     borderColor: '#E0E0E0',
     overflow: 'hidden',
   },
+  itemActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   assistantItemSelected: {
     borderWidth: 2,
     // borderColor 在组件中动态设置为 theme.colors.primary
@@ -2,12 +2,15 @@ import React, { useEffect, useRef, useState, useMemo, useCallback } from 'react'
 import { Animated, Pressable, StyleSheet, useWindowDimensions, View } from 'react-native';
 import { Surface, Text, List, TouchableRipple, useTheme, Button, IconButton, Searchbar, Checkbox, Menu, Snackbar } from 'react-native-paper';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
 import { FlashList, ListRenderItem } from '@shopify/flash-list';
 import { useConversations } from '@/hooks/use-conversations';
 import { ChatRepository } from '@/storage/repositories/chat';
 import { useConfirmDialog } from '@/hooks/use-confirm-dialog';
 import { useTopicExport } from '@/hooks/use-topic-export';
 import { TopicExportDialog } from '@/components/chat/dialogs/TopicExportDialog';
+import { TopicSettingsDialog } from '@/components/chat/dialogs/TopicSettingsDialog';
+import { TopicMemoryDialog } from '@/components/chat/dialogs/TopicMemoryDialog';
 import { Conversation } from '@/storage/core';
 import type { ExportOptions } from '@/services/export';
 
@@ -31,6 +34,9 @@ interface TopicItemProps {
   onRename: (conversation: Conversation) => void;
   onDelete: (id: string) => void;
   onExport: (conversation: Conversation) => void;
+  onSettings: (conversation: Conversation) => void;
+  onCloneSettings: (conversation: Conversation) => void;
+  onMemory: (conversation: Conversation) => void;
   onToggleSelection: (id: string) => void;
   menuVisible: boolean;
   onMenuOpen: (id: string) => void;
@@ -66,6 +72,9 @@ const TopicItem = React.memo<TopicItemProps>(({
   onRename,
   onDelete,
   onExport,
+  onSettings,
+  onCloneSettings,
+  onMemory,
   onToggleSelection,
   menuVisible,
   onMenuOpen,
@@ -131,6 +140,30 @@ const TopicItem = React.memo<TopicItemProps>(({
                 }}
                 title="重命名"
               />
+              <Menu.Item
+                leadingIcon="tune-variant"
+                onPress={() => {
+                  onMenuClose();
+                  onSettings(conversation);
+                }}
+                title="话题设置"
+              />
+              <Menu.Item
+                leadingIcon="brain"
+                onPress={() => {
+                  onMenuClose();
+                  onMemory(conversation);
+                }}
+                title="话题记忆"
+              />
+              <Menu.Item
+                leadingIcon="content-copy"
+                onPress={() => {
+                  onMenuClose();
+                  onCloneSettings(conversation);
+                }}
+                title="沿用设置新建话题"
+              />
               <Menu.Item
                 leadingIcon="export-variant"
                 onPress={() => {
@@ -218,6 +251,8 @@ export function TopicsSidebar({ visible, onClose, onSelectTopic, currentTopicId
   const [openMenuId, setOpenMenuId] = useState<string | null>(null);
   const [snackbarVisible, setSnackbarVisible] = useState(false);
   const [snackbarMessage, setSnackbarMessage] = useState('');
+  const [settingsConversation, setSettingsConversation] = useState<Conversation | null>(null);
+  const [memoryConversation, setMemoryConversation] = useState<Conversation | null>(null);
 
   // 搜索过滤
   const filteredItems = useMemo(() => {
@@ -364,6 +399,29 @@ export function TopicsSidebar({ visible, onClose, onSelectTopic, currentTopicId
     }
   }, [isExporting, reset]);
 
+  // 话题设置
+  const handleTopicSettingsPress = useCallback((conversation: Conversation) => {
+    setSettingsConversation(conversation);
+  }, []);
+
+  // 话题记忆（滚动摘要）
+  const handleTopicMemoryPress = useCallback((conversation: Conversation) => {
+    setMemoryConversation(conversation);
+  }, []);
+
+  // 沿用话题设置新建话题
+  const handleCloneSettingsPress = useCallback(async (conversation: Conversation) => {
+    try {
+      const conv = await ChatRepository.createConversationFrom(conversation.id, '新话题');
+      await reload();
+      onSelectTopic?.(conv.id);
+      onClose();
+    } catch (err: any) {
+      setSnackbarMessage(err?.message || '新建话题失败');
+      setSnackbarVisible(true);
+    }
+  }, [reload, onSelectTopic, onClose]);
+
   // 菜单打开/关闭处理
   const handleMenuOpen = useCallback((id: string) => {
     setOpenMenuId(id);
@@ -419,6 +477,9 @@ export function TopicsSidebar({ visible, onClose, onSelectTopic, currentTopicId
         onRename={handleRenameTopicPress}
         onDelete={handleDeleteTopicPress}
         onExport={handleExportTopicPress}
+        onSettings={handleTopicSettingsPress}
+        onCloneSettings={handleCloneSettingsPress}
+        onMemory={handleTopicMemoryPress}
         onToggleSelection={toggleSelection}
         menuVisible={openMenuId === conversation.id}
         onMenuOpen={handleMenuOpen}
@@ -432,6 +493,9 @@ export function TopicsSidebar({ visible, onClose, onSelectTopic, currentTopicId
     handleDeleteTopicPress,
     handleRenameTopicPress,
     handleExportTopicPress,
+    handleTopicSettingsPress,
+    handleCloneSettingsPress,
+    handleTopicMemoryPress,
     handleTopicLongPress,
     handleTopicPress,
     handleMenuOpen,
@@ -545,6 +609,14 @@ export function TopicsSidebar({ visible, onClose, onSelectTopic, currentTopicId
                           icon="magnify"
                           onPress={() => setSearchVisible(true)}
                         />
+                        {/* 🔎 全文搜索所有消息 */}
+                        <IconButton
+                          icon="text-search"
+                          onPress={() => {
+                            onClose();
+                            router.push('/search');
+                          }}
+                        />
                         <IconButton
                           icon="dots-vertical"
                           onPress={() => setBatchMode(true)}
@@ -598,6 +670,28 @@ export function TopicsSidebar({ visible, onClose, onSelectTopic, currentTopicId
         isExporting={isExporting}
       />
 
+      {/* 话题设置对话框 */}
+      <TopicSettingsDialog
+        visible={!!settingsConversation}
+        conversation={settingsConversation}
+        onDismiss={() => setSettingsConversation(null)}
+        onError={(message) => {
+          setSnackbarMessage(message);
+          setSnackbarVisible(true);
+        }}
+      />
+
+      {/* 话题记忆对话框 */}
+      <TopicMemoryDialog
+        visible={!!memoryConversation}
+        conversation={memoryConversation}
+        onDismiss={() => setMemoryConversation(null)}
+        onError={(message) => {
+          setSnackbarMessage(message);
+          setSnackbarVisible(true);
+        }}
+      />
+
       {/* 消息提示 */}
       <Snackbar
         visible={snackbarVisible}
@@ -1,6 +1,6 @@
 import { AssistantsRepository } from '@/storage/repositories/assistants';
 import { SettingKey, SettingsRepository } from '@/storage/repositories/settings';
-import type { Assistant } from '@/types/assistant';
+import type { Assistant, AssistantSettings } from '@/types/assistant';
 import { appEvents, AppEvents } from '@/utils/events';
 import { useCallback, useEffect, useMemo, useState } from 'react';
 
@@ -47,12 +47,21 @@ export function useAssistants() {
     appEvents.emit(AppEvents.ASSISTANTS_UPDATED, ASSISTANTS_EVENT_SOURCE);
   }, []);
 
-  // 切换助手
-  const selectAssistant = useCallback(async (assistantId: string) => {
+  // 读取助手提示词模板变量上次填写的值
+  const getTemplateValues = useCallback(
+    (assistantId: string) => assistantsRepo.getTemplateValues(assistantId),
+    [assistantsRepo]
+  );
+
+  // 切换助手（templateValues 为提示词模板变量的填写值；剪贴板等内置变量不保存，发送时读取）
+  const selectAssistant = useCallback(async (assistantId: string, templateValues?: Record<string, string>) => {
+    if (templateValues) {
+      await assistantsRepo.setTemplateValues(assistantId, templateValues);
+    }
     await settingsRepo.set(SettingKey.CurrentAssistantId, assistantId);
     setCurrentAssistantId(assistantId);
     appEvents.emit(AppEvents.ASSISTANT_CHANGED, assistantId);
-  }, [settingsRepo]);
+  }, [assistantsRepo, settingsRepo]);
 
   // 添加助手
   const addAssistant = useCallback(async (assistant: Assistant) => {
@@ -74,12 +83,25 @@ export function useAssistants() {
     notifyAssistantsUpdated();
   }, [assistantsRepo, currentAssistantId, loadAssistants, notifyAssistantsUpdated, selectAssistant]);
 
+  // 保存助手对话设置（当前助手的设置立即生效）
+  const updateAssistantSettings = useCallback(async (assistantId: string, settings: AssistantSettings) => {
+    await assistantsRepo.updateSettings(assistantId, settings);
+    await loadAssistants();
+    notifyAssistantsUpdated();
+
+    if (assistantId === currentAssistantId) {
+      appEvents.emit(AppEvents.ASSISTANT_CHANGED, assistantId);
+    }
+  }, [assistantsRepo, currentAssistantId, loadAssistants, notifyAssistantsUpdated]);
+
   return {
     assistants,
     currentAssistantId,
     selectAssistant,
+    getTemplateValues,
     addAssistant,
     removeAssistant,
+    updateAssistantSettings,
     reloadAssistants: loadAssistants,
   };
 }
\ No newline at end of file
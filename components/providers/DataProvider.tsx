@@ -1,4 +1,6 @@
 import { LegacyKeyAdapter } from '@/storage/adapters/legacy-key-adapter';
+import { SecretMigrationAdapter } from '@/storage/adapters/secret-migration-adapter';
+import { MessageRepository } from '@/storage/repositories/messages';
 import { initMigrations } from '@/storage/sqlite/db';
 import { logger } from '@/utils/logger';
 import { fetch as expoFetch } from 'expo/fetch';
@@ -31,6 +33,15 @@ export function AppDataProvider({ children }: Props) {
         // 2. 自动迁移单 Key 到多 Key 表（向后兼容）
         await LegacyKeyAdapter.migrateFromAsyncStorage();
 
+        // 3. 已有的明文 API Key / MCP 请求头改为加密存储
+        await SecretMigrationAdapter.encryptPlaintextSecrets();
+
+        // 4. 上次生成过程中应用被关闭：将仍为 pending 的回答标记为已中断（可继续生成）
+        const interrupted = await MessageRepository.markInterruptedGenerations();
+        if (interrupted > 0) {
+          logger.info('[AppDataProvider] 已标记中断的回答', { count: interrupted });
+        }
+
         logger.info('[AppDataProvider] 数据库初始化和迁移完成');
       } catch (e) {
         logger.error('[AppDataProvider] 数据库初始化失败', e);
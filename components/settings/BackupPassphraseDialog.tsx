@@ -0,0 +1,99 @@
+/**
+ * 备份密码对话框
+ *
+ * - 导出：设置备份密码后 API Key 等敏感信息使用该密码加密导出；不设置则不导出敏感信息
+ * - 导入：备份中的敏感信息已加密时输入备份密码；跳过则不恢复敏感信息
+ * 样式统一：使用 UnifiedDialog
+ */
+
+import { UnifiedDialog } from '@/components/common/UnifiedDialog';
+import { useEffect, useState } from 'react';
+import { View } from 'react-native';
+import { HelperText, Text, TextInput, useTheme } from 'react-native-paper';
+
+/** 导出时的最短备份密码长度 */
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface BackupPassphraseDialogProps {
+  visible: boolean;
+  mode: 'export' | 'import';
+  onDismiss: () => void;
+  /** passphrase 为 null 表示不导出 / 不恢复敏感信息 */
+  onSubmit: (passphrase: string | null) => void;
+}
+
+export function BackupPassphraseDialog({ visible, mode, onDismiss, onSubmit }: BackupPassphraseDialogProps) {
+  const theme = useTheme();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [secure, setSecure] = useState(true);
+
+  useEffect(() => {
+    if (visible) {
+      setPassphrase('');
+      setConfirm('');
+      setSecure(true);
+    }
+  }, [visible]);
+
+  const isExport = mode === 'export';
+  const error = !passphrase
+    ? ''
+    : isExport && passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `备份密码至少 ${MIN_PASSPHRASE_LENGTH} 位`
+      : isExport && confirm && confirm !== passphrase
+        ? '两次输入的密码不一致'
+        : '';
+  const canSubmit = !!passphrase && !error && (!isExport || confirm === passphrase);
+
+  return (
+    <UnifiedDialog
+      visible={visible}
+      onClose={onDismiss}
+      title={isExport ? '备份敏感信息' : '输入备份密码'}
+      icon="lock-outline"
+      actions={[
+        { text: isExport ? '不导出密钥' : '跳过密钥', onPress: () => onSubmit(null) },
+        { text: '取消', type: 'cancel', onPress: onDismiss },
+        { text: '确定', type: 'primary', onPress: () => onSubmit(passphrase), disabled: !canSubmit },
+      ]}
+    >
+      <View style={{ gap: 8 }}>
+        <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+          {isExport
+            ? 'API Key 等敏感信息默认不包含在备份中。设置备份密码后，这些信息将使用该密码加密导出，恢复时需要输入同一密码。'
+            : '该备份中的 API Key 等敏感信息已使用备份密码加密。输入密码以恢复这些信息，或跳过仅恢复其他数据。'}
+        </Text>
+
+        <TextInput
+          mode="outlined"
+          label="备份密码"
+          value={passphrase}
+          onChangeText={setPassphrase}
+          secureTextEntry={secure}
+          autoCapitalize="none"
+          autoCorrect={false}
+          right={<TextInput.Icon icon={secure ? 'eye-off' : 'eye'} onPress={() => setSecure((v) => !v)} />}
+        />
+
+        {isExport && (
+          <TextInput
+            mode="outlined"
+            label="确认备份密码"
+            value={confirm}
+            onChangeText={setConfirm}
+            secureTextEntry={secure}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+        )}
+
+        {!!error && (
+          <HelperText type="error" visible>
+            {error}
+          </HelperText>
+        )}
+      </View>
+    </UnifiedDialog>
+  );
+}
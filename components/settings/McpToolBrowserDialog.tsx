@@ -0,0 +1,205 @@
+/**
+ * MCP 工具浏览对话框
+ *
+ * - 列出服务器提供的全部工具（mcpClient.listTools），可展开查看参数 Schema
+ * - 每个工具单独启用 / 禁用，禁用的工具不会提供给模型
+ * - "始终允许"的工具可在此恢复为每次询问
+ * 样式统一：使用 UnifiedDialog
+ */
+
+import { UnifiedDialog } from '@/components/common/UnifiedDialog';
+import { mcpClient } from '@/services/mcp/McpClient';
+import { McpServersRepository } from '@/storage/repositories/mcp';
+import type { MCPServer, McpToolPolicy } from '@/types/mcp';
+import type { MCPTool } from '@/types/tool';
+import { logger } from '@/utils/logger';
+import { useEffect, useState } from 'react';
+import { ScrollView, StyleSheet, View } from 'react-native';
+import { ActivityIndicator, Chip, Divider, IconButton, Switch, Text, useTheme } from 'react-native-paper';
+
+interface McpToolBrowserDialogProps {
+  visible: boolean;
+  server: MCPServer | null;
+  onDismiss: () => void;
+  /** 工具设置已修改（用于刷新服务器列表） */
+  onChanged?: () => void;
+}
+
+export function McpToolBrowserDialog({ visible, server, onDismiss, onChanged }: McpToolBrowserDialogProps) {
+  const theme = useTheme();
+  const [tools, setTools] = useState<MCPTool[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [disabled, setDisabled] = useState<Set<string>>(new Set());
+  const [policies, setPolicies] = useState<Record<string, McpToolPolicy>>({});
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible || !server) return;
+    let mounted = true;
+    setDisabled(new Set(server.disabledTools ?? []));
+    setPolicies(server.toolPolicies ?? {});
+    setExpanded(null);
+    setError(null);
+
+    (async () => {
+      try {
+        setLoading(true);
+        const list = await mcpClient.listTools(server.id);
+        if (mounted) setTools(list);
+      } catch (e: any) {
+        logger.warn('[McpToolBrowserDialog] 加载工具失败', { serverId: server.id, error: e?.message });
+        if (mounted) {
+          setTools([]);
+          setError(e?.message || String(e));
+        }
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [visible, server]);
+
+  const handleToggle = async (toolName: string, enabled: boolean) => {
+    if (!server) return;
+    setDisabled((prev) => {
+      const next = new Set(prev);
+      if (enabled) next.delete(toolName);
+      else next.add(toolName);
+      return next;
+    });
+    try {
+      await McpServersRepository.setToolEnabled(server.id, toolName, enabled);
+      onChanged?.();
+    } catch (e) {
+      logger.error('[McpToolBrowserDialog] 保存工具开关失败', e);
+    }
+  };
+
+  const handleResetPolicy = async (toolName: string) => {
+    if (!server) return;
+    setPolicies((prev) => {
+      const next = { ...prev };
+      delete next[toolName];
+      return next;
+    });
+    try {
+      await McpServersRepository.setToolPolicy(server.id, toolName, 'ask');
+      onChanged?.();
+    } catch (e) {
+      logger.error('[McpToolBrowserDialog] 重置工具授权失败', e);
+    }
+  };
+
+  const enabledCount = tools.filter((t) => !disabled.has(t.name)).length;
+
+  return (
+    <UnifiedDialog
+      visible={visible}
+      onClose={onDismiss}
+      title={server ? `${server.name} 的工具` : '工具'}
+      icon="tools"
+      actions={[{ text: '完成', type: 'primary', onPress: onDismiss }]}
+    >
+      {loading ? (
+        <View style={styles.center}>
+          <ActivityIndicator />
+          <Text style={{ marginTop: 8, color: theme.colors.onSurfaceVariant }}>正在获取工具列表…</Text>
+        </View>
+      ) : error ? (
+        <Text style={{ color: theme.colors.error }}>获取工具失败：{error}</Text>
+      ) : tools.length === 0 ? (
+        <Text style={{ color: theme.colors.onSurfaceVariant }}>该服务器没有提供工具</Text>
+      ) : (
+        <View>
+          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, marginBottom: 8 }}>
+            已启用 {enabledCount}/{tools.length} 个工具，禁用的工具不会提供给模型
+          </Text>
+          <ScrollView style={{ maxHeight: 420 }} nestedScrollEnabled>
+            {tools.map((tool, index) => {
+              const isExpanded = expanded === tool.name;
+              return (
+                <View key={tool.name}>
+                  {index > 0 && <Divider />}
+                  <View style={styles.row}>
+                    <View style={{ flex: 1 }}>
+                      <Text variant="titleSmall" style={{ fontFamily: 'monospace' }}>{tool.name}</Text>
+                      {tool.description ? (
+                        <Text
+                          variant="bodySmall"
+                          numberOfLines={isExpanded ? undefined : 2}
+                          style={{ color: theme.colors.onSurfaceVariant }}
+                        >
+                          {tool.description}
+                        </Text>
+                      ) : null}
+                      {policies[tool.name] === 'always' && (
+                        <Chip
+                          compact
+                          icon="shield-check"
+                          onClose={() => void handleResetPolicy(tool.name)}
+                          style={styles.chip}
+                          textStyle={{ fontSize: 11 }}
+                        >
+                          始终允许
+                        </Chip>
+                      )}
+                    </View>
+                    <IconButton
+                      icon={isExpanded ? 'chevron-up' : 'code-json'}
+                      size={18}
+                      onPress={() => setExpanded(isExpanded ? null : tool.name)}
+                      accessibilityLabel="查看参数 Schema"
+                    />
+                    <Switch
+                      value={!disabled.has(tool.name)}
+                      onValueChange={(v) => void handleToggle(tool.name, v)}
+                    />
+                  </View>
+                  {isExpanded && (
+                    <Text
+                      variant="bodySmall"
+                      style={[
+                        styles.schema,
+                        { color: theme.colors.onSurface, backgroundColor: theme.colors.surfaceVariant },
+                      ]}
+                    >
+                      {JSON.stringify(tool.inputSchema, null, 2)}
+                    </Text>
+                  )}
+                </View>
+              );
+            })}
+          </ScrollView>
+        </View>
+      )}
+    </UnifiedDialog>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: {
+    alignItems: 'center',
+    paddingVertical: 24,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 4,
+  },
+  chip: {
+    alignSelf: 'flex-start',
+    marginTop: 4,
+  },
+  schema: {
+    fontFamily: 'monospace',
+    fontSize: 11,
+    lineHeight: 16,
+    padding: 8,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+});
@@ -0,0 +1,211 @@
+/**
+ * 模型回退链编辑对话框
+ *
+ * 主模型请求失败（限流、服务不可用等可重试错误）且尚未输出内容时，按顺序切换到回退模型
+ * 样式统一：使用 UnifiedDialog
+ */
+
+import { UnifiedDialog } from '@/components/common/UnifiedDialog';
+import { ModelPickerDialog } from '@/components/chat/dialogs/ModelPickerDialog';
+import type { ModelFallbackChain, ModelTarget } from '@/storage/types/model-fallback';
+import { logger } from '@/utils/logger';
+import { useEffect, useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import {
+  Button,
+  HelperText,
+  IconButton,
+  Text,
+  useTheme,
+} from 'react-native-paper';
+
+interface ModelFallbackEditDialogProps {
+  visible: boolean;
+  /** 编辑已有回退链时传入（主模型不可修改），新增时传 null */
+  fallback?: ModelFallbackChain | null;
+  onDismiss: () => void;
+  onSave: (primary: ModelTarget, chain: ModelTarget[]) => Promise<void>;
+}
+
+export function ModelFallbackEditDialog({
+  visible,
+  fallback,
+  onDismiss,
+  onSave,
+}: ModelFallbackEditDialogProps) {
+  const theme = useTheme();
+
+  // 表单状态
+  const [primary, setPrimary] = useState<ModelTarget | null>(null);
+  const [chain, setChain] = useState<ModelTarget[]>([]);
+
+  // UI 状态
+  const [picker, setPicker] = useState<'primary' | 'fallback' | null>(null);
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isFixedModel = !!fallback;
+
+  // 初始化表单
+  useEffect(() => {
+    if (visible) {
+      setPrimary(fallback ? { provider: fallback.provider, model: fallback.model } : null);
+      setChain(fallback?.chain ?? []);
+      setPicker(null);
+      setError('');
+      setIsSubmitting(false);
+    }
+  }, [visible, fallback]);
+
+  const handlePick = (provider: string, model: string) => {
+    if (picker === 'primary') {
+      setPrimary({ provider, model });
+    } else if (picker === 'fallback') {
+      setChain((prev) =>
+        prev.some((t) => t.provider === provider && t.model === model) ? prev : [...prev, { provider, model }]
+      );
+    }
+    setError('');
+    setPicker(null);
+  };
+
+  const moveUp = (index: number) => {
+    if (index === 0) return;
+    setChain((prev) => {
+      const next = [...prev];
+      [next[index - 1], next[index]] = [next[index], next[index - 1]];
+      return next;
+    });
+  };
+
+  const remove = (index: number) => {
+    setChain((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  /**
+   * 处理保存
+   */
+  const handleSave = async () => {
+    if (isSubmitting) return;
+
+    if (!primary) {
+      setError('请选择主模型');
+      return;
+    }
+    if (chain.some((t) => t.provider === primary.provider && t.model === primary.model)) {
+      setError('回退链中不能包含主模型本身');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await onSave(primary, chain);
+      onDismiss();
+    } catch (e) {
+      // 错误由父组件处理
+      logger.error('[ModelFallbackEditDialog] 保存失败', e);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <UnifiedDialog
+        visible={visible && picker === null}
+        onClose={onDismiss}
+        title={isFixedModel ? '编辑回退链' : '添加回退链'}
+        icon="swap-vertical"
+        actions={[
+          { text: '取消', type: 'cancel', onPress: onDismiss },
+          { text: isSubmitting ? '保存中...' : '保存', type: 'primary', onPress: handleSave, disabled: isSubmitting },
+        ]}
+      >
+        <View style={styles.formContainer}>
+          <View style={styles.formSection}>
+            <Text style={[styles.sectionLabel, { color: theme.colors.onSurfaceVariant }]}>
+              🤖 主模型
+            </Text>
+            {isFixedModel ? (
+              <Text variant="bodyMedium">{primary?.provider} / {primary?.model}</Text>
+            ) : (
+              <Button mode="outlined" icon="robot" onPress={() => setPicker('primary')}>
+                {primary ? `${primary.provider} / ${primary.model}` : '选择模型'}
+              </Button>
+            )}
+          </View>
+
+          <View style={styles.formSection}>
+            <Text style={[styles.sectionLabel, { color: theme.colors.onSurfaceVariant }]}>
+              🔁 回退顺序
+            </Text>
+            {chain.length === 0 ? (
+              <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, marginBottom: 8 }}>
+                尚未添加回退模型，保存空链将删除该模型的回退设置
+              </Text>
+            ) : (
+              chain.map((t, index) => (
+                <View key={`${t.provider}/${t.model}`} style={styles.chainRow}>
+                  <Text variant="bodyMedium" style={styles.chainText} numberOfLines={1}>
+                    {index + 1}. {t.provider} / {t.model}
+                  </Text>
+                  <IconButton
+                    icon="arrow-up"
+                    size={18}
+                    disabled={index === 0}
+                    onPress={() => moveUp(index)}
+                    style={{ margin: 0 }}
+                  />
+                  <IconButton
+                    icon="close"
+                    size={18}
+                    iconColor={theme.colors.error}
+                    onPress={() => remove(index)}
+                    style={{ margin: 0 }}
+                  />
+                </View>
+              ))
+            )}
+            <Button mode="text" icon="plus" onPress={() => setPicker('fallback')}>
+              添加回退模型
+            </Button>
+          </View>
+
+          {!!error && (
+            <HelperText type="error" visible={!!error}>
+              {error}
+            </HelperText>
+          )}
+        </View>
+      </UnifiedDialog>
+
+      <ModelPickerDialog
+        visible={visible && picker !== null}
+        onDismiss={() => setPicker(null)}
+        currentModel={picker === 'primary' ? primary : null}
+        onModelSelect={handlePick}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  formContainer: {
+    paddingTop: 8,
+  },
+  formSection: {
+    marginBottom: 16,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  chainRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  chainText: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,228 @@
+/**
+ * 模型单价编辑对话框
+ *
+ * 单价以"每百万 Token"为单位，用于估算用量花费
+ * 样式统一：使用 UnifiedDialog
+ */
+
+import { UnifiedDialog } from '@/components/common/UnifiedDialog';
+import type { ModelPrice } from '@/storage/types/usage';
+import { logger } from '@/utils/logger';
+import { useEffect, useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import {
+  HelperText,
+  SegmentedButtons,
+  Text,
+  TextInput,
+  useTheme,
+} from 'react-native-paper';
+
+const CURRENCIES = ['USD', 'CNY'];
+
+interface ModelPriceEditDialogProps {
+  visible: boolean;
+  /** 编辑已有单价或为已使用的模型设置单价时传入（provider/model 不可修改），新增时传 null */
+  price?: Pick<ModelPrice, 'provider' | 'model'> & Partial<ModelPrice> | null;
+  onDismiss: () => void;
+  onSave: (data: Omit<ModelPrice, 'updatedAt'>) => Promise<void>;
+}
+
+function parsePrice(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return 0;
+  const n = Number(trimmed);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+export function ModelPriceEditDialog({
+  visible,
+  price,
+  onDismiss,
+  onSave,
+}: ModelPriceEditDialogProps) {
+  const theme = useTheme();
+
+  // 表单状态
+  const [provider, setProvider] = useState('');
+  const [model, setModel] = useState('');
+  const [inputPrice, setInputPrice] = useState('');
+  const [outputPrice, setOutputPrice] = useState('');
+  const [currency, setCurrency] = useState('USD');
+
+  // UI 状态
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isFixedModel = !!price;
+
+  // 初始化表单
+  useEffect(() => {
+    if (visible) {
+      setProvider(price?.provider ?? '');
+      setModel(price?.model ?? '');
+      setInputPrice(price?.inputPrice ? String(price.inputPrice) : '');
+      setOutputPrice(price?.outputPrice ? String(price.outputPrice) : '');
+      setCurrency(price?.currency ?? 'USD');
+      setError('');
+      setIsSubmitting(false);
+    }
+  }, [visible, price]);
+
+  /**
+   * 处理保存
+   */
+  const handleSave = async () => {
+    if (isSubmitting) return;
+
+    const input = parsePrice(inputPrice);
+    const output = parsePrice(outputPrice);
+    if (!provider.trim() || !model.trim()) {
+      setError('提供商和模型不能为空');
+      return;
+    }
+    if (input === null || output === null) {
+      setError('单价必须是非负数字');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await onSave({
+        provider: provider.trim(),
+        model: model.trim(),
+        inputPrice: input,
+        outputPrice: output,
+        currency,
+      });
+      onDismiss();
+    } catch (e) {
+      // 错误由父组件处理
+      logger.error('[ModelPriceEditDialog] 保存失败', e);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <UnifiedDialog
+      visible={visible}
+      onClose={onDismiss}
+      title={isFixedModel ? '设置模型单价' : '添加模型单价'}
+      icon="currency-usd"
+      actions={[
+        { text: '取消', type: 'cancel', onPress: onDismiss },
+        { text: isSubmitting ? '保存中...' : '保存', type: 'primary', onPress: handleSave, disabled: isSubmitting },
+      ]}
+    >
+      <View style={styles.formContainer}>
+        {isFixedModel ? (
+          <View style={styles.formSection}>
+            <Text style={[styles.sectionLabel, { color: theme.colors.onSurfaceVariant }]}>
+              🤖 模型
+            </Text>
+            <Text variant="bodyMedium">{provider} / {model}</Text>
+          </View>
+        ) : (
+          <>
+            <View style={styles.formSection}>
+              <Text style={[styles.sectionLabel, { color: theme.colors.onSurfaceVariant }]}>
+                🏢 提供商 ID
+              </Text>
+              <TextInput
+                mode="outlined"
+                placeholder="如 openai、deepseek"
+                value={provider}
+                onChangeText={setProvider}
+                autoCapitalize="none"
+                style={styles.input}
+                outlineStyle={{ borderRadius: 12 }}
+              />
+            </View>
+            <View style={styles.formSection}>
+              <Text style={[styles.sectionLabel, { color: theme.colors.onSurfaceVariant }]}>
+                🤖 模型 ID
+              </Text>
+              <TextInput
+                mode="outlined"
+                placeholder="如 gpt-4o-mini"
+                value={model}
+                onChangeText={setModel}
+                autoCapitalize="none"
+                style={styles.input}
+                outlineStyle={{ borderRadius: 12 }}
+              />
+            </View>
+          </>
+        )}
+
+        <View style={styles.formSection}>
+          <Text style={[styles.sectionLabel, { color: theme.colors.onSurfaceVariant }]}>
+            💰 单价（每百万 Token）
+          </Text>
+          <View style={styles.priceRow}>
+            <TextInput
+              mode="outlined"
+              label="输入"
+              value={inputPrice}
+              onChangeText={setInputPrice}
+              keyboardType="decimal-pad"
+              style={[styles.input, styles.priceInput]}
+              outlineStyle={{ borderRadius: 12 }}
+            />
+            <TextInput
+              mode="outlined"
+              label="输出"
+              value={outputPrice}
+              onChangeText={setOutputPrice}
+              keyboardType="decimal-pad"
+              style={[styles.input, styles.priceInput]}
+              outlineStyle={{ borderRadius: 12 }}
+            />
+          </View>
+        </View>
+
+        <View style={styles.formSection}>
+          <Text style={[styles.sectionLabel, { color: theme.colors.onSurfaceVariant }]}>
+            💱 货币
+          </Text>
+          <SegmentedButtons
+            value={currency}
+            onValueChange={setCurrency}
+            buttons={CURRENCIES.map((c) => ({ value: c, label: c }))}
+          />
+        </View>
+
+        {!!error && (
+          <HelperText type="error" visible={!!error}>
+            {error}
+          </HelperText>
+        )}
+      </View>
+    </UnifiedDialog>
+  );
+}
+
+const styles = StyleSheet.create({
+  formContainer: {
+    paddingTop: 8,
+  },
+  formSection: {
+    marginBottom: 16,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: 'transparent',
+  },
+  priceRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  priceInput: {
+    flex: 1,
+  },
+});
@@ -261,10 +261,14 @@ export function QuickPhraseEditDialog({
             outlineStyle={{ borderRadius: 12 }}
             activeOutlineColor={theme.colors.primary}
           />
-          {!!contentError && (
-            <HelperText type="error" visible={!!contentError}>
+          {contentError ? (
+            <HelperText type="error" visible>
               {contentError}
             </HelperText>
+          ) : (
+            <HelperText type="info" visible>
+              {'支持变量：{{主题}}、{{语言|English}}（带默认值），以及内置的 {{date}} {{time}} {{clipboard}} {{selection}}'}
+            </HelperText>
           )}
         </View>
 
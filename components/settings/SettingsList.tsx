@@ -65,11 +65,19 @@ const SETTINGS_GROUPS: SettingGroup[] = [
       {
         id: 'default-model-settings',
         title: '默认模型设置',
-        description: '配置对话、话题命名、翻译等默认模型',
+        description: '配置对话、话题命名、翻译、对话记忆等默认模型',
         icon: 'tune',
         color: '#4f46e5',
         route: '/settings/topic-naming',
       },
+      {
+        id: 'model-fallbacks',
+        title: '模型回退链',
+        description: '主模型不可用时自动切换到备用模型',
+        icon: 'swap-vertical',
+        color: '#14b8a6',
+        route: '/settings/model-fallbacks',
+      },
       {
         id: 'prompt-collections',
         title: '智能体提示词集合',
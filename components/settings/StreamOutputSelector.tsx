@@ -0,0 +1,44 @@
+/**
+ * 提供商流式输出设置
+ *
+ * 部分网关或企业代理无法正确转发 SSE，可对单个提供商关闭流式输出（改为一次性返回完整回答）；
+ * 选择"跟随全局"时使用对话设置中的流式输出开关。
+ */
+
+import React from 'react';
+import { View } from 'react-native';
+import { List, SegmentedButtons } from 'react-native-paper';
+
+export interface StreamOutputSelectorProps {
+  /** null 表示跟随全局设置 */
+  value: boolean | null;
+  onChange: (value: boolean | null) => void;
+}
+
+const DESCRIPTIONS = {
+  global: '跟随对话设置中的流式输出开关',
+  stream: '逐字返回回答',
+  once: '等待生成完成后一次性返回，适用于无法转发流式响应的网关或代理',
+};
+
+export function StreamOutputSelector({ value, onChange }: StreamOutputSelectorProps) {
+  const current = value === null ? 'global' : value ? 'stream' : 'once';
+
+  return (
+    <View>
+      <List.Item title="流式输出" description={DESCRIPTIONS[current]} descriptionNumberOfLines={2} />
+      <SegmentedButtons
+        value={current}
+        onValueChange={(v) => onChange(v === 'global' ? null : v === 'stream')}
+        buttons={[
+          { value: 'global', label: '跟随全局' },
+          { value: 'stream', label: '流式' },
+          { value: 'once', label: '非流式' },
+        ]}
+        style={{ marginHorizontal: 16, marginBottom: 8 }}
+      />
+    </View>
+  );
+}
+
+export default StreamOutputSelector;
@@ -1,6 +1,7 @@
 import { useState, useCallback } from 'react';
 import { generateImageWithAI, type ImageGenerationResult, type Provider, ImageGenerationError } from '@/services/ai';
 import { MessageRepository } from '@/storage/repositories/messages';
+import { ChatRepository } from '@/storage/repositories/chat';
 import { AttachmentRepository } from '@/storage/repositories/attachments';
 import { File, Paths } from 'expo-file-system';
 import { uuid } from '@/storage/core';
@@ -85,11 +86,13 @@ export function useImageGeneration(options: UseImageGenerationOptions) {
             ? `[图片生成]\n原提示词: ${genOptions.prompt}\nAI 优化后: ${imageData.revisedPrompt}`
             : `[图片生成]\n提示词: ${genOptions.prompt}`;
 
+          const { leafId } = await MessageRepository.getActivePath(conversationId);
           const message = await MessageRepository.addMessage({
             conversationId,
             role: 'assistant',
             text: messageText,
             status: 'sent',
+            parentId: leafId,
             extra: {
               type: 'image_generation',
               provider,
@@ -102,6 +105,8 @@ export function useImageGeneration(options: UseImageGenerationOptions) {
             }
           });
 
+          await ChatRepository.setActiveLeafId(conversationId, message.id);
+
           // 4. 关联附件到消息
 
           for (const attachmentId of savedAttachmentIds) {
@@ -5,6 +5,8 @@
  * - 复制消息内容到剪贴板
  * - 分享消息内容
  * - 重新生成 AI 回答
+ * - 翻译消息（译文保存到 message.extra.translation）
+ * - 固定消息（message.extra.pinned，始终作为上下文发送）
  * - 提供触觉反馈和图标状态变化
  */
 
@@ -15,6 +17,9 @@ import * as Haptics from 'expo-haptics';
 import type { Message } from '@/storage/core';
 import { logger } from '@/utils/logger';
 import { MessageBlocksRepository } from '@/storage/repositories/message-blocks';
+import { MessageRepository } from '@/storage/repositories/messages';
+import { translateMessage } from '@/services/ai';
+import { useConfirmDialog } from '@/hooks/use-confirm-dialog';
 
 interface UseMessageActionsProps {
   message?: Message;
@@ -28,6 +33,7 @@ export function useMessageActions({
   onRegenerate,
 }: UseMessageActionsProps) {
   const hasMessage = !!message;
+  const { alert } = useConfirmDialog();
 
   // ✨ 图标状态管理
   const [copyState, setCopyState] = useState<'idle' | 'success'>('idle');
@@ -161,9 +167,44 @@ export function useMessageActions({
     }
   }, [hasMessage, onRegenerate]);
 
+  /**
+   * 翻译消息（流式显示在气泡下方，完成后持久化）
+   */
+  const handleTranslate = useCallback(async () => {
+    if (!message || !content.trim()) return;
+
+    try {
+      // 触觉反馈
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      await translateMessage(message.id, content);
+      logger.debug('[useMessageActions] 翻译完成', { messageId: message.id });
+    } catch (error: any) {
+      logger.error('[useMessageActions] 翻译失败:', error);
+      alert('翻译失败', error?.message || '请检查翻译模型设置后重试');
+    }
+  }, [message, content, alert]);
+
+  /**
+   * 固定 / 取消固定消息（固定消息不受上下文预算与条数限制）
+   */
+  const handleTogglePin = useCallback(async () => {
+    if (!message) return;
+
+    try {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      const pinned = message.extra?.pinned !== true;
+      await MessageRepository.updateMessageExtra(message.id, { pinned: pinned || undefined });
+      logger.debug('[useMessageActions] 固定状态已更新', { messageId: message.id, pinned });
+    } catch (error: any) {
+      logger.error('[useMessageActions] 更新固定状态失败:', error);
+    }
+  }, [message]);
+
   return {
     handleCopy,
     handleShare,
+    handleTranslate,
+    handleTogglePin,
     handleRegenerate: handleRegenerateAction,
     copyState,
     shareState,
@@ -17,14 +17,38 @@ import { ThinkingChainRepository } from '@/storage/repositories/thinking-chains'
 import { AttachmentRepository } from '@/storage/repositories/attachments';
 import { MessageBlocksRepository } from '@/storage/repositories/message-blocks';
 import { SettingsRepository, SettingKey } from '@/storage/repositories/settings';
-import { AssistantsRepository } from '@/storage/repositories/assistants';
-import { streamCompletion, type Provider, describeModelCapabilities, autoNameConversation } from '@/services/ai';
+import { loadChatSettings } from '@/utils/chat-settings';
+import { UsageRepository } from '@/storage/repositories/usage';
+import { ModelFallbacksRepository } from '@/storage/repositories/model-fallbacks';
+import { ModelReasoningRepository } from '@/storage/repositories/model-reasoning';
+import type { ReasoningConfig } from '@/storage/types/model-reasoning';
+import {
+  streamCompletion,
+  type Provider,
+  type StreamUsage,
+  type FallbackTarget,
+  type ContextCandidate,
+  describeModelCapabilities,
+  getContextWindow,
+  getEffectiveReasoning,
+  resolveProvider,
+  buildContext,
+  resolveContextBudget,
+  autoNameConversation,
+  isConversationMemoryEnabled,
+  isMemoryOnPath,
+  updateConversationMemory,
+  parseJsonSchema,
+  StructuredOutputError,
+} from '@/services/ai';
 import { File } from 'expo-file-system';
 import type { ModelMessage } from 'ai';
-import type { Attachment } from '@/storage/core';
+import { uuid, type Attachment, type Message } from '@/storage/core';
 import { appEvents, AppEvents } from '@/utils/events';
 import { logger } from '@/utils/logger';
 import { BlockManager } from '@/services/messageStreaming/BlockManager';
+import { getContextSegment } from '@/utils/message-tree';
+import { isOnline } from '@/utils/connectivity';
 
 /**
  * 助手消息接口
@@ -37,10 +61,27 @@ interface AssistantMessage {
   extra?: {
     model: string;
     provider: string;
+    assistantId?: string;
+    arena?: { group: string };
+    structured?: { valid?: boolean; issues?: string[] };
   };
   createdAt: number;
 }
 
+/**
+ * 单个回答的生成结果
+ */
+interface AnswerOutcome {
+  status: 'done' | 'canceled' | 'failed';
+  error?: unknown;
+  /** 未发送的较早消息（用于更新对话记忆） */
+  omittedHistory: Message[];
+}
+
+/** 并排回答模式可同时选择的模型数量 */
+export const ARENA_MIN_MODELS = 2;
+export const ARENA_MAX_MODELS = 4;
+
 /**
  * 消息发送选项
  */
@@ -53,6 +94,46 @@ export interface SendMessageOptions {
   enableMcpTools?: boolean;
   /** 当前选择的模型（全局状态，直接使用） */
   currentModel?: { provider: string; model: string };
+  /**
+   * 用户消息的父消息 ID
+   * - undefined：接在当前激活分支末尾（默认）
+   * - 指定 ID / null：编辑历史消息后重新发送，作为该消息的兄弟分支（null 表示根消息）
+   */
+  parentId?: string | null;
+  /**
+   * 重新生成：指定已有用户消息 ID 时不再新建用户消息，
+   * 新回答作为该轮的一个新版本（与旧回答互为兄弟，旧版本保留）
+   */
+  regenerateFrom?: string;
+  /**
+   * 并排回答（arena）：同时发送给多个模型（2~4 个），忽略 currentModel；
+   * 每个回答作为该轮的兄弟消息，共享同一个 arena 分组
+   */
+  arenaModels?: { provider: string; model: string }[];
+  /**
+   * 离线时排队：无网络连接时仅保存用户消息（状态为 queued），不请求模型，
+   * 联网后由 use-offline-queue 按顺序重新发送（regenerateFrom 指向该消息）
+   */
+  queueIfOffline?: boolean;
+  /** 目标话题（默认为 Hook 绑定的当前话题；发送其他话题中的待发送消息时指定） */
+  conversationId?: string;
+  /**
+   * 继续生成：指定中断的助手消息 ID（需同时指定 regenerateFrom 为其用户消息），
+   * 在已保存的部分回答之后继续输出，不新建回答
+   */
+  continueFrom?: string;
+}
+
+/** 继续生成时追加的指令（部分回答作为助手消息发送在其之前） */
+const CONTINUE_PROMPT = '上面的回答因中断未完成。请从中断处直接继续输出剩余内容，不要重复已输出的部分，也不要添加任何说明。';
+
+/**
+ * 待发送消息保存的发送选项（message.extra.queue）
+ */
+export interface QueuedSendOptions {
+  currentModel?: { provider: string; model: string };
+  enableMcpTools?: boolean;
+  arenaModels?: { provider: string; model: string }[];
 }
 
 /**
@@ -220,13 +301,16 @@ export function useMessageSender(
     setIsGenerating(true);
     setError(null);
 
-    let cid = conversationId;
-    let assistant: AssistantMessage | null = null;
+    let cid = options.conversationId ?? conversationId;
+    const assistants: AssistantMessage[] = [];
     let isFirstTurn = false;
 
     try {
       onProgress?.('creating');
 
+      // 📴 离线排队：仅新消息可排队（重新生成复用已有消息，离线时按原流程失败）
+      const queued = options.queueIfOffline === true && !options.regenerateFrom && !(await isOnline());
+
       // 判断是否首轮对话
       if (!cid) {
         const c = await ChatRepository.createConversation('新话题');
@@ -240,7 +324,16 @@ export function useMessageSender(
       // 获取聊天设置参数
       const sr = SettingsRepository();
 
-      // 🎯 模型选择：优先使用当前选择的模型，否则使用默认模型
+      // 🤖 对话设置：话题设置 > 助手设置 > 全局设置
+      const {
+        assistantId: currentAssistantId,
+        assistant: currentAssistant,
+        topic: topicSettings,
+        settings: chatSettings,
+      } = await loadChatSettings(cid!, { forSend: true });
+
+      // 🎯 模型选择：优先使用当前选择的模型（切换话题/助手时已同步为其固定的模型），
+      //    其次话题或助手固定的模型，否则使用默认模型
       let provider: Provider;
       let model: string;
 
@@ -249,6 +342,11 @@ export function useMessageSender(
         provider = currentModel.provider as Provider;
         model = currentModel.model;
         logger.debug('[useMessageSender] 使用当前选择的模型:', { provider, model });
+      } else if (chatSettings.model) {
+        // 使用话题或助手固定的模型
+        provider = chatSettings.model.provider as Provider;
+        model = chatSettings.model.model;
+        logger.debug('[useMessageSender] 使用话题或助手固定的模型:', { provider, model });
       } else {
         // 使用默认模型设置
         provider = ((await sr.get<string>(SettingKey.DefaultProvider)) ?? 'openai') as Provider;
@@ -260,78 +358,193 @@ export function useMessageSender(
         logger.debug('[useMessageSender] 使用默认模型:', { provider, model });
       }
 
-      const temperature = (await sr.get<number>(SettingKey.ChatTemperature)) ?? 0.7;
-      const maxTokensEnabled = (await sr.get<boolean>(SettingKey.ChatMaxTokensEnabled)) ?? false;
-      const maxTokens = maxTokensEnabled ? ((await sr.get<number>(SettingKey.ChatMaxTokens)) ?? 2048) : undefined;
-      const contextCount = (await sr.get<number>(SettingKey.ChatContextCount)) ?? 10;
+      const temperature = chatSettings.temperature
+        ?? (await sr.get<number>(SettingKey.ChatTemperature)) ?? 0.7;
+      let maxTokens: number | undefined;
+      if (chatSettings.maxTokens !== undefined) {
+        maxTokens = chatSettings.maxTokens ?? undefined;
+      } else {
+        const maxTokensEnabled = (await sr.get<boolean>(SettingKey.ChatMaxTokensEnabled)) ?? false;
+        maxTokens = maxTokensEnabled ? ((await sr.get<number>(SettingKey.ChatMaxTokens)) ?? 2048) : undefined;
+      }
+      const contextCount = chatSettings.contextCount
+        ?? (await sr.get<number>(SettingKey.ChatContextCount)) ?? 10;
+      // 流式输出全局开关（提供商单独设置时由 AiClient 覆盖）
+      const streamOutput = (await sr.get<boolean>(SettingKey.ChatStreamOutput)) ?? true;
+
+      // 🧩 结构化输出：话题或助手配置了 JSON Schema 时回答必须为符合 Schema 的 JSON
+      // （Schema 无效时在创建消息前直接报错）
+      const responseSchema = chatSettings.jsonSchema ? parseJsonSchema(chatSettings.jsonSchema) : undefined;
 
       // 读取文本文件内容
       const textFileContents = await readTextFiles(attachments);
 
-      // 先创建用户消息，并关联所选附件
-      const attachmentIds = attachments.map(a => a.id);
+      let savedUserMessage: Message;
+      let parentId: string | null;
 
-      // 🐛 调试日志：记录保存到数据库前的消息内容
-      logger.debug('[useMessageSender] 准备保存用户消息到数据库', {
-        textLength: text.length,
-        textPreview: text.substring(0, 100),
-        hasURL: /https?:\/\//.test(text),
-        conversationId: cid,
-      });
+      if (options.regenerateFrom) {
+        // 🔁 重新生成：复用已有的用户消息，新回答作为该轮的另一个版本
+        const existing = await MessageRepository.getMessage(options.regenerateFrom);
+        if (!existing || existing.role !== 'user') {
+          throw new Error('要重新生成的用户消息不存在');
+        }
+        savedUserMessage = existing;
+        parentId = existing.parentId ?? null;
+
+        if (existing.status === 'queued') {
+          // 📴 发送离线排队的消息：连续排队时前一条消息刚得到回答，接到该回答之后以保持对话顺序
+          const all = await MessageRepository.listAllConversationMessages(cid!);
+          const parent = all.find((m) => m.id === parentId);
+          if (parent?.role === 'user') {
+            const answer = all
+              .filter((m) => m.parentId === parent.id && m.role === 'assistant')
+              .reduce<Message | null>((latest, m) => (!latest || m.createdAt >= latest.createdAt ? m : latest), null);
+            if (answer) {
+              parentId = answer.id;
+              await MessageRepository.updateMessageParent(existing.id, parentId);
+              savedUserMessage = { ...existing, parentId };
+            }
+          }
+          isFirstTurn = parentId === null;
+          await MessageRepository.updateMessageStatus(existing.id, 'sent');
+          await MessageRepository.updateMessageExtra(existing.id, { queue: undefined });
+          logger.debug('[useMessageSender] 发送离线排队的消息', { userMessageId: existing.id, parentId });
+        } else {
+          logger.debug('[useMessageSender] 重新生成回答', { userMessageId: existing.id });
+        }
+      } else {
+        // 先创建用户消息，并关联所选附件
+        const attachmentIds = attachments.map(a => a.id);
+
+        // 🌳 确定父消息：默认接在当前激活分支末尾
+        parentId = options.parentId !== undefined
+          ? options.parentId
+          : (await MessageRepository.getActivePath(cid!)).leafId;
+
+        // 🐛 调试日志：记录保存到数据库前的消息内容
+        logger.debug('[useMessageSender] 准备保存用户消息到数据库', {
+          textLength: text.length,
+          textPreview: text.substring(0, 100),
+          hasURL: /https?:\/\//.test(text),
+          conversationId: cid,
+        });
 
-      const savedUserMessage = await MessageRepository.addMessage({
-        conversationId: cid!,
-        role: 'user',
-        text: '', // 用户消息内容也通过块系统管理
-        status: 'sent',
-        attachmentIds,
-      });
+        savedUserMessage = await MessageRepository.addMessage({
+          conversationId: cid!,
+          role: 'user',
+          text: '', // 用户消息内容也通过块系统管理
+          status: queued ? 'queued' : 'sent',
+          attachmentIds,
+          parentId,
+          extra: queued
+            ? {
+                queue: {
+                  currentModel,
+                  enableMcpTools: options.enableMcpTools,
+                  arenaModels: options.arenaModels,
+                } satisfies QueuedSendOptions,
+              }
+            : undefined,
+        });
 
-      // 🐛 调试日志：确认保存成功
-      logger.debug('[useMessageSender] 用户消息已保存到数据库');
+        // 🐛 调试日志：确认保存成功
+        logger.debug('[useMessageSender] 用户消息已保存到数据库');
 
-      // 📦 为用户消息创建 TEXT 块
-      await MessageBlocksRepository.addBlock({
-        messageId: savedUserMessage.id,
-        type: 'TEXT',
-        status: 'SUCCESS',
-        content: text,
-        sortOrder: 0,
-      });
+        // 📦 为用户消息创建 TEXT 块
+        await MessageBlocksRepository.addBlock({
+          messageId: savedUserMessage.id,
+          type: 'TEXT',
+          status: 'SUCCESS',
+          content: text,
+          sortOrder: 0,
+        });
 
-      logger.debug('[useMessageSender] 用户消息的 TEXT 块已创建');
+        logger.debug('[useMessageSender] 用户消息的 TEXT 块已创建');
+      }
+      await ChatRepository.setActiveLeafId(cid!, savedUserMessage.id);
 
       // 如果是新创建的话题，在用户消息写入后再通知父组件切换话题
-      if (isFirstTurn && conversationId === null && onConversationChange) {
+      if (isFirstTurn && conversationId === null && !options.conversationId && onConversationChange) {
         onConversationChange(cid!);
       }
 
+      if (queued) {
+        logger.info('[useMessageSender] 📴 当前离线，消息已加入待发送队列', { userMessageId: savedUserMessage.id });
+        setIsGenerating(false);
+        onProgress?.('done');
+        return;
+      }
+
       onProgress?.('sending');
 
-      // 创建 assistant 消息，保存模型信息到 extra 字段
-      assistant = await MessageRepository.addMessage({
-        conversationId: cid!,
-        role: 'assistant',
-        text: '',
-        status: 'pending',
-        extra: { model, provider },
-      }) as AssistantMessage;
+      // ⏯️ 继续生成：复用中断的回答，使用其原本的模型
+      let continuing: Message | null = null;
+      if (options.continueFrom) {
+        continuing = await MessageRepository.getMessage(options.continueFrom);
+        if (!continuing || continuing.role !== 'assistant' || continuing.parentId !== savedUserMessage.id) {
+          throw new Error('要继续生成的回答不存在');
+        }
+      }
+
+      // ⚔️ 多模型并排回答：同一轮用户消息同时发给 2~4 个模型，每个回答独立流式生成
+      const arenaTargets = continuing ? [] : (options.arenaModels ?? []).slice(0, ARENA_MAX_MODELS);
+      const targets: FallbackTarget[] = continuing
+        ? [{
+            provider: (continuing.extra?.provider ?? provider) as Provider,
+            model: continuing.extra?.model ?? model,
+          }]
+        : arenaTargets.length >= ARENA_MIN_MODELS
+          ? arenaTargets.map((t) => ({ provider: t.provider as Provider, model: t.model }))
+          : [{ provider, model }];
+      const arenaGroup = targets.length > 1 ? `arena-${uuid()}` : undefined;
+
+      if (continuing) {
+        await MessageRepository.updateMessageStatus(continuing.id, 'pending');
+        await MessageRepository.updateMessageExtra(continuing.id, { interrupted: undefined });
+        assistants.push({ ...continuing, status: 'pending' } as AssistantMessage);
+      }
+
+      // 创建 assistant 消息，保存模型与助手信息到 extra 字段（用于展示与搜索筛选）
+      // 并排回答按模型顺序依次创建，互为兄弟并共享同一个 arena 分组
+      for (const target of continuing ? [] : targets) {
+        const created = await MessageRepository.addMessage({
+          conversationId: cid!,
+          role: 'assistant',
+          text: '',
+          status: 'pending',
+          parentId: savedUserMessage.id,
+          extra: {
+            model: target.model,
+            provider: target.provider,
+            assistantId: currentAssistantId,
+            ...(arenaGroup ? { arena: { group: arenaGroup } } : {}),
+            ...(responseSchema ? { structured: {} } : {}),
+          },
+        }) as AssistantMessage;
+        assistants.push(created);
+      }
+      // 默认以第一个回答作为后续对话的上下文（用户可在并排视图中改选首选回答）
+      await ChatRepository.setActiveLeafId(cid!, assistants[0].id);
+
+      if (arenaGroup) {
+        logger.debug('[useMessageSender] 并排回答模式', {
+          group: arenaGroup,
+          models: targets.map((t) => `${t.provider}/${t.model}`),
+        });
+      }
 
-      // 获取当前助手的系统提示词
+      // 系统提示词：话题设置优先，否则使用当前助手的提示词
       let systemPrompt: string | null = null;
-      const currentAssistantId = (await sr.get<string>(SettingKey.CurrentAssistantId)) ?? 'default';
-      const assistantsRepo = AssistantsRepository();
-      const currentAssistant = await assistantsRepo.getById(currentAssistantId);
 
-      if (currentAssistant?.systemPrompt) {
-        systemPrompt = currentAssistant.systemPrompt;
-        logger.debug('[useMessageSender] 使用助手提示词:', currentAssistant.name);
+      if (chatSettings.systemPrompt) {
+        systemPrompt = chatSettings.systemPrompt;
+        logger.debug('[useMessageSender] 使用系统提示词:', topicSettings.systemPrompt ? '话题设置' : currentAssistant?.name);
       } else {
         logger.debug('[useMessageSender] 无系统提示词（使用纯对话上下文）');
       }
 
       // ✨ 如果启用了 MCP 工具，自动追加工具使用指引
-      if (options.enableMcpTools) {
+      if (options.enableMcpTools && !responseSchema) {
         const toolGuidance = `
 
 ## 可用工具说明
@@ -353,342 +566,540 @@ export function useMessageSender(
         logger.debug('[useMessageSender] 已追加 MCP 工具使用指引到系统提示词');
       }
 
-      // 构建消息数组
-      const msgs: ModelMessage[] = [];
-
-      if (contextCount > 0) {
-        // 添加 system 消息
-        if (systemPrompt && systemPrompt.trim()) {
-          msgs.push({ role: 'system', content: systemPrompt });
+      // 📚 历史候选：沿当前分支向上回溯（不含本次用户消息）
+      // - 只引用当前轮所在的上下文段（最后一个上下文分界之后），固定消息除外
+      // - 非固定消息最多保留 contextCount 轮，再按 Token 预算从最新往前装填
+      const branchHistory = parentId ? await MessageRepository.getPathTo(cid!, parentId) : [];
+      const segmentIds = new Set(getContextSegment(branchHistory).map(m => m.id));
+      const dialogHistory = branchHistory.filter(m => m.role === 'user' || m.role === 'assistant');
+      const isPinned = (m: Message) => m.extra?.pinned === true;
+      const unpinnedHistory = dialogHistory.filter(m => !isPinned(m) && segmentIds.has(m.id));
+      const eligibleIds = new Set([
+        ...dialogHistory.filter(isPinned).map(m => m.id),
+        ...(contextCount > 0 ? unpinnedHistory.slice(-contextCount * 2).map(m => m.id) : []),
+      ]);
+      const historyMessages = dialogHistory.filter(m => eligibleIds.has(m.id));
+
+      // ✨ 批量获取候选历史消息的块（性能优化）
+      const blocksMap = await MessageBlocksRepository.getBlocksByMessageIds(historyMessages.map(m => m.id));
+
+      const history: ContextCandidate[] = historyMessages.map((msg) => {
+        const blocks = blocksMap.get(msg.id) || [];
+
+        // ✨ 从块中组合内容（按 sortOrder 排序）
+        const sortedBlocks = blocks.sort((a, b) => a.sortOrder - b.sortOrder);
+
+        let content = '';
+
+        // 组合 TEXT 块内容
+        const textBlocks = sortedBlocks.filter(b => b.type === 'TEXT');
+        if (textBlocks.length > 0) {
+          content = textBlocks.map(b => b.content).join('');
+        } else if (msg.text) {
+          // ⚠️ 兼容旧数据：如果没有块，回退到 message.text
+          content = msg.text;
+          logger.warn('[useMessageSender] 消息没有块，使用旧的 message.text', {
+            messageId: msg.id,
+          });
         }
 
-        // 获取历史消息
-        const resetAt = cid ? (await ChatRepository.getContextResetAt(cid)) ?? undefined : undefined;
-        const historyMessages = await MessageRepository.listMessages(cid!, {
-          limit: contextCount * 2,
-          after: resetAt,
-        });
-        const recentHistory = historyMessages.slice(-contextCount * 2);
-
-        // ✨ 批量获取所有历史消息的块（性能优化）
-        const messageIds = recentHistory.map(m => m.id);
-        const blocksMap = await MessageBlocksRepository.getBlocksByMessageIds(messageIds);
-
-        for (const msg of recentHistory) {
-          if (msg.role === 'user' || msg.role === 'assistant') {
-            const blocks = blocksMap.get(msg.id) || [];
-
-            // ✨ 从块中组合内容（按 sortOrder 排序）
-            const sortedBlocks = blocks.sort((a, b) => a.sortOrder - b.sortOrder);
-
-            let content = '';
-
-            // 组合 TEXT 块内容
-            const textBlocks = sortedBlocks.filter(b => b.type === 'TEXT');
-            if (textBlocks.length > 0) {
-              content = textBlocks.map(b => b.content).join('');
-            } else if (msg.text) {
-              // ⚠️ 兼容旧数据：如果没有块，回退到 message.text
-              content = msg.text;
-              logger.warn('[useMessageSender] 消息没有块，使用旧的 message.text', {
-                messageId: msg.id,
-              });
-            }
-
-            // 附加工具块信息（如果有）
-            if (msg.role === 'assistant') {
-              const toolBlocks = sortedBlocks.filter(b => b.type === 'TOOL');
-
-              if (toolBlocks.length > 0) {
-                const toolResults = toolBlocks.map(block => {
-                  const status = block.status === 'SUCCESS' ? '✅ 成功' : block.status === 'ERROR' ? '❌ 失败' : '⏳ 执行中';
-                  const args = block.toolArgs ? `\n参数: ${block.toolArgs}` : '';
-                  return `\n\n[工具调用: ${block.toolName}${args}]\n状态: ${status}\n结果: ${block.content}`;
-                }).join('\n');
+        // 附加工具块信息（如果有）
+        if (msg.role === 'assistant') {
+          const toolBlocks = sortedBlocks.filter(b => b.type === 'TOOL');
 
-                content += toolResults;
+          if (toolBlocks.length > 0) {
+            const toolResults = toolBlocks.map(block => {
+              const status = block.status === 'SUCCESS' ? '✅ 成功' : block.status === 'ERROR' ? '❌ 失败' : '⏳ 执行中';
+              const args = block.toolArgs ? `\n参数: ${block.toolArgs}` : '';
+              return `\n\n[工具调用: ${block.toolName}${args}]\n状态: ${status}\n结果: ${block.content}`;
+            }).join('\n');
 
-                logger.debug('[useMessageSender] 历史消息包含工具块', {
-                  messageId: msg.id,
-                  toolBlockCount: toolBlocks.length,
-                  toolNames: toolBlocks.map(b => b.toolName),
-                });
-              }
-            }
+            content += toolResults;
 
-            msgs.push({
-              role: msg.role,
-              content,
+            logger.debug('[useMessageSender] 历史消息包含工具块', {
+              messageId: msg.id,
+              toolBlockCount: toolBlocks.length,
+              toolNames: toolBlocks.map(b => b.toolName),
             });
           }
         }
-      }
 
-      // 添加当前用户消息
-      const userMessage = await buildMessageContent(
-        text,
-        attachments,
-        provider,
-        model,
-        textFileContents,
-        searchResults
-      );
-      msgs.push(userMessage);
-
-      logger.debug('[useMessageSender] 🔍 消息数组详情', {
-        总消息数: msgs.length,
-        消息列表: msgs.map((m, i) => ({
-          索引: i,
-          角色: m.role,
-          内容长度: typeof m.content === 'string' ? m.content.length : (Array.isArray(m.content) ? m.content.length : 0),
-          内容预览: typeof m.content === 'string' ? m.content.substring(0, 50) : '[多段内容]',
-        })),
-        是否首轮: isFirstTurn,
-        会话ID: cid,
+        return {
+          id: msg.id,
+          message: { role: msg.role as 'user' | 'assistant', content },
+          pinned: isPinned(msg),
+        };
       });
 
-      logger.debug('[useMessageSender] 发送消息', {
-        提供商: provider,
-        模型: model,
-        温度: parseFloat(temperature.toFixed(1)),
-        最大令牌: maxTokens || '自动',
-        上下文轮数: contextCount,
-      });
+      const configuredBudget = await sr.get<number>(SettingKey.ChatContextTokenBudget);
+      // 🧠 对话记忆：注入较早对话的滚动摘要
+      const memoryEnabled = !!cid && (await isConversationMemoryEnabled());
+      // 摘要按分支生效：切换分支或重新生成到其他分支后不注入其他分支的摘要
+      const pathIds = branchHistory.map(m => m.id);
+      const storedMemory = memoryEnabled ? await ChatRepository.getConversationMemory(cid!) : null;
+      const memory = storedMemory && isMemoryOnPath(storedMemory, pathIds) ? storedMemory : null;
 
       onProgress?.('streaming');
 
+      // 所有回答共用一个 AbortController，停止生成时一并取消
       const controller = new AbortController();
       abortRef.current = controller;
 
-      let acc = '';
+      /**
+       * 为单个模型构建上下文并流式生成回答
+       *
+       * 每个回答拥有独立的正文块、思考链与工具块；
+       * 在 onDone / onError 的异步处理全部完成后才返回结果。
+       */
+      const streamAnswer = async (assistant: AssistantMessage, target: FallbackTarget): Promise<AnswerOutcome> => {
+        const { provider: answerProvider, model: answerModel } = target;
+
+        // 当前用户消息（按该模型的视觉能力决定是否携带图片）
+        const userMessage = await buildMessageContent(
+          text,
+          attachments,
+          answerProvider,
+          answerModel,
+          textFileContents,
+          searchResults
+        );
 
-      // 思考链相关状态
-      let thinkingId: string | null = null;
-      let thinkingContent = '';
-      let thinkingStartTime: number | null = null;
-      let lastThinkingUpdateAt = 0;
+        // 🧮 按 Token 预算构建消息数组（系统提示词、固定消息与当前消息始终保留）
+        const contextBudget = resolveContextBudget(
+          getContextWindow({ id: answerModel, provider: answerProvider }),
+          maxTokens,
+          configuredBudget
+        );
 
-      // ✨ 块管理器（统一管理所有块：正文TEXT、工具TOOL等）
-      const blockManager = new BlockManager(assistant!.id);
-      logger.debug('[useMessageSender] BlockManager 已初始化', {
-        messageId: assistant!.id,
-      });
+        const { messages: contextMessages, historyIds, stats: contextStats } = buildContext({
+          systemPrompt,
+          memory: memory?.summary,
+          history,
+          current: userMessage,
+          budget: contextBudget,
+        });
 
-      // ✨ 创建初始的正文块（TEXT 类型）
-      const textBlock = await blockManager.addBlock({
-        type: 'TEXT',
-        status: 'SUCCESS',
-        content: '',
-      });
-      logger.debug('[useMessageSender] 正文块已创建', { blockId: textBlock.id });
+        // ⏯️ 继续生成：载入已保存的块与思考链，部分回答作为助手消息发送并要求模型接着输出
+        const resuming = continuing?.id === assistant.id;
+        const resumeBlocks = resuming ? await MessageBlocksRepository.getBlocksByMessageId(assistant.id) : [];
+        const resumeThinking = resuming ? await ThinkingChainRepository.getThinkingChainByMessageId(assistant.id) : null;
+        const partialText = resumeBlocks
+          .filter(b => b.type === 'TEXT')
+          .sort((a, b) => a.sortOrder - b.sortOrder)
+          .map(b => b.content)
+          .join('');
+        const msgs: ModelMessage[] = resuming && partialText.trim()
+          ? [...contextMessages, { role: 'assistant', content: partialText }, { role: 'user', content: CONTINUE_PROMPT }]
+          : contextMessages;
+
+        // 记录本次请求发送的上下文规模（用于消息底部展示）
+        await MessageRepository.updateMessageExtra(assistant.id, { context: contextStats });
+
+        // 未发送的较早消息（回复完成后增量摘要）
+        const sentIds = new Set(historyIds);
+        const omittedHistory = memoryEnabled ? unpinnedHistory.filter(m => !sentIds.has(m.id)) : [];
+
+        logger.debug('[useMessageSender] 🔍 消息数组详情', {
+          总消息数: msgs.length,
+          消息列表: msgs.map((m, i) => ({
+            索引: i,
+            角色: m.role,
+            内容长度: typeof m.content === 'string' ? m.content.length : (Array.isArray(m.content) ? m.content.length : 0),
+            内容预览: typeof m.content === 'string' ? m.content.substring(0, 50) : '[多段内容]',
+          })),
+          是否首轮: isFirstTurn,
+          会话ID: cid,
+        });
+
+        logger.debug('[useMessageSender] 发送消息', {
+          提供商: answerProvider,
+          模型: answerModel,
+          温度: parseFloat(temperature.toFixed(1)),
+          最大令牌: maxTokens || '自动',
+          上下文轮数: contextCount,
+          上下文预算: contextBudget,
+          估算输入Token: contextStats.tokens,
+          省略历史消息: contextStats.droppedMessages,
+        });
+
+        // 🧠 推理强度（按模型记住，回退模型使用各自的设置）
+        const reasoning = await loadReasoningConfig(answerProvider, answerModel);
+        // 思考链记录实际发送的推理强度（如 o 系列关闭思考时实际使用最低档位）
+        let answerReasoning = await resolveEffectiveReasoning(answerProvider, answerModel, reasoning);
+
+        // 模型回退链（主模型不可用时依次尝试）
+        let fallbacks: FallbackTarget[] = [];
+        try {
+          const fallbackChain = await ModelFallbacksRepository.get(answerProvider, answerModel);
+          fallbacks = await Promise.all(
+            (fallbackChain?.chain ?? []).map(async (t) => ({
+              provider: t.provider as Provider,
+              model: t.model,
+              reasoning: await loadReasoningConfig(t.provider, t.model),
+            }))
+          );
+        } catch (e) {
+          logger.warn('[useMessageSender] 读取模型回退链失败', e);
+        }
+
+        // 回答结束信号：AiClient 不会等待异步回调，这里在回调处理完成后再结算
+        let settle!: (outcome: AnswerOutcome) => void;
+        let settled = false;
+        const finished = new Promise<AnswerOutcome>((resolve) => {
+          settle = (outcome) => {
+            if (settled) return;
+            settled = true;
+            resolve(outcome);
+          };
+        });
+        let errorHandled = false;
+
+        let acc = '';
+
+        // 思考链相关状态
+        let thinkingId: string | null = null;
+        let thinkingContent = '';
+        let thinkingStartTime: number | null = null;
+        let lastThinkingUpdateAt = 0;
+
+        // Token 用量（finish 事件回调，onDone 时持久化）
+        let streamUsage: StreamUsage | null = null;
+
+        // ✨ 块管理器（统一管理所有块：正文TEXT、工具TOOL等）
+        const blockManager = new BlockManager(assistant.id, resumeBlocks);
+        logger.debug('[useMessageSender] BlockManager 已初始化', {
+          messageId: assistant.id,
+          resuming,
+        });
+
+        // ✨ 正文块（TEXT 类型）：继续生成时在已保存的正文之后追加
+        const textBlock = blockManager.getBlocks().find(b => b.type === 'TEXT') ?? await blockManager.addBlock({
+          type: 'TEXT',
+          status: 'SUCCESS',
+          content: '',
+        });
+        acc = textBlock.content;
+        logger.debug('[useMessageSender] 正文块已就绪', { blockId: textBlock.id, resumedLength: acc.length });
+
+        try {
+          await streamCompletion({
+            provider: answerProvider,
+            model: answerModel,
+            messages: msgs,
+            temperature,
+            maxTokens,
+            stream: streamOutput,
+            abortSignal: controller.signal,
+            // 结构化输出不使用 MCP 工具
+            enableMcpTools: options.enableMcpTools === true && !responseSchema,
+            responseSchema,
+            reasoning,
+            mcpServerIds: chatSettings.mcpServerIds,
+            mcpToolNames: chatSettings.mcpToolNames,
+            toolMessageId: assistant.id,
+            onUsage: (u) => {
+              streamUsage = u;
+            },
+            fallbacks,
+            onFallback: async (from, to, error) => {
+              logger.warn('[useMessageSender] 切换到回退模型', { from, to, error });
+              answerReasoning = await resolveEffectiveReasoning(to.provider, to.model, to.reasoning);
+              // 气泡展示实际回答的模型，并保留最初请求的模型
+              await MessageRepository.updateMessageExtra(assistant.id, {
+                model: to.model,
+                provider: to.provider,
+                fallbackFrom: { provider: answerProvider, model: answerModel },
+              });
+            },
+            onToken: async (d) => {
+              acc += d;
+              // ✨ 新方式：更新 TEXT 块（BlockManager 内部有 200ms 节流）
+              await blockManager.updateBlock(textBlock.id, {
+                content: acc,
+              });
+            },
+            onThinkingStart: async () => {
+              thinkingStartTime = Date.now();
+              thinkingContent = '';
+
+              // 继续生成：在原思考链之后追加，耗时累计
+              if (resumeThinking) {
+                thinkingId = resumeThinking.id;
+                thinkingContent = resumeThinking.content ? `${resumeThinking.content}\n\n` : '';
+                thinkingStartTime -= resumeThinking.durationMs;
+                appEvents.emit(AppEvents.MESSAGE_CHANGED);
+                return;
+              }
 
-      await streamCompletion({
-        provider,
-        model,
-        messages: msgs,
-        temperature,
-        maxTokens,
-        abortSignal: controller.signal,
-        enableMcpTools: options.enableMcpTools === true,
-        onToken: async (d) => {
-          acc += d;
-          // ✨ 新方式：更新 TEXT 块（BlockManager 内部有 200ms 节流）
-          await blockManager.updateBlock(textBlock.id, {
-            content: acc,
-          });
-        },
-        onThinkingStart: async () => {
-          thinkingStartTime = Date.now();
-          thinkingContent = '';
-
-          try {
-            const rec = await ThinkingChainRepository.addThinkingChain({
-              messageId: assistant!.id,
-              content: '',
-              startTime: thinkingStartTime,
-              endTime: thinkingStartTime,
-              durationMs: 0,
-            });
-            thinkingId = rec.id;
-            logger.debug('[useMessageSender] 思考链开始并创建记录', { thinkingId });
-            appEvents.emit(AppEvents.MESSAGE_CHANGED);
-          } catch (e) {
-            logger.error('[useMessageSender] 创建思考链记录失败', e);
-          }
-        },
-        onThinkingToken: async (delta) => {
-          thinkingContent += delta;
-          if (thinkingId) {
-            const now = Date.now();
-            if (now - lastThinkingUpdateAt > 120) {
-              lastThinkingUpdateAt = now;
               try {
-                await ThinkingChainRepository.updateThinkingChainContent(thinkingId, thinkingContent);
-                // 优化：使用节流事件，避免频繁触发数据库查询（从立即触发改为 300ms 节流）
-                appEvents.emitThrottled(AppEvents.MESSAGE_CHANGED, 300);
+                const rec = await ThinkingChainRepository.addThinkingChain({
+                  messageId: assistant.id,
+                  content: '',
+                  startTime: thinkingStartTime,
+                  endTime: thinkingStartTime,
+                  durationMs: 0,
+                  // 记录本次使用的推理强度（未设置时使用提供商默认参数，不记录）
+                  extra: answerReasoning ? { reasoning: answerReasoning } : undefined,
+                });
+                thinkingId = rec.id;
+                logger.debug('[useMessageSender] 思考链开始并创建记录', { thinkingId });
+                appEvents.emit(AppEvents.MESSAGE_CHANGED);
               } catch (e) {
-                // 忽略单次失败
+                logger.error('[useMessageSender] 创建思考链记录失败', e);
               }
-            }
-          }
-        },
-        onThinkingEnd: async () => {
-          if (thinkingId && thinkingStartTime) {
-            const endTime = Date.now();
-            const durationMs = endTime - thinkingStartTime;
-            try {
-              await ThinkingChainRepository.updateThinkingChainContent(thinkingId, thinkingContent);
-              await ThinkingChainRepository.updateThinkingChainEnd(thinkingId, endTime, durationMs);
-
-              logger.debug('[useMessageSender] 思考链已完成并保存', {
-                thinkingId,
-                messageId: assistant!.id,
-                durationMs: `${(durationMs / 1000).toFixed(1)}秒`,
-                contentLength: thinkingContent.length,
-              });
-
-              appEvents.emit(AppEvents.MESSAGE_CHANGED);
-            } catch (e) {
-              logger.error('[useMessageSender] 结束保存思考链失败', e);
-            }
-          }
-        },
-        // ✨ MCP 工具调用回调（Cherry Studio 设计参考）
-        onToolCall: async (toolName, args, toolCallId) => {
-          try {
-            logger.info('[useMessageSender] 🔧 工具调用开始', { toolName, args, toolCallId });
-
-            // 创建 PENDING 状态的工具块，使用 AI SDK 提供的真实 toolCallId
-            await blockManager.addBlock({
-              type: 'TOOL',
-              status: 'PENDING',
-              content: '', // 初始内容为空，等待工具执行结果
-              toolCallId, // ✨ 使用 AI SDK 提供的真实 toolCallId
-              toolName,
-              toolArgs: args,
-            });
+            },
+            onThinkingToken: async (delta) => {
+              thinkingContent += delta;
+              if (thinkingId) {
+                const now = Date.now();
+                if (now - lastThinkingUpdateAt > 120) {
+                  lastThinkingUpdateAt = now;
+                  try {
+                    await ThinkingChainRepository.updateThinkingChainContent(thinkingId, thinkingContent);
+                    // 优化：使用节流事件，避免频繁触发数据库查询（从立即触发改为 300ms 节流）
+                    appEvents.emitThrottled(AppEvents.MESSAGE_CHANGED, 300);
+                  } catch (e) {
+                    // 忽略单次失败
+                  }
+                }
+              }
+            },
+            onThinkingEnd: async () => {
+              if (thinkingId && thinkingStartTime) {
+                const endTime = Date.now();
+                const durationMs = endTime - thinkingStartTime;
+                try {
+                  await ThinkingChainRepository.updateThinkingChainContent(thinkingId, thinkingContent);
+                  await ThinkingChainRepository.updateThinkingChainEnd(thinkingId, endTime, durationMs);
+
+                  logger.debug('[useMessageSender] 思考链已完成并保存', {
+                    thinkingId,
+                    messageId: assistant.id,
+                    durationMs: `${(durationMs / 1000).toFixed(1)}秒`,
+                    contentLength: thinkingContent.length,
+                  });
+
+                  appEvents.emit(AppEvents.MESSAGE_CHANGED);
+                } catch (e) {
+                  logger.error('[useMessageSender] 结束保存思考链失败', e);
+                }
+              }
+            },
+            // ✨ MCP 工具调用回调（Cherry Studio 设计参考）
+            onToolCall: async (toolName, args, toolCallId) => {
+              try {
+                logger.info('[useMessageSender] 🔧 工具调用开始', { toolName, args, toolCallId });
+
+                // 创建 PENDING 状态的工具块，使用 AI SDK 提供的真实 toolCallId
+                await blockManager.addBlock({
+                  type: 'TOOL',
+                  status: 'PENDING',
+                  content: '', // 初始内容为空，等待工具执行结果
+                  toolCallId, // ✨ 使用 AI SDK 提供的真实 toolCallId
+                  toolName,
+                  toolArgs: args,
+                });
 
-            logger.debug('[useMessageSender] 工具块已创建（PENDING）', { toolName, toolCallId });
-          } catch (error) {
-            logger.error('[useMessageSender] 创建工具块失败', error, { toolName, toolCallId });
-          }
-        },
-        onToolResult: async (toolName, result, toolCallId) => {
-          try {
-            logger.info('[useMessageSender] ✅ 工具执行完成', { toolName, result, toolCallId });
+                logger.debug('[useMessageSender] 工具块已创建（PENDING）', { toolName, toolCallId });
+              } catch (error) {
+                logger.error('[useMessageSender] 创建工具块失败', error, { toolName, toolCallId });
+              }
+            },
+            onToolResult: async (toolName, result, toolCallId) => {
+              try {
+                logger.info('[useMessageSender] ✅ 工具执行完成', { toolName, result, toolCallId });
 
-            // ✨ 使用 BlockManager 的 toolCallId 映射精确查找工具块
-            const toolBlock = blockManager.getBlockByToolCallId(toolCallId);
+                // ✨ 使用 BlockManager 的 toolCallId 映射精确查找工具块
+                const toolBlock = blockManager.getBlockByToolCallId(toolCallId);
 
-            if (!toolBlock) {
-              logger.warn('[useMessageSender] 未找到对应的工具块', { toolName, toolCallId });
-              return;
-            }
+                if (!toolBlock) {
+                  logger.warn('[useMessageSender] 未找到对应的工具块', { toolName, toolCallId });
+                  return;
+                }
 
-            // 格式化工具结果
-            const formattedResult = typeof result === 'string'
-              ? result
-              : JSON.stringify(result, null, 2);
+                // 格式化工具结果
+                const formattedResult = typeof result === 'string'
+                  ? result
+                  : JSON.stringify(result, null, 2);
 
-            // 更新工具块状态和结果
-            await blockManager.updateBlock(toolBlock.id, {
-              content: formattedResult,
-              status: 'SUCCESS',
-            });
+                // 更新工具块状态和结果
+                await blockManager.updateBlock(toolBlock.id, {
+                  content: formattedResult,
+                  status: 'SUCCESS',
+                });
 
-            logger.debug('[useMessageSender] 工具块已更新（SUCCESS）', {
-              toolName,
-              toolCallId,
-              resultLength: formattedResult.length,
-            });
-          } catch (error) {
-            logger.error('[useMessageSender] 更新工具块失败', error, { toolName, toolCallId });
-          }
-        },
-        onDone: async () => {
-          try {
-            await blockManager.persistToRepository();
-          } catch (error) {
-            logger.error('[useMessageSender] 持久化助手消息块失败', error);
-            throw error;
-          } finally {
-            try {
-              await blockManager.cleanup();
-              logger.debug('[useMessageSender] BlockManager 已清理');
-            } catch (cleanupError) {
-              logger.error('[useMessageSender] 清理 BlockManager 失败', cleanupError);
-            }
-          }
+                logger.debug('[useMessageSender] 工具块已更新（SUCCESS）', {
+                  toolName,
+                  toolCallId,
+                  resultLength: formattedResult.length,
+                });
+              } catch (error) {
+                logger.error('[useMessageSender] 更新工具块失败', error, { toolName, toolCallId });
+              }
+            },
+            onDone: async () => {
+              try {
+                await blockManager.persistToRepository();
+              } catch (error) {
+                logger.error('[useMessageSender] 持久化助手消息块失败', error);
+                settle({ status: 'failed', error, omittedHistory });
+                return;
+              } finally {
+                try {
+                  await blockManager.cleanup();
+                  logger.debug('[useMessageSender] BlockManager 已清理');
+                } catch (cleanupError) {
+                  logger.error('[useMessageSender] 清理 BlockManager 失败', cleanupError);
+                }
+              }
 
-          await MessageRepository.updateMessageStatus(assistant!.id, 'sent');
+              await MessageRepository.updateMessageStatus(assistant.id, 'sent');
+              if (responseSchema) {
+                await MessageRepository.updateMessageExtra(assistant.id, { structured: { valid: true } });
+              }
 
-          setIsGenerating(false);
-          onProgress?.('done');
+              // 📊 记录 Token 用量（失败不影响消息完成）
+              const usage = streamUsage;
+              if (usage) {
+                try {
+                  await UsageRepository.recordUsage({
+                    messageId: assistant.id,
+                    conversationId: cid!,
+                    provider: usage.provider,
+                    model: usage.model,
+                    apiKeyId: usage.keyId,
+                    inputTokens: usage.inputTokens,
+                    outputTokens: usage.outputTokens,
+                    reasoningTokens: usage.reasoningTokens,
+                    cachedInputTokens: usage.cachedInputTokens,
+                    totalTokens: usage.totalTokens,
+                    createdAt: Date.now(),
+                  });
+                  // 继续生成：消息底部展示的用量在之前的基础上累加
+                  const previous = resuming ? continuing?.extra?.usage : undefined;
+                  await MessageRepository.updateMessageExtra(assistant.id, {
+                    usage: {
+                      inputTokens: (previous?.inputTokens ?? 0) + usage.inputTokens,
+                      outputTokens: (previous?.outputTokens ?? 0) + usage.outputTokens,
+                      reasoningTokens: (previous?.reasoningTokens ?? 0) + usage.reasoningTokens,
+                      totalTokens: (previous?.totalTokens ?? 0) + usage.totalTokens,
+                    },
+                  });
+                } catch (e) {
+                  logger.warn('[useMessageSender] 记录 Token 用量失败', e);
+                }
+              }
 
-          if (isFirstTurn) {
-            try {
-              void autoNameConversation(cid!);
-            } catch (e) {
-              logger.warn('[useMessageSender] auto naming error', e);
-            }
-          }
-        },
-        onError: async (e) => {
-          const userCanceled = isUserCanceled(e);
-          const cancelBlocksSnapshot = userCanceled ? blockManager.getBlocks() : undefined;
-
-          if (!userCanceled) {
-            try {
-              await blockManager.persistToRepository();
-            } catch (persistError) {
-              logger.error('[useMessageSender] 持久化失败（错误流程）', persistError);
-            }
-          }
+              settle({ status: 'done', omittedHistory });
+            },
+            onError: async (e) => {
+              errorHandled = true;
+              const userCanceled = isUserCanceled(e);
+              const cancelBlocksSnapshot = userCanceled ? blockManager.getBlocks() : undefined;
+
+              if (!userCanceled) {
+                try {
+                  await blockManager.persistToRepository();
+                } catch (persistError) {
+                  logger.error('[useMessageSender] 持久化失败（错误流程）', persistError);
+                }
+              }
 
-          try {
-            await blockManager.cleanup();
-            logger.debug('[useMessageSender] BlockManager 已清理（错误处理）');
-          } catch (cleanupError) {
-            logger.error('[useMessageSender] 清理 BlockManager 失败', cleanupError);
-          }
+              try {
+                await blockManager.cleanup();
+                logger.debug('[useMessageSender] BlockManager 已清理（错误处理）');
+              } catch (cleanupError) {
+                logger.error('[useMessageSender] 清理 BlockManager 失败', cleanupError);
+              }
 
-          if (userCanceled) {
-            logger.debug('[useMessageSender] 用户主动取消请求');
-            if (assistant) {
-              const blocks = cancelBlocksSnapshot ?? [];
-              const textBlocks = blocks.filter(b => b.type === 'TEXT');
-              const totalText = textBlocks.map(b => b.content).join('');
-
-              if (totalText.trim().length < 10) {
-                await MessageRepository.deleteMessage(assistant.id);
-                logger.debug('[useMessageSender] 已删除空的助手消息');
-              } else {
-                await MessageRepository.updateMessageStatus(assistant.id, 'failed');
-                logger.debug('[useMessageSender] 助手消息已标记为失败状态');
+              if (userCanceled) {
+                logger.debug('[useMessageSender] 用户主动取消请求');
+                const blocks = cancelBlocksSnapshot ?? [];
+                const textBlocks = blocks.filter(b => b.type === 'TEXT');
+                const totalText = textBlocks.map(b => b.content).join('');
+
+                if (totalText.trim().length < 10) {
+                  await MessageRepository.deleteMessage(assistant.id);
+                  // 回到该轮的其他版本（若有），否则停留在用户消息
+                  await ChatRepository.setActiveLeafId(cid!, savedUserMessage.id);
+                  logger.debug('[useMessageSender] 已删除空的助手消息');
+                } else {
+                  await MessageRepository.updateMessageStatus(assistant.id, 'failed');
+                  logger.debug('[useMessageSender] 助手消息已标记为失败状态');
+                }
+                settle({ status: 'canceled', omittedHistory });
+                return;
               }
-            }
-            setIsGenerating(false);
-            return;
-          }
 
-          // 真实错误
-          logger.error('[useMessageSender] Stream error', e);
-          if (assistant) {
+              // 真实错误
+              logger.error('[useMessageSender] Stream error', e, { provider: answerProvider, model: answerModel });
+              if (e instanceof StructuredOutputError) {
+                // 保留不符合 Schema 的原始回答，气泡中展示校验问题并可重试
+                await MessageRepository.updateMessageExtra(assistant.id, {
+                  structured: { valid: false, issues: e.issues },
+                });
+              }
+              await MessageRepository.updateMessageStatus(assistant.id, 'failed');
+              settle({ status: 'failed', error: e, omittedHistory });
+            },
+          });
+        } catch (error) {
+          // onError 已处理的异常等待其结算；未进入 onError 的异常（如提供商解析失败）在此结算
+          if (!errorHandled) {
             await MessageRepository.updateMessageStatus(assistant.id, 'failed');
+            settle(isUserCanceled(error)
+              ? { status: 'canceled', omittedHistory }
+              : { status: 'failed', error, omittedHistory });
           }
-          setIsGenerating(false);
-          setError(e as Error);
-          throw e;
-        },
-      });
+        }
+
+        return finished;
+      };
+
+      const outcomes = await Promise.all(assistants.map((a, i) => streamAnswer(a, targets[i])));
+      const completed = outcomes.filter((o) => o.status === 'done');
+
+      if (completed.length === 0) {
+        const failure = outcomes.find((o) => o.status === 'failed');
+        if (failure) throw failure.error;
+        // 全部被用户取消
+        setIsGenerating(false);
+        onProgress?.('done');
+        return;
+      }
+
+      // 并排回答中部分模型失败时仅标记对应回答，不打断其余回答
+      if (completed.length < outcomes.length) {
+        logger.warn('[useMessageSender] 部分并排回答失败', {
+          failed: outcomes.filter((o) => o.status === 'failed').length,
+          total: outcomes.length,
+        });
+      }
+
+      setIsGenerating(false);
+      onProgress?.('done');
+
+      if (isFirstTurn) {
+        try {
+          void autoNameConversation(cid!);
+        } catch (e) {
+          logger.warn('[useMessageSender] auto naming error', e);
+        }
+      }
+
+      // 对话记忆按首个完成回答的上下文结果增量摘要
+      const { omittedHistory } = completed[0];
+      if (omittedHistory.length > 0) {
+        void updateConversationMemory(cid!, omittedHistory, pathIds);
+      }
     } catch (error) {
       // 用户主动取消（外层捕获，一般不会到这里，因为 onError 已处理）
       if (isUserCanceled(error)) {
         logger.debug('[useMessageSender] 用户主动取消请求（外层捕获）');
-        if (assistant) {
+        for (const assistant of assistants) {
           await MessageRepository.updateMessageStatus(assistant.id, 'failed');
-          logger.debug('[useMessageSender] 助手消息已标记为失败状态（外层）');
         }
+        logger.debug('[useMessageSender] 助手消息已标记为失败状态（外层）');
         setIsGenerating(false);
         abortRef.current = null;
         return;
@@ -699,7 +1110,7 @@ export function useMessageSender(
         message: (error as Error)?.message,
       });
 
-      if (assistant) {
+      for (const assistant of assistants) {
         await MessageRepository.updateMessageStatus(assistant.id, 'failed');
       }
       setIsGenerating(false);
@@ -718,6 +1129,37 @@ export function useMessageSender(
   };
 }
 
+/**
+ * 读取模型记住的推理强度（未设置或读取失败时返回 undefined，使用默认参数）
+ */
+async function loadReasoningConfig(provider: string, model: string): Promise<ReasoningConfig | undefined> {
+  try {
+    const setting = await ModelReasoningRepository.get(provider, model);
+    return setting ? { level: setting.level, budgetTokens: setting.budgetTokens } : undefined;
+  } catch (e) {
+    logger.warn('[useMessageSender] 读取推理强度失败', e);
+    return undefined;
+  }
+}
+
+/**
+ * 实际发送的推理强度（自定义提供商按其参照的内置提供商判断模型能力）
+ */
+async function resolveEffectiveReasoning(
+  provider: Provider,
+  model: string,
+  reasoning: ReasoningConfig | undefined
+): Promise<ReasoningConfig | undefined> {
+  if (!reasoning) return undefined;
+  try {
+    const { capabilityProvider } = await resolveProvider(provider);
+    return getEffectiveReasoning(capabilityProvider, model, reasoning);
+  } catch (e) {
+    logger.warn('[useMessageSender] 解析提供商失败', e);
+    return reasoning;
+  }
+}
+
 /**
  * 判断是否为用户主动取消
  */
@@ -2,36 +2,46 @@ import { useEffect, useState, useCallback, useRef } from 'react';
 import { Message } from '@/storage/core';
 import { MessageRepository } from '@/storage/repositories/messages';
 import { appEvents, AppEvents } from '@/utils/events';
+import type { MessageBranchInfo } from '@/utils/message-tree';
 
-export function useMessages(conversationId: string | null, pageSize = 50) {
+/**
+ * 加载话题消息
+ *
+ * items 为当前激活分支上的消息路径（从根到激活叶子），
+ * branches 提供路径上每条消息的兄弟分支信息，用于分支切换器；
+ * arenas 提供路径上并排回答所在组的全部回答，用于并排展示。
+ * 分支路径需要完整的消息树才能解析，因此每次整体加载。
+ */
+export function useMessages(conversationId: string | null) {
   const [items, setItems] = useState<Message[]>([]);
+  const [branches, setBranches] = useState<Record<string, MessageBranchInfo>>({});
+  const [arenas, setArenas] = useState<Record<string, Message[]>>({});
   const [loading, setLoading] = useState<boolean>(false);
-  const [endCursor, setEndCursor] = useState<number | null>(null);
   const [error, setError] = useState<Error | null>(null);
 
   // 🚀 性能优化：节流重载定时器（避免高频事件导致频繁数据库查询）
   const reloadTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  const load = useCallback(async (reset = false) => {
+  const load = useCallback(async () => {
     if (!conversationId) return;
     setLoading(true);
     try {
-      const before = reset || endCursor == null ? Number.MAX_SAFE_INTEGER : endCursor;
-      const data = await MessageRepository.listMessages(conversationId, { limit: pageSize, before });
-      if (reset) setItems(data);
-      else setItems(prev => [...prev, ...data]);
-      if (data.length > 0) setEndCursor(data[data.length - 1].createdAt);
+      const path = await MessageRepository.getActivePath(conversationId);
+      setItems(path.messages);
+      setBranches(path.branches);
+      setArenas(path.arenas);
     } catch (e) {
       setError(e instanceof Error ? e : new Error(String(e)));
     } finally {
       setLoading(false);
     }
-  }, [conversationId, pageSize, endCursor]);
+  }, [conversationId]);
 
   useEffect(() => {
     setItems([]);
-    setEndCursor(null);
-    if (conversationId) void load(true);
+    setBranches({});
+    setArenas({});
+    if (conversationId) void load();
   }, [conversationId]);
 
   // 🎯 事件驱动更新消息（替代轮询机制，性能优化）
@@ -50,7 +60,7 @@ export function useMessages(conversationId: string | null, pageSize = 50) {
 
         // 设置新的定时器（300ms 内的多次变更合并为一次重载）
         reloadTimerRef.current = setTimeout(() => {
-          void load(true);
+          void load();
           reloadTimerRef.current = null;
         }, 300);
       }
@@ -68,6 +78,5 @@ export function useMessages(conversationId: string | null, pageSize = 50) {
     };
   }, [conversationId, load]);
 
-  return { items, loading, error, loadMore: () => load(false), reload: () => load(true) } as const;
+  return { items, branches, arenas, loading, error, reload: load } as const;
 }
-
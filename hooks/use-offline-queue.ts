@@ -0,0 +1,90 @@
+/**
+ * 离线发送队列 Hook
+ *
+ * 职责：
+ * - 监听网络连接状态，恢复联网时（以及启动时已在线）自动发送待发送（queued）的消息
+ * - 按创建时间依次发送，前一条完成后再发送下一条，保证对话顺序
+ * - 发送前重新读取消息：已取消（删除）的跳过，已编辑的使用最新内容
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { MessageRepository } from '@/storage/repositories/messages';
+import { MessageBlocksRepository } from '@/storage/repositories/message-blocks';
+import { AttachmentRepository } from '@/storage/repositories/attachments';
+import type { QueuedSendOptions, UseMessageSenderResult } from '@/hooks/use-message-sender';
+import { isOnline, onConnectivityChange } from '@/utils/connectivity';
+import { logger } from '@/utils/logger';
+
+/**
+ * 离线发送队列
+ *
+ * @param sendMessage - use-message-sender 返回的发送函数（通过 regenerateFrom 复用已保存的用户消息）
+ */
+export function useOfflineQueue(sendMessage: UseMessageSenderResult['sendMessage']) {
+  const sendRef = useRef(sendMessage);
+  sendRef.current = sendMessage;
+  const drainingRef = useRef(false);
+
+  const drain = useCallback(async () => {
+    if (drainingRef.current) return;
+    drainingRef.current = true;
+
+    try {
+      const queue = await MessageRepository.listQueuedMessages();
+      if (queue.length === 0) return;
+      logger.info('[useOfflineQueue] 开始发送待发送消息', { count: queue.length });
+
+      for (const item of queue) {
+        // 发送过程中再次断网：保留剩余消息，等待下次联网
+        if (!(await isOnline())) {
+          logger.info('[useOfflineQueue] 网络已断开，暂停发送');
+          break;
+        }
+
+        const message = await MessageRepository.getMessage(item.id);
+        if (!message || message.status !== 'queued') continue;
+
+        const blocks = await MessageBlocksRepository.getBlocksByMessageId(message.id);
+        const text = blocks
+          .filter((b) => b.type === 'TEXT')
+          .sort((a, b) => a.sortOrder - b.sortOrder)
+          .map((b) => b.content)
+          .join('');
+        const attachments = await AttachmentRepository.getAttachmentsForMessage(message.id);
+        const queued: QueuedSendOptions = message.extra?.queue ?? {};
+
+        try {
+          await sendRef.current({
+            text,
+            attachments,
+            searchResults: null,
+            enableMcpTools: queued.enableMcpTools,
+            currentModel: queued.currentModel,
+            arenaModels: queued.arenaModels,
+            regenerateFrom: message.id,
+            conversationId: message.conversationId,
+          });
+        } catch (e) {
+          // 单条失败（已标记为失败的回答）不影响后续消息
+          logger.warn('[useOfflineQueue] 待发送消息发送失败', { messageId: message.id, error: e });
+        }
+      }
+    } catch (e) {
+      logger.error('[useOfflineQueue] 处理待发送队列失败', e);
+    } finally {
+      drainingRef.current = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    void (async () => {
+      if (await isOnline()) await drain();
+    })();
+
+    return onConnectivityChange((online) => {
+      if (online) void drain();
+    });
+  }, [drain]);
+
+  return { drain };
+}
@@ -1,17 +1,17 @@
-import { streamText, stepCountIs, experimental_generateImage as generateImage, type ModelMessage } from 'ai';
-import { createOpenAI } from '@ai-sdk/openai';
-import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
-import { createAnthropic } from '@ai-sdk/anthropic';
-import { createGoogleGenerativeAI } from '@ai-sdk/google';
-import { ProvidersRepository, type ProviderId } from '@/storage/repositories/providers';
+import { streamText, streamObject, generateText, generateObject, NoObjectGeneratedError, jsonSchema, stepCountIs, experimental_generateImage as generateImage, type JSONSchema7, type LanguageModel, type ModelMessage, type LanguageModelUsage } from 'ai';
+import { ProvidersRepository, type AnyProviderId, type ProviderId } from '@/storage/repositories/providers';
 import { ProviderKeyManagementRepository } from '@/storage/repositories/provider-key-management';
+import { SettingsRepository, SettingKey } from '@/storage/repositories/settings';
 import { ApiKeyManager } from './ApiKeyManager';
-import { ImageGenerationError, ImageModelResolutionError } from '@/utils/errors';
+import { ImageGenerationError, ImageModelResolutionError, StructuredOutputError } from '@/utils/errors';
 import { describeModelCapabilities } from './capabilities/ModelCapabilities';
+import { resolveProvider, getProviderApiKey, createLanguageModel, createImageModel } from './providers/ProviderRegistry';
 import { logger } from '@/utils/logger';
-import { withAiServiceContext } from './error-handler';
+import { withAiServiceContext, isRetryableAiError } from './error-handler';
+import { assertStructuredOutput, withStructuredOutputInstruction } from './structured/StructuredOutput';
+import type { ReasoningConfig } from '@/storage/types/model-reasoning';
 
-export type Provider = ProviderId;
+export type Provider = AnyProviderId;
 
 /**
  * MCP 工具调用参数类型
@@ -29,6 +29,30 @@ export type ToolCallResult = unknown;
  */
 const MAX_TOOL_CALL_STEPS = 5;
 
+/**
+ * 一次流式请求的 Token 用量（取自 finish 事件的 totalUsage，包含所有工具调用轮次）
+ */
+export interface StreamUsage {
+  provider: Provider;       // 实际使用的提供商（经过路由规范化）
+  model: string;
+  keyId?: string;           // 多 Key 模式下实际使用的 Key
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  cachedInputTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * 回退目标：主模型请求失败（可重试错误且尚未输出内容）时依次尝试
+ */
+export interface FallbackTarget {
+  provider: Provider;
+  model: string;
+  /** 该模型记住的推理强度（未设置时使用默认参数） */
+  reasoning?: ReasoningConfig;
+}
+
 export interface StreamOptions {
   provider: Provider;
   model: string;
@@ -39,16 +63,30 @@ export interface StreamOptions {
   onToken?: (delta: string) => void;
   onDone?: () => void;
   onError?: (e: unknown) => void;
+  onUsage?: (usage: StreamUsage) => void; // 流程完成时回调 Token 用量
+
+  // 跨提供商回退链（按顺序尝试，仅在尚未输出任何内容时切换）
+  fallbacks?: FallbackTarget[];
+  onFallback?: (from: FallbackTarget, to: FallbackTarget, error: unknown) => void | Promise<void>;
 
   // 思考链回调 (用于支持推理模型如 OpenAI o1/o3, DeepSeek R1 等)
-  onThinkingToken?: (delta: string) => void;
-  onThinkingStart?: () => void;
-  onThinkingEnd?: () => void;
+  // 非流式回放时会依次等待回调完成（调用方在回调中异步保存思考链）
+  onThinkingToken?: (delta: string) => void | Promise<void>;
+  onThinkingStart?: () => void | Promise<void>;
+  onThinkingEnd?: () => void | Promise<void>;
+  stream?: boolean; // 是否流式输出（未传入时使用全局设置；提供商单独设置时以提供商为准）
+  reasoning?: ReasoningConfig; // 推理强度（映射为 OpenAI reasoningEffort / Anthropic budgetTokens / Gemini thinkingBudget）
 
   // MCP 工具集成 (Model Context Protocol)
   enableMcpTools?: boolean; // 是否启用 MCP 工具
+  mcpServerIds?: string[]; // 限定可用的 MCP 服务器（未设置表示全部激活的服务器）
+  mcpToolNames?: string[]; // 限定可用的 MCP 工具（未设置表示服务器的全部工具）
   onToolCall?: (toolName: string, args: ToolCallArgs, toolCallId: string) => void; // 工具调用开始回调
   onToolResult?: (toolName: string, result: ToolCallResult, toolCallId: string) => void; // 工具执行完成回调
+  toolMessageId?: string; // 发起工具调用的消息 ID（需要审批的工具在该消息中显示审批卡片）
+
+  // 结构化输出：回答必须为符合该 JSON Schema 的 JSON（不使用 MCP 工具与思考链）
+  responseSchema?: JSONSchema7;
 }
 
 /**
@@ -75,7 +113,7 @@ async function getApiKeyWithManagement(
   provider: Provider
 ): Promise<{ key: string; keyId?: string }> {
   return withAiServiceContext('AiClient', 'getApiKeyWithManagement', { provider }, async () => {
-    // 统一使用 ProvidersRepository 获取所有提供商的 API Key
+    // 内置提供商与自定义提供商统一按提供商 ID 管理 API Key
     const normalizedProvider = provider === 'gemini' ? 'google' : provider;
 
     // 检查是否启用多 Key 模式
@@ -84,7 +122,7 @@ async function getApiKeyWithManagement(
 
     if (!isMultiKeyEnabled) {
       // 单 Key 模式：使用传统方式
-      const key = (await ProvidersRepository.getApiKey(normalizedProvider)) ?? '';
+      const key = (await getProviderApiKey(normalizedProvider)) ?? '';
       logger.info('[AiClient] 使用单 Key 模式', { provider: normalizedProvider });
       return { key };
     }
@@ -115,7 +153,94 @@ async function getApiKey(provider: Provider): Promise<string> {
   return result.key;
 }
 
+/**
+ * 流式补全（支持跨提供商回退）
+ *
+ * 依次尝试主模型与回退链中的模型：当前目标在输出任何内容（正文、思考链、工具调用）之前
+ * 遇到可重试错误（限流、服务不可用、网络异常等）时切换到下一个目标；
+ * 最后一个目标的错误按原流程回调 onError 并抛出。
+ */
 export async function streamCompletion(opts: StreamOptions) {
+  // 每个目标使用各自的推理强度（显式写入 reasoning，避免主模型的设置带到回退模型）
+  const targets: FallbackTarget[] = [{ provider: opts.provider, model: opts.model, reasoning: opts.reasoning }];
+  for (const t of opts.fallbacks ?? []) {
+    if (!targets.some((x) => x.provider === t.provider && x.model === t.model)) {
+      targets.push({ provider: t.provider, model: t.model, reasoning: t.reasoning });
+    }
+  }
+
+  for (let i = 0; i < targets.length; i++) {
+    const target = targets[i];
+    const next = targets[i + 1];
+
+    // 最后一个目标：沿用原始回调
+    if (!next) {
+      return streamWithTarget({ ...opts, ...target, fallbacks: undefined });
+    }
+
+    let started = false;
+    let retryError: unknown = null;
+    const markStarted = () => {
+      started = true;
+    };
+
+    try {
+      await streamWithTarget({
+        ...opts,
+        ...target,
+        fallbacks: undefined,
+        onToken: (d) => {
+          markStarted();
+          opts.onToken?.(d);
+        },
+        onThinkingStart: () => {
+          markStarted();
+          return opts.onThinkingStart?.();
+        },
+        onThinkingToken: (d) => {
+          markStarted();
+          return opts.onThinkingToken?.(d);
+        },
+        onToolCall: (toolName, args, toolCallId) => {
+          markStarted();
+          opts.onToolCall?.(toolName, args, toolCallId);
+        },
+        onError: (e) => {
+          // 尚未输出内容的可重试错误：暂存，稍后切换到下一个目标
+          if (!started && !opts.abortSignal?.aborted && isRetryableAiError(e)) {
+            retryError = e;
+            return;
+          }
+          opts.onError?.(e);
+        },
+        onDone: () => {
+          if (retryError) return;
+          opts.onDone?.();
+        },
+      });
+    } catch (e) {
+      if (started || opts.abortSignal?.aborted || !isRetryableAiError(e)) {
+        throw e;
+      }
+      retryError = e;
+    }
+
+    if (!retryError) return;
+
+    logger.warn('[AiClient] 请求失败，切换到回退模型', {
+      from: target,
+      to: next,
+      error: getErrorMessage(retryError),
+    });
+    try {
+      await opts.onFallback?.(target, next, retryError);
+    } catch (cbErr) {
+      logger.warn('[AiClient] onFallback 回调异常', { error: getErrorMessage(cbErr) });
+    }
+  }
+}
+
+async function streamWithTarget(opts: StreamOptions) {
   // 统一解析与规范化 provider/model，避免兼容端点路由误判
   let provider: Provider = opts.provider;
   const model = opts.model;
@@ -144,8 +269,8 @@ export async function streamCompletion(opts: StreamOptions) {
       );
     };
 
-    async function pickCompatibleProvider(): Promise<Provider | null> {
-      const candidates: Provider[] = ['deepseek', 'volc', 'zhipu'];
+    async function pickCompatibleProvider(): Promise<ProviderId | null> {
+      const candidates: ProviderId[] = ['deepseek', 'volc', 'zhipu'];
       for (const id of candidates) {
         const key = await ProvidersRepository.getApiKey(id);
         const cfg = await ProvidersRepository.getConfig(id);
@@ -180,48 +305,64 @@ export async function streamCompletion(opts: StreamOptions) {
   const { key: apiKey, keyId } = await getApiKeyWithManagement(provider);
   if (!apiKey) throw new Error('Missing API key for ' + provider);
 
-  // resolve baseURL for openai-compatible vendors
-  let baseURL: string | undefined;
-  if (provider === 'openai' || provider === 'deepseek' || provider === 'volc' || provider === 'zhipu') {
-    const cfg = await ProvidersRepository.getConfig(provider);
-    baseURL = cfg.baseURL || undefined;
-  }
-
-  // resolve baseURL for anthropic
-  let anthropicBaseURL: string | undefined;
-  if (provider === 'anthropic') {
-    const cfg = await ProvidersRepository.getConfig(provider);
-    anthropicBaseURL = cfg.baseURL || undefined;
-  }
+  // 上报 Token 用量（部分兼容端点不返回 usage，此时各项为 0）
+  const reportUsage = (usage: LanguageModelUsage | undefined) => {
+    if (!opts.onUsage || !usage) return;
+    const inputTokens = usage.inputTokens ?? 0;
+    const outputTokens = usage.outputTokens ?? 0;
+    try {
+      opts.onUsage({
+        provider,
+        model,
+        keyId,
+        inputTokens,
+        outputTokens,
+        reasoningTokens: usage.reasoningTokens ?? 0,
+        cachedInputTokens: usage.cachedInputTokens ?? 0,
+        totalTokens: usage.totalTokens ?? inputTokens + outputTokens,
+      });
+    } catch (cbErr) {
+      logger.warn('[AiClient] onUsage 回调异常', { error: getErrorMessage(cbErr) });
+    }
+  };
 
-  // choose provider factory with compatibility for OpenAI-compatible gateways
-  const useOpenAICompatible = (
-    provider === 'deepseek' || provider === 'volc' || provider === 'zhipu' ||
-    (provider === 'openai' && !!baseURL && !/^https?:\/\/api\.openai\.com\/?v1\/?$/i.test(String(baseURL).replace(/\/$/, '')))
-  );
+  // 通过提供商注册表解析 SDK 与 baseURL（内置 / 自定义提供商）
+  const resolved = await resolveProvider(provider);
 
-  const factory =
-    provider === 'anthropic'
-      ? () => createAnthropic({ apiKey, baseURL: anthropicBaseURL })
-      : provider === 'google'
-      ? () => createGoogleGenerativeAI({ apiKey })
-      : useOpenAICompatible
-      ? () => createOpenAICompatible({
-        apiKey, baseURL: baseURL ?? 'https://api.openai.com/v1',
-        name: ''
-      })
-      : () => createOpenAI({ apiKey, baseURL });
-
-  const capabilityDescriptor = describeModelCapabilities({ id: model, provider });
+  const capabilityDescriptor = describeModelCapabilities({ id: model, provider: resolved.capabilityProvider }, opts.reasoning);
   const hasReasoningSupport = capabilityDescriptor.reasoning;
   const reasoningOptions = capabilityDescriptor.providerOptions;
 
+  // 流式输出：提供商单独设置优先，其次为调用方传入 / 全局设置（部分网关 / 代理无法正确转发 SSE）
+  const streamOutput =
+    resolved.streamOutput ??
+    opts.stream ??
+    (await SettingsRepository().get<boolean>(SettingKey.ChatStreamOutput)) ??
+    true;
+
+  // 🧩 结构化输出：走独立流程（OpenAI 兼容端点无法可靠传递 Schema，统一使用提示词回退）
+  if (opts.responseSchema) {
+    return streamStructuredOutput(opts, {
+      languageModel: createLanguageModel(resolved, apiKey, model),
+      native: capabilityDescriptor.structuredOutput && resolved.sdk !== 'openai-compatible',
+      schema: opts.responseSchema,
+      stream: streamOutput,
+      provider,
+      model,
+      keyId,
+      reportUsage,
+    });
+  }
+
   // MCP 工具集成：如果启用，加载所有激活的 MCP 工具（使用 AI SDK 原生 tools）
   let mcpTools: Record<string, any> | undefined;
   if (opts.enableMcpTools) {
     try {
       const { getAllActiveTools } = await import('@/services/ai/integration/mcpIntegration');
-      mcpTools = await getAllActiveTools();
+      mcpTools = await getAllActiveTools(
+        { serverIds: opts.mcpServerIds, toolNames: opts.mcpToolNames },
+        { messageId: opts.toolMessageId }
+      );
       logger.info('[AiClient] MCP 工具已加载', {
         toolCount: Object.keys(mcpTools).length,
         toolNames: Object.keys(mcpTools),
@@ -243,27 +384,50 @@ export async function streamCompletion(opts: StreamOptions) {
     toolCount: mcpTools ? Object.keys(mcpTools).length : 0,
     toolNames: mcpTools ? Object.keys(mcpTools) : [],
     hasReasoningSupport,
+    reasoning: opts.reasoning,
+    streamOutput,
     maxSteps: 5,
   });
 
-  // 使用 AI SDK 原生 streamText，集成 MCP 工具
-  const result = streamText({
-    model: factory()(model),
+  // 流式与非流式共用的请求参数，集成 MCP 工具
+  const requestOptions = {
+    model: createLanguageModel(resolved, apiKey, model),
     messages: opts.messages,
     abortSignal: opts.abortSignal,
     temperature: opts.temperature,
     maxOutputTokens: opts.maxTokens,
-    tools: mcpTools, // ✨ 使用 AI SDK 原生 tools 参数
+    // ✨ 使用 AI SDK 原生 tools 参数（非流式时在工具执行中回调，见 withToolCallbacks）
+    tools: mcpTools && !streamOutput ? withToolCallbacks(mcpTools, opts) : mcpTools,
     stopWhen: [stepCountIs(MAX_TOOL_CALL_STEPS)], // 遵循官方多步工具调用实现
-    // @ts-expect-error - maxSteps is valid but not in SDK type definitions
     maxSteps: 5, // 允许最多 5 轮工具调用（防止无限循环）
     ...(hasReasoningSupport ? reasoningOptions : {}),
-  });
+  };
+
+  // 使用 AI SDK 原生 streamText（关闭流式输出时改用 generateText）
+  const result = streamOutput ? streamText(requestOptions) : null;
 
-  // 处理流式响应，集成思考链和工具调用回调
+  // 处理响应，集成思考链和工具调用回调
   try {
-    // ✨ 修复：只要支持推理，就进入推理模式（不管是否有回调）
-    if (hasReasoningSupport) {
+    if (!result) {
+      // 非流式：工具调用在执行时回调，其余内容获取完整结果后按步骤回放
+      logger.info('[AiClient] 🚀 发送非流式请求', {
+        provider,
+        model,
+        hasReasoningSupport,
+        enableMcpTools: opts.enableMcpTools,
+        mcpToolsCount: mcpTools ? Object.keys(mcpTools).length : 0,
+      });
+
+      const generated = await generateText(requestOptions);
+      await replayGeneratedSteps(generated.steps, opts, hasReasoningSupport);
+      logger.info('[AiClient] 🎉 整个流程完成', {
+        finishReason: generated.finishReason,
+        totalUsage: generated.totalUsage,
+      });
+      reportUsage(generated.totalUsage);
+      didFinish = true;
+    } else if (hasReasoningSupport) {
+      // ✨ 修复：只要支持推理，就进入推理模式（不管是否有回调）
       // 支持推理模型的思考链输出
       let isThinking = false;
       didFinish = false;
@@ -343,6 +507,7 @@ export async function streamCompletion(opts: StreamOptions) {
             finishReason: part.finishReason,
             totalUsage: part.totalUsage,
           });
+          reportUsage(part.totalUsage);
           if (isThinking) {
             opts.onThinkingEnd?.();
           }
@@ -420,6 +585,7 @@ export async function streamCompletion(opts: StreamOptions) {
             finishReason: part.finishReason,
             totalUsage: part.totalUsage,
           });
+          reportUsage(part.totalUsage);
           didFinish = true;
           break;
         } else if (part.type === 'error') {
@@ -473,6 +639,207 @@ export async function streamCompletion(opts: StreamOptions) {
   opts.onDone?.();
 }
 
+/**
+ * 非流式请求的工具包装
+ *
+ * generateText 在返回前执行完所有工具（包括等待用户审批），事后回放会导致审批期间没有工具块可操作，
+ * 因此在每个工具的 execute 中直接回调工具调用与工具结果。
+ */
+function withToolCallbacks(tools: Record<string, any>, opts: StreamOptions): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(tools).map(([toolName, t]) => [
+      toolName,
+      {
+        ...t,
+        execute: async (input: ToolCallArgs, options: { toolCallId: string }) => {
+          const { toolCallId } = options;
+          logger.info('[AiClient] 🔧 工具调用开始', { toolName, args: input, toolCallId });
+          try {
+            opts.onToolCall?.(toolName, input, toolCallId);
+          } catch (cbErr) {
+            logger.warn('[AiClient] onToolCall 回调异常', { toolName, toolCallId, error: getErrorMessage(cbErr) });
+          }
+
+          const output: ToolCallResult = await t.execute(input, options);
+
+          logger.info('[AiClient] ✅ 工具执行完成', { toolName, result: output, toolCallId });
+          try {
+            opts.onToolResult?.(toolName, output, toolCallId);
+          } catch (cbErr) {
+            logger.warn('[AiClient] onToolResult 回调异常', { toolName, toolCallId, error: getErrorMessage(cbErr) });
+          }
+          return output;
+        },
+      },
+    ])
+  );
+}
+
+/**
+ * 回放非流式结果
+ *
+ * 按步骤依次回调思考链与正文，调用方（BlockManager 等）无需区分是否为流式；
+ * 工具调用与结果已在执行时回调（见 withToolCallbacks），这里不再重复。
+ * 思考链回调依次等待完成，保证结束回调执行时思考链记录已创建。
+ */
+async function replayGeneratedSteps(
+  steps: Awaited<ReturnType<typeof generateText>>['steps'],
+  opts: StreamOptions,
+  hasReasoningSupport: boolean
+) {
+  for (const step of steps) {
+    let isThinking = false;
+    for (const part of step.content) {
+      if (part.type === 'reasoning') {
+        if (!hasReasoningSupport || !part.text) continue;
+        if (!isThinking) {
+          isThinking = true;
+          await opts.onThinkingStart?.();
+        }
+        await opts.onThinkingToken?.(part.text);
+        continue;
+      }
+
+      if (isThinking) {
+        isThinking = false;
+        await opts.onThinkingEnd?.();
+      }
+
+      if (part.type === 'text' && part.text) {
+        opts.onToken?.(part.text);
+      }
+    }
+    if (isThinking) await opts.onThinkingEnd?.();
+
+    logger.info('[AiClient] 🏁 完成一步', {
+      finishReason: step.finishReason,
+      usage: step.usage,
+    });
+  }
+}
+
+/**
+ * 结构化输出流式生成
+ *
+ * - native：使用 streamObject 由提供商按 Schema 约束生成
+ * - 否则：在系统提示词中注入 Schema，使用 streamText 生成
+ * - 关闭流式输出时分别改用 generateObject / generateText，完成后一次性输出 JSON 文本
+ *
+ * 两种方式都将 JSON 文本通过 onToken 流式输出，完成后统一校验；
+ * 不符合 Schema 时回调 onError 并抛出 StructuredOutputError（由用户在气泡中重试，不切换回退模型）。
+ */
+async function streamStructuredOutput(
+  opts: StreamOptions,
+  target: {
+    languageModel: LanguageModel;
+    native: boolean;
+    schema: JSONSchema7;
+    stream: boolean;
+    provider: Provider;
+    model: string;
+    keyId?: string;
+    reportUsage: (usage: LanguageModelUsage | undefined) => void;
+  }
+) {
+  const { provider, model, keyId } = target;
+  let text = '';
+
+  logger.info('[AiClient] 🧩 结构化输出', { provider, model, native: target.native, stream: target.stream });
+
+  try {
+    if (!target.stream) {
+      if (target.native) {
+        try {
+          const result = await generateObject({
+            model: target.languageModel,
+            schema: jsonSchema(target.schema),
+            messages: opts.messages,
+            abortSignal: opts.abortSignal,
+            temperature: opts.temperature,
+            maxOutputTokens: opts.maxTokens,
+          });
+          text = JSON.stringify(result.object);
+          target.reportUsage(result.usage);
+        } catch (e) {
+          // 解析 / 校验失败时保留原始文本，由下方统一校验给出具体原因
+          if (!NoObjectGeneratedError.isInstance(e)) throw e;
+          text = e.text ?? '';
+          target.reportUsage(e.usage);
+        }
+      } else {
+        const result = await generateText({
+          model: target.languageModel,
+          messages: withStructuredOutputInstruction(opts.messages, target.schema),
+          abortSignal: opts.abortSignal,
+          temperature: opts.temperature,
+          maxOutputTokens: opts.maxTokens,
+        });
+        text = result.text;
+        target.reportUsage(result.totalUsage);
+      }
+      if (text) opts.onToken?.(text);
+    } else if (target.native) {
+      const result = streamObject({
+        model: target.languageModel,
+        schema: jsonSchema(target.schema),
+        messages: opts.messages,
+        abortSignal: opts.abortSignal,
+        temperature: opts.temperature,
+        maxOutputTokens: opts.maxTokens,
+      });
+
+      for await (const part of result.fullStream) {
+        if (part.type === 'text-delta') {
+          text += part.textDelta;
+          opts.onToken?.(part.textDelta);
+        } else if (part.type === 'finish') {
+          target.reportUsage(part.usage);
+        } else if (part.type === 'error') {
+          throw part.error;
+        }
+      }
+      // 解析失败由下方统一校验给出具体原因，这里避免未处理的 Promise 拒绝
+      await result.object.catch(() => undefined);
+    } else {
+      const result = streamText({
+        model: target.languageModel,
+        messages: withStructuredOutputInstruction(opts.messages, target.schema),
+        abortSignal: opts.abortSignal,
+        temperature: opts.temperature,
+        maxOutputTokens: opts.maxTokens,
+      });
+
+      for await (const part of result.fullStream) {
+        if (part.type === 'text-delta') {
+          text += part.text;
+          opts.onToken?.(part.text);
+        } else if (part.type === 'finish') {
+          target.reportUsage(part.totalUsage);
+        } else if (part.type === 'error') {
+          throw part.error;
+        }
+      }
+    }
+
+    // ✅ 请求本身成功（多 Key 模式），Schema 校验失败不计为 Key 失败
+    if (keyId) {
+      await ApiKeyManager.getInstance().updateKeyStatus(keyId, true);
+    }
+
+    assertStructuredOutput(text, target.schema, { provider, model });
+  } catch (e: unknown) {
+    const errorMessage = getErrorMessage(e);
+    if (keyId && !(e instanceof StructuredOutputError)) {
+      await ApiKeyManager.getInstance().updateKeyStatus(keyId, false, errorMessage);
+    }
+    logger.error('[AiClient] 结构化输出失败', { provider, model, message: errorMessage });
+    opts.onError?.(e);
+    throw e;
+  }
+
+  opts.onDone?.();
+}
+
 
 // ============================================
 // 图片生成功能
@@ -581,35 +948,24 @@ export async function generateImageWithAI(
     onProgress?.(10);
 
 
-    // 6. 获取 baseURL（如果有自定义）
-    let baseURL: string | undefined;
-    if (provider === 'openai' || provider === 'deepseek' || provider === 'volc' || provider === 'zhipu') {
-      const cfg = await ProvidersRepository.getConfig(provider);
-      baseURL = cfg.baseURL || undefined;
-    }
+    // 6. 解析提供商配置（内置 / 自定义提供商）
+    const resolved = await resolveProvider(provider);
 
-    // 7. 创建提供商实例
-    const factory = provider === 'openai'
-      ? () => createOpenAI({ apiKey, baseURL })
-      : provider === 'deepseek' || provider === 'volc' || provider === 'zhipu'
-      ? () => createOpenAICompatible({
-          apiKey,
-          baseURL: baseURL ?? 'https://api.openai.com/v1',
-          name: provider
-        })
-      : () => {
-          throw new ImageGenerationError(
-            `提供商 ${provider} 暂不支持图片生成`,
-            provider,
-            model
-          );
-        };
+    // 7. 创建图片模型实例
+    const imageModel = createImageModel(resolved, apiKey, model);
+    if (!imageModel) {
+      throw new ImageGenerationError(
+        `提供商 ${resolved.name} 暂不支持图片生成`,
+        provider,
+        model
+      );
+    }
 
     onProgress?.(30);
 
     // 8. 调用 Vercel AI SDK 官方 API
     const result = await generateImage({
-      model: factory().imageModel(model), // 使用 imageModel 方法
+      model: imageModel,
       prompt: prompt,
       n: n,
       size: size,
@@ -9,7 +9,7 @@ import type {
   LoadBalanceStrategy,
   KeyStats,
 } from '@/storage/types/api-key-config';
-import type { ProviderId } from '@/storage/repositories/providers';
+import type { AnyProviderId } from '@/storage/repositories/providers';
 import { ProviderKeysRepository } from '@/storage/repositories/provider-keys';
 import { ProviderKeyManagementRepository } from '@/storage/repositories/provider-key-management';
 import { logger } from '@/utils/logger';
@@ -42,7 +42,7 @@ export class ApiKeyManager {
    * 根据策略选择可用的 API Key
    */
   async selectApiKey(
-    providerId: ProviderId,
+    providerId: AnyProviderId,
     strategy?: LoadBalanceStrategy
   ): Promise<KeySelectionResult> {
     return withAiServiceContext('ApiKeyManager', 'selectApiKey', { providerId, strategy }, async () => {
@@ -234,7 +234,7 @@ export class ApiKeyManager {
   /**
    * 获取统计数据
    */
-  async getKeyStats(providerId: ProviderId): Promise<KeyStats> {
+  async getKeyStats(providerId: AnyProviderId): Promise<KeyStats> {
     return withAiServiceContext('ApiKeyManager', 'getKeyStats', { providerId }, async () => {
       return await ProviderKeysRepository.getKeyStats(providerId);
     });
@@ -258,7 +258,7 @@ export class ApiKeyManager {
   /**
    * 验证 API Key 格式
    */
-  validateKeyFormat(key: string, providerId: ProviderId): boolean {
+  validateKeyFormat(key: string, providerId: AnyProviderId): boolean {
     return withSyncAiServiceContext('ApiKeyManager', 'validateKeyFormat', { providerId }, () => {
       if (!key || key.trim().length === 0) return false;
 
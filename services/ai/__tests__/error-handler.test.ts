@@ -0,0 +1,78 @@
+/**
+ * AI 错误重试分类单元测试
+ */
+
+import { APICallError, RetryError } from 'ai';
+import { AiError, NetworkError, StructuredOutputError } from '@/utils/errors';
+import { ErrorCode } from '@/utils/error-codes';
+import { isRetryableAiError } from '../error-handler';
+
+function apiCallError(statusCode?: number, isRetryable?: boolean): APICallError {
+  return new APICallError({
+    message: `HTTP ${statusCode ?? 'unknown'}`,
+    url: 'https://api.example.com/v1/chat/completions',
+    requestBodyValues: {},
+    statusCode,
+    isRetryable,
+  });
+}
+
+describe('isRetryableAiError', () => {
+  it('should retry rate limits, timeouts and server errors from the API', () => {
+    expect(isRetryableAiError(apiCallError(429))).toBe(true);
+    expect(isRetryableAiError(apiCallError(408))).toBe(true);
+    expect(isRetryableAiError(apiCallError(500))).toBe(true);
+    expect(isRetryableAiError(apiCallError(503))).toBe(true);
+  });
+
+  it('should not retry client errors from the API', () => {
+    expect(isRetryableAiError(apiCallError(400))).toBe(false);
+    expect(isRetryableAiError(apiCallError(401))).toBe(false);
+    expect(isRetryableAiError(apiCallError(404))).toBe(false);
+  });
+
+  it('should use the SDK flag when the API error has no status code', () => {
+    expect(isRetryableAiError(apiCallError(undefined, true))).toBe(true);
+    expect(isRetryableAiError(apiCallError(undefined, false))).toBe(false);
+  });
+
+  it('should classify exhausted SDK retries by their last error', () => {
+    const retryable = new RetryError({ message: 'failed', reason: 'maxRetriesExceeded', errors: [apiCallError(503)] });
+    const fatal = new RetryError({ message: 'failed', reason: 'errorNotRetryable', errors: [apiCallError(401)] });
+
+    expect(isRetryableAiError(retryable)).toBe(true);
+    expect(isRetryableAiError(fatal)).toBe(false);
+  });
+
+  it('should follow the retryable flag of app errors', () => {
+    expect(isRetryableAiError(new AiError('busy', ErrorCode.AI_ERR_RATE_LIMIT))).toBe(true);
+    expect(isRetryableAiError(new AiError('bad key', ErrorCode.AI_ERR_AUTH))).toBe(false);
+    expect(isRetryableAiError(new NetworkError('timeout', ErrorCode.NET_ERR_TIMEOUT))).toBe(true);
+    expect(isRetryableAiError(new NetworkError('bad request', ErrorCode.NET_ERR_CLIENT))).toBe(false);
+  });
+
+  it('should not retry schema violations', () => {
+    expect(isRetryableAiError(new StructuredOutputError(['$.name: 缺少必填字段']))).toBe(false);
+  });
+
+  it('should never retry aborted or canceled requests', () => {
+    const abort = new Error('The operation was aborted');
+    abort.name = 'AbortError';
+
+    expect(isRetryableAiError(abort)).toBe(false);
+    expect(isRetryableAiError(new Error('Request canceled by user'))).toBe(false);
+    expect(isRetryableAiError({ name: 'AbortError', message: 'network error' })).toBe(false);
+  });
+
+  it('should recognize transient failures by message', () => {
+    expect(isRetryableAiError(new Error('TypeError: fetch failed'))).toBe(true);
+    expect(isRetryableAiError('Request timed out')).toBe(true);
+    expect(isRetryableAiError({ message: 'Model is overloaded' })).toBe(true);
+  });
+
+  it('should not retry unknown errors', () => {
+    expect(isRetryableAiError(null)).toBe(false);
+    expect(isRetryableAiError(new Error('Invalid request body'))).toBe(false);
+    expect(isRetryableAiError({ message: null })).toBe(false);
+  });
+});
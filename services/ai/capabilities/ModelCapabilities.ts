@@ -12,6 +12,7 @@
  */
 
 import { logger } from '@/utils/logger';
+import type { ReasoningConfig } from '@/storage/types/model-reasoning';
 
 // ============================================
 // 类型定义
@@ -62,6 +63,7 @@ export interface ProviderOptions {
   providerOptions?: {
     openai?: {
       reasoningSummary?: 'auto' | 'detailed' | 'brief';
+      reasoningEffort?: 'minimal' | 'low' | 'medium' | 'high';
     };
     anthropic?: {
       thinking?: {
@@ -69,6 +71,12 @@ export interface ProviderOptions {
         budgetTokens: number;
       };
     };
+    google?: {
+      thinkingConfig?: {
+        thinkingBudget?: number;
+        includeThoughts?: boolean;
+      };
+    };
   };
 }
 
@@ -83,6 +91,10 @@ export interface ModelCapabilityDescriptor {
   embedding: boolean;
   rerank: boolean;
   imageGeneration: boolean;
+  /** 是否支持原生结构化输出（按 JSON Schema 约束生成） */
+  structuredOutput: boolean;
+  /** 上下文窗口大小（Token） */
+  contextWindow: number;
   providerOptions: ProviderOptions;
 }
 
@@ -258,32 +270,147 @@ export function isReasoningModel(provider: ProviderId, model: string, name?: str
   });
 }
 
+/**
+ * 推理强度预设档位对应的思考预算（Token）
+ */
+export const REASONING_BUDGET_PRESETS = {
+  low: 2_048,
+  medium: 8_192,
+  high: 24_576,
+} as const;
+
+/** 未设置推理强度时 Anthropic 的默认思考预算 */
+const DEFAULT_ANTHROPIC_THINKING_BUDGET = 12_000;
+/** Anthropic 扩展思考的最小预算 */
+const MIN_ANTHROPIC_THINKING_BUDGET = 1_024;
+/** Gemini 2.5 Pro 的最小思考预算（该模型无法关闭思考） */
+const MIN_GEMINI_PRO_THINKING_BUDGET = 128;
+
+const OPENAI_REASONING_EFFORT_REGEX = /^(o[134]|gpt-5)/i;
+/** 无法关闭思考的模型：OpenAI o 系列、Gemini 2.5 Pro */
+const OPENAI_REASONING_REQUIRED_REGEX = /^o[134]/i;
+const GEMINI_THINKING_REQUIRED_REGEX = /gemini-2\.5-pro/i;
+const ANTHROPIC_THINKING_REGEX = /claude-3\.[789]|claude-3-7|claude-[4-9]|claude-(sonnet|opus|haiku)-4/i;
+
+/**
+ * 计算推理强度对应的思考预算（off 返回 0）
+ */
+export function getReasoningBudget(reasoning: ReasoningConfig): number {
+  switch (reasoning.level) {
+    case 'off':
+      return 0;
+    case 'custom':
+      return Math.max(0, Math.round(reasoning.budgetTokens ?? REASONING_BUDGET_PRESETS.medium));
+    default:
+      return REASONING_BUDGET_PRESETS[reasoning.level];
+  }
+}
+
+/**
+ * 模型是否支持关闭思考（不支持时推理强度中不提供"关闭思考"）
+ */
+export function supportsReasoningOff(provider: ProviderId, model: string): boolean {
+  const m = norm(model);
+  switch (provider) {
+    case 'openai':
+      return !OPENAI_REASONING_REQUIRED_REGEX.test(m);
+    case 'google':
+    case 'gemini':
+      return !GEMINI_THINKING_REQUIRED_REGEX.test(m);
+    default:
+      return true;
+  }
+}
+
+/**
+ * 实际发送的推理强度：无法关闭思考的模型关闭时使用最低档位，思考预算不低于模型的最小值
+ */
+export function getEffectiveReasoning(provider: string, model: string, reasoning: ReasoningConfig): ReasoningConfig {
+  const m = norm(model);
+  if (provider === 'openai' && OPENAI_REASONING_REQUIRED_REGEX.test(m)) {
+    return reasoning.level === 'off' ? { level: 'low' } : reasoning;
+  }
+  if ((provider === 'google' || provider === 'gemini') && GEMINI_THINKING_REQUIRED_REGEX.test(m)) {
+    if (reasoning.level === 'off') {
+      return { level: 'custom', budgetTokens: MIN_GEMINI_PRO_THINKING_BUDGET };
+    }
+    if (reasoning.level === 'custom' && getReasoningBudget(reasoning) < MIN_GEMINI_PRO_THINKING_BUDGET) {
+      return { level: 'custom', budgetTokens: MIN_GEMINI_PRO_THINKING_BUDGET };
+    }
+    return reasoning;
+  }
+  if (provider === 'anthropic' && reasoning.level === 'custom' && getReasoningBudget(reasoning) < MIN_ANTHROPIC_THINKING_BUDGET) {
+    return { level: 'custom', budgetTokens: MIN_ANTHROPIC_THINKING_BUDGET };
+  }
+  return reasoning;
+}
+
+/**
+ * OpenAI 只接受档位：自定义预算按最接近的档位映射；
+ * GPT-5 关闭时使用 minimal（o 系列已由 getEffectiveReasoning 映射为最低档位）
+ */
+function toOpenAIReasoningEffort(reasoning: ReasoningConfig): 'minimal' | 'low' | 'medium' | 'high' {
+  if (reasoning.level === 'off') {
+    return 'minimal';
+  }
+  if (reasoning.level === 'custom') {
+    const budget = getReasoningBudget(reasoning);
+    if (budget <= REASONING_BUDGET_PRESETS.low) return 'low';
+    if (budget <= REASONING_BUDGET_PRESETS.medium) return 'medium';
+    return 'high';
+  }
+  return reasoning.level;
+}
+
 /**
  * 针对推理模型返回 providerOptions（供 AiClient 直接使用）
+ *
+ * @param reasoning - 用户选择的推理强度（未设置时使用各提供商的默认参数）
  */
 export function getProviderOptionsForModel(
   provider: ProviderId,
-  model: string
+  model: string,
+  requested?: ReasoningConfig
 ): ProviderOptions {
-  // OpenAI o1/o3 系列 - 需要 reasoningSummary 配置
-  if (provider === 'openai' && /^o[134]/i.test(model)) {
+  const reasoning = requested && getEffectiveReasoning(provider, model, requested);
+
+  // OpenAI o 系列 / GPT-5 - reasoningSummary 输出思考摘要，reasoningEffort 控制推理强度
+  if (provider === 'openai' && OPENAI_REASONING_EFFORT_REGEX.test(model)) {
     return {
       providerOptions: {
         openai: {
           reasoningSummary: 'detailed',
+          ...(reasoning ? { reasoningEffort: toOpenAIReasoningEffort(reasoning) } : {}),
         },
       },
     };
   }
 
-  // Anthropic Claude 3.7+ - 需要启用 thinking
-  if (provider === 'anthropic' && /claude-3\.[789]|claude-[4-9]/i.test(model)) {
+  // Anthropic Claude 3.7+ - 需要启用 thinking（关闭时不传）
+  if (provider === 'anthropic' && ANTHROPIC_THINKING_REGEX.test(model)) {
+    if (reasoning?.level === 'off') return {};
+    const budgetTokens = reasoning ? getReasoningBudget(reasoning) : DEFAULT_ANTHROPIC_THINKING_BUDGET;
     return {
       providerOptions: {
         anthropic: {
           thinking: {
             type: 'enabled',
-            budgetTokens: 12000,
+            budgetTokens,
+          },
+        },
+      },
+    };
+  }
+
+  // Gemini 2.5 - thinkingBudget 控制思考预算（0 表示关闭，Pro 模型不支持关闭）
+  if ((provider === 'google' || provider === 'gemini') && reasoning && GEMINI_THINKING_REGEX.test(model)) {
+    const thinkingBudget = getReasoningBudget(reasoning);
+    return {
+      providerOptions: {
+        google: {
+          thinkingConfig: {
+            thinkingBudget,
+            includeThoughts: thinkingBudget > 0,
           },
         },
       },
@@ -294,6 +421,24 @@ export function getProviderOptionsForModel(
   return {};
 }
 
+/**
+ * 判断模型是否支持调节推理强度（输入框中的推理强度入口仅对这些模型显示）
+ */
+export function supportsReasoningControl(provider: ProviderId, model: string): boolean {
+  const m = norm(model);
+  switch (provider) {
+    case 'openai':
+      return OPENAI_REASONING_EFFORT_REGEX.test(m);
+    case 'anthropic':
+      return ANTHROPIC_THINKING_REGEX.test(m);
+    case 'google':
+    case 'gemini':
+      return GEMINI_THINKING_REGEX.test(m);
+    default:
+      return false;
+  }
+}
+
 // ============================================
 // 工具调用能力识别
 // ============================================
@@ -410,6 +555,34 @@ export function supportsImageGeneration(modelWithCaps: ModelWithCapabilities): b
   return IMAGE_GENERATION_REGEX.test(modelId);
 }
 
+// 原生结构化输出：
+// - OpenAI: gpt-4o / gpt-4.1 / gpt-5 / o1 / o3 / o4 系列（response_format: json_schema）
+// - Anthropic: Claude 3 及以后（AI SDK 通过工具调用约束输出）
+// - Gemini: 1.5 及以后（responseSchema）
+const OPENAI_STRUCTURED_OUTPUT_REGEX = /\b(gpt-4o(?:-[\w-]+)?|gpt-4\.1(?:-[\w-]+)?|gpt-5(?:-[\w-]+)?|o1(?!-mini|-preview)(?:-[\w-]+)?|o3(?:-[\w-]+)?|o4(?:-[\w-]+)?)\b/i;
+const ANTHROPIC_STRUCTURED_OUTPUT_REGEX = /\bclaude-(3|4|haiku-4|sonnet-4|opus-4)/i;
+const GEMINI_STRUCTURED_OUTPUT_REGEX = /\bgemini-(1\.5|[2-9])/i;
+
+/**
+ * 判断模型是否支持原生结构化输出
+ *
+ * 不支持时由调用方在提示词中注入 JSON Schema 并在生成后校验
+ */
+export function supportsStructuredOutput(modelWithCaps: ModelWithCapabilities): boolean {
+  const modelId = norm(modelWithCaps.id);
+  switch (modelWithCaps.provider) {
+    case 'openai':
+      return OPENAI_STRUCTURED_OUTPUT_REGEX.test(modelId);
+    case 'anthropic':
+      return ANTHROPIC_STRUCTURED_OUTPUT_REGEX.test(modelId);
+    case 'google':
+    case 'gemini':
+      return GEMINI_STRUCTURED_OUTPUT_REGEX.test(modelId);
+    default:
+      return false;
+  }
+}
+
 /**
  * 判断模型是否为免费模型
  */
@@ -419,6 +592,58 @@ export function isFreeModel(modelWithCaps: ModelWithCapabilities): boolean {
   return modelId.includes('free') || modelName.includes('free') || modelWithCaps.provider === 'cherryai';
 }
 
+// ============================================
+// 上下文窗口
+// ============================================
+
+/** 未识别模型的默认上下文窗口（Token） */
+export const DEFAULT_CONTEXT_WINDOW = 32_000;
+
+// 按顺序匹配，靠前的规则优先（更具体的型号放在前面）
+const CONTEXT_WINDOW_RULES: { pattern: RegExp; tokens: number }[] = [
+  // OpenAI
+  { pattern: /\bgpt-4\.1/, tokens: 1_047_576 },
+  { pattern: /\bgpt-5/, tokens: 400_000 },
+  { pattern: /\bo[134](?:-[\w-]+)?\b/, tokens: 200_000 },
+  { pattern: /\b(gpt-4o|chatgpt-4o|gpt-4-turbo|gpt-4\.5)/, tokens: 128_000 },
+  { pattern: /\bgpt-4-32k/, tokens: 32_768 },
+  { pattern: /\bgpt-4\b/, tokens: 8_192 },
+  { pattern: /\bgpt-3\.5-turbo/, tokens: 16_385 },
+  // Anthropic
+  { pattern: /\bclaude/, tokens: 200_000 },
+  // Google
+  { pattern: /\bgemini-1\.5-pro/, tokens: 2_000_000 },
+  { pattern: /\bgemini-(1\.5|2\.0|2\.5)/, tokens: 1_000_000 },
+  { pattern: /\bgemini/, tokens: 32_768 },
+  // DeepSeek
+  { pattern: /\bdeepseek-(chat|reasoner|v3|r1)/, tokens: 64_000 },
+  // 智谱
+  { pattern: /\bglm-4/, tokens: 128_000 },
+  // 火山引擎（豆包）
+  { pattern: /\bdoubao[\w-]*(256k|seed-1[.-]6)/, tokens: 256_000 },
+  { pattern: /\bdoubao[\w-]*128k/, tokens: 128_000 },
+  { pattern: /\bdoubao[\w-]*32k/, tokens: 32_000 },
+  { pattern: /\bdoubao[\w-]*4k/, tokens: 4_000 },
+  // 其它常见开源模型
+  { pattern: /\bqwen[\w.-]*(long|turbo|plus|max|qwen3)/, tokens: 128_000 },
+  { pattern: /\b(llama-3\.[1-3]|llama-4|mistral-large|kimi|moonshot-v1-128k)/, tokens: 128_000 },
+];
+
+/**
+ * 获取模型的上下文窗口大小（Token），无法识别时返回 DEFAULT_CONTEXT_WINDOW
+ *
+ * @example
+ * ```typescript
+ * getContextWindow({ id: 'gpt-4o-mini', provider: 'openai' }) // => 128000
+ * getContextWindow({ id: 'claude-3-5-haiku-latest', provider: 'anthropic' }) // => 200000
+ * ```
+ */
+export function getContextWindow(modelWithCaps: ModelWithCapabilities): number {
+  const modelId = norm(modelWithCaps.id);
+  const rule = CONTEXT_WINDOW_RULES.find((r) => r.pattern.test(modelId));
+  return rule ? rule.tokens : DEFAULT_CONTEXT_WINDOW;
+}
+
 // ============================================
 // 标签管理
 // ============================================
@@ -456,7 +681,10 @@ export function getModelTags(modelWithCaps: ModelWithCapabilities): ModelTag[] {
 /**
  * 汇总模型的能力描述，用于 UI/服务统一读取
  */
-export function describeModelCapabilities(modelWithCaps: ModelWithCapabilities): ModelCapabilityDescriptor {
+export function describeModelCapabilities(
+  modelWithCaps: ModelWithCapabilities,
+  reasoningConfig?: ReasoningConfig
+): ModelCapabilityDescriptor {
   const provider = asProviderId(modelWithCaps.provider);
   const normalizedModel: ModelWithCapabilities = {
     ...modelWithCaps,
@@ -476,7 +704,9 @@ export function describeModelCapabilities(modelWithCaps: ModelWithCapabilities):
     embedding: supportsEmbedding(normalizedModel),
     rerank: supportsRerank(normalizedModel),
     imageGeneration: supportsImageGeneration(normalizedModel),
-    providerOptions: reasoning ? getProviderOptionsForModel(provider, normalizedModel.id) : {},
+    structuredOutput: supportsStructuredOutput(normalizedModel),
+    contextWindow: getContextWindow(normalizedModel),
+    providerOptions: reasoning ? getProviderOptionsForModel(provider, normalizedModel.id, reasoningConfig) : {},
   };
 }
 
@@ -0,0 +1,239 @@
+/**
+ * 上下文构建器（Token 预算）
+ *
+ * 按 Token 预算装填历史消息，替代固定条数截断：
+ * - 系统提示词、对话记忆摘要、固定（pinned）消息所在的轮次与当前消息始终保留
+ * - 其余历史消息按轮次（用户消息及其回答）从最新往前装填，直到预算或条数上限用尽
+ * - 相邻的同角色消息合并为一条，保证用户 / 助手消息交替
+ *
+ * Token 数为粗略估算（不依赖分词器），用于裁剪与展示，不保证与服务端计费一致
+ *
+ * @module services/ai/context/ContextBuilder
+ */
+
+import type { ModelMessage } from 'ai';
+
+/** 每条消息的格式开销（角色标记等） */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+/** 单张图片的估算 Token */
+const IMAGE_PART_TOKENS = 1000;
+/** 单个文件（PDF 等）的估算 Token */
+const FILE_PART_TOKENS = 2000;
+/** 未设置最大输出时为回复预留的 Token */
+const DEFAULT_OUTPUT_RESERVE = 4096;
+
+// CJK 统一表意文字、假名、韩文音节：约 1 字 1 Token
+const CJK_REGEX = /[぀-ヿ㐀-䶿一-鿿가-힯豈-﫿]/g;
+
+/**
+ * 历史消息候选
+ */
+export interface ContextCandidate {
+  id: string;
+  message: ModelMessage;
+  /** 固定消息：不受预算与条数限制，始终发送 */
+  pinned?: boolean;
+}
+
+export interface ContextBuildInput {
+  systemPrompt?: string | null;
+  /** 较早对话的滚动摘要（作为第二条系统消息注入） */
+  memory?: string | null;
+  /** 历史消息（按时间正序，不含本次用户消息） */
+  history: ContextCandidate[];
+  /** 本次用户消息 */
+  current: ModelMessage;
+  /** 输入 Token 预算（含系统提示词、摘要、固定消息与当前消息） */
+  budget: number;
+  /** 最多保留的非固定历史消息条数（未设置表示不限制） */
+  maxHistoryMessages?: number;
+}
+
+/**
+ * 本次请求的上下文统计（保存到助手消息 extra.context 用于展示）
+ */
+export interface ContextStats {
+  /** 估算的输入 Token */
+  tokens: number;
+  /** 发送的消息条数（含系统提示词与当前消息） */
+  messages: number;
+  /** 发送的历史消息条数 */
+  historyMessages: number;
+  /** 其中固定消息条数 */
+  pinnedMessages: number;
+  /** 因预算或条数限制被省略的历史消息条数 */
+  droppedMessages: number;
+  /** 本次使用的 Token 预算 */
+  budget: number;
+  /** 是否注入了对话记忆摘要 */
+  memoryIncluded?: boolean;
+}
+
+export interface ContextBuildResult {
+  messages: ModelMessage[];
+  /** 实际发送的历史消息 ID（按时间正序） */
+  historyIds: string[];
+  stats: ContextStats;
+}
+
+/**
+ * 估算文本 Token 数：CJK 字符按 1 字 1 Token，其余按 4 字符 1 Token
+ */
+export function estimateTextTokens(text: string): number {
+  if (!text) return 0;
+  const cjk = text.match(CJK_REGEX)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+/**
+ * 估算单条消息的 Token 数（含文本、图片与文件）
+ */
+export function estimateMessageTokens(message: ModelMessage): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+  const content = message.content as unknown;
+
+  if (typeof content === 'string') {
+    return tokens + estimateTextTokens(content);
+  }
+  if (!Array.isArray(content)) {
+    return tokens;
+  }
+
+  for (const part of content) {
+    switch (part?.type) {
+      case 'text':
+      case 'reasoning':
+        tokens += estimateTextTokens(part.text ?? '');
+        break;
+      case 'image':
+        tokens += IMAGE_PART_TOKENS;
+        break;
+      case 'file':
+        tokens += FILE_PART_TOKENS;
+        break;
+      default:
+        // 工具调用 / 结果等：按序列化后的长度估算
+        tokens += estimateTextTokens(JSON.stringify(part ?? ''));
+    }
+  }
+  return tokens;
+}
+
+/**
+ * 计算输入 Token 预算
+ *
+ * @param contextWindow 模型上下文窗口
+ * @param maxOutputTokens 最大输出 Token（未设置时预留默认值）
+ * @param configuredBudget 用户设置的预算（0 / 未设置表示自动）
+ */
+export function resolveContextBudget(
+  contextWindow: number,
+  maxOutputTokens?: number,
+  configuredBudget?: number | null
+): number {
+  const reserve = maxOutputTokens ?? Math.min(DEFAULT_OUTPUT_RESERVE, Math.floor(contextWindow / 4));
+  const available = Math.max(0, contextWindow - reserve);
+  return configuredBudget && configuredBudget > 0 ? Math.min(configuredBudget, available) : available;
+}
+
+/**
+ * 按轮次分组：每轮以用户消息开始，包含其后的助手与工具消息
+ */
+function groupTurns(history: ContextCandidate[]): ContextCandidate[][] {
+  const turns: ContextCandidate[][] = [];
+  for (const candidate of history) {
+    const last = turns[turns.length - 1];
+    if (!last || candidate.message.role === 'user') {
+      turns.push([candidate]);
+    } else {
+      last.push(candidate);
+    }
+  }
+  return turns;
+}
+
+function toParts(content: ModelMessage['content']): unknown[] {
+  return typeof content === 'string' ? [{ type: 'text', text: content }] : [...content];
+}
+
+/**
+ * 合并相邻的同角色用户 / 助手消息（如未得到回答的用户消息、单独固定的消息）
+ */
+function mergeAdjacentRoles(messages: ModelMessage[]): ModelMessage[] {
+  const merged: ModelMessage[] = [];
+  for (const message of messages) {
+    const last = merged[merged.length - 1];
+    if (last && last.role === message.role && (message.role === 'user' || message.role === 'assistant')) {
+      merged[merged.length - 1] = {
+        ...last,
+        content: [...toParts(last.content), ...toParts(message.content)],
+      } as ModelMessage;
+    } else {
+      merged.push(message);
+    }
+  }
+  return merged;
+}
+
+/**
+ * 按预算构建发送给模型的消息数组
+ */
+export function buildContext(input: ContextBuildInput): ContextBuildResult {
+  const { systemPrompt, memory, history, current, budget, maxHistoryMessages } = input;
+
+  const systemMessage: ModelMessage | null = systemPrompt?.trim()
+    ? { role: 'system', content: systemPrompt }
+    : null;
+  const memoryMessage: ModelMessage | null = memory?.trim()
+    ? { role: 'system', content: `以下是本话题较早对话的摘要，供回答时参考：\n${memory.trim()}` }
+    : null;
+
+  const turns = groupTurns(history);
+  const turnCost = (turn: ContextCandidate[]) => turn.reduce((sum, c) => sum + estimateMessageTokens(c.message), 0);
+  const pinned = history.filter((c) => c.pinned);
+  // 固定消息连同所在轮次一起保留，避免只发送问题或只发送回答
+  const pinnedTurns = turns.filter((turn) => turn.some((c) => c.pinned));
+
+  // 固定部分：系统提示词 + 摘要 + 固定消息所在轮次 + 当前消息
+  let used =
+    (systemMessage ? estimateMessageTokens(systemMessage) : 0) +
+    (memoryMessage ? estimateMessageTokens(memoryMessage) : 0) +
+    estimateMessageTokens(current) +
+    pinnedTurns.reduce((sum, turn) => sum + turnCost(turn), 0);
+
+  // 按轮次从最新往前装填，遇到放不下的轮次即停止（避免上下文出现断层）
+  const selected = new Set(pinnedTurns.flat().map((c) => c.id));
+  const limit = maxHistoryMessages ?? Number.POSITIVE_INFINITY;
+  let count = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const turn = turns[i];
+    if (pinnedTurns.includes(turn)) continue;
+    const cost = turnCost(turn);
+    if (count + turn.length > limit || used + cost > budget) break;
+    turn.forEach((c) => selected.add(c.id));
+    used += cost;
+    count += turn.length;
+  }
+
+  const included = history.filter((c) => selected.has(c.id));
+  const historyMessages = included.map((c) => c.message);
+  const messages = [
+    ...(systemMessage ? [systemMessage] : []),
+    ...(memoryMessage ? [memoryMessage] : []),
+    ...mergeAdjacentRoles([...historyMessages, current]),
+  ];
+
+  return {
+    messages,
+    historyIds: included.map((c) => c.id),
+    stats: {
+      tokens: used,
+      messages: messages.length,
+      historyMessages: historyMessages.length,
+      pinnedMessages: pinned.length,
+      droppedMessages: history.length - historyMessages.length,
+      budget,
+      memoryIncluded: !!memoryMessage,
+    },
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * ContextBuilder 单元测试
+ */
+
+import type { ModelMessage } from 'ai';
+import {
+  buildContext,
+  estimateMessageTokens,
+  estimateTextTokens,
+  resolveContextBudget,
+  type ContextCandidate,
+} from '../ContextBuilder';
+
+/** 36 个 ASCII 字符：4 + 9 = 13 Token */
+const TEXT = 'x'.repeat(36);
+const MESSAGE_TOKENS = 13;
+const TURN_TOKENS = MESSAGE_TOKENS * 2;
+/** 本次用户消息：4 + 1 = 5 Token */
+const current: ModelMessage = { role: 'user', content: 'q' };
+const CURRENT_TOKENS = 5;
+
+/** 生成 n 轮历史对话（u1, a1, u2, a2, ...） */
+function turns(n: number, pinned: string[] = []): ContextCandidate[] {
+  const history: ContextCandidate[] = [];
+  for (let i = 1; i <= n; i++) {
+    history.push({ id: `u${i}`, message: { role: 'user', content: TEXT }, pinned: pinned.includes(`u${i}`) });
+    history.push({ id: `a${i}`, message: { role: 'assistant', content: TEXT }, pinned: pinned.includes(`a${i}`) });
+  }
+  return history;
+}
+
+describe('ContextBuilder', () => {
+  describe('estimateTextTokens', () => {
+    it('should count CJK characters as one token each', () => {
+      expect(estimateTextTokens('你好世界')).toBe(4);
+    });
+
+    it('should count other characters as four per token', () => {
+      expect(estimateTextTokens('abcdefgh')).toBe(2);
+      expect(estimateTextTokens('abc')).toBe(1);
+      expect(estimateTextTokens('')).toBe(0);
+    });
+  });
+
+  describe('estimateMessageTokens', () => {
+    it('should add the per-message overhead', () => {
+      expect(estimateMessageTokens({ role: 'user', content: TEXT })).toBe(MESSAGE_TOKENS);
+    });
+
+    it('should estimate image parts with a fixed cost', () => {
+      const message: ModelMessage = {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'abcd' },
+          { type: 'image', image: 'data:image/png;base64,' },
+        ],
+      };
+      expect(estimateMessageTokens(message)).toBe(4 + 1 + 1000);
+    });
+  });
+
+  describe('resolveContextBudget', () => {
+    it('should reserve the max output tokens', () => {
+      expect(resolveContextBudget(128_000, 8_000)).toBe(120_000);
+    });
+
+    it('should reserve a default share when max output is not set', () => {
+      expect(resolveContextBudget(128_000)).toBe(128_000 - 4096);
+      expect(resolveContextBudget(8_000)).toBe(6_000);
+    });
+
+    it('should cap the configured budget at the available tokens', () => {
+      expect(resolveContextBudget(128_000, 8_000, 50_000)).toBe(50_000);
+      expect(resolveContextBudget(16_000, 8_000, 50_000)).toBe(8_000);
+      expect(resolveContextBudget(16_000, 8_000, 0)).toBe(8_000);
+    });
+  });
+
+  describe('buildContext', () => {
+    it('should send the whole history when it fits the budget', () => {
+      const result = buildContext({ history: turns(3), current, budget: 10_000 });
+
+      expect(result.historyIds).toEqual(['u1', 'a1', 'u2', 'a2', 'u3', 'a3']);
+      expect(result.stats.tokens).toBe(TURN_TOKENS * 3 + CURRENT_TOKENS);
+      expect(result.stats.droppedMessages).toBe(0);
+    });
+
+    it('should drop the oldest turns once the budget is used up', () => {
+      const budget = TURN_TOKENS * 2 + CURRENT_TOKENS;
+      const result = buildContext({ history: turns(3), current, budget });
+
+      expect(result.historyIds).toEqual(['u2', 'a2', 'u3', 'a3']);
+      expect(result.stats.tokens).toBe(budget);
+      expect(result.stats.droppedMessages).toBe(2);
+      expect(result.messages[result.messages.length - 1]).toEqual(current);
+    });
+
+    it('should stop at the first turn that does not fit instead of leaving gaps', () => {
+      const history = turns(3);
+      history[2] = { id: 'u2', message: { role: 'user', content: 'x'.repeat(4000) } };
+      const result = buildContext({ history, current, budget: TURN_TOKENS * 3 + CURRENT_TOKENS });
+
+      expect(result.historyIds).toEqual(['u3', 'a3']);
+    });
+
+    it('should keep whole turns within the message limit', () => {
+      const result = buildContext({ history: turns(3), current, budget: 10_000, maxHistoryMessages: 3 });
+
+      expect(result.historyIds).toEqual(['u3', 'a3']);
+    });
+
+    it('should always keep pinned turns outside the budget', () => {
+      const result = buildContext({
+        history: turns(3, ['a1']),
+        current,
+        budget: TURN_TOKENS * 2 + CURRENT_TOKENS,
+      });
+
+      expect(result.historyIds).toEqual(['u1', 'a1', 'u3', 'a3']);
+      expect(result.stats.pinnedMessages).toBe(1);
+    });
+
+    it('should count the system prompt and memory against the budget', () => {
+      const budget = TURN_TOKENS * 3 + CURRENT_TOKENS;
+      const result = buildContext({ systemPrompt: TEXT, memory: 'summary', history: turns(3), current, budget });
+      const [system, memory] = result.messages;
+      const fixedTokens = estimateMessageTokens(system) + estimateMessageTokens(memory) + CURRENT_TOKENS;
+
+      expect([system.role, memory.role]).toEqual(['system', 'system']);
+      expect(result.stats.memoryIncluded).toBe(true);
+      expect(result.historyIds).toEqual(['u3', 'a3']);
+      expect(result.stats.tokens).toBe(fixedTokens + TURN_TOKENS);
+      expect(result.stats.tokens).toBeLessThanOrEqual(budget);
+    });
+
+    it('should merge adjacent messages with the same role', () => {
+      const history: ContextCandidate[] = [{ id: 'u1', message: { role: 'user', content: 'hello' } }];
+      const result = buildContext({ history, current, budget: 10_000 });
+
+      expect(result.messages).toEqual([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'hello' },
+            { type: 'text', text: 'q' },
+          ],
+        },
+      ]);
+    });
+  });
+});
@@ -5,6 +5,7 @@
  * 在底层错误的基础上添加 AI 相关的上下文信息
  */
 
+import { APICallError, RetryError } from 'ai';
 import { AiError, NetworkError, normalizeError } from '@/utils/errors';
 import { logger } from '@/utils/logger';
 
@@ -236,3 +237,53 @@ export async function withApiCallContext<T>(
     }
   }
 }
+
+/**
+ * 判断 AI 请求错误是否可重试（用于切换到回退模型）
+ *
+ * - 用户主动中止：不可重试
+ * - AI SDK 的 APICallError：依据 isRetryable 与状态码（408 / 409 / 429 / 5xx）
+ * - AiError / NetworkError：依据错误码的 retryable 标记
+ * - 网络连接、超时类错误：可重试
+ * - 认证失败、参数错误、内容违规等：不可重试（换模型通常也无法解决）
+ *
+ * @param error - 流式请求抛出或回调的错误
+ * @returns 是否应尝试下一个回退目标
+ */
+export function isRetryableAiError(error: unknown): boolean {
+  if (!error) return false;
+
+  const name = typeof error === 'object' && 'name' in error ? String(error.name) : '';
+  const message = (
+    error instanceof Error
+      ? error.message
+      : typeof error === 'string'
+        ? error
+        : typeof error === 'object' && 'message' in error
+          ? String(error.message ?? '')
+          : ''
+  ).toLowerCase();
+
+  if (name === 'AbortError' || /abort|cancel/.test(message)) {
+    return false;
+  }
+
+  if (error instanceof AiError || error instanceof NetworkError) {
+    return error.retryable;
+  }
+
+  if (APICallError.isInstance(error)) {
+    const { statusCode } = error;
+    if (typeof statusCode === 'number') {
+      return statusCode === 408 || statusCode === 409 || statusCode === 429 || statusCode >= 500;
+    }
+    return error.isRetryable;
+  }
+
+  // AI SDK 重试耗尽后抛出 RetryError，原因为最后一次错误
+  if (RetryError.isInstance(error)) {
+    return isRetryableAiError(error.lastError);
+  }
+
+  return /network|fetch failed|timeout|timed out|econnreset|econnrefused|socket hang up|rate limit|overloaded|unavailable|503|502|429/.test(message);
+}
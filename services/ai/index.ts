@@ -4,11 +4,14 @@
  *
  * 目录结构:
  * - AiClient.ts         核心 AI 客户端（文本流式补全 + 图片生成）
+ * - providers/          提供商注册表（内置 / 自定义提供商的 SDK 解析）
  * - capabilities/       模型能力识别和标签管理
+ * - context/            上下文构建（Token 预算）
+ * - structured/         结构化输出（JSON Schema 解析与校验）
  * - integration/        MCP 工具集成和第三方集成
  * - discovery/          模型发现和自定义模型发现
  * - validation/         模型验证和自定义模型验证
- * - utils/              错误处理、话题命名等工具函数
+ * - utils/              错误处理、话题命名、翻译、对话记忆等工具函数
  */
 
 // ============================================
@@ -19,12 +22,28 @@ export {
   generateImageWithAI,
   type Provider,
   type StreamOptions,
+  type StreamUsage,
+  type FallbackTarget,
   type GenerateImageOptions,
   type ImageGenerationResult,
   type ToolCallArgs,
   type ToolCallResult,
 } from './AiClient';
 
+// ============================================
+// Provider Registry - 提供商注册表
+// ============================================
+export {
+  resolveProvider,
+  isProviderEnabled,
+  isCustomProviderId,
+  getProviderApiKey,
+  createLanguageModel,
+  createImageModel,
+  type ProviderSdk,
+  type ResolvedProvider,
+} from './providers/ProviderRegistry';
+
 // ============================================
 // API Key Manager - 多 Key 轮询管理
 // ============================================
@@ -43,9 +62,17 @@ export {
   supportsEmbedding,
   supportsRerank,
   supportsImageGeneration,
+  supportsStructuredOutput,
   isFreeModel,
   isReasoningModel,
   getProviderOptionsForModel,
+  supportsReasoningControl,
+  supportsReasoningOff,
+  getEffectiveReasoning,
+  getReasoningBudget,
+  REASONING_BUDGET_PRESETS,
+  getContextWindow,
+  DEFAULT_CONTEXT_WINDOW,
   type ProviderId,
   type ModelCapabilityType,
   type ModelTag,
@@ -54,11 +81,39 @@ export {
   type ProviderOptions,
 } from './capabilities/ModelCapabilities';
 
+// ============================================
+// Context Builder - 上下文构建
+// ============================================
+export {
+  buildContext,
+  estimateTextTokens,
+  estimateMessageTokens,
+  resolveContextBudget,
+  type ContextCandidate,
+  type ContextBuildInput,
+  type ContextBuildResult,
+  type ContextStats,
+} from './context/ContextBuilder';
+
+// ============================================
+// Structured Output - 结构化输出
+// ============================================
+export {
+  parseJsonSchema,
+  jsonSchemaToZod,
+  extractJsonText,
+  validateStructuredOutput,
+  assertStructuredOutput,
+  withStructuredOutputInstruction,
+  type StructuredOutputResult,
+} from './structured/StructuredOutput';
+
 // ============================================
 // MCP Integration - MCP 工具集成
 // ============================================
 export {
   getAllActiveTools,
+  type McpToolFilter,
 } from './integration/mcpIntegration';
 
 // ============================================
@@ -97,8 +152,24 @@ export {
 export {
   ImageGenerationError,
   ImageModelResolutionError,
+  StructuredOutputError,
 } from '@/utils/errors';
 
 export {
   autoNameConversation,
 } from './utils/TopicNaming';
+
+export {
+  translateText,
+  translateMessage,
+  DEFAULT_TRANSLATION_TARGET,
+  DRAFT_TRANSLATION_TARGET,
+  type MessageTranslation,
+  type TranslationStreamUpdate,
+} from './utils/Translation';
+
+export {
+  isConversationMemoryEnabled,
+  isMemoryOnPath,
+  updateConversationMemory,
+} from './utils/ConversationMemory';
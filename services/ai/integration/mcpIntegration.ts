@@ -13,17 +13,61 @@ import { logger } from '@/utils/logger';
 import type { MCPToolResponse, MCPToolResult, MCPServer } from '@/types/mcp';
 import type { MCPTool } from '@/types/tool';
 import { callMCPTool, callBuiltInTool, isToolAutoApproved } from '@/services/mcp/ToolCaller';
+import { requestToolApproval } from '@/services/mcp/ToolApproval';
 import { mcpClient } from '@/services/mcp/McpClient';
 import { McpServersRepository } from '@/storage/repositories/mcp';
 
 const log = logger.createNamespace('mcpIntegration');
 
+/**
+ * 工具调用上下文
+ */
+export interface McpToolContext {
+  /** 发起调用的助手消息（审批卡片显示在该消息中） */
+  messageId?: string;
+}
+
+/**
+ * 工具调用前确认：自动批准的工具直接执行，其余等待用户审批
+ *
+ * @returns 是否允许执行
+ */
+async function confirmToolCall(
+  mcpTool: MCPTool,
+  args: unknown,
+  toolCallId: string,
+  context: McpToolContext,
+  abortSignal?: AbortSignal
+): Promise<boolean> {
+  const server = await McpServersRepository.getServerById(mcpTool.serverId);
+  if (isToolAutoApproved(mcpTool, server ?? undefined)) {
+    return true;
+  }
+
+  const decision = await requestToolApproval(
+    {
+      toolCallId,
+      toolName: mcpTool.name,
+      serverId: mcpTool.serverId,
+      serverName: server?.name ?? mcpTool.serverName,
+      args,
+      messageId: context.messageId,
+    },
+    abortSignal
+  );
+
+  if (decision === 'always') {
+    await McpServersRepository.setToolPolicy(mcpTool.serverId, mcpTool.name, 'always');
+  }
+  return decision !== 'deny';
+}
+
 /**
  * 设置工具配置（基于提供的参数）
  *
  * 从 Cherry Studio 移植
  */
-export function setupToolsConfig(mcpTools?: MCPTool[]): Record<string, Tool> | undefined {
+export function setupToolsConfig(mcpTools?: MCPTool[], context: McpToolContext = {}): Record<string, Tool> | undefined {
   if (!mcpTools?.length) {
     return undefined;
   }
@@ -31,7 +75,7 @@ export function setupToolsConfig(mcpTools?: MCPTool[]): Record<string, Tool> | u
   const builtInTools = mcpTools.filter((tool) => tool.isBuiltIn);
   const externalTools = mcpTools.filter((tool) => !tool.isBuiltIn);
 
-  const externalToolSet = convertMcpToolsToAiSdkTools(externalTools);
+  const externalToolSet = convertMcpToolsToAiSdkTools(externalTools, context);
   const builtInToolSet = convertBuiltInToolsToAiSdkTools(builtInTools);
 
   // 合并两个工具集
@@ -48,14 +92,14 @@ export function setupToolsConfig(mcpTools?: MCPTool[]): Record<string, Tool> | u
  *
  * 从 Cherry Studio 移植
  */
-export function convertMcpToolsToAiSdkTools(mcpTools: MCPTool[]): ToolSet {
+export function convertMcpToolsToAiSdkTools(mcpTools: MCPTool[], context: McpToolContext = {}): ToolSet {
   const tools: ToolSet = {};
 
   for (const mcpTool of mcpTools) {
     tools[mcpTool.name] = tool({
       description: mcpTool.description || `Tool from ${mcpTool.serverName}`,
       inputSchema: jsonSchema(mcpTool.inputSchema as JSONSchema7),
-      execute: async (params, { toolCallId }) => {
+      execute: async (params, { toolCallId, abortSignal }) => {
         const execStartTime = Date.now();
 
         log.info(`🚀 开始执行 MCP 工具`, {
@@ -67,21 +111,13 @@ export function convertMcpToolsToAiSdkTools(mcpTools: MCPTool[]): ToolSet {
         });
 
         try {
-          // 检查是否启用自动批准
-          // 注意：React Native 环境暂时默认自动批准
-          const confirmed = true;
+          // 检查是否自动批准，否则暂停等待用户在消息中审批
+          const confirmed = await confirmToolCall(mcpTool, params, toolCallId, context, abortSignal);
 
           if (!confirmed) {
-            log.debug(`用户取消执行工具: ${mcpTool.name}`);
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `User declined to execute tool "${mcpTool.name}".`,
-                },
-              ],
-              isError: false,
-            };
+            log.debug(`用户拒绝执行工具: ${mcpTool.name}`);
+            // 拒绝结果返回给模型，由模型决定如何继续回答
+            return `User denied the call to tool "${mcpTool.name}". Do not call it again; continue without its result.`;
           }
 
           // 用户确认或自动批准，执行工具
@@ -209,23 +245,44 @@ export function convertBuiltInToolsToAiSdkTools(builtInTools: MCPTool[]): ToolSe
   return tools;
 }
 
+/**
+ * MCP 工具筛选条件（用于助手绑定的服务器与工具）
+ */
+export interface McpToolFilter {
+  /** 允许的服务器 ID（未设置表示全部激活的服务器） */
+  serverIds?: string[];
+  /** 允许的工具名称（未设置表示服务器的全部工具） */
+  toolNames?: string[];
+}
+
 /**
  * 获取所有激活服务器的工具并转换
  *
  * 项目特有功能（保留）
  */
-export async function getAllActiveTools(): Promise<Record<string, Tool<any, any>>> {
-  const activeServers = await McpServersRepository.getActiveServers();
+export async function getAllActiveTools(
+  filter: McpToolFilter = {},
+  context: McpToolContext = {}
+): Promise<Record<string, Tool<any, any>>> {
+  const serverIds = filter.serverIds ? new Set(filter.serverIds) : null;
+  const toolNames = filter.toolNames ? new Set(filter.toolNames) : null;
+  const activeServers = (await McpServersRepository.getActiveServers())
+    .filter((server) => !serverIds || serverIds.has(server.id));
 
   log.info(`开始获取激活服务器的工具`, {
     serverCount: activeServers.length,
+    filtered: !!serverIds || !!toolNames,
   });
 
   const allMcpTools: MCPTool[] = [];
 
   for (const server of activeServers) {
     try {
-      const mcpTools = await mcpClient.listTools(server.id);
+      // 仅提供在服务器设置中启用的工具
+      const disabledTools = new Set(server.disabledTools ?? []);
+      const mcpTools = (await mcpClient.listTools(server.id))
+        .filter((t) => !disabledTools.has(t.name))
+        .filter((t) => !toolNames || toolNames.has(t.name));
       allMcpTools.push(...mcpTools);
 
       log.info(`服务器工具已加载`, {
@@ -243,7 +300,7 @@ export async function getAllActiveTools(): Promise<Record<string, Tool<any, any>
   }
 
   // 使用新的转换函数
-  const allTools = setupToolsConfig(allMcpTools) || {};
+  const allTools = setupToolsConfig(allMcpTools, context) || {};
 
   // 🐛 调试：输出工具的详细信息
   log.info(`所有激活服务器的工具已加载`, {
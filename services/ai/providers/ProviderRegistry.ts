@@ -0,0 +1,179 @@
+/**
+ * Provider Registry
+ * 提供商注册表：统一解析内置提供商与用户自定义提供商
+ *
+ * - 内置提供商：配置来自 ProvidersRepository（按厂商决定 SDK）
+ * - 自定义提供商（cp-xxxx）：配置来自 CustomProvidersRepository（按 type 决定 SDK）
+ *
+ * 对话、话题命名、翻译、图片生成与多 Key 轮询都通过这里获取 SDK 实例与配置，
+ * 避免在各处重复判断提供商类型。
+ */
+
+import type { ImageModel, LanguageModel } from 'ai';
+import { createOpenAI } from '@ai-sdk/openai';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { ProvidersRepository, type AnyProviderId, type ProviderId } from '@/storage/repositories/providers';
+import { CustomProvidersRepository, type CustomProviderId, type CustomProviderType } from '@/storage/repositories/custom-providers';
+import { withAiServiceContext } from '../error-handler';
+
+/**
+ * 提供商所使用的 AI SDK
+ */
+export type ProviderSdk = 'openai' | 'openai-compatible' | 'anthropic' | 'google';
+
+/**
+ * 解析后的提供商配置
+ */
+export interface ResolvedProvider {
+  id: AnyProviderId;            // 规范化后的提供商 ID（gemini -> google）
+  name: string;                 // 显示名称
+  sdk: ProviderSdk;             // 用于创建模型实例的 SDK
+  baseURL?: string;
+  enabled: boolean;
+  custom: boolean;              // 是否为用户自定义提供商
+  streamOutput?: boolean;       // 是否流式输出（未设置时跟随全局设置）
+  capabilityProvider: ProviderId; // 模型能力识别所参照的内置提供商
+}
+
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const OPENAI_OFFICIAL_BASE_REGEX = /^https?:\/\/api\.openai\.com\/?v1\/?$/i;
+
+const CUSTOM_TYPE_SDK: Record<CustomProviderType, ProviderSdk> = {
+  'openai-compatible': 'openai-compatible',
+  anthropic: 'anthropic',
+  google: 'google',
+};
+
+const CUSTOM_TYPE_CAPABILITY: Record<CustomProviderType, ProviderId> = {
+  'openai-compatible': 'openai',
+  anthropic: 'anthropic',
+  google: 'google',
+};
+
+/**
+ * 是否为自定义提供商 ID
+ */
+export function isCustomProviderId(id: string): id is CustomProviderId {
+  return id.startsWith('cp-');
+}
+
+/**
+ * 解析提供商配置
+ *
+ * @throws Error 自定义提供商不存在（已被删除）时
+ */
+export async function resolveProvider(provider: AnyProviderId): Promise<ResolvedProvider> {
+  return withAiServiceContext('ProviderRegistry', 'resolveProvider', { provider }, async () => {
+    if (isCustomProviderId(provider)) {
+      const cp = await CustomProvidersRepository.get(provider);
+      if (!cp) throw new Error(`自定义提供商不存在: ${provider}`);
+      return {
+        id: cp.id,
+        name: cp.name,
+        sdk: CUSTOM_TYPE_SDK[cp.type] ?? 'openai-compatible',
+        baseURL: cp.baseURL || undefined,
+        enabled: cp.enabled,
+        custom: true,
+        streamOutput: cp.streamOutput ?? undefined,
+        capabilityProvider: CUSTOM_TYPE_CAPABILITY[cp.type] ?? 'openai',
+      };
+    }
+
+    const id: ProviderId = provider === 'gemini' ? 'google' : provider;
+    const cfg = await ProvidersRepository.getConfig(id);
+    const baseURL = cfg.baseURL || undefined;
+
+    let sdk: ProviderSdk;
+    switch (id) {
+      case 'anthropic':
+        sdk = 'anthropic';
+        break;
+      case 'google':
+        sdk = 'google';
+        break;
+      case 'openai':
+        // OpenAI 指向第三方兼容网关时走 openai-compatible
+        sdk = baseURL && !OPENAI_OFFICIAL_BASE_REGEX.test(baseURL.replace(/\/$/, '')) ? 'openai-compatible' : 'openai';
+        break;
+      default:
+        sdk = 'openai-compatible';
+    }
+
+    return {
+      id,
+      name: id,
+      sdk,
+      // 内置 Google 提供商始终使用官方端点
+      baseURL: id === 'google' ? undefined : baseURL,
+      enabled: cfg.enabled,
+      custom: false,
+      streamOutput: cfg.streamOutput ?? undefined,
+      capabilityProvider: id,
+    };
+  });
+}
+
+/**
+ * 提供商是否已启用（自定义提供商不存在时视为未启用）
+ */
+export async function isProviderEnabled(provider: AnyProviderId): Promise<boolean> {
+  if (isCustomProviderId(provider)) {
+    const cp = await CustomProvidersRepository.get(provider);
+    return !!cp?.enabled;
+  }
+  const cfg = await ProvidersRepository.getConfig(provider === 'gemini' ? 'google' : provider);
+  return cfg.enabled;
+}
+
+/**
+ * 获取单 Key 模式下的 API Key
+ */
+export async function getProviderApiKey(provider: AnyProviderId): Promise<string | null> {
+  if (isCustomProviderId(provider)) {
+    const cp = await CustomProvidersRepository.get(provider);
+    return cp?.apiKey || null;
+  }
+  return await ProvidersRepository.getApiKey(provider === 'gemini' ? 'google' : provider);
+}
+
+/**
+ * 创建对话模型实例
+ */
+export function createLanguageModel(resolved: ResolvedProvider, apiKey: string, model: string): LanguageModel {
+  switch (resolved.sdk) {
+    case 'anthropic':
+      return createAnthropic({ apiKey, baseURL: resolved.baseURL })(model);
+    case 'google':
+      return createGoogleGenerativeAI({ apiKey, baseURL: resolved.baseURL })(model);
+    case 'openai-compatible':
+      return createOpenAICompatible({
+        apiKey,
+        baseURL: resolved.baseURL ?? DEFAULT_OPENAI_BASE_URL,
+        name: '',
+      })(model);
+    default:
+      return createOpenAI({ apiKey, baseURL: resolved.baseURL })(model);
+  }
+}
+
+/**
+ * 创建图片模型实例（仅 OpenAI 与 OpenAI 兼容提供商支持）
+ *
+ * @returns 不支持图片生成的提供商返回 null
+ */
+export function createImageModel(resolved: ResolvedProvider, apiKey: string, model: string): ImageModel | null {
+  // 内置 OpenAI 始终使用官方 SDK 的图片接口（兼容 DALL-E 专属参数）
+  if (resolved.sdk === 'openai' || resolved.id === 'openai') {
+    return createOpenAI({ apiKey, baseURL: resolved.baseURL }).imageModel(model);
+  }
+  if (resolved.sdk === 'openai-compatible') {
+    return createOpenAICompatible({
+      apiKey,
+      baseURL: resolved.baseURL ?? DEFAULT_OPENAI_BASE_URL,
+      name: resolved.id,
+    }).imageModel(model);
+  }
+  return null;
+}
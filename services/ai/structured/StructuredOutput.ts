@@ -0,0 +1,226 @@
+/**
+ * Structured Output
+ * 结构化输出：JSON Schema 解析、提示词回退与回答校验
+ *
+ * - 助手或话题设置中配置 JSON Schema（文本）后，回答必须为符合该 Schema 的 JSON
+ * - 支持原生结构化输出的模型走 AI SDK streamObject；其余模型在系统提示词中注入 Schema
+ * - 两种方式生成完成后都使用同一套校验（JSON Schema 转换为 zod）
+ *
+ * 校验覆盖常用的 JSON Schema 子集：type / enum / const / properties / required /
+ * additionalProperties / items / anyOf / oneOf / allOf / 本地 $ref 及常见长度、范围约束。
+ */
+
+import * as z from 'zod';
+import type { JSONSchema7, ModelMessage } from 'ai';
+import { StructuredOutputError } from '@/utils/errors';
+
+/** Schema 节点（布尔值 true / false 表示接受 / 拒绝任意值） */
+type JSONSchema7Definition = JSONSchema7 | boolean;
+
+/**
+ * 结构化输出校验结果
+ */
+export type StructuredOutputResult =
+  | { valid: true; value: unknown }
+  | { valid: false; issues: string[] };
+
+/**
+ * 解析 JSON Schema 文本
+ *
+ * @throws Error Schema 不是合法的 JSON 对象时
+ */
+export function parseJsonSchema(text: string): JSONSchema7 {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`JSON Schema 不是合法的 JSON：${(e as Error).message}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('JSON Schema 必须是一个 JSON 对象');
+  }
+  return parsed as JSONSchema7;
+}
+
+/**
+ * 将 JSON Schema 转换为 zod Schema（用于校验）
+ */
+export function jsonSchemaToZod(schema: JSONSchema7): z.ZodTypeAny {
+  const refCache = new Map<string, z.ZodTypeAny>();
+
+  const resolveRef = (ref: string): JSONSchema7Definition | undefined => {
+    const match = /^#\/(definitions|\$defs)\/(.+)$/.exec(ref);
+    if (!match) return undefined;
+    const defs = (match[1] === 'definitions' ? schema.definitions : (schema as { $defs?: Record<string, JSONSchema7Definition> }).$defs) ?? {};
+    return defs[decodeURIComponent(match[2])];
+  };
+
+  const convert = (def: JSONSchema7Definition | undefined): z.ZodTypeAny => {
+    if (def === undefined || def === true) return z.any();
+    if (def === false) return z.never();
+
+    if (def.$ref) {
+      const ref = def.$ref;
+      const cached = refCache.get(ref);
+      if (cached) return cached;
+      const target = resolveRef(ref);
+      // 递归引用使用 lazy，首次访问时再解析
+      const lazy = z.lazy(() => convert(target));
+      refCache.set(ref, lazy);
+      return lazy;
+    }
+
+    if (def.const !== undefined) {
+      return z.custom((v) => JSON.stringify(v) === JSON.stringify(def.const), {
+        message: `应为 ${JSON.stringify(def.const)}`,
+      });
+    }
+
+    if (def.enum) {
+      const values = def.enum;
+      return z.custom((v) => values.some((e) => JSON.stringify(e) === JSON.stringify(v)), {
+        message: `应为以下值之一：${values.map((e) => JSON.stringify(e)).join(', ')}`,
+      });
+    }
+
+    if (def.anyOf || def.oneOf) {
+      const options = (def.anyOf ?? def.oneOf)!.map(convert);
+      return unionOf(options);
+    }
+
+    if (def.allOf) {
+      return def.allOf.map(convert).reduce((acc, s) => z.intersection(acc, s));
+    }
+
+    const types = Array.isArray(def.type) ? def.type : def.type ? [def.type] : inferTypes(def);
+    if (types.length === 0) return z.any();
+    return unionOf(types.map((t) => convertType(t, def)));
+  };
+
+  const convertType = (type: string, def: JSONSchema7): z.ZodTypeAny => {
+    switch (type) {
+      case 'string': {
+        let s = z.string();
+        if (def.minLength !== undefined) s = s.min(def.minLength);
+        if (def.maxLength !== undefined) s = s.max(def.maxLength);
+        if (def.pattern) s = s.regex(new RegExp(def.pattern));
+        return s;
+      }
+      case 'number':
+      case 'integer': {
+        let n = z.number();
+        if (type === 'integer') n = n.int();
+        if (def.minimum !== undefined) n = n.gte(def.minimum);
+        if (def.maximum !== undefined) n = n.lte(def.maximum);
+        if (typeof def.exclusiveMinimum === 'number') n = n.gt(def.exclusiveMinimum);
+        if (typeof def.exclusiveMaximum === 'number') n = n.lt(def.exclusiveMaximum);
+        return n;
+      }
+      case 'boolean':
+        return z.boolean();
+      case 'null':
+        return z.null();
+      case 'array': {
+        const item = Array.isArray(def.items) ? z.any() : convert(def.items);
+        let a = z.array(item);
+        if (def.minItems !== undefined) a = a.min(def.minItems);
+        if (def.maxItems !== undefined) a = a.max(def.maxItems);
+        return a;
+      }
+      case 'object': {
+        const required = new Set(def.required ?? []);
+        const shape: Record<string, z.ZodTypeAny> = {};
+        for (const [key, prop] of Object.entries(def.properties ?? {})) {
+          const s = convert(prop);
+          shape[key] = required.has(key) ? s : s.optional();
+        }
+        const obj = z.object(shape);
+        if (def.additionalProperties === false) return obj.strict();
+        if (def.additionalProperties && def.additionalProperties !== true) {
+          return obj.catchall(convert(def.additionalProperties));
+        }
+        return obj.passthrough();
+      }
+      default:
+        return z.any();
+    }
+  };
+
+  return convert(schema);
+}
+
+function unionOf(options: z.ZodTypeAny[]): z.ZodTypeAny {
+  if (options.length === 1) return options[0];
+  return z.union(options as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+/**
+ * 未声明 type 时按关键字推断
+ */
+function inferTypes(def: JSONSchema7): string[] {
+  if (def.properties || def.required || def.additionalProperties !== undefined) return ['object'];
+  if (def.items) return ['array'];
+  return [];
+}
+
+/**
+ * 从模型回答中提取 JSON 文本（兼容 ```json 代码块包裹）
+ */
+export function extractJsonText(text: string): string {
+  const trimmed = text.trim();
+  const fenced = /^```(?:json)?\s*([\s\S]*?)\s*```$/i.exec(trimmed);
+  return fenced ? fenced[1] : trimmed;
+}
+
+/**
+ * 校验回答是否为符合 Schema 的 JSON
+ */
+export function validateStructuredOutput(text: string, schema: JSONSchema7): StructuredOutputResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJsonText(text));
+  } catch (e) {
+    return { valid: false, issues: [`回答不是合法的 JSON：${(e as Error).message}`] };
+  }
+
+  const result = jsonSchemaToZod(schema).safeParse(value);
+  if (result.success) {
+    return { valid: true, value };
+  }
+  return {
+    valid: false,
+    issues: result.error.issues.map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(根)'}: ${issue.message}`),
+  };
+}
+
+/**
+ * 校验回答，不符合时抛出 StructuredOutputError
+ */
+export function assertStructuredOutput(
+  text: string,
+  schema: JSONSchema7,
+  context?: { provider?: string; model?: string }
+): unknown {
+  const result = validateStructuredOutput(text, schema);
+  if (!result.valid) {
+    throw new StructuredOutputError(result.issues, context);
+  }
+  return result.value;
+}
+
+/**
+ * 提示词回退：在消息数组中注入 JSON 输出要求（模型不支持原生结构化输出时使用）
+ */
+export function withStructuredOutputInstruction(messages: ModelMessage[], schema: JSONSchema7): ModelMessage[] {
+  const instruction = [
+    '你必须只输出一个 JSON 值，不要输出任何解释、前后缀文字或 Markdown 代码块。',
+    '输出必须严格符合以下 JSON Schema：',
+    JSON.stringify(schema, null, 2),
+  ].join('\n');
+
+  const [first, ...rest] = messages;
+  if (first?.role === 'system' && typeof first.content === 'string') {
+    return [{ role: 'system', content: `${first.content}\n\n${instruction}` }, ...rest];
+  }
+  return [{ role: 'system', content: instruction }, ...messages];
+}
@@ -0,0 +1,146 @@
+import { SettingsRepository, SettingKey } from '@/storage/repositories/settings';
+import { ChatRepository } from '@/storage/repositories/chat';
+import { MessageBlocksRepository } from '@/storage/repositories/message-blocks';
+import { streamCompletion } from '@/services/ai/AiClient';
+import { resolveUtilityModel } from '@/services/ai/utils/UtilityModel';
+import type { Message } from '@/storage/core';
+import type { ConversationMemory } from '@/storage/types/conversation-memory';
+import type { ModelMessage } from 'ai';
+import { appEvents, AppEvents } from '@/utils/events';
+import { logger } from '@/utils/logger';
+
+/** 单次增量摘要最多处理的消息条数（剩余部分在后续轮次继续摘要） */
+const MAX_MESSAGES_PER_UPDATE = 40;
+/** 单条消息送入摘要的最大字符数 */
+const MAX_MESSAGE_CHARS = 4000;
+
+const MEMORY_PROMPT = `你负责维护一段长对话的滚动摘要。根据"已有摘要"和"新增对话"，输出更新后的完整摘要。
+要求：
+1. 保留用户的目标、偏好、约束、已确定的结论与待办事项
+2. 保留关键的事实、数据、代码标识与文件名，省略寒暄和重复内容
+3. 使用与对话相同的语言，条理清晰，不超过 500 字
+4. 仅输出摘要本身，不要添加前言或解释`;
+
+// 正在生成摘要的话题，避免同一话题并发更新
+const inFlight = new Set<string>();
+
+/**
+ * 是否启用对话记忆
+ */
+export async function isConversationMemoryEnabled(): Promise<boolean> {
+  return (await SettingsRepository().get<boolean>(SettingKey.ConversationMemoryEnabled)) ?? false;
+}
+
+/**
+ * 摘要是否属于当前分支
+ *
+ * 摘要覆盖的最后一条消息必须在当前路径上；未覆盖任何消息的摘要（用户手写）对所有分支有效
+ *
+ * @param memory 话题摘要
+ * @param pathIds 当前分支路径上的消息 ID
+ */
+export function isMemoryOnPath(memory: ConversationMemory, pathIds: readonly string[]): boolean {
+  if (memory.coveredMessageId) return pathIds.includes(memory.coveredMessageId);
+  return memory.messageCount === 0;
+}
+
+/**
+ * 将消息转为摘要输入文本（优先使用 TEXT 块，兼容旧数据回退到 message.text）
+ */
+async function formatTranscript(messages: Message[]): Promise<string> {
+  const blocksMap = await MessageBlocksRepository.getBlocksByMessageIds(messages.map((m) => m.id));
+  return messages
+    .map((m) => {
+      const textBlocks = (blocksMap.get(m.id) || [])
+        .filter((b) => b.type === 'TEXT')
+        .sort((a, b) => a.sortOrder - b.sortOrder);
+      let text = textBlocks.length > 0 ? textBlocks.map((b) => b.content).join('') : m.text ?? '';
+      if (text.length > MAX_MESSAGE_CHARS) text = `${text.slice(0, MAX_MESSAGE_CHARS)}…`;
+      return `[${m.role === 'user' ? '用户' : '助手'}] ${text}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * 增量更新话题的滚动摘要
+ *
+ * 仅摘要当前分支上晚于上次摘要位置的消息，并与已有摘要合并；
+ * 已有摘要不属于当前分支时（切换分支后）从头重新摘要。完成后触发 TOPIC_MEMORY_CHANGED
+ *
+ * @param conversationId 话题 ID
+ * @param omitted 本次请求未发送的较早消息（按时间正序）
+ * @param pathIds 当前分支路径上的消息 ID（从根到叶）
+ * @returns 更新后的摘要；无新增消息或正在更新时返回 null
+ */
+export async function updateConversationMemory(
+  conversationId: string,
+  omitted: Message[],
+  pathIds: readonly string[]
+): Promise<ConversationMemory | null> {
+  if (inFlight.has(conversationId)) return null;
+  inFlight.add(conversationId);
+
+  try {
+    const stored = await ChatRepository.getConversationMemory(conversationId);
+    const previous = stored && isMemoryOnPath(stored, pathIds) ? stored : null;
+    const since = previous?.coveredMessageId ? pathIds.indexOf(previous.coveredMessageId) : -1;
+    const pending = omitted
+      .filter((m) => (m.role === 'user' || m.role === 'assistant') && pathIds.indexOf(m.id) > since)
+      .sort((a, b) => pathIds.indexOf(a.id) - pathIds.indexOf(b.id))
+      .slice(0, MAX_MESSAGES_PER_UPDATE);
+    if (pending.length === 0) return null;
+
+    const { provider, model } = await resolveUtilityModel({ provider: SettingKey.ConversationMemoryProvider, model: SettingKey.ConversationMemoryModel });
+    const transcript = await formatTranscript(pending);
+    const messages: ModelMessage[] = [
+      { role: 'system', content: MEMORY_PROMPT },
+      {
+        role: 'user',
+        content: `已有摘要：\n${previous?.summary?.trim() || '（无）'}\n\n新增对话：\n${transcript}`,
+      },
+    ];
+
+    let acc = '';
+    let streamError: unknown = null;
+    await streamCompletion({
+      provider,
+      model,
+      messages,
+      temperature: 0.3,
+      maxTokens: 1024,
+      onToken: (d) => {
+        acc += d;
+      },
+      onError: (e) => {
+        streamError = e;
+      },
+    });
+    if (streamError) throw streamError;
+
+    const summary = acc.trim();
+    if (!summary) throw new Error('摘要结果为空');
+
+    const memory: ConversationMemory = {
+      summary,
+      coveredUntil: pending[pending.length - 1].createdAt,
+      coveredMessageId: pending[pending.length - 1].id,
+      messageCount: (previous?.messageCount ?? 0) + pending.length,
+      provider,
+      model,
+      updatedAt: Date.now(),
+    };
+    await ChatRepository.setConversationMemory(conversationId, memory);
+    appEvents.emit(AppEvents.TOPIC_MEMORY_CHANGED, conversationId);
+    logger.debug('[ConversationMemory] 摘要已更新', {
+      conversationId,
+      newMessages: pending.length,
+      totalMessages: memory.messageCount,
+    });
+    return memory;
+  } catch (e) {
+    logger.warn('[ConversationMemory] update failed', e);
+    return null;
+  } finally {
+    inFlight.delete(conversationId);
+  }
+}
@@ -0,0 +1,129 @@
+import { SettingsRepository, SettingKey } from '@/storage/repositories/settings';
+import { MessageRepository } from '@/storage/repositories/messages';
+import { streamCompletion, type Provider } from '@/services/ai/AiClient';
+import { resolveUtilityModel } from '@/services/ai/utils/UtilityModel';
+import type { ModelMessage } from 'ai';
+import { appEvents, AppEvents } from '@/utils/events';
+import { logger } from '@/utils/logger';
+
+/** 消息译文（保存在 message.extra.translation） */
+export interface MessageTranslation {
+  text: string;
+  targetLanguage: string;
+  provider: string;
+  model: string;
+  createdAt: number;
+}
+
+/** 翻译流式更新事件载荷 */
+export interface TranslationStreamUpdate {
+  messageId: string;
+  text: string;
+  targetLanguage: string;
+  done: boolean;
+}
+
+export const DEFAULT_TRANSLATION_TARGET = '简体中文';
+/** 输入框草稿默认译为英文（发送给模型前翻译） */
+export const DRAFT_TRANSLATION_TARGET = 'English';
+
+function buildTranslationPrompt(targetLanguage: string): string {
+  return `你是专业的翻译助手。请将用户提供的内容翻译为${targetLanguage}。
+要求：
+1. 仅输出译文本身，不要添加解释、前言或引号
+2. 保留原有的 Markdown 格式、代码块和链接
+3. 代码、专有名词与无需翻译的内容保持原样`;
+}
+
+
+/**
+ * 翻译一段文本（流式）
+ *
+ * @returns 完整译文及实际使用的模型
+ */
+export async function translateText(opts: {
+  text: string;
+  targetLanguage: string;
+  abortSignal?: AbortSignal;
+  onToken?: (accumulated: string) => void;
+}): Promise<{ text: string; provider: Provider; model: string }> {
+  const { provider, model } = await resolveUtilityModel({ provider: SettingKey.TranslationProvider, model: SettingKey.TranslationModel });
+
+  const messages: ModelMessage[] = [
+    { role: 'system', content: buildTranslationPrompt(opts.targetLanguage) },
+    { role: 'user', content: opts.text },
+  ];
+
+  let acc = '';
+  let streamError: unknown = null;
+
+  await streamCompletion({
+    provider,
+    model,
+    messages,
+    temperature: 0.3,
+    abortSignal: opts.abortSignal,
+    onToken: (d) => {
+      acc += d;
+      opts.onToken?.(acc);
+    },
+    onError: (e) => {
+      streamError = e;
+    },
+  });
+
+  if (streamError) throw streamError;
+
+  const text = acc.trim();
+  if (!text) throw new Error('翻译结果为空');
+  return { text, provider, model };
+}
+
+/**
+ * 翻译消息并将译文保存到 message.extra.translation
+ *
+ * 流式过程中通过 MESSAGE_TRANSLATION_UPDATE 事件推送到气泡，完成后持久化
+ */
+export async function translateMessage(
+  messageId: string,
+  text: string,
+  targetLanguage?: string
+): Promise<MessageTranslation> {
+  const sr = SettingsRepository();
+  const target = targetLanguage
+    ?? (await sr.get<string>(SettingKey.TranslationTargetLanguage))
+    ?? DEFAULT_TRANSLATION_TARGET;
+
+  // 流式推送节流（120ms），完成事件总是立即发送
+  let lastEmitAt = 0;
+  const emitUpdate = (payload: TranslationStreamUpdate) => {
+    const now = Date.now();
+    if (!payload.done && now - lastEmitAt < 120) return;
+    lastEmitAt = now;
+    appEvents.emit(AppEvents.MESSAGE_TRANSLATION_UPDATE, payload);
+  };
+
+  try {
+    const result = await translateText({
+      text,
+      targetLanguage: target,
+      onToken: (acc) => emitUpdate({ messageId, text: acc, targetLanguage: target, done: false }),
+    });
+
+    const translation: MessageTranslation = {
+      text: result.text,
+      targetLanguage: target,
+      provider: result.provider,
+      model: result.model,
+      createdAt: Date.now(),
+    };
+    await MessageRepository.updateMessageExtra(messageId, { translation });
+    // 携带最终译文结束流式展示，避免消息列表重载前闪烁
+    emitUpdate({ messageId, text: translation.text, targetLanguage: target, done: true });
+    return translation;
+  } catch (e) {
+    logger.warn('[Translation] translate message failed', e);
+    emitUpdate({ messageId, text: '', targetLanguage: target, done: true });
+    throw e;
+  }
+}
@@ -0,0 +1,39 @@
+import { SettingsRepository, SettingKey } from '@/storage/repositories/settings';
+import type { Provider } from '@/services/ai/AiClient';
+import { isProviderEnabled } from '@/services/ai/providers/ProviderRegistry';
+import { ProviderModelsRepository } from '@/storage/repositories/provider-models';
+
+/**
+ * 辅助功能（话题命名、翻译、对话记忆等）的模型设置项
+ */
+export interface UtilityModelSettingKeys {
+  provider: SettingKey;
+  model: SettingKey;
+}
+
+/**
+ * 解析辅助功能所用模型：优先使用该功能的模型设置，回退到默认对话模型
+ *
+ * 若选择的提供商被禁用或模型被删除，自动切换并持久化到该功能的设置项
+ */
+export async function resolveUtilityModel(settingKeys: UtilityModelSettingKeys): Promise<{ provider: Provider; model: string }> {
+  const sr = SettingsRepository();
+  let provider = ((await sr.get<string>(settingKeys.provider)) ?? (await sr.get<string>(SettingKey.DefaultProvider)) ?? 'openai') as Provider;
+  let model = (await sr.get<string>(settingKeys.model)) ?? (await sr.get<string>(SettingKey.DefaultModel)) ?? (provider === 'openai' ? 'gpt-4o-mini' : provider === 'anthropic' ? 'claude-3-5-haiku-latest' : 'gemini-1.5-flash');
+
+  try {
+    if (!(await isProviderEnabled(provider))) {
+      provider = ((await sr.get<string>(SettingKey.DefaultProvider)) ?? 'openai') as Provider;
+    }
+    const list = await ProviderModelsRepository.listOrDefaults(provider);
+    if (!list.some((m) => m.modelId === model)) {
+      model = list[0]?.modelId ?? model;
+      await sr.set(settingKeys.provider, provider);
+      await sr.set(settingKeys.model, model);
+    }
+  } catch {
+    // 安全兜底，不影响后续调用
+  }
+
+  return { provider, model };
+}
@@ -1,6 +1,10 @@
 import { ChatRepository } from '@/storage/repositories/chat';
 import { MessageRepository } from '@/storage/repositories/messages';
 import { AttachmentRepository } from '@/storage/repositories/attachments';
+import { SettingKey } from '@/storage/repositories/settings';
+import { AsyncKVStore } from '@/storage/adapters/async-storage';
+import { SecretStore, type PassphraseKdfParams } from '@/storage/adapters/secret-store';
+import { safeJSON } from '@/storage/core';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Directory, File, Paths } from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
@@ -13,13 +17,75 @@ export interface BackupData {
   messages: any[];
   attachments: any[];
   settings: Record<string, any>;
+  /**
+   * 敏感设置（API Key 等）的导出方式
+   * - omitted: 未导出（自定义提供商列表仍导出，仅剔除其中的 apiKey）
+   * - passphrase: 使用备份密码加密导出
+   * 旧版备份无此字段，敏感设置为明文
+   */
+  secrets?: { mode: 'omitted' } | { mode: 'passphrase'; kdf: PassphraseKdfParams };
+}
+
+export interface BackupExportOptions {
+  /** 备份密码：设置后敏感设置使用该密码加密导出，否则不导出敏感设置（密钥值） */
+  passphrase?: string;
+}
+
+export interface BackupRestoreOptions {
+  /** 备份密码：备份中的敏感设置已加密时需要；未提供则跳过敏感设置 */
+  passphrase?: string;
+}
+
+// ========== 敏感设置 ==========
+
+/** 单 Key 模式的提供商 API Key（设备密钥加密存储） */
+const PROVIDER_API_KEY_PATTERN = /^al:provider:[^:]+:api_key$/;
+/** 自定义提供商列表（其中 apiKey 字段为设备密钥加密存储） */
+const CUSTOM_PROVIDERS_KEY = 'al:custom:providers:list';
+/** 以明文存储的敏感设置 */
+const PLAIN_SECRET_KEYS = new Set<string>([SettingKey.TavilySearchApiKey]);
+
+function isSecretSetting(key: string): boolean {
+  return PROVIDER_API_KEY_PATTERN.test(key) || key === CUSTOM_PROVIDERS_KEY || PLAIN_SECRET_KEYS.has(key);
+}
+
+/**
+ * 转换敏感设置中的每个密钥值
+ *
+ * @param transform - 参数为密钥值及其在本机是否加密存储；返回 null 表示剔除该值
+ */
+async function mapSecretSettings(
+  settings: Record<string, any>,
+  transform: (value: string, encryptedAtRest: boolean) => Promise<string | null>
+): Promise<Record<string, any>> {
+  const out: Record<string, any> = {};
+  for (const [key, value] of Object.entries(settings)) {
+    if (key === CUSTOM_PROVIDERS_KEY) {
+      // 存储值为 JSON 文本，逐项处理 apiKey
+      const items = safeJSON.parse<Record<string, any>[]>(typeof value === 'string' ? value : null) ?? [];
+      const mapped = await Promise.all(
+        items.map(async (item) => (item.apiKey ? { ...item, apiKey: await transform(item.apiKey, true) } : item))
+      );
+      out[key] = JSON.stringify(mapped);
+      continue;
+    }
+    if (typeof value !== 'string' || !value) {
+      out[key] = value;
+      continue;
+    }
+    const next = await transform(value, !PLAIN_SECRET_KEYS.has(key));
+    if (next !== null) out[key] = next;
+  }
+  return out;
 }
 
 export const DataBackupService = {
   /**
    * 导出所有数据到 JSON
+   *
+   * 敏感设置默认不导出（自定义提供商只剔除 apiKey）；提供备份密码时使用该密码加密导出
    */
-  async exportToJSON(): Promise<BackupData> {
+  async exportToJSON(options: BackupExportOptions = {}): Promise<BackupData> {
     // 获取所有会话
     const conversations = await ChatRepository.listConversations({ limit: 999999 });
 
@@ -34,16 +100,33 @@ export const DataBackupService = {
     const alKeys = allKeys.filter(k => k.startsWith('al:'));
     const settingsData = await AsyncStorage.multiGet(alKeys);
     const settings: Record<string, any> = {};
+    const secretSettings: Record<string, any> = {};
     settingsData.forEach(([key, value]) => {
       if (value) {
+        const target = isSecretSetting(key) ? secretSettings : settings;
         try {
-          settings[key] = JSON.parse(value);
+          target[key] = JSON.parse(value);
         } catch {
-          settings[key] = value;
+          target[key] = value;
         }
       }
     });
 
+    // 🔐 敏感设置：先用设备密钥解密，再按备份密码加密或剔除
+    let secrets: BackupData['secrets'] = { mode: 'omitted' };
+    if (options.passphrase) {
+      const cipher = await SecretStore.createPassphraseCipher(options.passphrase);
+      const exported = await mapSecretSettings(secretSettings, async (value) => {
+        const plain = await SecretStore.decrypt(value);
+        return plain ? cipher.encrypt(plain) : null;
+      });
+      Object.assign(settings, exported);
+      secrets = { mode: 'passphrase', kdf: cipher.params };
+    } else {
+      // 剔除所有密钥值；自定义提供商列表本身保留
+      Object.assign(settings, await mapSecretSettings(secretSettings, async () => null));
+    }
+
     return {
       version: '1.0.0',
       timestamp: Date.now(),
@@ -54,14 +137,15 @@ export const DataBackupService = {
         uri: undefined, // 不导出文件路径，仅保留元数据
       })),
       settings,
+      secrets,
     };
   },
 
   /**
    * 导出并分享备份文件
    */
-  async exportAndShare(): Promise<void> {
-    const data = await this.exportToJSON();
+  async exportAndShare(options: BackupExportOptions = {}): Promise<void> {
+    const data = await this.exportToJSON(options);
     const json = JSON.stringify(data, null, 2);
     const fileName = `aetherlink_backup_${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
     const dir = new Directory(Paths.document, 'backups');
@@ -82,13 +166,41 @@ export const DataBackupService = {
 
   /**
    * 从 JSON 恢复数据
+   *
+   * 备份中的敏感设置使用本机设备密钥重新加密；已用备份密码加密但未提供密码时跳过敏感设置（自定义提供商仅跳过 apiKey）
    */
-  async restoreFromJSON(backup: BackupData): Promise<void> {
+  async restoreFromJSON(backup: BackupData, options: BackupRestoreOptions = {}): Promise<void> {
     // 验证备份数据
     if (!backup.version || !backup.conversations || !backup.messages) {
       throw new Error('无效的备份数据格式');
     }
 
+    // 🔐 先解密敏感设置（密码错误时在清空数据前报错）
+    const settings: Record<string, any> = {};
+    const secretSettings: Record<string, any> = {};
+    for (const [key, value] of Object.entries(backup.settings ?? {})) {
+      (isSecretSetting(key) ? secretSettings : settings)[key] = value;
+    }
+
+    let restoredSecrets: Record<string, any> = {};
+    if (backup.secrets?.mode === 'passphrase') {
+      if (options.passphrase) {
+        const cipher = await SecretStore.createPassphraseCipher(options.passphrase, backup.secrets.kdf);
+        restoredSecrets = await mapSecretSettings(secretSettings, async (value, encryptedAtRest) => {
+          const plain = cipher.decrypt(value);
+          return encryptedAtRest ? SecretStore.encrypt(plain) : plain;
+        });
+      } else {
+        logger.warn('[DataBackup] 未提供备份密码，跳过敏感设置');
+        restoredSecrets = await mapSecretSettings(secretSettings, async () => null);
+      }
+    } else {
+      // 旧版备份：敏感设置为明文
+      restoredSecrets = await mapSecretSettings(secretSettings, async (value, encryptedAtRest) =>
+        encryptedAtRest ? SecretStore.encrypt(value) : value
+      );
+    }
+
     // 警告：这将清空现有数据
     logger.warn('[DataBackup] Restoring data will clear existing data');
 
@@ -136,7 +248,7 @@ export const DataBackupService = {
       }
 
       // 5. 恢复设置
-      const settingsData = Object.entries(backup.settings);
+      const settingsData = Object.entries(settings);
       for (const [key, value] of settingsData) {
         try {
           await AsyncStorage.setItem(key, typeof value === 'string' ? value : JSON.stringify(value));
@@ -145,6 +257,15 @@ export const DataBackupService = {
         }
       }
 
+      // 6. 恢复敏感设置（与仓储层相同的 JSON 编码）
+      for (const [key, value] of Object.entries(restoredSecrets)) {
+        try {
+          await AsyncKVStore.set(key, value);
+        } catch (e) {
+          logger.error(`[DataBackup] Failed to restore secret setting ${key}:`, e);
+        }
+      }
+
     } catch (error) {
       logger.error('[DataBackup] Restore failed:', error);
       throw new Error(`数据恢复失败: ${error instanceof Error ? error.message : '未知错误'}`);
@@ -2,7 +2,7 @@ import { ChatRepository } from '@/storage/repositories/chat';
 import { MessageRepository } from '@/storage/repositories/messages';
 import { AttachmentRepository } from '@/storage/repositories/attachments';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { execute, queryAll } from '@/storage/sqlite/db';
+import { execute, queryAll, transaction } from '@/storage/sqlite/db';
 
 export const DataCleanupService = {
   /**
@@ -39,11 +39,22 @@ export const DataCleanupService = {
    * 清理失败的消息
    */
   async clearFailedMessages(): Promise<number> {
-    const result = await execute(
-      `DELETE FROM messages WHERE status = ?`,
-      ['failed']
-    );
-    return result.changes || 0;
+    return transaction('清理失败消息', async (db) => {
+      const rows = await db.getAllAsync<{ id: string }>(
+        `SELECT id FROM messages WHERE status = ?`,
+        ['failed']
+      );
+      for (const { id } of rows) {
+        // 逐条改挂子消息：连续失败的消息依次删除后，子消息最终挂到最近的未失败祖先上
+        const row = await db.getFirstAsync<{ parent_id: string | null }>(
+          `SELECT parent_id FROM messages WHERE id = ?`,
+          [id]
+        );
+        await db.runAsync(`UPDATE messages SET parent_id = ? WHERE parent_id = ?`, [row?.parent_id ?? null, id]);
+        await db.runAsync(`DELETE FROM messages WHERE id = ?`, [id]);
+      }
+      return rows.length;
+    });
   },
 
   /**
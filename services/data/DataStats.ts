@@ -1,6 +1,13 @@
 import { ChatRepository } from '@/storage/repositories/chat';
 import { MessageRepository } from '@/storage/repositories/messages';
 import { AttachmentRepository } from '@/storage/repositories/attachments';
+import { UsageRepository } from '@/storage/repositories/usage';
+import type {
+  UsageTotals,
+  ProviderUsageSummary,
+  ApiKeyUsageSummary,
+  DailySpend,
+} from '@/storage/types/usage';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { logger } from '@/utils/logger';
 
@@ -28,8 +35,21 @@ export interface DataStatistics {
     totalKeys: number;
     estimatedSize: number; // bytes
   };
+  usage: {
+    total: UsageTotals;
+    last30Days: UsageTotals;
+    byProvider: ProviderUsageSummary[];
+    byApiKey: ApiKeyUsageSummary[];
+    daily: DailySpend[]; // 最近 30 天，按日期升序
+  };
 }
 
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: '$',
+  CNY: '¥',
+  EUR: '€',
+};
+
 export const DataStatsService = {
   async getStatistics(): Promise<DataStatistics> {
     // 获取会话统计
@@ -71,6 +91,16 @@ export const DataStatsService = {
       logger.error('[DataStats] Failed to estimate storage size:', e);
     }
 
+    // 获取 Token 用量与花费统计
+    const since30Days = Date.now() - 30 * 24 * 60 * 60 * 1000;
+    const [usageTotal, usageLast30Days, usageByProvider, usageByApiKey, dailySpend] = await Promise.all([
+      UsageRepository.getTotals(),
+      UsageRepository.getTotals(since30Days),
+      UsageRepository.listByProvider(),
+      UsageRepository.listByApiKey(),
+      UsageRepository.getDailySpend(30),
+    ]);
+
     return {
       conversations: {
         total: allConversations.length,
@@ -83,9 +113,36 @@ export const DataStatsService = {
         totalKeys: alKeys.length,
         estimatedSize,
       },
+      usage: {
+        total: usageTotal,
+        last30Days: usageLast30Days,
+        byProvider: usageByProvider,
+        byApiKey: usageByApiKey,
+        daily: dailySpend,
+      },
     };
   },
 
+  /**
+   * 格式化花费（多种货币用 + 连接），无花费时返回 '—'
+   */
+  formatCosts(costs: Record<string, number>): string {
+    const parts = Object.entries(costs)
+      .filter(([, amount]) => amount > 0)
+      .map(([currency, amount]) => {
+        const symbol = CURRENCY_SYMBOLS[currency];
+        const value = amount < 0.01 ? amount.toFixed(4) : amount.toFixed(2);
+        return symbol ? `${symbol}${value}` : `${value} ${currency}`;
+      });
+    return parts.length > 0 ? parts.join(' + ') : '—';
+  },
+
+  formatTokens(tokens: number): string {
+    if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(2)}M`;
+    if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}K`;
+    return String(tokens);
+  },
+
   formatBytes(bytes: number): string {
     if (bytes === 0) return '0 B';
     const k = 1024;
@@ -3,5 +3,5 @@ export { DataCleanupService } from './DataCleanup';
 export { DataStatsService } from './DataStats';
 export { LegacyImportService } from './LegacyImport';
 
-export type { BackupData } from './DataBackup';
+export type { BackupData, BackupExportOptions, BackupRestoreOptions } from './DataBackup';
 export type { DataStatistics } from './DataStats';
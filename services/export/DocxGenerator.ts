@@ -6,12 +6,14 @@ import {
 } from 'docx';
 import * as FileSystemLegacy from 'expo-file-system/legacy';
 import { logger } from '@/utils/logger';
+import { hasContextBoundary } from '@/utils/message-tree';
 import { TopicExportData, MessageExportData } from '@/storage/repositories/export';
 import { ExportOptions } from './types';
 import { MarkdownConverter } from './converters/MarkdownConverter';
 import { ThinkingChainConverter } from './converters/ThinkingChainConverter';
 import { McpToolConverter } from './converters/McpToolConverter';
 import { AttachmentConverter } from './converters/AttachmentConverter';
+import { TranslationConverter } from './converters/TranslationConverter';
 import { DocumentStyles } from './styles/DocumentStyles';
 
 /**
@@ -28,6 +30,7 @@ export class DocxGenerator {
   private thinkingChainConverter: ThinkingChainConverter;
   private mcpToolConverter: McpToolConverter;
   private attachmentConverter: AttachmentConverter;
+  private translationConverter: TranslationConverter;
 
   constructor(exportData: TopicExportData, options: ExportOptions) {
     this.exportData = exportData;
@@ -40,6 +43,7 @@ export class DocxGenerator {
       sanitizeSensitiveData: options.sanitizeSensitiveData,
     });
     this.attachmentConverter = new AttachmentConverter();
+    this.translationConverter = new TranslationConverter();
   }
 
   /**
@@ -163,6 +167,11 @@ export class DocxGenerator {
 
       // 添加单条消息的内容
       content.push(...this.buildMessageContent(messageData));
+
+      // 上下文分界（最后一条消息之后的分界没有后续内容，不再绘制）
+      if (hasContextBoundary(messageData.message) && i < this.exportData.messages.length - 1) {
+        content.push(DocumentStyles.createContextBoundary());
+      }
     }
 
     return content;
@@ -188,12 +197,21 @@ export class DocxGenerator {
       content.push(...thinkingParagraphs);
     }
 
-    // 3. 消息正文内容
-    if (message.text) {
-      const textParagraphs = this.markdownConverter.convertToParagraphs(message.text);
+    // 3. 消息正文内容（正文保存在 TEXT 块中，旧数据回退到 message.text）
+    const textBlocks = blocks
+      .filter(b => b.type === 'TEXT')
+      .sort((a, b) => a.sortOrder - b.sortOrder);
+    const bodyText = textBlocks.length > 0
+      ? textBlocks.map(b => b.content).join('')
+      : (message.text ?? '');
+    if (bodyText) {
+      const textParagraphs = this.markdownConverter.convertToParagraphs(bodyText);
       content.push(...textParagraphs);
     }
 
+    // 3.1 译文（如果有）
+    content.push(...this.translationConverter.convertToParagraphs(message.extra?.translation));
+
     // 4. MCP 工具调用（如果有且启用）
     if (this.options.includeMcpTools && blocks.length > 0) {
       const toolElements = this.mcpToolConverter.convertToParagraphs(blocks);
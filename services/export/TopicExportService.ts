@@ -49,7 +49,9 @@ export class TopicExportService {
 
       // 1. 加载数据
       this.reportProgress('loading', 10, '正在加载话题数据...');
-      const exportData = await ExportRepository.getTopicExportData(this.conversationId);
+      const exportData = await ExportRepository.getTopicExportData(this.conversationId, {
+        segmentOnly: this.options.scope === 'segment',
+      });
 
       if (!exportData) {
         throw new Error('话题未找到');
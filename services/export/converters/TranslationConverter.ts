@@ -0,0 +1,59 @@
+import {
+  Paragraph,
+  TextRun,
+} from 'docx';
+import type { MessageTranslation } from '@/services/ai';
+import { MarkdownConverter } from './MarkdownConverter';
+
+/**
+ * 译文转换器 - 将消息译文（message.extra.translation）转换为 DOCX 段落
+ *
+ * 输出结构：
+ * - 标题：🌐 译文（目标语言）
+ * - 内容：按 Markdown 渲染的译文
+ */
+export class TranslationConverter {
+  private markdownConverter = new MarkdownConverter();
+
+  /**
+   * 将译文转换为 DOCX 段落
+   *
+   * @param translation 译文数据
+   * @returns DOCX Paragraph 对象数组，无译文时返回空数组
+   */
+  convertToParagraphs(translation: MessageTranslation | null | undefined): Paragraph[] {
+    if (!translation?.text?.trim()) {
+      return [];
+    }
+
+    return [
+      this.createTitle(translation.targetLanguage),
+      ...this.markdownConverter.convertToParagraphs(translation.text),
+    ];
+  }
+
+  /**
+   * 创建译文标题
+   * @private
+   */
+  private createTitle(targetLanguage: string): Paragraph {
+    return new Paragraph({
+      children: [
+        new TextRun({
+          text: '🌐 ',
+          size: 20,
+        }),
+        new TextRun({
+          text: `译文（${targetLanguage}）`,
+          size: 20,
+          bold: true,
+          color: '0EA5E9',
+        }),
+      ],
+      spacing: {
+        before: 120,
+        after: 60,
+      },
+    });
+  }
+}
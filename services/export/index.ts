@@ -13,5 +13,6 @@ export type {
   ExportProgress,
   ProgressCallback,
   ThinkingChainMode,
+  ExportScope,
 } from './types';
 export { DEFAULT_EXPORT_OPTIONS } from './types';
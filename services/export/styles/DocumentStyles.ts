@@ -131,6 +131,27 @@ export class DocumentStyles {
     });
   }
 
+  /**
+   * 创建上下文分界段落（分界之后的消息不再引用之前的上文）
+   */
+  static createContextBoundary(): Paragraph {
+    return new Paragraph({
+      children: [
+        new TextRun({
+          text: '✂ 上下文已清除 ✂',
+          size: 18,
+          color: '999999',
+          italics: true,
+        }),
+      ],
+      alignment: AlignmentType.CENTER,
+      spacing: {
+        before: 200,
+        after: 200,
+      },
+    });
+  }
+
   /**
    * 创建消息元信息段落（发送者 + 时间）
    *
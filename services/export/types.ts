@@ -11,10 +11,23 @@ export type ExportFormat = 'docx' | 'md';
  */
 export type ThinkingChainMode = 'full' | 'summary' | 'none';
 
+/**
+ * 导出范围
+ * - all: 当前分支的全部消息（上下文分界绘制为分隔线）
+ * - segment: 仅导出当前上下文段（最后一个上下文分界之后的消息）
+ */
+export type ExportScope = 'all' | 'segment';
+
 /**
  * 导出选项配置
  */
 export interface ExportOptions {
+  /**
+   * 导出范围
+   * @default 'all'
+   */
+  scope: ExportScope;
+
   /**
    * 思考链导出模式
    * @default 'full'
@@ -104,6 +117,7 @@ export interface ExportResult {
  * 默认导出选项
  */
 export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  scope: 'all',
   includeThinking: 'full',
   includeMcpTools: true,
   includeAttachments: true,
@@ -8,6 +8,7 @@
  * - 12秒定时Ping心跳
  * - 6秒Ping超时检测
  * - 连接断开自动触发重连回调
+ * - SSE 传输：事件流出错时立即检查，连接关闭时立即触发重连
  * - 支持动态启动/停止心跳
  *
  * 创建日期: 2025-11-17
@@ -50,6 +51,9 @@ export interface HealthCheckConfig {
 
   /** 连接健康检查失败回调（触发重连） */
   onHealthCheckFailed?: (serverId: string, error: any) => void;
+
+  /** 传输协议，默认 streamableHttp */
+  transport?: 'streamableHttp' | 'sse';
 }
 
 /**
@@ -61,6 +65,8 @@ interface HeartbeatInfo {
   timer: ReturnType<typeof setInterval>;
   config: Required<HealthCheckConfig>;
   status: ConnectionStatus;
+  /** 是否正在执行检查（避免事件触发的检查与定时检查重叠） */
+  checking: boolean;
 }
 
 /**
@@ -90,6 +96,7 @@ export class ConnectionHealthChecker {
   private readonly defaultConfig: Required<Omit<HealthCheckConfig, 'onStatusChange' | 'onHealthCheckFailed'>> = {
     pingInterval: 12000, // 12秒
     pingTimeout: 6000,   // 6秒
+    transport: 'streamableHttp',
   };
 
   /**
@@ -109,12 +116,14 @@ export class ConnectionHealthChecker {
       pingTimeout: config?.pingTimeout ?? this.defaultConfig.pingTimeout,
       onStatusChange: config?.onStatusChange ?? (() => {}),
       onHealthCheckFailed: config?.onHealthCheckFailed ?? (() => {}),
+      transport: config?.transport ?? this.defaultConfig.transport,
     };
 
     log.info('启动心跳检查', {
       serverId,
       pingInterval: `${fullConfig.pingInterval}ms`,
       pingTimeout: `${fullConfig.pingTimeout}ms`,
+      transport: fullConfig.transport,
     });
 
     // 创建定时器
@@ -129,8 +138,24 @@ export class ConnectionHealthChecker {
       timer,
       config: fullConfig,
       status: ConnectionStatus.Connected,
+      checking: false,
     });
 
+    // SSE 事件流由 EventSource 维持：出错时立即检查，传输关闭时立即重连，无需等待下一次心跳
+    if (fullConfig.transport === 'sse') {
+      client.onerror = (error) => {
+        if (this.heartbeats.get(serverId)?.client !== client) return;
+        log.debug('SSE 事件流出错，立即执行心跳检查', { serverId, error: error?.message });
+        void this._performHealthCheck(serverId);
+      };
+      client.onclose = () => {
+        const current = this.heartbeats.get(serverId);
+        if (current?.client !== client) return;
+        log.warn('SSE 连接已关闭', { serverId });
+        void this._handleHealthCheckFailed(current, new Error('SSE 连接已关闭'));
+      };
+    }
+
     log.debug('心跳检查已启动', { serverId });
   }
 
@@ -237,6 +262,11 @@ export class ConnectionHealthChecker {
       return;
     }
 
+    if (heartbeat.checking) {
+      return;
+    }
+    heartbeat.checking = true;
+
     try {
       log.debug('执行心跳检查', { serverId });
 
@@ -258,16 +288,34 @@ export class ConnectionHealthChecker {
     } catch (error: any) {
       // 心跳失败
       log.warn('心跳检查失败', { serverId, error: error?.message });
+      await this._handleHealthCheckFailed(heartbeat, error);
+    } finally {
+      heartbeat.checking = false;
+    }
+  }
 
-      // 更新状态为错误
-      this.updateStatus(serverId, ConnectionStatus.Error);
+  /**
+   * 标记连接失败并触发失败回调
+   *
+   * @param heartbeat 心跳信息
+   * @param error 失败原因
+   */
+  private async _handleHealthCheckFailed(heartbeat: HeartbeatInfo, error: any): Promise<void> {
+    const { serverId } = heartbeat;
+
+    // 已处于错误状态时不重复触发（重连由上一次失败负责）
+    if (heartbeat.status === ConnectionStatus.Error) {
+      return;
+    }
 
-      // 触发健康检查失败回调（通常触发重连）
-      try {
-        await heartbeat.config.onHealthCheckFailed(serverId, error);
-      } catch (callbackError) {
-        log.error('健康检查失败回调执行出错', { serverId, error: callbackError });
-      }
+    // 更新状态为错误
+    this.updateStatus(serverId, ConnectionStatus.Error);
+
+    // 触发健康检查失败回调（通常触发重连）
+    try {
+      await heartbeat.config.onHealthCheckFailed(serverId, error);
+    } catch (callbackError) {
+      log.error('健康检查失败回调执行出错', { serverId, error: callbackError });
     }
   }
 
@@ -10,12 +10,20 @@
  * - ✅ 状态管理（idle/connecting/connected/error）
  * - ✅ 缓存系统（保留AetherLink_z优势）
  * - ✅ 通知处理（MCP协议标准）
+ * - ✅ 传输协议自动检测（Streamable HTTP 优先，4xx 时回退到旧版 SSE）
+ * - ✅ OAuth 授权（令牌随请求发送，401 时自动刷新）
  *
  * 创建日期: 2025-11-17
  */
 
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StreamableHTTPClientTransport, type StreamableHTTPClientTransportOptions } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import {
+  StreamableHTTPClientTransport,
+  StreamableHTTPError,
+  type StreamableHTTPClientTransportOptions,
+} from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport, type SSEClientTransportOptions } from '@modelcontextprotocol/sdk/client/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   ToolListChangedNotificationSchema,
   ResourceListChangedNotificationSchema,
@@ -24,12 +32,14 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { logger } from '@/utils/logger';
+import { appEvents, AppEvents } from '@/utils/events';
 import { cacheManager, CacheKeys } from './CacheManager';
 import { McpServersRepository } from '@/storage/repositories/mcp';
 import { ConnectionHealthChecker, ConnectionStatus } from './ConnectionHealthChecker';
 import { ErrorClassifier, ErrorCategory } from './ErrorClassifier';
 import { SecurityUtils } from './SecurityUtils';
 import { SchemaValidator } from './SchemaValidator';
+import { McpOAuthProvider, isUnauthorizedError } from './McpOAuth';
 import type {
   MCPServer,
   MCPTool,
@@ -39,6 +49,7 @@ import type {
   MCPPrompt,
   MCPPromptResult,
   MCPHealthCheck,
+  McpTransportType,
 } from '@/types/mcp';
 
 const log = logger.createNamespace('McpClient');
@@ -53,6 +64,8 @@ interface ClientConnection {
   serverId: string;
   serverName: string;
   status: ConnectionStatus;
+  /** 实际使用的传输协议 */
+  transport: McpTransportType;
 }
 
 type MCPResourceExtras = Partial<Pick<MCPResource, 'size' | 'text' | 'blob'>>;
@@ -90,6 +103,9 @@ export class McpClient {
   /** 服务器错误消息记录 (key: serverId) */
   private errors: Map<string, string> = new Map();
 
+  /** 已订阅的资源 URI (key: serverId)，重新连接后自动恢复订阅 */
+  private subscriptions: Map<string, Set<string>> = new Map();
+
   /** 数据仓库实例 */
   private repo = McpServersRepository;
 
@@ -152,7 +168,10 @@ export class McpClient {
       this._updateStatus(serverId, ConnectionStatus.Error);
 
       // 记录错误消息
-      this.errors.set(serverId, error?.message ?? String(error));
+      this.errors.set(
+        serverId,
+        isUnauthorizedError(error) ? '服务器需要授权，请在 MCP 服务器设置中登录' : error?.message ?? String(error)
+      );
 
       throw error;
     }
@@ -202,10 +221,12 @@ export class McpClient {
 
     await this.disconnect(serverId);
 
+    // 重新读取配置：使用已保存（或自动检测后写入）的传输协议
     const server = await this.repo.getServerById(serverId);
     if (!server) {
       throw new Error(`服务器不存在: ${serverId}`);
     }
+    log.debug('重连使用的传输协议', { serverId, transport: server.type ?? 'auto' });
 
     await this.connect(server);
   }
@@ -253,6 +274,12 @@ export class McpClient {
           }
         } catch (error) {
           log.warn(`重连失败（尝试 ${attempt}/${maxAttempts}）`, { serverId, error });
+
+          // 需要用户授权时重试无意义
+          if (isUnauthorizedError(error)) {
+            log.info('服务器需要授权，停止重连', { serverId });
+            return false;
+          }
         }
       }
 
@@ -717,6 +744,48 @@ export class McpClient {
     }
   }
 
+  /**
+   * 订阅资源更新
+   *
+   * 资源更新时服务器发送 resources/updated 通知，缓存失效并发出 MCP_RESOURCE_UPDATED 事件
+   *
+   * @param serverId 服务器 ID
+   * @param uri 资源 URI
+   * @returns 服务器是否支持订阅
+   */
+  async subscribeResource(serverId: string, uri: string): Promise<boolean> {
+    await this.ensureConnected(serverId);
+
+    const conn = this.clients.get(serverId);
+    if (!conn) {
+      throw new Error(`客户端未初始化: ${serverId}`);
+    }
+
+    if (!conn.client.getServerCapabilities()?.resources?.subscribe) {
+      log.debug(`服务器不支持资源订阅`, { serverId, uri });
+      return false;
+    }
+
+    const uris = this.subscriptions.get(serverId) ?? new Set<string>();
+    if (uris.has(uri)) {
+      return true;
+    }
+
+    conn.lastUsedAt = Date.now();
+
+    try {
+      await conn.client.subscribeResource({ uri });
+      uris.add(uri);
+      this.subscriptions.set(serverId, uris);
+      log.info(`订阅资源成功`, { serverId, uri });
+      return true;
+    } catch (error) {
+      log.error(`订阅资源失败`, { serverId, uri, error });
+      ErrorClassifier.recordError(serverId, error);
+      throw error;
+    }
+  }
+
   /**
    * 列出服务器的所有提示词
    *
@@ -893,6 +962,15 @@ export class McpClient {
     return conn?.status ?? ConnectionStatus.Idle;
   }
 
+  /**
+   * 获取服务器当前连接使用的传输协议（未连接时返回 undefined）
+   *
+   * @param serverId 服务器ID
+   */
+  getTransport(serverId: string): McpTransportType | undefined {
+    return this.clients.get(serverId)?.transport;
+  }
+
   /**
    * 判断服务器是否已连接
    *
@@ -969,6 +1047,10 @@ export class McpClient {
 
   /**
    * 创建新的 MCP 客户端
+   *
+   * 传输协议：
+   * - 服务器已设置 type 时直接使用
+   * - 未设置时先尝试 Streamable HTTP，服务器返回 4xx 时回退到旧版 HTTP+SSE，并记住检测结果
    */
   private async _createNewClient(server: MCPServer): Promise<Client> {
     const serverId = server.id;
@@ -978,12 +1060,82 @@ export class McpClient {
       throw new Error(`MCP 服务器 ${server.name ?? serverId} 未配置 baseUrl/url，无法建立连接`);
     }
 
+    const configuredType: McpTransportType | undefined =
+      server.type === 'sse' || server.type === 'streamableHttp' ? server.type : undefined;
+
     log.info(`创建新的 MCP 客户端`, {
       serverId,
       serverName: server.name,
       baseUrl,
+      transport: configuredType ?? 'auto',
     });
 
+    let client: Client;
+    let transportType: McpTransportType = configuredType ?? 'streamableHttp';
+
+    try {
+      try {
+        client = await this._connectClient(server, baseUrl, transportType);
+      } catch (error) {
+        if (configuredType || !this._shouldFallbackToSse(error)) {
+          throw error;
+        }
+
+        log.info(`Streamable HTTP 连接被拒绝，回退到 SSE 传输`, {
+          serverId,
+          serverName: server.name,
+          status: (error as StreamableHTTPError).code,
+        });
+        transportType = 'sse';
+        client = await this._connectClient(server, baseUrl, transportType);
+      }
+    } catch (error) {
+      log.error(`MCP 客户端连接失败`, {
+        serverId,
+        serverName: server.name,
+        transport: transportType,
+        error,
+      });
+      throw error;
+    }
+
+    // 记住自动检测的结果，之后的连接与重连直接使用
+    if (!configuredType) {
+      try {
+        await this.repo.setTransportType(serverId, transportType);
+      } catch (error) {
+        log.warn(`保存检测到的传输协议失败`, { serverId, transport: transportType, error });
+      }
+    }
+
+    const now = Date.now();
+    this.clients.set(serverId, {
+      client,
+      connectedAt: now,
+      lastUsedAt: now,
+      serverId,
+      serverName: server.name,
+      status: ConnectionStatus.Connected,
+      transport: transportType,
+    });
+
+    log.info(`MCP 客户端连接成功`, {
+      serverId,
+      serverName: server.name,
+      transport: transportType,
+    });
+
+    this._restoreSubscriptions(client, serverId);
+
+    return client;
+  }
+
+  /**
+   * 使用指定传输协议创建客户端并完成初始化握手
+   */
+  private async _connectClient(server: MCPServer, baseUrl: string, transportType: McpTransportType): Promise<Client> {
+    const serverId = server.id;
+
     // 合并默认请求头与用户自定义头
     const defaultHeaders: Record<string, string> = {
       Accept: 'application/json',
@@ -998,20 +1150,39 @@ export class McpClient {
     // 🔥 日志中脱敏敏感头部（Kelivo核心特性）
     log.debug('请求头', {
       serverId,
+      transport: transportType,
       headers: SecurityUtils.maskHeaders(mergedHeaders),
     });
 
-    const transportOptions: StreamableHTTPClientTransportOptions = {
-      fetch: async (url, init) => {
-        const u = typeof url === 'string' ? url : url.toString();
-        return fetch(u, init as any);
-      },
-      requestInit: {
-        headers: mergedHeaders,
-      },
+    const fetchImpl = async (url: string | URL, init?: RequestInit) => {
+      const u = typeof url === 'string' ? url : url.toString();
+      return fetch(u, init as any);
     };
 
-    const transport = new StreamableHTTPClientTransport(new URL(baseUrl), transportOptions);
+    // OAuth：有令牌时自动附加 Authorization，收到 401 时刷新令牌或标记为需要授权
+    const authProvider = new McpOAuthProvider(serverId);
+
+    let transport: Transport;
+    if (transportType === 'sse') {
+      const sseOptions: SSEClientTransportOptions = {
+        authProvider,
+        fetch: fetchImpl,
+        // 事件流请求同样附加这些请求头，Accept 由 SDK 改为 text/event-stream
+        requestInit: {
+          headers: mergedHeaders,
+        },
+      };
+      transport = new SSEClientTransport(new URL(baseUrl), sseOptions);
+    } else {
+      const transportOptions: StreamableHTTPClientTransportOptions = {
+        authProvider,
+        fetch: fetchImpl,
+        requestInit: {
+          headers: mergedHeaders,
+        },
+      };
+      transport = new StreamableHTTPClientTransport(new URL(baseUrl), transportOptions);
+    }
 
     const client = new Client(
       {
@@ -1026,33 +1197,17 @@ export class McpClient {
     // 设置通知处理器
     this._setupNotificationHandlers(client, serverId);
 
-    try {
-      await client.connect(transport);
-
-      const now = Date.now();
-      this.clients.set(serverId, {
-        client,
-        connectedAt: now,
-        lastUsedAt: now,
-        serverId,
-        serverName: server.name,
-        status: ConnectionStatus.Connected,
-      });
-
-      log.info(`MCP 客户端连接成功`, {
-        serverId,
-        serverName: server.name,
-      });
+    await client.connect(transport);
+    return client;
+  }
 
-      return client;
-    } catch (error) {
-      log.error(`MCP 客户端连接失败`, {
-        serverId,
-        serverName: server.name,
-        error,
-      });
-      throw error;
-    }
+  /**
+   * Streamable HTTP 握手返回 4xx 时视为旧版 SSE 服务器（401 表示需要认证，不回退）
+   */
+  private _shouldFallbackToSse(error: unknown): boolean {
+    if (!(error instanceof StreamableHTTPError)) return false;
+    const status = error.code ?? 0;
+    return status >= 400 && status < 500 && status !== 401;
   }
 
   /**
@@ -1074,6 +1229,7 @@ export class McpClient {
       log.debug(`收到资源更新通知`, { serverId, uri });
       if (typeof uri === 'string') {
         cacheManager.delete(CacheKeys.resource(serverId, uri));
+        appEvents.emit(AppEvents.MCP_RESOURCE_UPDATED, { serverId, uri });
       }
     });
 
@@ -1083,6 +1239,20 @@ export class McpClient {
     });
   }
 
+  /**
+   * 重新连接后恢复资源订阅
+   */
+  private _restoreSubscriptions(client: Client, serverId: string): void {
+    const uris = this.subscriptions.get(serverId);
+    if (!uris || uris.size === 0) return;
+
+    for (const uri of uris) {
+      client.subscribeResource({ uri }).catch((error) => {
+        log.warn(`恢复资源订阅失败`, { serverId, uri, error });
+      });
+    }
+  }
+
   /**
    * 🔥 启动心跳检查（Kelivo核心特性）
    */
@@ -1090,6 +1260,7 @@ export class McpClient {
     this.healthChecker.start(serverId, client, {
       pingInterval: 12000, // 12秒
       pingTimeout: 6000,   // 6秒
+      transport: this.clients.get(serverId)?.transport,
       onStatusChange: (id, status) => {
         this._updateStatus(id, status);
       },
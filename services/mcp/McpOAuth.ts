@@ -0,0 +1,242 @@
+/**
+ * MCP OAuth 授权
+ *
+ * 实现 MCP 授权规范（OAuth 2.1）的客户端部分，协议细节由 SDK 的 auth() 完成：
+ * - 元数据发现：受保护资源元数据 → 授权服务器元数据
+ * - 动态客户端注册：首次授权时注册，客户端信息按服务器保存
+ * - PKCE：授权页在系统浏览器的认证会话中打开，回调地址为应用深链接（aetherlinkz://mcp-oauth/callback）
+ * - 令牌刷新：传输层收到 401 时使用刷新令牌自动换取新令牌，失败时标记为需要授权
+ *
+ * 授权状态（客户端信息、令牌、code verifier）加密保存在 mcp_servers.oauth_state。
+ * 后台连接不会自动弹出授权页，只记录授权地址并发出 MCP_AUTH_CHANGED 事件，
+ * 由用户在 MCP 服务器设置中发起授权。
+ *
+ * @module services/mcp/McpOAuth
+ */
+
+import * as Linking from 'expo-linking';
+import * as WebBrowser from 'expo-web-browser';
+import { auth, UnauthorizedError, type OAuthClientProvider } from '@modelcontextprotocol/sdk/client/auth.js';
+import type {
+  OAuthClientInformationMixed,
+  OAuthClientMetadata,
+  OAuthTokens,
+} from '@modelcontextprotocol/sdk/shared/auth.js';
+import { uuid } from '@/storage/core';
+import { McpServersRepository } from '@/storage/repositories/mcp';
+import type { MCPServer, McpAuthStatus, McpOAuthState } from '@/types/mcp';
+import { appEvents, AppEvents } from '@/utils/events';
+import { logger } from '@/utils/logger';
+
+const log = logger.createNamespace('McpOAuth');
+
+const REDIRECT_PATH = 'mcp-oauth/callback';
+
+/** 等待用户授权的服务器（key: serverId，value: 授权页地址） */
+const pendingAuthorizations = new Map<string, URL>();
+
+function notify(serverId: string): void {
+  appEvents.emit(AppEvents.MCP_AUTH_CHANGED, serverId);
+}
+
+const fetchFn = async (url: string | URL, init?: RequestInit) => {
+  const u = typeof url === 'string' ? url : url.toString();
+  return fetch(u, init as any);
+};
+
+/**
+ * 授权回调地址（应用深链接）
+ */
+export function getOAuthRedirectUrl(): string {
+  return Linking.createURL(REDIRECT_PATH);
+}
+
+/**
+ * 按服务器保存授权状态的 OAuthClientProvider
+ */
+export class McpOAuthProvider implements OAuthClientProvider {
+  constructor(private readonly serverId: string) {}
+
+  get redirectUrl(): string {
+    return getOAuthRedirectUrl();
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: 'AetherLink',
+      redirect_uris: [this.redirectUrl],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+    };
+  }
+
+  async state(): Promise<string> {
+    const state = uuid();
+    await this.update({ state });
+    return state;
+  }
+
+  async clientInformation(): Promise<OAuthClientInformationMixed | undefined> {
+    return (await this.load()).clientInformation;
+  }
+
+  async saveClientInformation(clientInformation: OAuthClientInformationMixed): Promise<void> {
+    log.info('动态客户端注册完成', { serverId: this.serverId, clientId: clientInformation.client_id });
+    await this.update({ clientInformation });
+  }
+
+  async tokens(): Promise<OAuthTokens | undefined> {
+    return (await this.load()).tokens;
+  }
+
+  async saveTokens(tokens: OAuthTokens): Promise<void> {
+    await this.update({ tokens, tokensSavedAt: Date.now(), codeVerifier: undefined, state: undefined });
+    pendingAuthorizations.delete(this.serverId);
+    log.info('访问令牌已保存', { serverId: this.serverId, hasRefreshToken: !!tokens.refresh_token });
+    notify(this.serverId);
+  }
+
+  redirectToAuthorization(authorizationUrl: URL): void {
+    // 不直接打开浏览器：记录授权地址，等待用户在设置中发起授权
+    pendingAuthorizations.set(this.serverId, authorizationUrl);
+    log.info('服务器需要用户授权', { serverId: this.serverId });
+    notify(this.serverId);
+  }
+
+  async saveCodeVerifier(codeVerifier: string): Promise<void> {
+    await this.update({ codeVerifier });
+  }
+
+  async codeVerifier(): Promise<string> {
+    const { codeVerifier } = await this.load();
+    if (!codeVerifier) {
+      throw new Error('缺少 PKCE code verifier，请重新发起授权');
+    }
+    return codeVerifier;
+  }
+
+  async invalidateCredentials(scope: 'all' | 'client' | 'tokens' | 'verifier'): Promise<void> {
+    log.warn('授权凭据失效', { serverId: this.serverId, scope });
+    if (scope === 'all') {
+      await McpServersRepository.saveOAuthState(this.serverId, null);
+    } else if (scope === 'client') {
+      await this.update({ clientInformation: undefined });
+    } else if (scope === 'tokens') {
+      await this.update({ tokens: undefined, tokensSavedAt: undefined });
+    } else {
+      await this.update({ codeVerifier: undefined });
+    }
+    notify(this.serverId);
+  }
+
+  /** 读取当前授权状态 */
+  async load(): Promise<McpOAuthState> {
+    return (await McpServersRepository.getOAuthState(this.serverId)) ?? {};
+  }
+
+  private async update(patch: Partial<McpOAuthState>): Promise<void> {
+    await McpServersRepository.saveOAuthState(this.serverId, { ...(await this.load()), ...patch });
+  }
+}
+
+/**
+ * 是否为需要用户授权的错误
+ */
+export function isUnauthorizedError(error: unknown): boolean {
+  return error instanceof UnauthorizedError;
+}
+
+/**
+ * 获取服务器的授权状态
+ */
+export async function getAuthStatus(serverId: string): Promise<McpAuthStatus> {
+  if (pendingAuthorizations.has(serverId)) return 'required';
+  const state = await McpServersRepository.getOAuthState(serverId);
+  return state?.tokens ? 'authorized' : 'none';
+}
+
+/**
+ * 发起授权：完成元数据发现与客户端注册，返回需要在浏览器中打开的授权页地址
+ *
+ * @returns 授权页地址；刷新令牌仍有效时直接完成授权，返回 null
+ */
+export async function startAuthorization(server: MCPServer): Promise<URL | null> {
+  if (!server.baseUrl) {
+    throw new Error(`MCP 服务器 ${server.name} 未配置 URL`);
+  }
+
+  const provider = new McpOAuthProvider(server.id);
+  const result = await auth(provider, { serverUrl: server.baseUrl, fetchFn });
+  if (result === 'AUTHORIZED') {
+    return null;
+  }
+
+  const authorizationUrl = pendingAuthorizations.get(server.id);
+  if (!authorizationUrl) {
+    throw new Error('未获取到授权地址');
+  }
+  return authorizationUrl;
+}
+
+/**
+ * 处理授权回调：校验 state 并用授权码换取令牌
+ *
+ * @param callbackUrl 授权服务器重定向到的回调地址
+ */
+export async function completeAuthorization(server: MCPServer, callbackUrl: string): Promise<void> {
+  if (!server.baseUrl) {
+    throw new Error(`MCP 服务器 ${server.name} 未配置 URL`);
+  }
+
+  const params = Linking.parse(callbackUrl).queryParams ?? {};
+  const first = (value: unknown) => (Array.isArray(value) ? value[0] : value) as string | undefined;
+
+  const error = first(params.error);
+  if (error) {
+    throw new Error(`授权被拒绝：${first(params.error_description) || error}`);
+  }
+
+  const code = first(params.code);
+  if (!code) {
+    throw new Error('授权回调缺少授权码');
+  }
+
+  const provider = new McpOAuthProvider(server.id);
+  const { state } = await provider.load();
+  // 未发起授权（没有保存的 state）时同样拒绝回调
+  if (!state || first(params.state) !== state) {
+    throw new Error('授权回调 state 不匹配，请重新发起授权');
+  }
+
+  const result = await auth(provider, { serverUrl: server.baseUrl, authorizationCode: code, fetchFn });
+  if (result !== 'AUTHORIZED') {
+    throw new Error('授权未完成，请重试');
+  }
+  log.info('授权完成', { serverId: server.id });
+}
+
+/**
+ * 在系统浏览器中完成授权：打开授权页，重定向到回调地址后用授权码换取令牌
+ *
+ * @returns 用户关闭浏览器取消授权时返回 false
+ */
+export async function authorizeInBrowser(server: MCPServer, authorizationUrl: URL): Promise<boolean> {
+  const result = await WebBrowser.openAuthSessionAsync(authorizationUrl.toString(), getOAuthRedirectUrl());
+  if (result.type !== 'success') {
+    log.info('授权已取消', { serverId: server.id, type: result.type });
+    return false;
+  }
+  await completeAuthorization(server, result.url);
+  return true;
+}
+
+/**
+ * 退出授权：清除令牌与客户端注册信息
+ */
+export async function signOut(serverId: string): Promise<void> {
+  await McpServersRepository.saveOAuthState(serverId, null);
+  pendingAuthorizations.delete(serverId);
+  log.info('已清除授权', { serverId });
+  notify(serverId);
+}
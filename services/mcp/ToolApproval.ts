@@ -0,0 +1,89 @@
+/**
+ * MCP 工具调用审批
+ *
+ * 工具执行前暂停并等待用户在消息中的审批卡片上选择：
+ * - once: 允许本次调用
+ * - always: 始终允许该工具（写入服务器的工具策略）
+ * - deny: 拒绝本次调用（拒绝结果返回给模型）
+ *
+ * 待审批请求保存在内存中，变化时发出 MCP_TOOL_APPROVAL_CHANGED 事件；
+ * 生成被中止时自动按拒绝处理。
+ *
+ * @module services/mcp/ToolApproval
+ */
+
+import { appEvents, AppEvents } from '@/utils/events';
+import { logger } from '@/utils/logger';
+
+const log = logger.createNamespace('ToolApproval');
+
+export type ToolApprovalDecision = 'once' | 'always' | 'deny';
+
+export interface ToolApprovalRequest {
+  toolCallId: string;
+  toolName: string;
+  serverId: string;
+  serverName: string;
+  args: unknown;
+  /** 发起调用的助手消息（审批卡片显示在该消息中） */
+  messageId?: string;
+  requestedAt: number;
+}
+
+const pending = new Map<string, {
+  request: ToolApprovalRequest;
+  resolve: (decision: ToolApprovalDecision) => void;
+}>();
+
+function notify(): void {
+  appEvents.emit(AppEvents.MCP_TOOL_APPROVAL_CHANGED);
+}
+
+/**
+ * 请求用户审批一次工具调用，返回用户的选择
+ */
+export function requestToolApproval(
+  request: Omit<ToolApprovalRequest, 'requestedAt'>,
+  abortSignal?: AbortSignal
+): Promise<ToolApprovalDecision> {
+  if (abortSignal?.aborted) return Promise.resolve('deny');
+
+  return new Promise((resolve) => {
+    const onAbort = () => resolveToolApproval(request.toolCallId, 'deny');
+
+    pending.set(request.toolCallId, {
+      request: { ...request, requestedAt: Date.now() },
+      resolve: (decision) => {
+        abortSignal?.removeEventListener('abort', onAbort);
+        resolve(decision);
+      },
+    });
+    abortSignal?.addEventListener('abort', onAbort);
+
+    log.info('等待用户审批工具调用', { toolName: request.toolName, toolCallId: request.toolCallId });
+    notify();
+  });
+}
+
+/**
+ * 提交审批结果（请求不存在时忽略）
+ */
+export function resolveToolApproval(toolCallId: string, decision: ToolApprovalDecision): void {
+  const entry = pending.get(toolCallId);
+  if (!entry) return;
+
+  pending.delete(toolCallId);
+  log.info('工具调用审批结果', { toolName: entry.request.toolName, toolCallId, decision });
+  entry.resolve(decision);
+  notify();
+}
+
+/**
+ * 获取待审批的请求（可按消息筛选），按请求时间排序
+ */
+export function getPendingApprovals(messageId?: string): ToolApprovalRequest[] {
+  return [...pending.values()]
+    .map((entry) => entry.request)
+    .filter((request) => !messageId || request.messageId === messageId)
+    .sort((a, b) => a.requestedAt - b.requestedAt);
+}
@@ -44,9 +44,12 @@ export function isToolAutoApproved(tool: MCPTool, server?: MCPServer): boolean {
     return true;
   }
 
-  // 检查服务器的禁用自动批准列表
+  // 禁用自动批准的工具始终询问，其余仅"始终允许"的工具自动批准
   const effectiveServer = server ?? getMcpServerByTool(tool);
-  return effectiveServer ? !effectiveServer.disabledAutoApproveTools?.includes(tool.name) : false;
+  if (!effectiveServer || effectiveServer.disabledAutoApproveTools?.includes(tool.name)) {
+    return false;
+  }
+  return effectiveServer.toolPolicies?.[tool.name] === 'always';
 }
 
 /**
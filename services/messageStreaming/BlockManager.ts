@@ -6,10 +6,12 @@
  * - 提供块的添加、更新、删除操作
  * - 维护 toolCallId → blockId 映射（用于工具回调时快速查找）
  * - 通过事件将 streaming 内容推送到 UI，结束时一次性写入数据库
+ * - 生成过程中定期（以及应用切到后台时）写入检查点，应用被杀后可从已保存的部分继续
  *
  * 创建日期: 2025-11-14
  */
 
+import { AppState, type NativeEventSubscription } from 'react-native';
 import { MessageBlock, MessageBlockType, MessageBlockStatus, now, uuid } from '@/storage/core';
 import { MessageBlocksRepository } from '@/storage/repositories/message-blocks';
 import { logger } from '@/utils/logger';
@@ -17,6 +19,33 @@ import { appEvents, AppEvents } from '@/utils/events';
 
 const log = logger.createNamespace('BlockManager');
 
+/** 检查点写入间隔 */
+const CHECKPOINT_INTERVAL_MS = 2000;
+
+/** 正在生成的块管理器（应用切到后台时统一写入检查点） */
+const activeManagers = new Set<BlockManager>();
+let appStateSubscription: NativeEventSubscription | null = null;
+
+function trackActive(manager: BlockManager, active: boolean): void {
+  if (active) {
+    activeManagers.add(manager);
+  } else {
+    activeManagers.delete(manager);
+  }
+
+  if (activeManagers.size > 0 && !appStateSubscription) {
+    appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state !== 'background') return;
+      for (const m of activeManagers) {
+        void m.checkpoint();
+      }
+    });
+  } else if (activeManagers.size === 0 && appStateSubscription) {
+    appStateSubscription.remove();
+    appStateSubscription = null;
+  }
+}
+
 /**
  * 块管理器类
  */
@@ -33,9 +62,26 @@ export class BlockManager {
   /** 是否已完成持久化，避免重复写入 */
   private persisted = false;
 
-  constructor(messageId: string) {
+  /** 检查点定时器与正在进行的写入 */
+  private checkpointTimer: ReturnType<typeof setTimeout> | null = null;
+  private checkpointWrite: Promise<void> = Promise.resolve();
+  private dirty = false;
+
+  /**
+   * @param initialBlocks 继续生成时载入已保存的块（正文在其基础上追加）
+   */
+  constructor(messageId: string, initialBlocks: MessageBlock[] = []) {
     this.messageId = messageId;
-    log.debug('BlockManager 初始化', { messageId });
+    this.blocks = [...initialBlocks]
+      .sort((a, b) => a.sortOrder - b.sortOrder)
+      .map((block, index) => ({ ...block, sortOrder: index }));
+    for (const block of this.blocks) {
+      if (block.type === 'TOOL' && block.toolCallId) {
+        this.toolCallMap.set(block.toolCallId, block.id);
+      }
+    }
+    trackActive(this, true);
+    log.debug('BlockManager 初始化', { messageId, initialBlocks: this.blocks.length });
   }
 
   /**
@@ -69,6 +115,7 @@ export class BlockManager {
     };
 
     this.blocks.push(block);
+    this.scheduleCheckpoint();
 
     if (input.type === 'TOOL' && input.toolCallId) {
       this.toolCallMap.set(input.toolCallId, block.id);
@@ -127,6 +174,7 @@ export class BlockManager {
     block.updatedAt = now();
 
     this.emitStreamingUpdate();
+    this.scheduleCheckpoint();
 
     // ⚡ 性能优化：移除频繁的块更新日志（流式响应时每个 token 都会触发）
     // 仅在状态改变时打印日志
@@ -148,20 +196,11 @@ export class BlockManager {
       return;
     }
 
+    this.cancelCheckpoint();
     try {
-      await MessageBlocksRepository.deleteBlocksByMessageId(this.messageId);
-      for (const block of this.blocks) {
-        await MessageBlocksRepository.addBlock({
-          messageId: this.messageId,
-          type: block.type,
-          status: block.status,
-          content: block.content,
-          sortOrder: block.sortOrder,
-          toolCallId: block.toolCallId ?? null,
-          toolName: block.toolName ?? null,
-          toolArgs: block.toolArgs ?? null,
-        });
-      }
+      // 等待进行中的检查点写入，避免与最终写入交错
+      await this.checkpointWrite;
+      await this.writeBlocks();
       this.persisted = true;
       log.debug('消息块已持久化', { messageId: this.messageId, blockCount: this.blocks.length });
       appEvents.emit(AppEvents.MESSAGE_CHANGED);
@@ -171,6 +210,24 @@ export class BlockManager {
     }
   }
 
+  /**
+   * 写入检查点：将当前内存块保存到数据库（不改变完成状态，可重复调用）
+   */
+  async checkpoint(): Promise<void> {
+    this.cancelCheckpoint();
+    if (this.persisted || !this.dirty) return;
+    this.dirty = false;
+
+    this.checkpointWrite = this.checkpointWrite
+      .then(() => (this.persisted ? undefined : this.writeBlocks()))
+      .catch((error) => {
+        // 检查点失败不影响生成，下次变更时重试
+        this.dirty = true;
+        log.warn('写入检查点失败', { messageId: this.messageId, error });
+      });
+    await this.checkpointWrite;
+  }
+
   /**
    * 通过 toolCallId 查找块
    *
@@ -199,6 +256,8 @@ export class BlockManager {
    */
   async cleanup(): Promise<void> {
     const blockCount = this.blocks.length;
+    this.cancelCheckpoint();
+    trackActive(this, false);
     this.toolCallMap.clear();
     this.emitStreamingClear();
     this.blocks = [];
@@ -220,6 +279,40 @@ export class BlockManager {
     log.debug('工具调用映射已清除', { toolCallId });
   }
 
+  /** 覆盖写入当前消息的全部块 */
+  private async writeBlocks(): Promise<void> {
+    await MessageBlocksRepository.deleteBlocksByMessageId(this.messageId);
+    for (const block of this.blocks) {
+      await MessageBlocksRepository.addBlock({
+        messageId: this.messageId,
+        type: block.type,
+        status: block.status,
+        content: block.content,
+        sortOrder: block.sortOrder,
+        toolCallId: block.toolCallId ?? null,
+        toolName: block.toolName ?? null,
+        toolArgs: block.toolArgs ?? null,
+      });
+    }
+  }
+
+  /** 标记有未保存的变更，并在间隔到达后写入检查点 */
+  private scheduleCheckpoint(): void {
+    this.dirty = true;
+    if (this.checkpointTimer || this.persisted) return;
+    this.checkpointTimer = setTimeout(() => {
+      this.checkpointTimer = null;
+      void this.checkpoint();
+    }, CHECKPOINT_INTERVAL_MS);
+  }
+
+  private cancelCheckpoint(): void {
+    if (this.checkpointTimer) {
+      clearTimeout(this.checkpointTimer);
+      this.checkpointTimer = null;
+    }
+  }
+
   /** 发出当前块的流式快照 */
   private emitStreamingUpdate(): void {
     const snapshot = this.blocks.map(block => ({ ...block }));
@@ -0,0 +1,98 @@
+/**
+ * SecretStore 单元测试
+ */
+
+import { SecretStore } from '../secret-store';
+
+// 系统安全存储：保存在内存中
+jest.mock('expo-secure-store', () => {
+  const items = new Map<string, string>();
+  return {
+    WHEN_UNLOCKED_THIS_DEVICE_ONLY: 'WHEN_UNLOCKED_THIS_DEVICE_ONLY',
+    getItemAsync: jest.fn(async (key: string) => items.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => {
+      items.set(key, value);
+    }),
+  };
+});
+
+jest.mock('expo-crypto', () => {
+  const { randomBytes } = jest.requireActual<typeof import('crypto')>('crypto');
+  return {
+    getRandomBytes: (length: number) => new Uint8Array(randomBytes(length)),
+  };
+});
+
+describe('SecretStore', () => {
+  beforeAll(() => {
+    // 解密失败时的告警日志
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('device key', () => {
+    it('should round-trip a secret through encrypt and decrypt', async () => {
+      const encrypted = await SecretStore.encrypt('sk-test-密钥');
+
+      expect(encrypted).toMatch(/^enc:v1:[0-9a-f]+$/);
+      expect(encrypted).not.toContain('sk-test');
+      expect(SecretStore.isEncrypted(encrypted)).toBe(true);
+      await expect(SecretStore.decrypt(encrypted)).resolves.toBe('sk-test-密钥');
+    });
+
+    it('should use a fresh nonce for every encryption', async () => {
+      const a = await SecretStore.encrypt('same');
+      const b = await SecretStore.encrypt('same');
+
+      expect(a).not.toBe(b);
+    });
+
+    it('should not encrypt an already encrypted value twice', async () => {
+      const encrypted = await SecretStore.encrypt('secret');
+
+      await expect(SecretStore.encrypt(encrypted)).resolves.toBe(encrypted);
+    });
+
+    it('should encrypt plaintext that only looks like the encrypted prefix', async () => {
+      const plaintext = 'enc:v1:not-a-ciphertext';
+
+      expect(SecretStore.isEncrypted(plaintext)).toBe(false);
+      const encrypted = await SecretStore.encrypt(plaintext);
+      expect(encrypted).not.toBe(plaintext);
+      await expect(SecretStore.decrypt(encrypted)).resolves.toBe(plaintext);
+    });
+
+    it('should return legacy plaintext values unchanged', async () => {
+      await expect(SecretStore.decrypt('sk-legacy')).resolves.toBe('sk-legacy');
+    });
+
+    it('should return null for a tampered ciphertext', async () => {
+      const encrypted = await SecretStore.encrypt('secret');
+      const last = encrypted.slice(-1) === '0' ? '1' : '0';
+
+      await expect(SecretStore.decrypt(encrypted.slice(0, -1) + last)).resolves.toBeNull();
+    });
+  });
+
+  describe('passphrase cipher', () => {
+    it('should round-trip a secret with the same passphrase and parameters', async () => {
+      const exporter = await SecretStore.createPassphraseCipher('correct horse');
+      const encrypted = exporter.encrypt('sk-backup');
+      const importer = await SecretStore.createPassphraseCipher('correct horse', exporter.params);
+
+      expect(encrypted.startsWith('encp:v1:')).toBe(true);
+      expect(importer.decrypt(encrypted)).toBe('sk-backup');
+    });
+
+    it('should reject a wrong passphrase', async () => {
+      const exporter = await SecretStore.createPassphraseCipher('correct horse');
+      const encrypted = exporter.encrypt('sk-backup');
+      const importer = await SecretStore.createPassphraseCipher('wrong', exporter.params);
+
+      expect(() => importer.decrypt(encrypted)).toThrow('备份密码错误或备份文件已损坏');
+    });
+  });
+});
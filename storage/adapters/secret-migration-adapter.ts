@@ -0,0 +1,67 @@
+/**
+ * Secret Migration Adapter
+ * 明文敏感数据到加密存储的迁移适配器
+ */
+
+import { ProvidersRepository, type ProviderId } from '@/storage/repositories/providers';
+import { CustomProvidersRepository } from '@/storage/repositories/custom-providers';
+import { ProviderKeysRepository } from '@/storage/repositories/provider-keys';
+import { McpServersRepository } from '@/storage/repositories/mcp';
+import { logger } from '@/utils/logger';
+
+/**
+ * 敏感数据加密迁移适配器
+ */
+export const SecretMigrationAdapter = {
+  /**
+   * 将已有的明文 API Key 与 MCP 认证请求头改为加密存储
+   * 在应用启动时调用；已加密的值会被跳过，可重复执行
+   */
+  async encryptPlaintextSecrets(): Promise<void> {
+    const providers: ProviderId[] = [
+      'openai',
+      'anthropic',
+      'google',
+      'gemini',
+      'deepseek',
+      'volc',
+      'zhipu',
+    ];
+
+    const counts = { providerKeys: 0, customProviderKeys: 0, multiKeys: 0, mcpHeaders: 0 };
+
+    // 1. 单 Key 模式的提供商 API Key（AsyncStorage）
+    for (const providerId of providers) {
+      try {
+        if (await ProvidersRepository.encryptStoredApiKey(providerId)) counts.providerKeys++;
+      } catch (error) {
+        logger.error('[SecretMigrationAdapter] 加密提供商 API Key 失败', error, { providerId });
+      }
+    }
+
+    // 2. 自定义提供商 API Key（AsyncStorage）
+    try {
+      counts.customProviderKeys = await CustomProvidersRepository.encryptStoredApiKeys();
+    } catch (error) {
+      logger.error('[SecretMigrationAdapter] 加密自定义提供商 API Key 失败', error);
+    }
+
+    // 3. 多 Key 表（provider_api_keys.key）
+    try {
+      counts.multiKeys = await ProviderKeysRepository.encryptStoredKeys();
+    } catch (error) {
+      logger.error('[SecretMigrationAdapter] 加密多 Key 表失败', error);
+    }
+
+    // 4. MCP 服务器认证请求头（mcp_servers.headers）
+    try {
+      counts.mcpHeaders = await McpServersRepository.encryptStoredHeaders();
+    } catch (error) {
+      logger.error('[SecretMigrationAdapter] 加密 MCP 请求头失败', error);
+    }
+
+    if (Object.values(counts).some((n) => n > 0)) {
+      logger.info('[SecretMigrationAdapter] 明文敏感数据已加密', counts);
+    }
+  },
+};
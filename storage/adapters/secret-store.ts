@@ -0,0 +1,164 @@
+/**
+ * Secret Store
+ * 敏感数据（API Key、MCP 认证请求头）加密存储适配器
+ *
+ * - 设备密钥：首次使用时随机生成 256 位密钥，保存在系统安全存储（iOS Keychain / Android Keystore），
+ *   仅本机可用且不随系统备份迁移
+ * - 存储格式：`enc:v1:<hex(nonce || 密文)>`，AES-256-GCM
+ * - 兼容旧数据：未带前缀的值视为明文，读取时原样返回，由启动迁移统一加密
+ * - 备份密码：导出备份时可使用用户密码（PBKDF2-SHA256 派生密钥）重新加密，格式为 `encp:v1:<hex>`
+ */
+
+import * as SecureStore from 'expo-secure-store';
+import { getRandomBytes } from 'expo-crypto';
+import { gcm } from '@noble/ciphers/aes';
+import { bytesToHex, bytesToUtf8, hexToBytes, utf8ToBytes } from '@noble/ciphers/utils';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { ValidationError } from '@/utils/errors';
+import { ErrorCode } from '@/utils/error-codes';
+import { logger } from '@/utils/logger';
+
+const DEVICE_KEY_NAME = 'aetherlink.secret_key.v1';
+const DEVICE_PREFIX = 'enc:v1:';
+const PASSPHRASE_PREFIX = 'encp:v1:';
+const KEY_BYTES = 32;
+const NONCE_BYTES = 12;
+const TAG_BYTES = 16;
+const HEX_REGEX = /^(?:[0-9a-f]{2})+$/i;
+
+/** 备份密码派生参数（写入备份文件，恢复时按相同参数派生） */
+export interface PassphraseKdfParams {
+  kdf: 'pbkdf2-sha256';
+  iterations: number;
+  salt: string;
+}
+
+/** PBKDF2 迭代次数（纯 JS 实现，兼顾强度与移动端耗时） */
+const PBKDF2_ITERATIONS = 100_000;
+
+let deviceKeyPromise: Promise<Uint8Array> | null = null;
+
+/**
+ * 读取设备密钥（不存在时生成），整个进程内只加载一次
+ */
+function getDeviceKey(): Promise<Uint8Array> {
+  if (!deviceKeyPromise) {
+    deviceKeyPromise = (async () => {
+      const options = { keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY };
+      const stored = await SecureStore.getItemAsync(DEVICE_KEY_NAME, options);
+      if (stored) return hexToBytes(stored);
+
+      const key = getRandomBytes(KEY_BYTES);
+      await SecureStore.setItemAsync(DEVICE_KEY_NAME, bytesToHex(key), options);
+      logger.info('[SecretStore] 已生成设备密钥');
+      return key;
+    })().catch((e) => {
+      // 失败后允许下次重试
+      deviceKeyPromise = null;
+      throw e;
+    });
+  }
+  return deviceKeyPromise;
+}
+
+function seal(key: Uint8Array, plaintext: string): string {
+  const nonce = getRandomBytes(NONCE_BYTES);
+  const sealed = gcm(key, nonce).encrypt(utf8ToBytes(plaintext));
+  const out = new Uint8Array(nonce.length + sealed.length);
+  out.set(nonce, 0);
+  out.set(sealed, nonce.length);
+  return bytesToHex(out);
+}
+
+/**
+ * 是否为 seal 输出的格式（十六进制，至少包含 nonce 与 GCM 认证标签）
+ */
+function isSealedHex(hex: string): boolean {
+  return hex.length >= (NONCE_BYTES + TAG_BYTES) * 2 && HEX_REGEX.test(hex);
+}
+
+function open(key: Uint8Array, hex: string): string {
+  const bytes = hexToBytes(hex);
+  const nonce = bytes.subarray(0, NONCE_BYTES);
+  return bytesToUtf8(gcm(key, nonce).decrypt(bytes.subarray(NONCE_BYTES)));
+}
+
+/**
+ * 使用备份密码加解密（一次备份只派生一次密钥）
+ */
+export interface PassphraseCipher {
+  params: PassphraseKdfParams;
+  encrypt(plaintext: string): string;
+  /** @throws ValidationError 密码错误或数据损坏 */
+  decrypt(value: string): string;
+}
+
+export const SecretStore = {
+  /**
+   * 是否为设备密钥加密后的值（校验前缀与密文格式，仅以前缀开头的明文不算）
+   */
+  isEncrypted(value: string | null | undefined): boolean {
+    return typeof value === 'string' && value.startsWith(DEVICE_PREFIX) && isSealedHex(value.slice(DEVICE_PREFIX.length));
+  },
+
+  /**
+   * 使用设备密钥加密（格式有效的已加密值原样返回）
+   */
+  async encrypt(plaintext: string): Promise<string> {
+    if (this.isEncrypted(plaintext)) return plaintext;
+    const key = await getDeviceKey();
+    return DEVICE_PREFIX + seal(key, plaintext);
+  },
+
+  /**
+   * 使用设备密钥解密
+   *
+   * 明文（旧数据）原样返回；无法解密（设备密钥丢失、数据损坏）时返回 null，由调用方按"未配置"处理
+   */
+  async decrypt(value: string): Promise<string | null> {
+    if (!this.isEncrypted(value)) return value;
+    try {
+      const key = await getDeviceKey();
+      return open(key, value.slice(DEVICE_PREFIX.length));
+    } catch (e) {
+      logger.warn('[SecretStore] 解密失败，已忽略该值', e);
+      return null;
+    }
+  },
+
+  /**
+   * 根据备份密码创建加解密器
+   *
+   * @param params - 恢复备份时传入备份文件中的派生参数；导出时省略，自动生成随机盐
+   */
+  async createPassphraseCipher(passphrase: string, params?: PassphraseKdfParams): Promise<PassphraseCipher> {
+    const kdfParams: PassphraseKdfParams = params ?? {
+      kdf: 'pbkdf2-sha256',
+      iterations: PBKDF2_ITERATIONS,
+      salt: bytesToHex(getRandomBytes(16)),
+    };
+    const key = await pbkdf2Async(sha256, passphrase, hexToBytes(kdfParams.salt), {
+      c: kdfParams.iterations,
+      dkLen: KEY_BYTES,
+    });
+
+    return {
+      params: kdfParams,
+      encrypt: (plaintext) => PASSPHRASE_PREFIX + seal(key, plaintext),
+      decrypt: (value) => {
+        if (!value.startsWith(PASSPHRASE_PREFIX)) return value;
+        try {
+          return open(key, value.slice(PASSPHRASE_PREFIX.length));
+        } catch (e) {
+          throw new ValidationError(
+            '备份密码错误或备份文件已损坏',
+            ErrorCode.VAL_ERR_INVALID_DATA,
+            { field: '备份密码' },
+            e instanceof Error ? e : undefined
+          );
+        }
+      },
+    };
+  },
+};
@@ -40,13 +40,19 @@ export interface Conversation {
   extra?: any;
 }
 
+/**
+ * 消息状态
+ * - queued：离线时发送的用户消息，联网后按顺序自动发送
+ */
+export type MessageStatus = 'pending' | 'sent' | 'failed' | 'queued';
+
 export interface Message {
   id: string;
   conversationId: string;
   role: Role;
   text?: string | null;
   createdAt: number;
-  status: 'pending' | 'sent' | 'failed';
+  status: MessageStatus;
   parentId?: string | null;
   extra?: any;
 }
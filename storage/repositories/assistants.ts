@@ -6,12 +6,22 @@
 
 import { IKeyValueStore } from '@/storage/core';
 import { AsyncKVStore } from '@/storage/adapters/async-storage';
-import type { Assistant } from '@/types/assistant';
+import type { Assistant, AssistantSettings } from '@/types/assistant';
 import { SYSTEM_ASSISTANTS, getAssistantById } from '@/constants/assistants';
 import { withRepositoryContext } from './error-handler';
 
 const ENABLED_ASSISTANTS_KEY = 'al:assistants:enabled'; // 用户启用的助手 ID 列表
 const CUSTOM_ASSISTANTS_KEY = 'al:assistants:custom'; // 用户自定义助手
+const ASSISTANT_SETTINGS_KEY = 'al:assistants:settings'; // 助手对话设置（系统助手与自定义助手通用）
+const TEMPLATE_VALUES_KEY = 'al:assistants:template_values'; // 助手提示词模板变量的填写值
+
+/**
+ * 合并助手对话设置（系统预设助手不可修改，设置单独存储）
+ */
+function withSettings(assistant: Assistant, settingsMap: Record<string, AssistantSettings> | null): Assistant {
+  const settings = settingsMap?.[assistant.id];
+  return settings ? { ...assistant, settings } : assistant;
+}
 
 export const AssistantsRepository = (store: IKeyValueStore = AsyncKVStore) => ({
   /**
@@ -22,12 +32,13 @@ export const AssistantsRepository = (store: IKeyValueStore = AsyncKVStore) => ({
     return withRepositoryContext('AssistantsRepository', 'getAll', { storage: 'AsyncStorage' }, async () => {
       const enabledIds = await store.get<string[]>(ENABLED_ASSISTANTS_KEY);
       const customAssistants = await store.get<Assistant[]>(CUSTOM_ASSISTANTS_KEY);
+      const settingsMap = await store.get<Record<string, AssistantSettings>>(ASSISTANT_SETTINGS_KEY);
 
       // 如果是第一次使用，初始化为只包含默认助手
       if (!enabledIds) {
         await store.set(ENABLED_ASSISTANTS_KEY, ['default']);
         const defaultAssistant = getAssistantById('default');
-        return defaultAssistant ? [defaultAssistant] : [];
+        return defaultAssistant ? [withSettings(defaultAssistant, settingsMap)] : [];
       }
 
       // 从系统预设中获取启用的助手
@@ -35,7 +46,7 @@ export const AssistantsRepository = (store: IKeyValueStore = AsyncKVStore) => ({
         .map(id => getAssistantById(id))
         .filter((a): a is Assistant => a !== undefined);
 
-      return [...systemAssistants, ...(customAssistants || [])];
+      return [...systemAssistants, ...(customAssistants || [])].map(a => withSettings(a, settingsMap));
     });
   },
 
@@ -50,7 +61,52 @@ export const AssistantsRepository = (store: IKeyValueStore = AsyncKVStore) => ({
       if (found) return found;
 
       // 如果没找到，尝试从系统预设中查找
-      return getAssistantById(id);
+      const preset = getAssistantById(id);
+      if (!preset) return undefined;
+      const settingsMap = await store.get<Record<string, AssistantSettings>>(ASSISTANT_SETTINGS_KEY);
+      return withSettings(preset, settingsMap);
+    });
+  },
+
+  /**
+   * 获取助手对话设置
+   */
+  async getSettings(id: string): Promise<AssistantSettings> {
+    return withRepositoryContext('AssistantsRepository', 'getSettings', { id, storage: 'AsyncStorage' }, async () => {
+      const assistant = await this.getById(id);
+      return assistant?.settings ?? {};
+    });
+  },
+
+  /**
+   * 保存助手对话设置（整体替换）
+   */
+  async updateSettings(id: string, settings: AssistantSettings): Promise<void> {
+    return withRepositoryContext('AssistantsRepository', 'updateSettings', { id, storage: 'AsyncStorage' }, async () => {
+      const settingsMap = (await store.get<Record<string, AssistantSettings>>(ASSISTANT_SETTINGS_KEY)) || {};
+      settingsMap[id] = settings;
+      await store.set(ASSISTANT_SETTINGS_KEY, settingsMap);
+    });
+  },
+
+  /**
+   * 获取助手系统提示词中模板变量的填写值
+   */
+  async getTemplateValues(id: string): Promise<Record<string, string>> {
+    return withRepositoryContext('AssistantsRepository', 'getTemplateValues', { id, storage: 'AsyncStorage' }, async () => {
+      const valuesMap = await store.get<Record<string, Record<string, string>>>(TEMPLATE_VALUES_KEY);
+      return valuesMap?.[id] ?? {};
+    });
+  },
+
+  /**
+   * 保存助手系统提示词中模板变量的填写值（整体替换）
+   */
+  async setTemplateValues(id: string, values: Record<string, string>): Promise<void> {
+    return withRepositoryContext('AssistantsRepository', 'setTemplateValues', { id, storage: 'AsyncStorage' }, async () => {
+      const valuesMap = (await store.get<Record<string, Record<string, string>>>(TEMPLATE_VALUES_KEY)) || {};
+      valuesMap[id] = values;
+      await store.set(TEMPLATE_VALUES_KEY, valuesMap);
     });
   },
 
@@ -186,6 +242,12 @@ export const AssistantsRepository = (store: IKeyValueStore = AsyncKVStore) => ({
 
       const filtered = custom.filter(a => a.id !== id);
       await this.saveCustom(filtered);
+
+      const settingsMap = await store.get<Record<string, AssistantSettings>>(ASSISTANT_SETTINGS_KEY);
+      if (settingsMap?.[id]) {
+        delete settingsMap[id];
+        await store.set(ASSISTANT_SETTINGS_KEY, settingsMap);
+      }
     });
   },
 
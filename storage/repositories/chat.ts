@@ -1,5 +1,7 @@
 import { Conversation, now, uuid, safeJSON } from '@/storage/core';
 import { execute, queryAll, queryOne } from '@/storage/sqlite/db';
+import type { TopicSettings } from '@/storage/types/topic-settings';
+import type { ConversationMemory } from '@/storage/types/conversation-memory';
 import { withRepositoryContext } from './error-handler';
 
 export const ChatRepository = {
@@ -118,40 +120,6 @@ export const ChatRepository = {
     });
   },
 
-  async getContextResetAt(id: string): Promise<number | null> {
-    return withRepositoryContext('ChatRepository', 'getContextResetAt', { conversationId: id, table: 'conversations' }, async () => {
-      const row = await queryOne<any>(`SELECT extra FROM conversations WHERE id = ?`, [id]);
-      if (!row || !row.extra) return null;
-      const obj = safeJSON.parse<any>(row.extra);
-      const v = obj?.contextResetAt;
-      return typeof v === 'number' ? v : null;
-    });
-  },
-
-  async setContextResetAt(id: string, ts: number): Promise<void> {
-    return withRepositoryContext('ChatRepository', 'setContextResetAt', { conversationId: id, timestamp: ts, table: 'conversations' }, async () => {
-      const row = await queryOne<any>(`SELECT extra FROM conversations WHERE id = ?`, [id]);
-      let obj: any = {};
-      if (row?.extra) {
-        const parsed = safeJSON.parse<any>(row.extra);
-        if (parsed && typeof parsed === 'object') obj = parsed;
-      }
-      obj.contextResetAt = ts;
-      await execute(`UPDATE conversations SET extra = ?, updated_at = ? WHERE id = ?`, [JSON.stringify(obj), now(), id]);
-    });
-  },
-
-  async clearContextReset(id: string): Promise<void> {
-    return withRepositoryContext('ChatRepository', 'clearContextReset', { conversationId: id, table: 'conversations' }, async () => {
-      const row = await queryOne<any>(`SELECT extra FROM conversations WHERE id = ?`, [id]);
-      if (!row?.extra) return;
-      const obj = safeJSON.parse<any>(row.extra) || {};
-      if (obj.contextResetAt !== undefined) delete obj.contextResetAt;
-      const newExtra = Object.keys(obj).length ? JSON.stringify(obj) : null;
-      await execute(`UPDATE conversations SET extra = ?, updated_at = ? WHERE id = ?`, [newExtra, now(), id]);
-    });
-  },
-
   /**
    * 获取话题级别的模型选择
    * @param id 话题 ID
@@ -206,4 +174,134 @@ export const ChatRepository = {
       await execute(`UPDATE conversations SET extra = ?, updated_at = ? WHERE id = ?`, [newExtra, now(), id]);
     });
   },
+
+  /**
+   * 获取话题设置覆盖
+   * @param id 话题 ID
+   * @returns 话题设置（未设置时为空对象）
+   */
+  async getTopicSettings(id: string): Promise<TopicSettings> {
+    return withRepositoryContext('ChatRepository', 'getTopicSettings', { conversationId: id, table: 'conversations' }, async () => {
+      const row = await queryOne<any>(`SELECT extra FROM conversations WHERE id = ?`, [id]);
+      if (!row || !row.extra) return {};
+      const obj = safeJSON.parse<any>(row.extra);
+      const settings = obj?.settings;
+      return settings && typeof settings === 'object' ? settings : {};
+    });
+  },
+
+  /**
+   * 保存话题设置覆盖（整体替换，空设置时移除）
+   * @param id 话题 ID
+   * @param settings 话题设置
+   */
+  async setTopicSettings(id: string, settings: TopicSettings): Promise<void> {
+    return withRepositoryContext('ChatRepository', 'setTopicSettings', { conversationId: id, table: 'conversations' }, async () => {
+      const row = await queryOne<any>(`SELECT extra FROM conversations WHERE id = ?`, [id]);
+      let obj: any = {};
+      if (row?.extra) {
+        const parsed = safeJSON.parse<any>(row.extra);
+        if (parsed && typeof parsed === 'object') obj = parsed;
+      }
+      const cleaned = Object.fromEntries(
+        Object.entries(settings).filter(([, v]) => v !== undefined)
+      );
+      if (Object.keys(cleaned).length) {
+        obj.settings = cleaned;
+      } else {
+        delete obj.settings;
+      }
+      const newExtra = Object.keys(obj).length ? JSON.stringify(obj) : null;
+      await execute(`UPDATE conversations SET extra = ?, updated_at = ? WHERE id = ?`, [newExtra, now(), id]);
+    });
+  },
+
+  /**
+   * 获取话题的滚动摘要（对话记忆）
+   * @param id 话题 ID
+   * @returns 摘要或 null（尚未生成）
+   */
+  async getConversationMemory(id: string): Promise<ConversationMemory | null> {
+    return withRepositoryContext('ChatRepository', 'getConversationMemory', { conversationId: id, table: 'conversations' }, async () => {
+      const row = await queryOne<any>(`SELECT extra FROM conversations WHERE id = ?`, [id]);
+      if (!row || !row.extra) return null;
+      const obj = safeJSON.parse<any>(row.extra);
+      const memory = obj?.memory;
+      return memory && typeof memory.summary === 'string' ? memory : null;
+    });
+  },
+
+  /**
+   * 保存话题的滚动摘要（传入 null 清除）
+   * @param id 话题 ID
+   * @param memory 摘要
+   */
+  async setConversationMemory(id: string, memory: ConversationMemory | null): Promise<void> {
+    return withRepositoryContext('ChatRepository', 'setConversationMemory', { conversationId: id, table: 'conversations' }, async () => {
+      const row = await queryOne<any>(`SELECT extra FROM conversations WHERE id = ?`, [id]);
+      let obj: any = {};
+      if (row?.extra) {
+        const parsed = safeJSON.parse<any>(row.extra);
+        if (parsed && typeof parsed === 'object') obj = parsed;
+      }
+      if (memory) {
+        obj.memory = memory;
+      } else {
+        delete obj.memory;
+      }
+      // 摘要更新不算话题更新，不修改 updated_at
+      const newExtra = Object.keys(obj).length ? JSON.stringify(obj) : null;
+      await execute(`UPDATE conversations SET extra = ? WHERE id = ?`, [newExtra, id]);
+    });
+  },
+
+  /**
+   * 沿用已有话题的设置新建话题（只复制设置，不复制消息）
+   * @param sourceId 源话题 ID
+   * @param title 新话题标题
+   */
+  async createConversationFrom(sourceId: string, title?: string | null): Promise<Conversation> {
+    return withRepositoryContext('ChatRepository', 'createConversationFrom', { sourceId, table: 'conversations' }, async () => {
+      const settings = await this.getTopicSettings(sourceId);
+      const conv = await this.createConversation(title);
+      if (Object.keys(settings).length) {
+        await this.setTopicSettings(conv.id, settings);
+      }
+      return conv;
+    });
+  },
+
+  /**
+   * 获取话题当前激活的分支叶子消息
+   * @param id 话题 ID
+   * @returns 叶子消息 ID 或 null（未设置时由调用方回退到最新消息）
+   */
+  async getActiveLeafId(id: string): Promise<string | null> {
+    return withRepositoryContext('ChatRepository', 'getActiveLeafId', { conversationId: id, table: 'conversations' }, async () => {
+      const row = await queryOne<any>(`SELECT extra FROM conversations WHERE id = ?`, [id]);
+      if (!row || !row.extra) return null;
+      const obj = safeJSON.parse<any>(row.extra);
+      const v = obj?.activeLeafId;
+      return typeof v === 'string' ? v : null;
+    });
+  },
+
+  /**
+   * 设置话题当前激活的分支叶子消息（切换分支 / 发送新消息时更新）
+   * @param id 话题 ID
+   * @param messageId 叶子消息 ID
+   */
+  async setActiveLeafId(id: string, messageId: string): Promise<void> {
+    return withRepositoryContext('ChatRepository', 'setActiveLeafId', { conversationId: id, messageId, table: 'conversations' }, async () => {
+      const row = await queryOne<any>(`SELECT extra FROM conversations WHERE id = ?`, [id]);
+      let obj: any = {};
+      if (row?.extra) {
+        const parsed = safeJSON.parse<any>(row.extra);
+        if (parsed && typeof parsed === 'object') obj = parsed;
+      }
+      obj.activeLeafId = messageId;
+      // 切换分支不算话题更新，不修改 updated_at
+      await execute(`UPDATE conversations SET extra = ? WHERE id = ?`, [JSON.stringify(obj), id]);
+    });
+  },
 };
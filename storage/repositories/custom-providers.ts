@@ -1,28 +1,53 @@
 import { AsyncKVStore } from '@/storage/adapters/async-storage';
+import { SecretStore } from '@/storage/adapters/secret-store';
 import { safeJSON, uuid } from '@/storage/core';
+import { logger } from '@/utils/logger';
 import { withRepositoryContext } from './error-handler';
 
 export type CustomProviderType = 'openai-compatible' | 'anthropic' | 'google';
 
+/** 自定义提供商 ID（与内置提供商 ID 区分） */
+export type CustomProviderId = `cp-${string}`;
+
 export interface CustomProvider {
-  id: string;                 // cp-xxxx
+  id: CustomProviderId;       // cp-xxxx
   name: string;               // 显示名称
   type: CustomProviderType;   // 用于自动选择 SDK
   baseURL?: string | null;    // 兼容型需要
   apiKey?: string | null;
+  streamOutput?: boolean | null; // 是否流式输出（null 表示跟随全局设置）
   enabled: boolean;
   createdAt: number;
 }
 
 const LIST_KEY = 'al:custom:providers:list';
 
-async function readList(): Promise<CustomProvider[]> {
+// API Key 使用设备密钥加密存储：对外读取时解密，写入时加密
+// 修改列表基于存储中的原值，解密失败的 API Key 保留密文，不会被写回为空
+async function readStoredList(): Promise<CustomProvider[]> {
   const raw = await AsyncKVStore.get<string>(LIST_KEY);
   return safeJSON.parse<CustomProvider[]>(raw) ?? [];
 }
 
+async function readList(): Promise<CustomProvider[]> {
+  const items = await readStoredList();
+  return Promise.all(
+    items.map(async (x) => {
+      if (!x.apiKey) return x;
+      const apiKey = await SecretStore.decrypt(x.apiKey);
+      if (apiKey === null) {
+        logger.error('[CustomProvidersRepository] API Key 解密失败，已保留密文', undefined, { providerId: x.id });
+      }
+      return { ...x, apiKey };
+    })
+  );
+}
+
 async function writeList(items: CustomProvider[]): Promise<void> {
-  await AsyncKVStore.set(LIST_KEY, JSON.stringify(items));
+  const stored = await Promise.all(
+    items.map(async (x) => (x.apiKey ? { ...x, apiKey: await SecretStore.encrypt(x.apiKey) } : x))
+  );
+  await AsyncKVStore.set(LIST_KEY, JSON.stringify(stored));
 }
 
 export const CustomProvidersRepository = {
@@ -32,10 +57,17 @@ export const CustomProvidersRepository = {
     });
   },
 
+  async get(id: string): Promise<CustomProvider | null> {
+    return withRepositoryContext('CustomProvidersRepository', 'get', { providerId: id, storage: 'AsyncStorage' }, async () => {
+      const list = await readList();
+      return list.find(x => x.id === id) ?? null;
+    });
+  },
+
   async add(input: { name: string; type: CustomProviderType; baseURL?: string | null; apiKey?: string | null; enabled?: boolean }): Promise<CustomProvider> {
     return withRepositoryContext('CustomProvidersRepository', 'add', { name: input.name, type: input.type, storage: 'AsyncStorage' }, async () => {
       const item: CustomProvider = {
-        id: `cp-${uuid()}`,
+        id: `cp-${uuid()}` as CustomProviderId,
         name: input.name.trim(),
         type: input.type,
         baseURL: input.baseURL ?? null,
@@ -43,7 +75,7 @@ export const CustomProvidersRepository = {
         enabled: input.enabled ?? true,
         createdAt: Date.now(),
       };
-      const list = await readList();
+      const list = await readStoredList();
       list.push(item);
       await writeList(list);
       return item;
@@ -52,7 +84,7 @@ export const CustomProvidersRepository = {
 
   async remove(id: string): Promise<void> {
     return withRepositoryContext('CustomProvidersRepository', 'remove', { providerId: id, storage: 'AsyncStorage' }, async () => {
-      const list = await readList();
+      const list = await readStoredList();
       const next = list.filter(x => x.id !== id);
       await writeList(next);
     });
@@ -60,7 +92,7 @@ export const CustomProvidersRepository = {
 
   async setEnabled(id: string, enabled: boolean): Promise<void> {
     return withRepositoryContext('CustomProvidersRepository', 'setEnabled', { providerId: id, enabled, storage: 'AsyncStorage' }, async () => {
-      const list = await readList();
+      const list = await readStoredList();
       const next = list.map(x => (x.id === id ? { ...x, enabled } : x));
       await writeList(next);
     });
@@ -68,9 +100,21 @@ export const CustomProvidersRepository = {
 
   async update(id: string, patch: Partial<Omit<CustomProvider, 'id' | 'createdAt'>>): Promise<void> {
     return withRepositoryContext('CustomProvidersRepository', 'update', { providerId: id, storage: 'AsyncStorage' }, async () => {
-      const list = await readList();
+      const list = await readStoredList();
       const next = list.map(x => (x.id === id ? { ...x, ...patch } : x));
       await writeList(next);
     });
   },
+
+  /**
+   * 将明文存储的 API Key 改为加密存储（启动迁移），返回处理数量
+   */
+  async encryptStoredApiKeys(): Promise<number> {
+    return withRepositoryContext('CustomProvidersRepository', 'encryptStoredApiKeys', { storage: 'AsyncStorage' }, async () => {
+      const items = await readStoredList();
+      const count = items.filter(x => x.apiKey && !SecretStore.isEncrypted(x.apiKey)).length;
+      if (count > 0) await writeList(items);
+      return count;
+    });
+  },
 };
@@ -1,5 +1,6 @@
 import { Conversation, Message, ThinkingChain, MessageBlock, Attachment } from '@/storage/core';
 import { queryOne } from '@/storage/sqlite/db';
+import { getContextSegment } from '@/utils/message-tree';
 import { ChatRepository } from './chat';
 import { MessageRepository } from './messages';
 import { ThinkingChainRepository } from './thinking-chains';
@@ -49,11 +50,16 @@ export const ExportRepository = {
    * 获取话题的导出数据（包含完整的消息和关联数据）
    *
    * @param conversationId 话题 ID
+   * @param options.segmentOnly 仅导出当前上下文段（最后一个上下文分界之后的消息）
    * @returns 完整的导出数据结构
    */
-  async getTopicExportData(conversationId: string): Promise<TopicExportData | null> {
+  async getTopicExportData(
+    conversationId: string,
+    options: { segmentOnly?: boolean } = {}
+  ): Promise<TopicExportData | null> {
     return withRepositoryContext('ExportRepository', 'getTopicExportData', {
       conversationId,
+      segmentOnly: !!options.segmentOnly,
       table: 'conversations, messages'
     }, async () => {
       // 1. 获取话题基本信息
@@ -62,17 +68,12 @@ export const ExportRepository = {
         return null;
       }
 
-      // 2. 获取消息列表（默认获取所有消息）
-      const messages = await MessageRepository.listMessages(conversationId, {
-        limit: 10000 // 设置一个较大的限制，避免分页
-      });
+      // 2. 获取当前激活分支上的消息（与聊天界面所见一致，不导出其他分支）
+      const { messages: path } = await MessageRepository.getActivePath(conversationId);
+      const messages = options.segmentOnly ? getContextSegment(path) : path;
 
-      // 3. 获取消息数量统计
-      const countRow = await queryOne<{ count: number }>(
-        `SELECT COUNT(*) as count FROM messages WHERE conversation_id = ?`,
-        [conversationId]
-      );
-      const messageCount = countRow?.count || 0;
+      // 3. 消息数量统计（按导出的分支路径计算）
+      const messageCount = messages.length;
 
       // 4. 批量获取所有关联数据
       const messageIds = messages.map(m => m.id);
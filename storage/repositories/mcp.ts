@@ -2,7 +2,7 @@
  * McpServersRepository - MCP 服务器数据访问层
  *
  * 提供 MCP 服务器配置的 CRUD 操作
- * 支持 Streamable HTTP 传输协议
+ * 支持 Streamable HTTP 与旧版 HTTP+SSE 传输协议
  *
  * 创建日期: 2025-11-12
  */
@@ -10,8 +10,12 @@
 import { execute, queryOne, queryAll } from '@/storage/sqlite/db';
 import { uuid, now } from '@/storage/core';
 import { withRepositoryContext } from './error-handler';
+import { SecretStore } from '@/storage/adapters/secret-store';
 import type {
   MCPServer,
+  McpOAuthState,
+  McpToolPolicy,
+  McpTransportType,
   CreateMCPServerInput,
   UpdateMCPServerInput,
 } from '@/types/mcp';
@@ -27,22 +31,45 @@ interface MCPServerRow {
   headers: string | null;
   timeout: number;
   is_active: number;
+  tool_policies: string | null;
+  disabled_tools: string | null;
+  transport_type: string | null;
+  oauth_state: string | null;
   created_at: number;
   updated_at: number;
 }
 
+/**
+ * 解密认证请求头（headers 列使用设备密钥加密，无法解密时视为未配置）
+ */
+async function readHeaders(stored: string | null): Promise<Record<string, string> | undefined> {
+  if (!stored) return undefined;
+  const json = await SecretStore.decrypt(stored);
+  return json ? JSON.parse(json) : undefined;
+}
+
+/**
+ * 加密认证请求头
+ */
+async function writeHeaders(headers: Record<string, string> | undefined): Promise<string | null> {
+  return headers ? SecretStore.encrypt(JSON.stringify(headers)) : null;
+}
+
 /**
  * 将数据库行转换为 MCPServer 对象
  */
-function rowToServer(row: MCPServerRow): MCPServer {
+async function rowToServer(row: MCPServerRow): Promise<MCPServer> {
   return {
     id: row.id,
     name: row.name,
+    type: (row.transport_type as McpTransportType | null) ?? undefined,
     baseUrl: row.base_url,
     description: row.description || undefined,
-    headers: row.headers ? JSON.parse(row.headers) : undefined,
+    headers: await readHeaders(row.headers),
     timeout: row.timeout,
     isActive: row.is_active === 1,
+    toolPolicies: row.tool_policies ? JSON.parse(row.tool_policies) : undefined,
+    disabledTools: row.disabled_tools ? JSON.parse(row.disabled_tools) : undefined,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -57,7 +84,7 @@ export const McpServersRepository = {
       const rows = await queryAll<MCPServerRow>(
         `SELECT * FROM mcp_servers ORDER BY created_at DESC`
       );
-      return rows.map(rowToServer);
+      return Promise.all(rows.map(rowToServer));
     });
   },
 
@@ -69,7 +96,7 @@ export const McpServersRepository = {
       const rows = await queryAll<MCPServerRow>(
         `SELECT * FROM mcp_servers WHERE is_active = 1 ORDER BY created_at DESC`
       );
-      return rows.map(rowToServer);
+      return Promise.all(rows.map(rowToServer));
     });
   },
 
@@ -84,7 +111,7 @@ export const McpServersRepository = {
       );
 
       if (!row) return null;
-      return rowToServer(row);
+      return await rowToServer(row);
     });
   },
 
@@ -99,7 +126,7 @@ export const McpServersRepository = {
       );
 
       if (!row) return null;
-      return rowToServer(row);
+      return await rowToServer(row);
     });
   },
 
@@ -113,16 +140,17 @@ export const McpServersRepository = {
 
       await execute(
         `INSERT INTO mcp_servers (
-          id, name, base_url, description, headers, timeout, is_active, created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          id, name, base_url, description, headers, timeout, is_active, transport_type, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
           id,
           input.name,
           input.baseUrl,
           input.description || null,
-          input.headers ? JSON.stringify(input.headers) : null,
+          await writeHeaders(input.headers),
           input.timeout || 60,
           input.isActive !== false ? 1 : 0, // 默认激活
+          input.type ?? null,
           timestamp,
           timestamp,
         ]
@@ -131,6 +159,7 @@ export const McpServersRepository = {
       return {
         id,
         name: input.name,
+        type: input.type,
         baseUrl: input.baseUrl,
         description: input.description,
         headers: input.headers,
@@ -167,7 +196,7 @@ export const McpServersRepository = {
 
       if (input.headers !== undefined) {
         updates.push('headers = ?');
-        params.push(input.headers ? JSON.stringify(input.headers) : null);
+        params.push(await writeHeaders(input.headers));
       }
 
       if (input.timeout !== undefined) {
@@ -180,6 +209,11 @@ export const McpServersRepository = {
         params.push(input.isActive ? 1 : 0);
       }
 
+      if (input.disabledTools !== undefined) {
+        updates.push('disabled_tools = ?');
+        params.push(input.disabledTools.length > 0 ? JSON.stringify(input.disabledTools) : null);
+      }
+
       if (updates.length === 0) return;
 
       updates.push('updated_at = ?');
@@ -214,6 +248,107 @@ export const McpServersRepository = {
     });
   },
 
+  /**
+   * 设置工具的调用审批策略（ask 表示恢复为每次询问）
+   */
+  async setToolPolicy(id: string, toolName: string, policy: McpToolPolicy): Promise<void> {
+    return withRepositoryContext('McpServersRepository', 'setToolPolicy', { serverId: id, toolName, policy, table: 'mcp_servers' }, async () => {
+      const row = await queryOne<Pick<MCPServerRow, 'tool_policies'>>(
+        `SELECT tool_policies FROM mcp_servers WHERE id = ?`,
+        [id]
+      );
+      if (!row) return;
+
+      const policies: Record<string, McpToolPolicy> = row.tool_policies ? JSON.parse(row.tool_policies) : {};
+      if (policy === 'ask') {
+        delete policies[toolName];
+      } else {
+        policies[toolName] = policy;
+      }
+
+      await execute(
+        `UPDATE mcp_servers SET tool_policies = ?, updated_at = ? WHERE id = ?`,
+        [Object.keys(policies).length > 0 ? JSON.stringify(policies) : null, now(), id]
+      );
+    });
+  },
+
+  /**
+   * 设置传输协议（null 表示下次连接时重新自动检测）
+   */
+  async setTransportType(id: string, type: McpTransportType | null): Promise<void> {
+    return withRepositoryContext('McpServersRepository', 'setTransportType', { serverId: id, type, table: 'mcp_servers' }, async () => {
+      await execute(
+        `UPDATE mcp_servers SET transport_type = ?, updated_at = ? WHERE id = ?`,
+        [type, now(), id]
+      );
+    });
+  },
+
+  /**
+   * 读取 OAuth 授权状态（无法解密时视为未授权）
+   */
+  async getOAuthState(id: string): Promise<McpOAuthState | null> {
+    return withRepositoryContext('McpServersRepository', 'getOAuthState', { serverId: id, table: 'mcp_servers' }, async () => {
+      const row = await queryOne<Pick<MCPServerRow, 'oauth_state'>>(
+        `SELECT oauth_state FROM mcp_servers WHERE id = ?`,
+        [id]
+      );
+      if (!row?.oauth_state) return null;
+      const json = await SecretStore.decrypt(row.oauth_state);
+      return json ? JSON.parse(json) : null;
+    });
+  },
+
+  /**
+   * 保存 OAuth 授权状态（null 表示清除授权）
+   */
+  async saveOAuthState(id: string, state: McpOAuthState | null): Promise<void> {
+    return withRepositoryContext('McpServersRepository', 'saveOAuthState', { serverId: id, table: 'mcp_servers' }, async () => {
+      await execute(
+        `UPDATE mcp_servers SET oauth_state = ?, updated_at = ? WHERE id = ?`,
+        [state ? await SecretStore.encrypt(JSON.stringify(state)) : null, now(), id]
+      );
+    });
+  },
+
+  /**
+   * 启用 / 禁用服务器的单个工具（禁用的工具不会提供给模型）
+   */
+  async setToolEnabled(id: string, toolName: string, enabled: boolean): Promise<void> {
+    return withRepositoryContext('McpServersRepository', 'setToolEnabled', { serverId: id, toolName, enabled, table: 'mcp_servers' }, async () => {
+      const row = await queryOne<Pick<MCPServerRow, 'disabled_tools'>>(
+        `SELECT disabled_tools FROM mcp_servers WHERE id = ?`,
+        [id]
+      );
+      if (!row) return;
+
+      const disabled = new Set<string>(row.disabled_tools ? JSON.parse(row.disabled_tools) : []);
+      if (enabled) {
+        disabled.delete(toolName);
+      } else {
+        disabled.add(toolName);
+      }
+
+      await execute(
+        `UPDATE mcp_servers SET disabled_tools = ?, updated_at = ? WHERE id = ?`,
+        [disabled.size > 0 ? JSON.stringify([...disabled]) : null, now(), id]
+      );
+    });
+  },
+
+  /**
+   * 清除服务器的全部工具审批策略（所有工具恢复为每次询问）
+   */
+  async resetToolPolicies(id: string): Promise<void> {
+    return withRepositoryContext('McpServersRepository', 'resetToolPolicies', { serverId: id, table: 'mcp_servers' }, async () => {
+      await execute(
+        `UPDATE mcp_servers SET tool_policies = NULL, updated_at = ? WHERE id = ?`,
+        [now(), id]
+      );
+    });
+  },
+
   /**
    * 检查服务器名称是否已存在（用于创建时验证）
    */
@@ -265,4 +400,23 @@ export const McpServersRepository = {
       };
     });
   },
+
+  /**
+   * 将明文存储的认证请求头改为加密存储（启动迁移），返回处理数量
+   */
+  async encryptStoredHeaders(): Promise<number> {
+    return withRepositoryContext('McpServersRepository', 'encryptStoredHeaders', { table: 'mcp_servers' }, async () => {
+      const rows = await queryAll<Pick<MCPServerRow, 'id' | 'headers'>>(
+        `SELECT id, headers FROM mcp_servers WHERE headers IS NOT NULL`
+      );
+      const plain = rows.filter((row) => row.headers && !SecretStore.isEncrypted(row.headers));
+      for (const row of plain) {
+        await execute(
+          `UPDATE mcp_servers SET headers = ? WHERE id = ?`,
+          [await SecretStore.encrypt(row.headers!), row.id]
+        );
+      }
+      return plain.length;
+    });
+  },
 };
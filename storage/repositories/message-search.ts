@@ -0,0 +1,179 @@
+import { queryAll } from '@/storage/sqlite/db';
+import {
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
+  type MessageSearchFilters,
+  type MessageSearchResult,
+} from '@/storage/types/search';
+import { withRepositoryContext } from './error-handler';
+
+/** trigram 分词器要求查询词至少 3 个字符才能使用索引 */
+const MIN_FTS_TERM_LENGTH = 3;
+/** 片段上下文长度（字符） */
+const SNIPPET_CONTEXT = 30;
+
+function splitTerms(query: string): string[] {
+  return query.trim().split(/\s+/).filter(Boolean);
+}
+
+function buildFilterClause(filters: MessageSearchFilters): { sql: string; args: any[] } {
+  const clauses: string[] = [];
+  const args: any[] = [];
+
+  if (filters.roles && filters.roles.length > 0) {
+    clauses.push(`m.role IN (${filters.roles.map(() => '?').join(', ')})`);
+    args.push(...filters.roles);
+  }
+  if (filters.from != null) {
+    clauses.push('m.created_at >= ?');
+    args.push(filters.from);
+  }
+  if (filters.to != null) {
+    clauses.push('m.created_at < ?');
+    args.push(filters.to);
+  }
+  if (filters.model) {
+    clauses.push(`json_extract(m.extra, '$.model') = ?`);
+    args.push(filters.model);
+  }
+  if (filters.assistantId) {
+    clauses.push(`m.conversation_id IN (
+      SELECT conversation_id FROM messages
+      WHERE role = 'assistant' AND json_extract(extra, '$.assistantId') = ?
+    )`);
+    args.push(filters.assistantId);
+  }
+
+  return { sql: clauses.map(c => ` AND ${c}`).join(''), args };
+}
+
+function escapeLike(term: string): string {
+  return term.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+function escapeRegExp(term: string): string {
+  return term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 短查询词走 LIKE 扫描时，在 JS 中截取片段并标记关键词
+ */
+function buildSnippet(content: string, terms: string[]): string {
+  const lower = content.toLowerCase();
+  const first = terms
+    .map(t => lower.indexOf(t.toLowerCase()))
+    .filter(i => i >= 0)
+    .reduce((min, i) => Math.min(min, i), Number.POSITIVE_INFINITY);
+  const hit = Number.isFinite(first) ? first : 0;
+
+  const start = Math.max(0, hit - SNIPPET_CONTEXT);
+  const end = Math.min(content.length, hit + SNIPPET_CONTEXT * 2);
+  let snippet = content.slice(start, end);
+
+  const pattern = new RegExp(terms.map(escapeRegExp).join('|'), 'gi');
+  snippet = snippet.replace(pattern, (m) => `${SEARCH_HIGHLIGHT_START}${m}${SEARCH_HIGHLIGHT_END}`);
+
+  return `${start > 0 ? '…' : ''}${snippet}${end < content.length ? '…' : ''}`;
+}
+
+function rowToResult(row: any, snippet: string): MessageSearchResult {
+  return {
+    messageId: row.message_id,
+    conversationId: row.conversation_id,
+    conversationTitle: row.conversation_title ?? null,
+    role: row.role,
+    createdAt: row.created_at,
+    model: row.model ?? undefined,
+    source: row.source,
+    snippet: snippet.replace(/\s+/g, ' ').trim(),
+  };
+}
+
+/**
+ * MessageSearchRepository - 消息全文搜索
+ *
+ * 基于 message_search（FTS5 trigram）索引，覆盖消息正文、消息块与思考链
+ */
+export const MessageSearchRepository = {
+  /**
+   * 搜索消息（按时间倒序，同一消息只返回最先命中的片段）
+   *
+   * 多个关键词以空格分隔，需同时命中；任一关键词不足 3 个字符时回退为 LIKE 扫描
+   */
+  async search(
+    query: string,
+    filters: MessageSearchFilters = {},
+    limit: number = 50
+  ): Promise<MessageSearchResult[]> {
+    return withRepositoryContext('MessageSearchRepository', 'search', { query, filters, table: 'message_search' }, async () => {
+      const terms = splitTerms(query);
+      if (terms.length === 0) return [];
+
+      const filter = buildFilterClause(filters);
+      const useFts = terms.every(t => Array.from(t).length >= MIN_FTS_TERM_LENGTH);
+      // 同一消息可能在正文、块、思考链中多次命中，多取一些再去重
+      const fetchLimit = limit * 3;
+
+      let results: MessageSearchResult[];
+      if (useFts) {
+        const match = terms.map(t => `"${t.replace(/"/g, '""')}"`).join(' ');
+        const rows = await queryAll<any>(
+          `SELECT d.message_id, d.source,
+                  snippet(message_search, 0, ?, ?, '…', 32) AS snippet,
+                  m.conversation_id, m.role, m.created_at,
+                  json_extract(m.extra, '$.model') AS model,
+                  c.title AS conversation_title
+           FROM message_search
+           JOIN message_search_docs d ON d.id = message_search.rowid
+           JOIN messages m ON m.id = d.message_id
+           LEFT JOIN conversations c ON c.id = m.conversation_id
+           WHERE message_search MATCH ?${filter.sql}
+           ORDER BY m.created_at DESC
+           LIMIT ?`,
+          [SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END, match, ...filter.args, fetchLimit]
+        );
+        results = rows.map(row => rowToResult(row, row.snippet ?? ''));
+      } else {
+        const likeClause = terms.map(() => ` AND d.content LIKE ? ESCAPE '\\'`).join('');
+        const rows = await queryAll<any>(
+          `SELECT d.message_id, d.source, d.content,
+                  m.conversation_id, m.role, m.created_at,
+                  json_extract(m.extra, '$.model') AS model,
+                  c.title AS conversation_title
+           FROM message_search_docs d
+           JOIN messages m ON m.id = d.message_id
+           LEFT JOIN conversations c ON c.id = m.conversation_id
+           WHERE 1 = 1${likeClause}${filter.sql}
+           ORDER BY m.created_at DESC
+           LIMIT ?`,
+          [...terms.map(t => `%${escapeLike(t)}%`), ...filter.args, fetchLimit]
+        );
+        results = rows.map(row => rowToResult(row, buildSnippet(row.content ?? '', terms)));
+      }
+
+      const seen = new Set<string>();
+      return results
+        .filter(r => {
+          if (seen.has(r.messageId)) return false;
+          seen.add(r.messageId);
+          return true;
+        })
+        .slice(0, limit);
+    });
+  },
+
+  /**
+   * 列出历史消息中使用过的模型（用于搜索筛选）
+   */
+  async listModels(): Promise<string[]> {
+    return withRepositoryContext('MessageSearchRepository', 'listModels', { table: 'messages' }, async () => {
+      const rows = await queryAll<{ model: string }>(
+        `SELECT DISTINCT json_extract(extra, '$.model') AS model
+         FROM messages
+         WHERE role = 'assistant' AND json_extract(extra, '$.model') IS NOT NULL
+         ORDER BY model ASC`
+      );
+      return rows.map(r => r.model);
+    });
+  },
+};
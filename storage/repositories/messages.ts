@@ -1,7 +1,9 @@
-import { Message, Role, now, uuid, ThinkingChain } from '@/storage/core';
-import { execute, queryAll, queryOne } from '@/storage/sqlite/db';
+import { Message, MessageStatus, Role, now, uuid, ThinkingChain, safeJSON } from '@/storage/core';
+import { execute, queryAll, queryOne, transaction } from '@/storage/sqlite/db';
 import { logger } from '@/utils/logger';
 import { appEvents, AppEvents } from '@/utils/events';
+import { findLatestLeaf, getAncestorPath, resolveActivePath, type ActiveMessagePath } from '@/utils/message-tree';
+import { ChatRepository } from './chat';
 import { withRepositoryContext } from './error-handler';
 
 export const MessageRepository = {
@@ -10,7 +12,7 @@ export const MessageRepository = {
     role: Role;
     text?: string;
     attachmentIds?: string[];
-    status?: 'pending' | 'sent' | 'failed';
+    status?: MessageStatus;
     parentId?: string | null;
     extra?: any;
   }): Promise<Message> {
@@ -61,7 +63,7 @@ export const MessageRepository = {
     role: Role;
     text?: string;
     createdAt: number;
-    status?: 'pending' | 'sent' | 'failed';
+    status?: MessageStatus;
     parentId?: string | null;
     extra?: any;
   }): Promise<Message> {
@@ -124,6 +126,83 @@ export const MessageRepository = {
     });
   },
 
+  async getMessage(id: string): Promise<Message | null> {
+    return withRepositoryContext('MessageRepository', 'getMessage', { messageId: id, table: 'messages' }, async () => {
+      const row = await queryOne<any>(
+        `SELECT id, conversation_id as conversationId, role, text, created_at as createdAt, status, parent_id as parentId, extra
+         FROM messages
+         WHERE id = ?`,
+        [id]
+      );
+      if (!row) return null;
+      return {
+        ...row,
+        extra: row.extra ? JSON.parse(row.extra) : undefined,
+      };
+    });
+  },
+
+  /**
+   * 获取话题内全部消息（包含所有分支，按创建时间升序）
+   */
+  async listAllConversationMessages(conversationId: string): Promise<Message[]> {
+    return withRepositoryContext('MessageRepository', 'listAllConversationMessages', { conversationId, table: 'messages' }, async () => {
+      const rows = await queryAll<any>(
+        `SELECT id,
+                conversation_id as conversationId,
+                role,
+                text,
+                created_at as createdAt,
+                status,
+                parent_id as parentId,
+                extra
+         FROM messages
+         WHERE conversation_id = ?
+         ORDER BY created_at ASC`,
+        [conversationId]
+      );
+      return rows.map((r: any) => ({
+        ...r,
+        extra: r.extra ? JSON.parse(r.extra) : undefined,
+      }));
+    });
+  },
+
+  /**
+   * 获取话题当前激活分支的消息路径及分支信息
+   */
+  async getActivePath(conversationId: string): Promise<ActiveMessagePath> {
+    return withRepositoryContext('MessageRepository', 'getActivePath', { conversationId, table: 'messages' }, async () => {
+      const [all, activeLeafId] = await Promise.all([
+        MessageRepository.listAllConversationMessages(conversationId),
+        ChatRepository.getActiveLeafId(conversationId),
+      ]);
+      return resolveActivePath(all, activeLeafId);
+    });
+  },
+
+  /**
+   * 获取从根到指定消息的路径（包含该消息），用于按分支构建上下文
+   */
+  async getPathTo(conversationId: string, messageId: string): Promise<Message[]> {
+    return withRepositoryContext('MessageRepository', 'getPathTo', { conversationId, messageId, table: 'messages' }, async () => {
+      const all = await MessageRepository.listAllConversationMessages(conversationId);
+      return getAncestorPath(all, messageId);
+    });
+  },
+
+  /**
+   * 切换到指定消息所在的分支（激活该消息下最新的叶子）
+   */
+  async switchBranch(conversationId: string, messageId: string): Promise<void> {
+    return withRepositoryContext('MessageRepository', 'switchBranch', { conversationId, messageId, table: 'messages' }, async () => {
+      const all = await MessageRepository.listAllConversationMessages(conversationId);
+      const leafId = findLatestLeaf(all, messageId);
+      await ChatRepository.setActiveLeafId(conversationId, leafId);
+      appEvents.emit(AppEvents.MESSAGE_CHANGED, conversationId);
+    });
+  },
+
   async updateMessageText(id: string, text: string): Promise<void> {
     return withRepositoryContext('MessageRepository', 'updateMessageText', { messageId: id, table: 'messages' }, async () => {
       await execute(`UPDATE messages SET text = ? WHERE id = ?`, [text, id]);
@@ -132,7 +211,38 @@ export const MessageRepository = {
     });
   },
 
-  async updateMessageStatus(id: string, status: 'pending' | 'sent' | 'failed'): Promise<void> {
+  /**
+   * 合并更新消息的 extra 字段（浅合并，保留其他字段）
+   */
+  async updateMessageExtra(id: string, patch: Record<string, any>): Promise<void> {
+    return withRepositoryContext('MessageRepository', 'updateMessageExtra', { messageId: id, table: 'messages' }, async () => {
+      const row = await queryOne<any>(`SELECT conversation_id as conversationId, extra FROM messages WHERE id = ?`, [id]);
+      if (!row) return;
+      let obj: any = {};
+      if (row.extra) {
+        const parsed = safeJSON.parse<any>(row.extra);
+        if (parsed && typeof parsed === 'object') obj = parsed;
+      }
+      Object.assign(obj, patch);
+      await execute(`UPDATE messages SET extra = ? WHERE id = ?`, [JSON.stringify(obj), id]);
+      // 触发消息变化事件，通知 UI 更新
+      appEvents.emit(AppEvents.MESSAGE_CHANGED, row.conversationId);
+    });
+  },
+
+  /**
+   * 在消息之后插入或移除上下文分界（保存在 extra.contextBoundary）
+   * 分界之后的消息发送时不再引用分界之前的上文
+   */
+  async setContextBoundary(id: string, enabled: boolean): Promise<void> {
+    return withRepositoryContext('MessageRepository', 'setContextBoundary', { messageId: id, enabled, table: 'messages' }, async () => {
+      await MessageRepository.updateMessageExtra(id, {
+        contextBoundary: enabled ? { createdAt: now() } : undefined,
+      });
+    });
+  },
+
+  async updateMessageStatus(id: string, status: MessageStatus): Promise<void> {
     return withRepositoryContext('MessageRepository', 'updateMessageStatus', { messageId: id, status, table: 'messages' }, async () => {
       await execute(`UPDATE messages SET status = ? WHERE id = ?`, [status, id]);
       // 触发消息变化事件，通知 UI 更新
@@ -140,9 +250,78 @@ export const MessageRepository = {
     });
   },
 
+  /**
+   * 修改消息的父消息（待发送消息发送前接到前一条消息的回答之后）
+   */
+  async updateMessageParent(id: string, parentId: string | null): Promise<void> {
+    return withRepositoryContext('MessageRepository', 'updateMessageParent', { messageId: id, parentId, table: 'messages' }, async () => {
+      await execute(`UPDATE messages SET parent_id = ? WHERE id = ?`, [parentId, id]);
+      appEvents.emit(AppEvents.MESSAGE_CHANGED);
+    });
+  },
+
+  /**
+   * 获取全部待发送（离线排队）的消息，按创建时间升序
+   */
+  async listQueuedMessages(): Promise<Message[]> {
+    return withRepositoryContext('MessageRepository', 'listQueuedMessages', { table: 'messages' }, async () => {
+      const rows = await queryAll<any>(
+        `SELECT id,
+                conversation_id as conversationId,
+                role,
+                text,
+                created_at as createdAt,
+                status,
+                parent_id as parentId,
+                extra
+         FROM messages
+         WHERE status = 'queued'
+         ORDER BY created_at ASC`
+      );
+      return rows.map((r: any) => ({
+        ...r,
+        extra: r.extra ? JSON.parse(r.extra) : undefined,
+      }));
+    });
+  },
+
+  /**
+   * 标记中断的生成：启动时仍为 pending 的助手消息说明上次生成过程中应用被关闭，
+   * 改为 failed 并记录 extra.interrupted（可从已保存的检查点继续生成），返回处理数量
+   */
+  async markInterruptedGenerations(): Promise<number> {
+    return withRepositoryContext('MessageRepository', 'markInterruptedGenerations', { table: 'messages, message_blocks' }, async () => {
+      const rows = await queryAll<{ id: string }>(
+        `SELECT id FROM messages WHERE role = 'assistant' AND status = 'pending'`
+      );
+      for (const row of rows) {
+        await MessageRepository.updateMessageExtra(row.id, { interrupted: { at: now() } });
+        await execute(`UPDATE messages SET status = 'failed' WHERE id = ?`, [row.id]);
+        // 未完成的工具调用不会再返回结果
+        await execute(
+          `UPDATE message_blocks SET status = 'ERROR', updated_at = ? WHERE message_id = ? AND status = 'PENDING'`,
+          [now(), row.id]
+        );
+      }
+      if (rows.length > 0) {
+        appEvents.emit(AppEvents.MESSAGE_CHANGED);
+      }
+      return rows.length;
+    });
+  },
+
   async deleteMessage(id: string): Promise<void> {
     return withRepositoryContext('MessageRepository', 'deleteMessage', { messageId: id, table: 'messages' }, async () => {
-      await execute(`DELETE FROM messages WHERE id = ?`, [id]);
+      await transaction('删除消息', async (db) => {
+        // 子消息改挂到被删除消息的父消息上，避免后续消息从消息树中断开
+        const row = await db.getFirstAsync<{ parent_id: string | null }>(
+          `SELECT parent_id FROM messages WHERE id = ?`,
+          [id]
+        );
+        if (!row) return;
+        await db.runAsync(`UPDATE messages SET parent_id = ? WHERE parent_id = ?`, [row.parent_id, id]);
+        await db.runAsync(`DELETE FROM messages WHERE id = ?`, [id]);
+      });
       // 触发消息变化事件，通知 UI 更新
       appEvents.emit(AppEvents.MESSAGE_CHANGED);
     });
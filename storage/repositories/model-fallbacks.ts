@@ -0,0 +1,89 @@
+import { execute, queryAll, queryOne } from '@/storage/sqlite/db';
+import { now, safeJSON } from '@/storage/core';
+import type { ModelFallbackChain, ModelTarget } from '@/storage/types/model-fallback';
+import { withRepositoryContext } from './error-handler';
+
+function rowToChain(row: any): ModelFallbackChain {
+  return {
+    provider: row.provider,
+    model: row.model,
+    chain: safeJSON.parse<ModelTarget[]>(row.chain) ?? [],
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * ModelFallbacksRepository - 模型回退链数据访问层
+ *
+ * 主模型请求失败且错误可重试时，按回退链顺序切换到下一个模型
+ */
+export const ModelFallbacksRepository = {
+  /**
+   * 获取全部回退链
+   */
+  async list(): Promise<ModelFallbackChain[]> {
+    return withRepositoryContext('ModelFallbacksRepository', 'list', { table: 'model_fallbacks' }, async () => {
+      const rows = await queryAll<any>(
+        `SELECT * FROM model_fallbacks ORDER BY provider ASC, model ASC`
+      );
+      return rows.map(rowToChain);
+    });
+  },
+
+  /**
+   * 获取单个模型的回退链
+   */
+  async get(provider: string, model: string): Promise<ModelFallbackChain | null> {
+    return withRepositoryContext('ModelFallbacksRepository', 'get', { provider, model, table: 'model_fallbacks' }, async () => {
+      const row = await queryOne<any>(
+        `SELECT * FROM model_fallbacks WHERE provider = ? AND model = ?`,
+        [provider, model]
+      );
+      return row ? rowToChain(row) : null;
+    });
+  },
+
+  /**
+   * 新增或更新回退链（链为空时删除）
+   */
+  async upsert(provider: string, model: string, chain: ModelTarget[]): Promise<ModelFallbackChain | null> {
+    return withRepositoryContext('ModelFallbacksRepository', 'upsert', { provider, model, length: chain.length, table: 'model_fallbacks' }, async () => {
+      // 去除主模型自身与重复目标
+      const seen = new Set<string>([`${provider}\u0000${model}`]);
+      const targets = chain.filter((t) => {
+        const key = `${t.provider}\u0000${t.model}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+
+      if (targets.length === 0) {
+        await execute(`DELETE FROM model_fallbacks WHERE provider = ? AND model = ?`, [provider, model]);
+        return null;
+      }
+
+      const updatedAt = now();
+      await execute(
+        `INSERT INTO model_fallbacks (provider, model, chain, updated_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(provider, model) DO UPDATE SET
+           chain = excluded.chain,
+           updated_at = excluded.updated_at`,
+        [provider, model, JSON.stringify(targets), updatedAt]
+      );
+      return { provider, model, chain: targets, updatedAt };
+    });
+  },
+
+  /**
+   * 删除回退链
+   */
+  async delete(provider: string, model: string): Promise<void> {
+    return withRepositoryContext('ModelFallbacksRepository', 'delete', { provider, model, table: 'model_fallbacks' }, async () => {
+      await execute(
+        `DELETE FROM model_fallbacks WHERE provider = ? AND model = ?`,
+        [provider, model]
+      );
+    });
+  },
+};
@@ -0,0 +1,79 @@
+import { execute, queryAll, queryOne } from '@/storage/sqlite/db';
+import { now } from '@/storage/core';
+import type { ModelPrice } from '@/storage/types/usage';
+import { withRepositoryContext } from './error-handler';
+
+function rowToPrice(row: any): ModelPrice {
+  return {
+    provider: row.provider,
+    model: row.model,
+    inputPrice: row.input_price ?? 0,
+    outputPrice: row.output_price ?? 0,
+    currency: row.currency || 'USD',
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * ModelPricesRepository - 模型单价数据访问层
+ *
+ * 单价以"每百万 Token"为单位，由用户在数据设置中维护，用于估算花费
+ */
+export const ModelPricesRepository = {
+  /**
+   * 获取全部模型单价
+   */
+  async list(): Promise<ModelPrice[]> {
+    return withRepositoryContext('ModelPricesRepository', 'list', { table: 'model_prices' }, async () => {
+      const rows = await queryAll<any>(
+        `SELECT * FROM model_prices ORDER BY provider ASC, model ASC`
+      );
+      return rows.map(rowToPrice);
+    });
+  },
+
+  /**
+   * 获取单个模型的单价
+   */
+  async get(provider: string, model: string): Promise<ModelPrice | null> {
+    return withRepositoryContext('ModelPricesRepository', 'get', { provider, model, table: 'model_prices' }, async () => {
+      const row = await queryOne<any>(
+        `SELECT * FROM model_prices WHERE provider = ? AND model = ?`,
+        [provider, model]
+      );
+      return row ? rowToPrice(row) : null;
+    });
+  },
+
+  /**
+   * 新增或更新模型单价
+   */
+  async upsert(price: Omit<ModelPrice, 'updatedAt'>): Promise<ModelPrice> {
+    return withRepositoryContext('ModelPricesRepository', 'upsert', { provider: price.provider, model: price.model, table: 'model_prices' }, async () => {
+      const updatedAt = now();
+      await execute(
+        `INSERT INTO model_prices (provider, model, input_price, output_price, currency, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(provider, model) DO UPDATE SET
+           input_price = excluded.input_price,
+           output_price = excluded.output_price,
+           currency = excluded.currency,
+           updated_at = excluded.updated_at`,
+        [price.provider, price.model, price.inputPrice, price.outputPrice, price.currency, updatedAt]
+      );
+      return { ...price, updatedAt };
+    });
+  },
+
+  /**
+   * 删除模型单价
+   */
+  async delete(provider: string, model: string): Promise<void> {
+    return withRepositoryContext('ModelPricesRepository', 'delete', { provider, model, table: 'model_prices' }, async () => {
+      await execute(
+        `DELETE FROM model_prices WHERE provider = ? AND model = ?`,
+        [provider, model]
+      );
+    });
+  },
+};
@@ -0,0 +1,66 @@
+import { execute, queryOne } from '@/storage/sqlite/db';
+import { now } from '@/storage/core';
+import type { ModelReasoningSetting, ReasoningConfig, ReasoningLevel } from '@/storage/types/model-reasoning';
+import { withRepositoryContext } from './error-handler';
+
+function rowToSetting(row: any): ModelReasoningSetting {
+  return {
+    provider: row.provider,
+    model: row.model,
+    level: row.level as ReasoningLevel,
+    budgetTokens: row.budget_tokens ?? null,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * ModelReasoningRepository - 模型推理强度数据访问层
+ *
+ * 按模型记住用户在输入框中选择的推理强度，发送时映射为各提供商的推理参数
+ */
+export const ModelReasoningRepository = {
+  /**
+   * 获取单个模型的推理强度（未设置时返回 null，表示使用默认参数）
+   */
+  async get(provider: string, model: string): Promise<ModelReasoningSetting | null> {
+    return withRepositoryContext('ModelReasoningRepository', 'get', { provider, model, table: 'model_reasoning' }, async () => {
+      const row = await queryOne<any>(
+        `SELECT * FROM model_reasoning WHERE provider = ? AND model = ?`,
+        [provider, model]
+      );
+      return row ? rowToSetting(row) : null;
+    });
+  },
+
+  /**
+   * 新增或更新模型的推理强度
+   */
+  async upsert(provider: string, model: string, config: ReasoningConfig): Promise<ModelReasoningSetting> {
+    return withRepositoryContext('ModelReasoningRepository', 'upsert', { provider, model, level: config.level, table: 'model_reasoning' }, async () => {
+      const updatedAt = now();
+      const budgetTokens = config.level === 'custom' ? config.budgetTokens ?? null : null;
+      await execute(
+        `INSERT INTO model_reasoning (provider, model, level, budget_tokens, updated_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(provider, model) DO UPDATE SET
+           level = excluded.level,
+           budget_tokens = excluded.budget_tokens,
+           updated_at = excluded.updated_at`,
+        [provider, model, config.level, budgetTokens, updatedAt]
+      );
+      return { provider, model, level: config.level, budgetTokens, updatedAt };
+    });
+  },
+
+  /**
+   * 删除模型的推理强度（恢复默认参数）
+   */
+  async delete(provider: string, model: string): Promise<void> {
+    return withRepositoryContext('ModelReasoningRepository', 'delete', { provider, model, table: 'model_reasoning' }, async () => {
+      await execute(
+        `DELETE FROM model_reasoning WHERE provider = ? AND model = ?`,
+        [provider, model]
+      );
+    });
+  },
+};
@@ -8,7 +8,7 @@ import type {
   ProviderKeyManagement,
   LoadBalanceStrategy,
 } from '@/storage/types/api-key-config';
-import type { ProviderId } from './providers';
+import type { AnyProviderId } from './providers';
 import { logger } from '@/utils/logger';
 import { withRepositoryContext } from './error-handler';
 
@@ -29,7 +29,7 @@ interface ManagementRow {
  */
 function rowToManagement(row: ManagementRow): ProviderKeyManagement {
   return {
-    providerId: row.provider_id as ProviderId,
+    providerId: row.provider_id as AnyProviderId,
     strategy: row.strategy,
     enableMultiKey: row.enable_multi_key === 1,
     maxFailuresBeforeDisable: row.max_failures_before_disable,
@@ -42,7 +42,7 @@ export const ProviderKeyManagementRepository = {
   /**
    * 获取提供商的 Key 管理配置
    */
-  async get(providerId: ProviderId): Promise<ProviderKeyManagement | null> {
+  async get(providerId: AnyProviderId): Promise<ProviderKeyManagement | null> {
     return withRepositoryContext(
       'ProviderKeyManagementRepository',
       'get',
@@ -101,7 +101,7 @@ export const ProviderKeyManagementRepository = {
   /**
    * 获取负载均衡策略（如果不存在则返回默认值 round_robin）
    */
-  async getStrategy(providerId: ProviderId): Promise<LoadBalanceStrategy> {
+  async getStrategy(providerId: AnyProviderId): Promise<LoadBalanceStrategy> {
     return withRepositoryContext(
       'ProviderKeyManagementRepository',
       'getStrategy',
@@ -117,7 +117,7 @@ export const ProviderKeyManagementRepository = {
    * 设置负载均衡策略
    */
   async setStrategy(
-    providerId: ProviderId,
+    providerId: AnyProviderId,
     strategy: LoadBalanceStrategy
   ): Promise<void> {
     return withRepositoryContext(
@@ -156,7 +156,7 @@ export const ProviderKeyManagementRepository = {
   /**
    * 检查是否启用多 Key 模式
    */
-  async isMultiKeyEnabled(providerId: ProviderId): Promise<boolean> {
+  async isMultiKeyEnabled(providerId: AnyProviderId): Promise<boolean> {
     return withRepositoryContext(
       'ProviderKeyManagementRepository',
       'isMultiKeyEnabled',
@@ -172,7 +172,7 @@ export const ProviderKeyManagementRepository = {
    * 设置多 Key 模式开关
    */
   async setMultiKeyEnabled(
-    providerId: ProviderId,
+    providerId: AnyProviderId,
     enabled: boolean
   ): Promise<void> {
     return withRepositoryContext(
@@ -211,7 +211,7 @@ export const ProviderKeyManagementRepository = {
   /**
    * 获取最大失败次数阈值
    */
-  async getMaxFailuresBeforeDisable(providerId: ProviderId): Promise<number> {
+  async getMaxFailuresBeforeDisable(providerId: AnyProviderId): Promise<number> {
     return withRepositoryContext(
       'ProviderKeyManagementRepository',
       'getMaxFailuresBeforeDisable',
@@ -226,7 +226,7 @@ export const ProviderKeyManagementRepository = {
   /**
    * 获取冷却时间（分钟）
    */
-  async getFailureRecoveryTimeMinutes(providerId: ProviderId): Promise<number> {
+  async getFailureRecoveryTimeMinutes(providerId: AnyProviderId): Promise<number> {
     return withRepositoryContext(
       'ProviderKeyManagementRepository',
       'getFailureRecoveryTimeMinutes',
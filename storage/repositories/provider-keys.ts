@@ -10,7 +10,8 @@ import type {
   KeyStats,
   ApiKeyUsage,
 } from '@/storage/types/api-key-config';
-import type { ProviderId } from './providers';
+import type { AnyProviderId } from './providers';
+import { SecretStore } from '@/storage/adapters/secret-store';
 import { logger } from '@/utils/logger';
 import { withRepositoryContext } from './error-handler';
 
@@ -37,13 +38,13 @@ interface ApiKeyRow {
 }
 
 /**
- * 将数据库行转换为 ApiKeyConfig
+ * 将数据库行转换为 ApiKeyConfig（key 列使用设备密钥加密，无法解密时视为空 Key）
  */
-function rowToConfig(row: ApiKeyRow): ApiKeyConfig {
+async function rowToConfig(row: ApiKeyRow): Promise<ApiKeyConfig> {
   return {
     id: row.id,
-    providerId: row.provider_id as ProviderId,
-    key: row.key,
+    providerId: row.provider_id as AnyProviderId,
+    key: (await SecretStore.decrypt(row.key)) ?? '',
     name: row.name || undefined,
     isEnabled: row.is_enabled === 1,
     isPrimary: row.is_primary === 1,
@@ -89,7 +90,7 @@ export const ProviderKeysRepository = {
         [
           id,
           config.providerId,
-          config.key,
+          await SecretStore.encrypt(config.key),
           config.name || null,
           config.isEnabled ? 1 : 0,
           config.isPrimary ? 1 : 0,
@@ -132,7 +133,7 @@ export const ProviderKeysRepository = {
 
       if (updates.key !== undefined) {
         fields.push('key = ?');
-        values.push(updates.key);
+        values.push(await SecretStore.encrypt(updates.key));
       }
       if (updates.name !== undefined) {
         fields.push('name = ?');
@@ -194,20 +195,20 @@ export const ProviderKeysRepository = {
         'SELECT * FROM provider_api_keys WHERE id = ?',
         [id]
       );
-      return row ? rowToConfig(row) : null;
+      return row ? await rowToConfig(row) : null;
     });
   },
 
   /**
    * 列出提供商的所有 Key
    */
-  async listByProvider(providerId: ProviderId): Promise<ApiKeyConfig[]> {
+  async listByProvider(providerId: AnyProviderId): Promise<ApiKeyConfig[]> {
     return withRepositoryContext('ProviderKeysRepository', 'listByProvider', { providerId, table: 'provider_api_keys' }, async () => {
       const rows = await queryAll<ApiKeyRow>(
         'SELECT * FROM provider_api_keys WHERE provider_id = ? ORDER BY priority ASC, created_at ASC',
         [providerId]
       );
-      return rows.map(rowToConfig);
+      return Promise.all(rows.map(rowToConfig));
     });
   },
 
@@ -215,7 +216,7 @@ export const ProviderKeysRepository = {
    * 列出可用的 Key（enabled + 非冷却期）
    */
   async listActiveKeys(
-    providerId: ProviderId,
+    providerId: AnyProviderId,
     failureRecoveryTimeMinutes: number = 5
   ): Promise<ApiKeyConfig[]> {
     return withRepositoryContext('ProviderKeysRepository', 'listActiveKeys', { providerId, failureRecoveryTimeMinutes, table: 'provider_api_keys' }, async () => {
@@ -241,20 +242,20 @@ export const ProviderKeysRepository = {
         return false;
       });
 
-      return activeKeys.map(rowToConfig);
+      return Promise.all(activeKeys.map(rowToConfig));
     });
   },
 
   /**
    * 获取主要密钥
    */
-  async getPrimaryKey(providerId: ProviderId): Promise<ApiKeyConfig | null> {
+  async getPrimaryKey(providerId: AnyProviderId): Promise<ApiKeyConfig | null> {
     return withRepositoryContext('ProviderKeysRepository', 'getPrimaryKey', { providerId, table: 'provider_api_keys' }, async () => {
       const row = await queryOne<ApiKeyRow>(
         'SELECT * FROM provider_api_keys WHERE provider_id = ? AND is_primary = 1 LIMIT 1',
         [providerId]
       );
-      return row ? rowToConfig(row) : null;
+      return row ? await rowToConfig(row) : null;
     });
   },
 
@@ -334,7 +335,7 @@ export const ProviderKeysRepository = {
   /**
    * 设置为主要密钥（同时取消该提供商的其他主要密钥）
    */
-  async setPrimary(providerId: ProviderId, keyId: string): Promise<void> {
+  async setPrimary(providerId: AnyProviderId, keyId: string): Promise<void> {
     return withRepositoryContext('ProviderKeysRepository', 'setPrimary', { providerId, keyId, table: 'provider_api_keys' }, async () => {
       const now = Date.now();
 
@@ -360,7 +361,7 @@ export const ProviderKeysRepository = {
   /**
    * 获取统计数据
    */
-  async getKeyStats(providerId: ProviderId): Promise<KeyStats> {
+  async getKeyStats(providerId: AnyProviderId): Promise<KeyStats> {
     return withRepositoryContext('ProviderKeysRepository', 'getKeyStats', { providerId, table: 'provider_api_keys' }, async () => {
       const rows = await queryAll<ApiKeyRow>(
         'SELECT * FROM provider_api_keys WHERE provider_id = ?',
@@ -404,6 +405,22 @@ export const ProviderKeysRepository = {
     });
   },
 
+  /**
+   * 将明文存储的 Key 改为加密存储（启动迁移），返回处理数量
+   *
+   * 不更新 updated_at，避免影响冷却期判断
+   */
+  async encryptStoredKeys(): Promise<number> {
+    return withRepositoryContext('ProviderKeysRepository', 'encryptStoredKeys', { table: 'provider_api_keys' }, async () => {
+      const rows = await queryAll<Pick<ApiKeyRow, 'id' | 'key'>>('SELECT id, key FROM provider_api_keys');
+      const plain = rows.filter((row) => !SecretStore.isEncrypted(row.key));
+      for (const row of plain) {
+        await execute('UPDATE provider_api_keys SET key = ? WHERE id = ?', [await SecretStore.encrypt(row.key), row.id]);
+      }
+      return plain.length;
+    });
+  },
+
   /**
    * 检查 Key 是否在冷却期
    */
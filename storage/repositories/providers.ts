@@ -1,12 +1,18 @@
 import { AsyncKVStore } from '@/storage/adapters/async-storage';
+import { SecretStore } from '@/storage/adapters/secret-store';
 import { withRepositoryContext } from './error-handler';
+import type { CustomProviderId } from './custom-providers';
 
 export type ProviderId = 'openai' | 'anthropic' | 'gemini' | 'google' | 'deepseek' | 'volc' | 'zhipu';
 
+/** 内置提供商或用户自定义提供商（多 Key 管理等按提供商 ID 存储的数据共用） */
+export type AnyProviderId = ProviderId | CustomProviderId;
+
 export interface ProviderConfig {
   id: ProviderId;
   enabled: boolean;
   baseURL?: string | null;
+  streamOutput?: boolean | null; // 是否流式输出（null 表示跟随全局设置）
 }
 
 const key = (id: ProviderId, name: string) => `al:provider:${id}:${name}`;
@@ -16,7 +22,8 @@ export const ProvidersRepository = {
     return withRepositoryContext('ProvidersRepository', 'getConfig', { providerId: id, storage: 'AsyncStorage' }, async () => {
       const enabled = (await AsyncKVStore.get<boolean>(key(id, 'enabled'))) ?? false;
       const baseURL = (await AsyncKVStore.get<string>(key(id, 'base_url'))) ?? null;
-      return { id, enabled, baseURL };
+      const streamOutput = (await AsyncKVStore.get<boolean>(key(id, 'stream_output'))) ?? null;
+      return { id, enabled, baseURL, streamOutput };
     });
   },
 
@@ -32,15 +39,42 @@ export const ProvidersRepository = {
     });
   },
 
+  /**
+   * 设置流式输出（null 表示跟随全局设置）
+   */
+  async setStreamOutput(id: ProviderId, streamOutput: boolean | null): Promise<void> {
+    return withRepositoryContext('ProvidersRepository', 'setStreamOutput', { providerId: id, streamOutput, storage: 'AsyncStorage' }, async () => {
+      if (streamOutput === null) {
+        await AsyncKVStore.remove(key(id, 'stream_output'));
+      } else {
+        await AsyncKVStore.set(key(id, 'stream_output'), streamOutput);
+      }
+    });
+  },
+
   async getApiKey(id: ProviderId): Promise<string | null> {
     return withRepositoryContext('ProvidersRepository', 'getApiKey', { providerId: id, storage: 'AsyncStorage' }, async () => {
-      return await AsyncKVStore.get<string>(key(id, 'api_key'));
+      // API Key 使用设备密钥加密存储
+      const stored = await AsyncKVStore.get<string>(key(id, 'api_key'));
+      return stored ? await SecretStore.decrypt(stored) : stored;
     });
   },
 
   async setApiKey(id: ProviderId, value: string): Promise<void> {
     return withRepositoryContext('ProvidersRepository', 'setApiKey', { providerId: id, storage: 'AsyncStorage' }, async () => {
-      await AsyncKVStore.set(key(id, 'api_key'), value);
+      await AsyncKVStore.set(key(id, 'api_key'), value ? await SecretStore.encrypt(value) : value);
+    });
+  },
+
+  /**
+   * 将明文存储的 API Key 改为加密存储（启动迁移），返回是否处理
+   */
+  async encryptStoredApiKey(id: ProviderId): Promise<boolean> {
+    return withRepositoryContext('ProvidersRepository', 'encryptStoredApiKey', { providerId: id, storage: 'AsyncStorage' }, async () => {
+      const stored = await AsyncKVStore.get<string>(key(id, 'api_key'));
+      if (!stored || SecretStore.isEncrypted(stored)) return false;
+      await AsyncKVStore.set(key(id, 'api_key'), await SecretStore.encrypt(stored));
+      return true;
     });
   },
 };
@@ -16,6 +16,7 @@ export enum SettingKey {
   ChatMaxTokens = 'al:settings:chat_max_tokens',
   ChatMaxTokensEnabled = 'al:settings:chat_max_tokens_enabled',
   ChatContextCount = 'al:settings:chat_context_count',
+  ChatContextTokenBudget = 'al:settings:chat_context_token_budget', // 上下文 Token 预算（0 表示按模型上下文窗口自动计算）
   ChatSystemPrompt = 'al:settings:chat_system_prompt',
   ChatStreamOutput = 'al:settings:chat_stream_output',
   // 话题自动命名
@@ -23,9 +24,14 @@ export enum SettingKey {
   TopicAutoNamePrompt = 'al:settings:topic_auto_name_prompt',
   TopicNamingProvider = 'al:settings:topic_naming_provider',
   TopicNamingModel = 'al:settings:topic_naming_model',
+  // 对话记忆（滚动摘要）
+  ConversationMemoryEnabled = 'al:settings:conversation_memory_enabled',
+  ConversationMemoryProvider = 'al:settings:conversation_memory_provider',
+  ConversationMemoryModel = 'al:settings:conversation_memory_model',
   // 翻译模型设置
   TranslationProvider = 'al:settings:translation_provider',
   TranslationModel = 'al:settings:translation_model',
+  TranslationTargetLanguage = 'al:settings:translation_target_language',
   // 网络搜索设置
   WebSearchEnabled = 'al:settings:web_search_enabled',
   WebSearchEngine = 'al:settings:web_search_engine',
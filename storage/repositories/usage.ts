@@ -0,0 +1,256 @@
+import { uuid } from '@/storage/core';
+import { execute, queryAll } from '@/storage/sqlite/db';
+import type {
+  MessageUsageRecord,
+  UsageTotals,
+  ProviderUsageSummary,
+  ModelUsageSummary,
+  ApiKeyUsageSummary,
+  DailySpend,
+} from '@/storage/types/usage';
+import { withRepositoryContext } from './error-handler';
+
+/** 关联模型单价后的用量来源（未设置单价的模型花费为 0） */
+const USAGE_SOURCE = `
+  FROM message_usage u
+  LEFT JOIN model_prices p ON p.provider = u.provider AND p.model = u.model`;
+
+/** 单价为每百万 Token */
+const COST_EXPR = `SUM(u.input_tokens * COALESCE(p.input_price, 0) + u.output_tokens * COALESCE(p.output_price, 0)) / 1000000.0`;
+
+const TOTALS_COLUMNS = `
+  COUNT(*) AS requests,
+  COALESCE(SUM(u.input_tokens), 0) AS input_tokens,
+  COALESCE(SUM(u.output_tokens), 0) AS output_tokens,
+  COALESCE(SUM(u.reasoning_tokens), 0) AS reasoning_tokens,
+  COALESCE(SUM(u.total_tokens), 0) AS total_tokens,
+  p.currency AS currency,
+  ${COST_EXPR} AS cost`;
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, inputTokens: 0, outputTokens: 0, reasoningTokens: 0, totalTokens: 0, costs: {} };
+}
+
+/**
+ * 累加一行按货币拆分的汇总结果
+ *
+ * 查询按 (分组键, 货币) 分组，同一分组可能对应多行，这里合并回一条汇总
+ */
+function accumulate(target: UsageTotals, row: any): void {
+  target.requests += row.requests ?? 0;
+  target.inputTokens += row.input_tokens ?? 0;
+  target.outputTokens += row.output_tokens ?? 0;
+  target.reasoningTokens += row.reasoning_tokens ?? 0;
+  target.totalTokens += row.total_tokens ?? 0;
+  if (row.currency && row.cost > 0) {
+    target.costs[row.currency] = (target.costs[row.currency] ?? 0) + row.cost;
+  }
+}
+
+function groupRows<T extends UsageTotals>(
+  rows: any[],
+  keyOf: (row: any) => string,
+  create: (row: any) => T
+): T[] {
+  const groups = new Map<string, T>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    let group = groups.get(key);
+    if (!group) {
+      group = create(row);
+      groups.set(key, group);
+    }
+    accumulate(group, row);
+  }
+  return Array.from(groups.values()).sort((a, b) => b.totalTokens - a.totalTokens);
+}
+
+/**
+ * UsageRepository - Token 用量数据访问层
+ *
+ * 每次生成完成后记录一次用量（继续生成等同一消息的多次生成分别记录），支持按话题、提供商/模型、API Key 和日期汇总
+ */
+export const UsageRepository = {
+  /**
+   * 记录一次生成的用量（同一消息的多次生成累加，删除消息后保留）
+   */
+  async recordUsage(record: MessageUsageRecord): Promise<void> {
+    return withRepositoryContext('UsageRepository', 'recordUsage', { messageId: record.messageId, provider: record.provider, table: 'message_usage' }, async () => {
+      await execute(
+        `INSERT INTO message_usage
+          (id, message_id, conversation_id, provider, model, api_key_id,
+           input_tokens, output_tokens, reasoning_tokens, cached_input_tokens, total_tokens, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          uuid(),
+          record.messageId,
+          record.conversationId,
+          record.provider,
+          record.model,
+          record.apiKeyId ?? null,
+          record.inputTokens,
+          record.outputTokens,
+          record.reasoningTokens,
+          record.cachedInputTokens,
+          record.totalTokens,
+          record.createdAt,
+        ]
+      );
+    });
+  },
+
+  /**
+   * 汇总全部用量
+   *
+   * @param since 起始时间戳（可选）
+   */
+  async getTotals(since?: number): Promise<UsageTotals> {
+    return withRepositoryContext('UsageRepository', 'getTotals', { since, table: 'message_usage' }, async () => {
+      const rows = await queryAll<any>(
+        `SELECT ${TOTALS_COLUMNS} ${USAGE_SOURCE}
+         WHERE u.created_at >= ?
+         GROUP BY p.currency`,
+        [since ?? 0]
+      );
+      const totals = emptyTotals();
+      rows.forEach(row => accumulate(totals, row));
+      return totals;
+    });
+  },
+
+  /**
+   * 汇总单个话题的用量
+   */
+  async getConversationUsage(conversationId: string): Promise<UsageTotals> {
+    return withRepositoryContext('UsageRepository', 'getConversationUsage', { conversationId, table: 'message_usage' }, async () => {
+      const rows = await queryAll<any>(
+        `SELECT ${TOTALS_COLUMNS} ${USAGE_SOURCE}
+         WHERE u.conversation_id = ?
+         GROUP BY p.currency`,
+        [conversationId]
+      );
+      const totals = emptyTotals();
+      rows.forEach(row => accumulate(totals, row));
+      return totals;
+    });
+  },
+
+  /**
+   * 按提供商和模型汇总用量（按 Token 总数降序）
+   */
+  async listByModel(since?: number): Promise<ModelUsageSummary[]> {
+    return withRepositoryContext('UsageRepository', 'listByModel', { since, table: 'message_usage' }, async () => {
+      const rows = await queryAll<any>(
+        `SELECT u.provider AS provider, u.model AS model, ${TOTALS_COLUMNS} ${USAGE_SOURCE}
+         WHERE u.created_at >= ?
+         GROUP BY u.provider, u.model, p.currency`,
+        [since ?? 0]
+      );
+      return groupRows(
+        rows,
+        row => `${row.provider}\u0000${row.model}`,
+        row => ({ ...emptyTotals(), provider: row.provider, model: row.model })
+      );
+    });
+  },
+
+  /**
+   * 按提供商汇总用量（按 Token 总数降序）
+   */
+  async listByProvider(since?: number): Promise<ProviderUsageSummary[]> {
+    return withRepositoryContext('UsageRepository', 'listByProvider', { since, table: 'message_usage' }, async () => {
+      const rows = await queryAll<any>(
+        `SELECT u.provider AS provider, ${TOTALS_COLUMNS} ${USAGE_SOURCE}
+         WHERE u.created_at >= ?
+         GROUP BY u.provider, p.currency`,
+        [since ?? 0]
+      );
+      return groupRows(
+        rows,
+        row => row.provider,
+        row => ({ ...emptyTotals(), provider: row.provider })
+      );
+    });
+  },
+
+  /**
+   * 按 API Key 汇总用量（仅多 Key 模式产生的记录）
+   *
+   * 关联 provider_api_keys 的请求统计，便于对照成功/失败次数
+   */
+  async listByApiKey(providerId?: string): Promise<ApiKeyUsageSummary[]> {
+    return withRepositoryContext('UsageRepository', 'listByApiKey', { providerId, table: 'message_usage, provider_api_keys' }, async () => {
+      const args: any[] = [];
+      let where = 'WHERE u.api_key_id IS NOT NULL';
+      if (providerId) {
+        where += ' AND u.provider = ?';
+        args.push(providerId);
+      }
+      const rows = await queryAll<any>(
+        `SELECT u.api_key_id AS key_id,
+                COALESCE(k.provider_id, u.provider) AS provider_id,
+                k.name AS key_name,
+                COALESCE(k.total_requests, 0) AS key_total_requests,
+                COALESCE(k.successful_requests, 0) AS key_successful_requests,
+                COALESCE(k.failed_requests, 0) AS key_failed_requests,
+                ${TOTALS_COLUMNS} ${USAGE_SOURCE}
+         LEFT JOIN provider_api_keys k ON k.id = u.api_key_id
+         ${where}
+         GROUP BY u.api_key_id, p.currency`,
+        args
+      );
+      return groupRows(
+        rows,
+        row => row.key_id,
+        row => ({
+          ...emptyTotals(),
+          keyId: row.key_id,
+          providerId: row.provider_id ?? null,
+          name: row.key_name || undefined,
+          totalRequests: row.key_total_requests,
+          successfulRequests: row.key_successful_requests,
+          failedRequests: row.key_failed_requests,
+        })
+      );
+    });
+  },
+
+  /**
+   * 按日期（本地时区）统计花费，按日期升序
+   *
+   * @param days 统计最近多少天（含今天）
+   */
+  async getDailySpend(days: number = 30): Promise<DailySpend[]> {
+    return withRepositoryContext('UsageRepository', 'getDailySpend', { days, table: 'message_usage' }, async () => {
+      const start = new Date();
+      start.setHours(0, 0, 0, 0);
+      start.setDate(start.getDate() - (days - 1));
+
+      const rows = await queryAll<any>(
+        `SELECT strftime('%Y-%m-%d', u.created_at / 1000, 'unixepoch', 'localtime') AS date,
+                COALESCE(SUM(u.total_tokens), 0) AS total_tokens,
+                p.currency AS currency,
+                ${COST_EXPR} AS cost
+         ${USAGE_SOURCE}
+         WHERE u.created_at >= ?
+         GROUP BY date, p.currency
+         ORDER BY date ASC`,
+        [start.getTime()]
+      );
+
+      const byDate = new Map<string, DailySpend>();
+      for (const row of rows) {
+        let day = byDate.get(row.date);
+        if (!day) {
+          day = { date: row.date, totalTokens: 0, costs: {} };
+          byDate.set(row.date, day);
+        }
+        day.totalTokens += row.total_tokens ?? 0;
+        if (row.currency && row.cost > 0) {
+          day.costs[row.currency] = (day.costs[row.currency] ?? 0) + row.cost;
+        }
+      }
+      return Array.from(byDate.values());
+    });
+  },
+};
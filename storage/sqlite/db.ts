@@ -1,6 +1,17 @@
 import { openDatabaseSync, SQLiteDatabase } from 'expo-sqlite';
 import { MIGRATION_0001 } from '@/storage/sqlite/migrations/0001_init';
 import { MIGRATION_0002 } from '@/storage/sqlite/migrations/0002_multi_key';
+import { MIGRATION_0003, MESSAGE_TREE_BACKFILL, MESSAGE_TREE_VERSION } from '@/storage/sqlite/migrations/0003_message_tree';
+import { MIGRATION_0004 } from '@/storage/sqlite/migrations/0004_usage';
+import { MIGRATION_0005, MESSAGE_SEARCH_BACKFILL } from '@/storage/sqlite/migrations/0005_message_search';
+import { CONTEXT_BOUNDARY_BACKFILL } from '@/storage/sqlite/migrations/0006_context_boundaries';
+import { MIGRATION_0007 } from '@/storage/sqlite/migrations/0007_model_fallbacks';
+import { MIGRATION_0008 } from '@/storage/sqlite/migrations/0008_model_reasoning';
+import { MIGRATION_0009, MCP_TOOL_POLICIES_COLUMN } from '@/storage/sqlite/migrations/0009_mcp_tool_policies';
+import { MIGRATION_0010, MCP_DISABLED_TOOLS_COLUMN } from '@/storage/sqlite/migrations/0010_mcp_disabled_tools';
+import { MIGRATION_0011, MCP_TRANSPORT_TYPE_COLUMN } from '@/storage/sqlite/migrations/0011_mcp_transport_type';
+import { MIGRATION_0012, MCP_OAUTH_STATE_COLUMN } from '@/storage/sqlite/migrations/0012_mcp_oauth_state';
+import { MIGRATION_0013, USAGE_LEDGER_COLUMN, USAGE_LEDGER_MIGRATION } from '@/storage/sqlite/migrations/0013_usage_ledger';
 import { withDatabaseErrorHandler, withTransactionErrorHandler } from '@/storage/sqlite/error-handler';
 import { logger } from '@/utils/logger';
 
@@ -96,10 +107,97 @@ export async function initMigrations(): Promise<void> {
           await db.execAsync(sql + ';');
         }
       });
+
+      // 应用 MIGRATION_0013（一次性迁移记录表，需先于各一次性迁移创建）
+      await db.execAsync(MIGRATION_0013);
+
+      // 应用 MIGRATION_0003（消息树索引）
+      await db.execAsync(MIGRATION_0003);
+
+      // 一次性数据迁移：历史消息补全 parent_id（不可重复执行，旧版本已执行过的按 user_version 识别）
+      await runOnceMigration(db, 'message_tree_backfill', '消息树回填', async () => {
+        await db.execAsync(MESSAGE_TREE_BACKFILL);
+      }, MESSAGE_TREE_VERSION);
+
+      // 应用 MIGRATION_0004（Token 用量与模型单价）
+      await db.execAsync(MIGRATION_0004);
+
+      // 应用 MIGRATION_0005（消息全文搜索）
+      // FTS5 可能在原生构建中被关闭（expo-sqlite enableFTS=false），此时仅禁用搜索，不阻断启动
+      try {
+        await db.execAsync(MIGRATION_0005);
+        // 回填会先清空索引再重建，可安全重复执行，不沿用 user_version
+        await runOnceMigration(db, 'message_search_backfill', '消息搜索索引', async () => {
+          await db.execAsync(MESSAGE_SEARCH_BACKFILL);
+        });
+      } catch (e) {
+        logger.warn('[数据库迁移] 消息全文搜索初始化失败，搜索功能不可用', e);
+      }
+
+      // 应用 0006：旧的上下文重置时间戳转换为消息上的上下文分界（幂等）
+      await db.withTransactionAsync(async () => {
+        await db.execAsync(CONTEXT_BOUNDARY_BACKFILL);
+      });
+
+      // 应用 MIGRATION_0007（模型回退链）
+      await db.execAsync(MIGRATION_0007);
+
+      // 应用 MIGRATION_0008（模型推理强度）
+      await db.execAsync(MIGRATION_0008);
+
+      // 应用 MIGRATION_0009（MCP 工具调用审批策略）
+      await addColumnIfMissing(db, 'mcp_servers', MCP_TOOL_POLICIES_COLUMN, MIGRATION_0009);
+
+      // 应用 MIGRATION_0010（MCP 工具启用列表）
+      await addColumnIfMissing(db, 'mcp_servers', MCP_DISABLED_TOOLS_COLUMN, MIGRATION_0010);
+
+      // 应用 MIGRATION_0011（MCP 传输协议）
+      await addColumnIfMissing(db, 'mcp_servers', MCP_TRANSPORT_TYPE_COLUMN, MIGRATION_0011);
+
+      // 应用 MIGRATION_0012（MCP OAuth 授权状态）
+      await addColumnIfMissing(db, 'mcp_servers', MCP_OAUTH_STATE_COLUMN, MIGRATION_0012);
+
+      // 一次性迁移：Token 用量改为按次记录，删除消息后保留（表结构已是新版时跳过）
+      await runOnceMigration(db, 'usage_ledger', 'Token 用量按次记录', async () => {
+        const columns = await db.getAllAsync<{ name: string }>('PRAGMA table_info(message_usage)');
+        if (columns.some((c) => c.name === USAGE_LEDGER_COLUMN)) return;
+        await db.execAsync(USAGE_LEDGER_MIGRATION);
+      });
     })
   );
 }
 
+/**
+ * 执行一次性数据迁移
+ *
+ * 建表脚本均为幂等（IF NOT EXISTS），而数据回填只能执行一次，
+ * 因此在 schema_migrations 中按名称记录；迁移与记录在同一事务中，失败时不记录，下次启动重试。
+ *
+ * @param legacyVersion - 旧版本以 PRAGMA user_version 记录的版本号：已达到时视为已执行，仅补记录
+ */
+async function runOnceMigration(
+  db: SQLiteDatabase,
+  name: string,
+  label: string,
+  migrate: () => Promise<void>,
+  legacyVersion?: number
+): Promise<void> {
+  const done = await db.getFirstAsync<{ name: string }>('SELECT name FROM schema_migrations WHERE name = ?', [name]);
+  if (done) return;
+
+  let alreadyApplied = false;
+  if (legacyVersion !== undefined) {
+    const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+    alreadyApplied = (row?.user_version ?? 0) >= legacyVersion;
+  }
+
+  await db.withTransactionAsync(async () => {
+    if (!alreadyApplied) await migrate();
+    await db.runAsync('INSERT INTO schema_migrations (name, applied_at) VALUES (?, ?)', [name, Date.now()]);
+  });
+  logger.info(`[数据库迁移] ${label} ${alreadyApplied ? '已由旧版本完成，补记录' : '完成'}`);
+}
+
 export async function queryAll<T = any>(sql: string, args: any[] = []): Promise<T[]> {
   return withDatabaseErrorHandler(
     'query',
@@ -145,6 +243,43 @@ export async function execute(sql: string, args: any[] = []): Promise<{ changes:
   );
 }
 
+/**
+ * 在单个事务中执行多条语句（与其他数据库操作串行，失败时整体回滚）
+ *
+ * @param operation - 操作名称（用于错误日志）
+ * @param fn - 事务内的数据库操作，直接使用传入的 db 执行语句
+ */
+export async function transaction<T>(
+  operation: string,
+  fn: (db: SQLiteDatabase) => Promise<T>
+): Promise<T> {
+  return withTransactionErrorHandler(
+    operation,
+    () => runSerializedWithRetry(async (db) => {
+      let result!: T;
+      await db.withTransactionAsync(async () => {
+        result = await fn(db);
+      });
+      return result;
+    })
+  );
+}
+
+/**
+ * 列不存在时执行新增列的迁移（ALTER TABLE ADD COLUMN 不是幂等的）
+ */
+async function addColumnIfMissing(
+  db: SQLiteDatabase,
+  table: string,
+  column: string,
+  migration: string
+): Promise<void> {
+  const columns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  if (columns.some((c) => c.name === column)) return;
+  await db.execAsync(migration);
+  logger.info(`[数据库迁移] 已新增列 ${table}.${column}`);
+}
+
 /**
  * 确保 mcp_servers 表包含必要的列和索引
  *
@@ -0,0 +1,28 @@
+/**
+ * 数据库迁移 0003 - 消息树（对话分支）
+ *
+ * messages.parent_id 指向上一条消息，编辑历史消息后重新发送会在同一父节点下产生兄弟分支。
+ *
+ * 1. MIGRATION_0003 - 为 parent_id 建立索引（幂等，每次启动执行）
+ * 2. MESSAGE_TREE_BACKFILL - 一次性数据迁移：将历史线性消息按时间顺序串成链
+ *    （由 PRAGMA user_version 控制，仅执行一次）
+ */
+export const MIGRATION_0003 = `
+CREATE INDEX IF NOT EXISTS idx_messages_parent
+  ON messages(parent_id);
+`;
+
+export const MESSAGE_TREE_VERSION = 3;
+
+export const MESSAGE_TREE_BACKFILL = `
+UPDATE messages
+SET parent_id = (
+  SELECT prev.id FROM messages prev
+  WHERE prev.conversation_id = messages.conversation_id
+    AND (prev.created_at < messages.created_at
+      OR (prev.created_at = messages.created_at AND prev.id < messages.id))
+  ORDER BY prev.created_at DESC, prev.id DESC
+  LIMIT 1
+)
+WHERE parent_id IS NULL;
+`;
@@ -0,0 +1,57 @@
+/**
+ * 数据库迁移 0004 - Token 用量与费用统计
+ *
+ * 新增表：
+ * 1. message_usage - 每条助手消息的 Token 用量（按话题/提供商/API Key 汇总）
+ * 2. model_prices - 用户设置的模型单价（每百万 Token），用于估算费用
+ */
+export const MIGRATION_0004 = `
+-- ============================================
+-- Token 用量
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS message_usage (
+  message_id TEXT PRIMARY KEY,
+  conversation_id TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  api_key_id TEXT,
+  input_tokens INTEGER DEFAULT 0,
+  output_tokens INTEGER DEFAULT 0,
+  reasoning_tokens INTEGER DEFAULT 0,
+  cached_input_tokens INTEGER DEFAULT 0,
+  total_tokens INTEGER DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY(message_id) REFERENCES messages(id) ON DELETE CASCADE
+);
+
+-- 索引：按话题汇总
+CREATE INDEX IF NOT EXISTS idx_message_usage_conversation
+  ON message_usage(conversation_id);
+
+-- 索引：按提供商/模型汇总
+CREATE INDEX IF NOT EXISTS idx_message_usage_provider
+  ON message_usage(provider, model);
+
+-- 索引：按 API Key 汇总
+CREATE INDEX IF NOT EXISTS idx_message_usage_key
+  ON message_usage(api_key_id);
+
+-- 索引：按时间统计花费
+CREATE INDEX IF NOT EXISTS idx_message_usage_created
+  ON message_usage(created_at);
+
+-- ============================================
+-- 模型单价
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS model_prices (
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_price REAL DEFAULT 0,
+  output_price REAL DEFAULT 0,
+  currency TEXT DEFAULT 'USD',
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY(provider, model)
+);
+`;
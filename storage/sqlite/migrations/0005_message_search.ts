@@ -0,0 +1,159 @@
+/**
+ * 数据库迁移 0005 - 消息全文搜索（FTS5）
+ *
+ * message_search_docs 汇总三类可搜索内容，message_search 为其外部内容（external content）FTS5 索引：
+ * - messages.text（source = 'message'）
+ * - message_blocks.content（source = 'block'）
+ * - thinking_chains.content（source = 'thinking'）
+ *
+ * 使用 trigram 分词器以支持中文等无空格分隔的语言（查询词至少 3 个字符才能走索引）。
+ * 源表触发器维护 message_search_docs，docs 表触发器再同步 FTS 索引，
+ * 流式更新思考链时可按 (source, source_id) 索引定位，避免全表扫描。
+ *
+ * 1. MIGRATION_0005 - 建表与触发器（幂等，每次启动执行）
+ * 2. MESSAGE_SEARCH_BACKFILL - 一次性数据迁移：为已有数据建立索引
+ *    （由 PRAGMA user_version 控制，仅执行一次）
+ */
+export const MIGRATION_0005 = `
+CREATE TABLE IF NOT EXISTS message_search_docs (
+  id INTEGER PRIMARY KEY,
+  message_id TEXT NOT NULL,
+  source TEXT NOT NULL CHECK(source IN ('message', 'block', 'thinking')),
+  source_id TEXT NOT NULL,
+  content TEXT NOT NULL,
+  UNIQUE(source, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_search_docs_message
+  ON message_search_docs(message_id);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS message_search USING fts5(
+  content,
+  content = 'message_search_docs',
+  content_rowid = 'id',
+  tokenize = 'trigram'
+);
+
+-- ============================================
+-- docs → FTS 索引同步
+-- ============================================
+
+CREATE TRIGGER IF NOT EXISTS trg_message_search_docs_ai
+AFTER INSERT ON message_search_docs
+BEGIN
+  INSERT INTO message_search(rowid, content) VALUES (new.id, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_message_search_docs_ad
+AFTER DELETE ON message_search_docs
+BEGIN
+  INSERT INTO message_search(message_search, rowid, content) VALUES ('delete', old.id, old.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_message_search_docs_au
+AFTER UPDATE ON message_search_docs
+BEGIN
+  INSERT INTO message_search(message_search, rowid, content) VALUES ('delete', old.id, old.content);
+  INSERT INTO message_search(rowid, content) VALUES (new.id, new.content);
+END;
+
+-- ============================================
+-- messages.text
+-- ============================================
+
+CREATE TRIGGER IF NOT EXISTS trg_message_search_messages_ai
+AFTER INSERT ON messages
+WHEN COALESCE(new.text, '') <> ''
+BEGIN
+  INSERT INTO message_search_docs(message_id, source, source_id, content)
+  VALUES (new.id, 'message', new.id, new.text);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_message_search_messages_au
+AFTER UPDATE OF text ON messages
+BEGIN
+  DELETE FROM message_search_docs WHERE source = 'message' AND source_id = old.id;
+  INSERT INTO message_search_docs(message_id, source, source_id, content)
+  SELECT new.id, 'message', new.id, new.text
+  WHERE COALESCE(new.text, '') <> '';
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_message_search_messages_ad
+AFTER DELETE ON messages
+BEGIN
+  DELETE FROM message_search_docs WHERE message_id = old.id;
+END;
+
+-- ============================================
+-- message_blocks.content
+-- ============================================
+
+CREATE TRIGGER IF NOT EXISTS trg_message_search_blocks_ai
+AFTER INSERT ON message_blocks
+WHEN new.content <> ''
+BEGIN
+  INSERT INTO message_search_docs(message_id, source, source_id, content)
+  VALUES (new.message_id, 'block', new.id, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_message_search_blocks_au
+AFTER UPDATE OF content ON message_blocks
+BEGIN
+  DELETE FROM message_search_docs WHERE source = 'block' AND source_id = old.id;
+  INSERT INTO message_search_docs(message_id, source, source_id, content)
+  SELECT new.message_id, 'block', new.id, new.content
+  WHERE new.content <> '';
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_message_search_blocks_ad
+AFTER DELETE ON message_blocks
+BEGIN
+  DELETE FROM message_search_docs WHERE source = 'block' AND source_id = old.id;
+END;
+
+-- ============================================
+-- thinking_chains.content
+-- ============================================
+
+CREATE TRIGGER IF NOT EXISTS trg_message_search_thinking_ai
+AFTER INSERT ON thinking_chains
+WHEN new.content <> ''
+BEGIN
+  INSERT INTO message_search_docs(message_id, source, source_id, content)
+  VALUES (new.message_id, 'thinking', new.id, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_message_search_thinking_au
+AFTER UPDATE OF content ON thinking_chains
+BEGIN
+  DELETE FROM message_search_docs WHERE source = 'thinking' AND source_id = old.id;
+  INSERT INTO message_search_docs(message_id, source, source_id, content)
+  SELECT new.message_id, 'thinking', new.id, new.content
+  WHERE new.content <> '';
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_message_search_thinking_ad
+AFTER DELETE ON thinking_chains
+BEGIN
+  DELETE FROM message_search_docs WHERE source = 'thinking' AND source_id = old.id;
+END;
+`;
+
+export const MESSAGE_SEARCH_VERSION = 5;
+
+export const MESSAGE_SEARCH_BACKFILL = `
+DELETE FROM message_search_docs;
+INSERT INTO message_search(message_search) VALUES ('delete-all');
+
+INSERT INTO message_search_docs(message_id, source, source_id, content)
+SELECT id, 'message', id, text FROM messages
+WHERE COALESCE(text, '') <> '';
+
+INSERT INTO message_search_docs(message_id, source, source_id, content)
+SELECT message_id, 'block', id, content FROM message_blocks
+WHERE content <> '';
+
+INSERT INTO message_search_docs(message_id, source, source_id, content)
+SELECT message_id, 'thinking', id, content FROM thinking_chains
+WHERE content <> '';
+`;
@@ -0,0 +1,40 @@
+/**
+ * 数据库迁移 0006 - 上下文分界
+ *
+ * 上下文分界由单个时间戳（conversations.extra.contextResetAt）改为保存在消息上：
+ * messages.extra.contextBoundary 表示"在该消息之后开始新的上下文段"，一个话题可以有任意多个分界。
+ *
+ * CONTEXT_BOUNDARY_BACKFILL - 将旧的重置时间戳转换为该时间点之前最后一条消息上的分界，
+ * 并移除旧字段。转换后不再存在旧字段，因此每次启动执行也是幂等的
+ * （不占用 PRAGMA user_version，避免跳过 FTS5 不可用时未完成的搜索回填）
+ */
+
+export const CONTEXT_BOUNDARY_BACKFILL = `
+UPDATE messages
+SET extra = json_set(
+  CASE WHEN json_valid(extra) THEN extra ELSE '{}' END,
+  '$.contextBoundary',
+  json_object('createdAt', (
+    SELECT json_extract(c.extra, '$.contextResetAt')
+    FROM conversations c
+    WHERE c.id = messages.conversation_id
+  ))
+)
+WHERE id IN (
+  SELECT (
+    SELECT m.id FROM messages m
+    WHERE m.conversation_id = c.id
+      AND m.created_at <= json_extract(c.extra, '$.contextResetAt')
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT 1
+  )
+  FROM conversations c
+  WHERE json_valid(c.extra)
+    AND json_extract(c.extra, '$.contextResetAt') IS NOT NULL
+);
+
+UPDATE conversations
+SET extra = json_remove(extra, '$.contextResetAt')
+WHERE json_valid(extra)
+  AND json_extract(extra, '$.contextResetAt') IS NOT NULL;
+`;
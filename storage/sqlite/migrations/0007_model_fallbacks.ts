@@ -0,0 +1,15 @@
+/**
+ * 数据库迁移 0007 - 模型回退链
+ *
+ * 新增表：
+ * model_fallbacks - 每个模型的有序回退链（主模型请求失败且可重试时依次尝试）
+ */
+export const MIGRATION_0007 = `
+CREATE TABLE IF NOT EXISTS model_fallbacks (
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  chain TEXT NOT NULL,
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY(provider, model)
+);
+`;
@@ -0,0 +1,16 @@
+/**
+ * 数据库迁移 0008 - 模型推理强度
+ *
+ * 新增表：
+ * model_reasoning - 每个模型记住的推理强度（关闭 / 低 / 中 / 高 / 自定义思考预算）
+ */
+export const MIGRATION_0008 = `
+CREATE TABLE IF NOT EXISTS model_reasoning (
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  level TEXT NOT NULL,
+  budget_tokens INTEGER,
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY(provider, model)
+);
+`;
@@ -0,0 +1,11 @@
+/**
+ * 数据库迁移 0009 - MCP 工具调用审批策略
+ *
+ * 新增列：
+ * mcp_servers.tool_policies - 每个工具的审批策略（JSON：{ 工具名: 'ask' | 'always' }，未记录的工具每次询问）
+ *
+ * SQLite 的 ADD COLUMN 不支持 IF NOT EXISTS，由 initMigrations 检查列不存在时执行
+ */
+export const MCP_TOOL_POLICIES_COLUMN = 'tool_policies';
+
+export const MIGRATION_0009 = `ALTER TABLE mcp_servers ADD COLUMN tool_policies TEXT;`;
@@ -0,0 +1,11 @@
+/**
+ * 数据库迁移 0010 - MCP 工具启用列表
+ *
+ * 新增列：
+ * mcp_servers.disabled_tools - 已禁用的工具名称（JSON 数组），禁用的工具不会提供给模型
+ *
+ * SQLite 的 ADD COLUMN 不支持 IF NOT EXISTS，由 initMigrations 检查列不存在时执行
+ */
+export const MCP_DISABLED_TOOLS_COLUMN = 'disabled_tools';
+
+export const MIGRATION_0010 = `ALTER TABLE mcp_servers ADD COLUMN disabled_tools TEXT;`;
@@ -0,0 +1,11 @@
+/**
+ * 数据库迁移 0011 - MCP 传输协议
+ *
+ * 新增列：
+ * mcp_servers.transport_type - 传输协议（streamableHttp / sse），为空表示自动检测，检测成功后写入
+ *
+ * SQLite 的 ADD COLUMN 不支持 IF NOT EXISTS，由 initMigrations 检查列不存在时执行
+ */
+export const MCP_TRANSPORT_TYPE_COLUMN = 'transport_type';
+
+export const MIGRATION_0011 = `ALTER TABLE mcp_servers ADD COLUMN transport_type TEXT;`;
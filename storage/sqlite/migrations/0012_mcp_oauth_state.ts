@@ -0,0 +1,12 @@
+/**
+ * 数据库迁移 0012 - MCP OAuth 授权状态
+ *
+ * 新增列：
+ * mcp_servers.oauth_state - OAuth 授权状态（JSON：注册的客户端信息、令牌、PKCE 校验码），
+ *                           与 headers 相同使用设备密钥加密存储
+ *
+ * SQLite 的 ADD COLUMN 不支持 IF NOT EXISTS，由 initMigrations 检查列不存在时执行
+ */
+export const MCP_OAUTH_STATE_COLUMN = 'oauth_state';
+
+export const MIGRATION_0012 = `ALTER TABLE mcp_servers ADD COLUMN oauth_state TEXT;`;
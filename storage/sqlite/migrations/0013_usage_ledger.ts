@@ -0,0 +1,63 @@
+/**
+ * 数据库迁移 0013 - 一次性迁移记录与 Token 用量按次记录
+ *
+ * 1. MIGRATION_0013 - schema_migrations 表：按名称记录已完成的一次性迁移（幂等，每次启动执行）。
+ *    原先各一次性迁移共用 PRAGMA user_version，某一步失败（如 FTS5 不可用）后
+ *    后续迁移仍会抬高版本号，导致失败的迁移再也不会执行
+ * 2. USAGE_LEDGER_MIGRATION - 重建 message_usage：
+ *    原表以 message_id 为主键并在删除消息时级联删除，继续生成 / 重试会覆盖同一消息之前的用量，
+ *    删除消息或话题后历史花费随之消失。重建为每次生成一行（新增 id 主键），
+ *    message_id 仅作关联、不设外键，删除消息后用量保留
+ */
+export const MIGRATION_0013 = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  name TEXT PRIMARY KEY,
+  applied_at INTEGER NOT NULL
+);
+`;
+
+/** message_usage 重建后新增的主键列（已存在时跳过重建） */
+export const USAGE_LEDGER_COLUMN = 'id';
+
+export const USAGE_LEDGER_MIGRATION = `
+CREATE TABLE message_usage_new (
+  id TEXT PRIMARY KEY,
+  message_id TEXT,
+  conversation_id TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  api_key_id TEXT,
+  input_tokens INTEGER DEFAULT 0,
+  output_tokens INTEGER DEFAULT 0,
+  reasoning_tokens INTEGER DEFAULT 0,
+  cached_input_tokens INTEGER DEFAULT 0,
+  total_tokens INTEGER DEFAULT 0,
+  created_at INTEGER NOT NULL
+);
+
+INSERT INTO message_usage_new
+  (id, message_id, conversation_id, provider, model, api_key_id,
+   input_tokens, output_tokens, reasoning_tokens, cached_input_tokens, total_tokens, created_at)
+SELECT message_id, message_id, conversation_id, provider, model, api_key_id,
+  input_tokens, output_tokens, reasoning_tokens, cached_input_tokens, total_tokens, created_at
+FROM message_usage;
+
+DROP TABLE message_usage;
+
+ALTER TABLE message_usage_new RENAME TO message_usage;
+
+CREATE INDEX IF NOT EXISTS idx_message_usage_message
+  ON message_usage(message_id);
+
+CREATE INDEX IF NOT EXISTS idx_message_usage_conversation
+  ON message_usage(conversation_id);
+
+CREATE INDEX IF NOT EXISTS idx_message_usage_provider
+  ON message_usage(provider, model);
+
+CREATE INDEX IF NOT EXISTS idx_message_usage_key
+  ON message_usage(api_key_id);
+
+CREATE INDEX IF NOT EXISTS idx_message_usage_created
+  ON message_usage(created_at);
+`;
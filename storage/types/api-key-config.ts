@@ -3,7 +3,7 @@
  * 用于多 Key 轮询和负载均衡
  */
 
-import type { ProviderId } from '../repositories/providers';
+import type { AnyProviderId } from '../repositories/providers';
 
 /**
  * Key 状态
@@ -23,7 +23,7 @@ export interface ApiKeyConfig {
   id: string;
 
   /** 提供商 ID（openai, anthropic 等） */
-  providerId: ProviderId;
+  providerId: AnyProviderId;
 
   /** API Key 值（明文存储在SQLite，与单Key模式一致） */
   key: string;
@@ -81,7 +81,7 @@ export interface ApiKeyUsage {
  */
 export interface ProviderKeyManagement {
   /** 提供商 ID */
-  providerId: ProviderId;
+  providerId: AnyProviderId;
 
   /** 负载均衡策略（目前只支持 round_robin） */
   strategy: LoadBalanceStrategy;
@@ -0,0 +1,25 @@
+/**
+ * 对话记忆（滚动摘要）类型定义
+ */
+
+/**
+ * 话题的滚动摘要（保存在 conversations.extra.memory）
+ *
+ * 超出上下文窗口的较早消息会被增量摘要，并作为系统消息注入后续请求
+ */
+export interface ConversationMemory {
+  /** 摘要正文 */
+  summary: string;
+  /** 已摘要的最后一条消息的创建时间（增量更新的起点） */
+  coveredUntil: number;
+  /** 已摘要的最后一条消息 ID（摘要只对包含该消息的分支有效） */
+  coveredMessageId?: string;
+  /** 已摘要的消息条数 */
+  messageCount: number;
+  /** 最近一次生成摘要所用的模型 */
+  provider?: string;
+  model?: string;
+  /** 用户手动编辑过 */
+  edited?: boolean;
+  updatedAt: number;
+}
@@ -0,0 +1,27 @@
+/**
+ * 模型回退链类型定义
+ */
+
+/**
+ * 回退目标（提供商 + 模型）
+ */
+export interface ModelTarget {
+  /** 提供商 ID（内置或自定义 cp-xxxx） */
+  provider: string;
+  /** 模型 ID */
+  model: string;
+}
+
+/**
+ * 单个模型的回退链（model_fallbacks 表）
+ */
+export interface ModelFallbackChain {
+  /** 主模型的提供商 */
+  provider: string;
+  /** 主模型 ID */
+  model: string;
+  /** 有序回退目标（按顺序依次尝试） */
+  chain: ModelTarget[];
+  /** 更新时间戳 */
+  updatedAt: number;
+}
@@ -0,0 +1,32 @@
+/**
+ * 模型推理强度类型定义
+ */
+
+/**
+ * 推理强度档位
+ * - off: 关闭思考（无法关闭的模型使用最低档位）
+ * - low / medium / high: 预设档位
+ * - custom: 自定义思考预算（Token）
+ */
+export type ReasoningLevel = 'off' | 'low' | 'medium' | 'high' | 'custom';
+
+/**
+ * 推理强度设置（发送请求时映射为各提供商的 providerOptions）
+ */
+export interface ReasoningConfig {
+  level: ReasoningLevel;
+  /** 自定义思考预算（Token），仅 level 为 custom 时使用 */
+  budgetTokens?: number | null;
+}
+
+/**
+ * 单个模型记住的推理强度（model_reasoning 表）
+ */
+export interface ModelReasoningSetting extends ReasoningConfig {
+  /** 提供商 ID（内置或自定义 cp-xxxx） */
+  provider: string;
+  /** 模型 ID */
+  model: string;
+  /** 更新时间戳 */
+  updatedAt: number;
+}
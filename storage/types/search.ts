@@ -0,0 +1,44 @@
+/**
+ * 消息全文搜索类型定义
+ */
+
+import type { Role } from '@/storage/core';
+
+/** 命中片段高亮起止标记（不可见控制字符，渲染时拆分） */
+export const SEARCH_HIGHLIGHT_START = '\u0002';
+export const SEARCH_HIGHLIGHT_END = '\u0003';
+
+/** 命中内容来源 */
+export type MessageSearchSource = 'message' | 'block' | 'thinking';
+
+/**
+ * 搜索筛选条件
+ */
+export interface MessageSearchFilters {
+  /** 消息角色 */
+  roles?: Role[];
+  /** 起始时间戳（包含） */
+  from?: number;
+  /** 结束时间戳（不包含） */
+  to?: number;
+  /** 助手 ID（匹配使用过该助手的话题） */
+  assistantId?: string;
+  /** 模型 ID（匹配 message.extra.model） */
+  model?: string;
+}
+
+/**
+ * 搜索结果（每条消息至多一条）
+ */
+export interface MessageSearchResult {
+  messageId: string;
+  conversationId: string;
+  conversationTitle: string | null;
+  role: Role;
+  createdAt: number;
+  model?: string;
+  /** 命中内容来源（正文 / 消息块 / 思考链） */
+  source: MessageSearchSource;
+  /** 命中片段，关键词由 SEARCH_HIGHLIGHT_START/END 包裹 */
+  snippet: string;
+}
@@ -0,0 +1,15 @@
+/**
+ * 话题设置类型定义
+ */
+
+import type { AssistantSettings } from '@/types/assistant';
+
+/**
+ * 话题设置覆盖（保存在 conversations.extra.settings）
+ *
+ * 未设置的字段依次回退到助手设置与全局设置
+ */
+export interface TopicSettings extends AssistantSettings {
+  /** 话题专用系统提示词（覆盖助手提示词） */
+  systemPrompt?: string;
+}
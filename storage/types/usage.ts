@@ -0,0 +1,109 @@
+/**
+ * Token 用量与费用统计类型定义
+ */
+
+/**
+ * 一次生成的 Token 用量（message_usage 表，同一消息可有多条）
+ */
+export interface MessageUsageRecord {
+  /** 助手消息 ID */
+  messageId: string;
+  /** 所属话题 ID */
+  conversationId: string;
+  /** 实际使用的提供商 */
+  provider: string;
+  /** 实际使用的模型 */
+  model: string;
+  /** 多 Key 模式下使用的 Key ID（单 Key 模式为空） */
+  apiKeyId?: string;
+  /** 输入（提示词）Token */
+  inputTokens: number;
+  /** 输出（补全）Token，包含推理 Token */
+  outputTokens: number;
+  /** 推理 Token */
+  reasoningTokens: number;
+  /** 命中缓存的输入 Token */
+  cachedInputTokens: number;
+  /** Token 总数 */
+  totalTokens: number;
+  /** 记录时间戳 */
+  createdAt: number;
+}
+
+/**
+ * 写入 message.extra.usage 的精简用量（消息底部展示）
+ */
+export interface MessageUsageSummary {
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * 模型单价（每百万 Token）
+ */
+export interface ModelPrice {
+  provider: string;
+  model: string;
+  /** 输入单价 */
+  inputPrice: number;
+  /** 输出单价 */
+  outputPrice: number;
+  /** 货币代码（如 USD、CNY） */
+  currency: string;
+  updatedAt: number;
+}
+
+/**
+ * 用量汇总
+ */
+export interface UsageTotals {
+  /** 请求次数（有用量记录的助手消息数） */
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+  /** 按货币分组的花费（未设置单价的模型不计入） */
+  costs: Record<string, number>;
+}
+
+/**
+ * 按提供商汇总的用量
+ */
+export interface ProviderUsageSummary extends UsageTotals {
+  provider: string;
+}
+
+/**
+ * 按提供商/模型汇总的用量
+ */
+export interface ModelUsageSummary extends UsageTotals {
+  provider: string;
+  model: string;
+}
+
+/**
+ * 按 API Key 汇总的用量（关联 provider_api_keys 的请求统计）
+ */
+export interface ApiKeyUsageSummary extends UsageTotals {
+  keyId: string;
+  providerId: string | null;
+  /** Key 名称（Key 已删除时为空） */
+  name?: string;
+  /** provider_api_keys 记录的请求统计 */
+  totalRequests: number;
+  successfulRequests: number;
+  failedRequests: number;
+}
+
+/**
+ * 每日花费
+ */
+export interface DailySpend {
+  /** 本地日期（YYYY-MM-DD） */
+  date: string;
+  totalTokens: number;
+  costs: Record<string, number>;
+}
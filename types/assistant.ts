@@ -4,6 +4,40 @@
  * 此文件定义了智能体相关的核心数据结构
  */
 
+/**
+ * 助手对话设置
+ *
+ * 未设置的字段跟随全局设置（或输入框当前开关）
+ */
+export interface AssistantSettings {
+  /** 固定使用的模型 */
+  model?: { provider: string; model: string };
+
+  /** 模型温度 */
+  temperature?: number;
+
+  /** 最大令牌数（null 表示不限制，由模型自动决定） */
+  maxTokens?: number | null;
+
+  /** 上下文数目（保留的历史对话轮数） */
+  contextCount?: number;
+
+  /** 是否启用 MCP 工具 */
+  enableMcpTools?: boolean;
+
+  /** 允许使用的 MCP 服务器 ID（未设置表示全部已激活的服务器） */
+  mcpServerIds?: string[];
+
+  /** 允许使用的 MCP 工具名称（未设置表示所选服务器的全部工具） */
+  mcpToolNames?: string[];
+
+  /** 是否启用网络搜索 */
+  enableWebSearch?: boolean;
+
+  /** 结构化输出 JSON Schema（文本）；设置后回答必须为符合该 Schema 的 JSON */
+  jsonSchema?: string;
+}
+
 /**
  * 智能体助手
  */
@@ -23,6 +57,9 @@ export interface Assistant {
   /** 系统提示词（核心） */
   systemPrompt?: string;
 
+  /** 对话设置（模型、参数与工具绑定） */
+  settings?: AssistantSettings;
+
   /** 是否为系统预设助手（不可删除） */
   isSystem?: boolean;
 
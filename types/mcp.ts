@@ -2,13 +2,14 @@
  * MCP (Model Context Protocol) 类型定义
  *
  * 定义了 MCP 服务器、工具、资源、提示词等相关的 TypeScript 类型
- * 从 Cherry Studio 移植，适配 React Native 环境（仅支持 HTTP 传输）
+ * 从 Cherry Studio 移植，适配 React Native 环境（仅支持 HTTP 传输：Streamable HTTP 与旧版 HTTP+SSE）
  *
  * @module types/mcp
  * @see https://modelcontextprotocol.io
  */
 
 import * as z from 'zod';
+import type { OAuthClientInformationMixed, OAuthTokens } from '@modelcontextprotocol/sdk/shared/auth.js';
 import type { BaseTool, MCPTool } from './tool';
 
 export type { MCPTool } from './tool';
@@ -27,8 +28,8 @@ export type MCPConfigSample = z.infer<typeof MCPConfigSampleSchema>;
 /**
  * MCP 服务器通信类型
  *
- * - streamableHttp: 通过 HTTP Streamable 协议通信（React Native 唯一支持的方式）
- * - sse: 通过 HTTP Server-Sent Events 通信（未来可能支持）
+ * - streamableHttp: 通过 HTTP Streamable 协议通信（推荐）
+ * - sse: 通过 HTTP Server-Sent Events 通信（旧版协议，兼容尚未升级的服务器）
  *
  * 注意：React Native 不支持 stdio 和 inMemory 类型
  */
@@ -158,6 +159,8 @@ export const McpConfigSchema = z.object({
 
 // 数据校验用类型
 export type McpServerType = z.infer<typeof McpServerTypeSchema>;
+/** 远程服务器可用的传输协议 */
+export type McpTransportType = Exclude<McpServerType, 'inMemory'>;
 export type McpServerConfig = z.infer<typeof McpServerConfigSchema>;
 export type McpServersMap = z.infer<typeof McpServersMapSchema>;
 export type McpConfig = z.infer<typeof McpConfigSchema>;
@@ -201,6 +204,7 @@ export interface MCPServerParameter {
 export interface MCPServer {
   id: string; // internal id
   name: string; // mcp name, generally as unique key
+  /** 传输协议（远程服务器未设置时自动检测） */
   type?: McpServerType | 'inMemory';
   createdAt?: number;
   updatedAt?: number;
@@ -224,10 +228,42 @@ export interface MCPServer {
   configSample?: MCPConfigSample;
   disabledTools?: string[];
   disabledAutoApproveTools?: string[];
+  /** 每个工具的调用审批策略（未记录的工具每次询问） */
+  toolPolicies?: Record<string, McpToolPolicy>;
   shouldConfig?: boolean;
   isActive: boolean;
 }
 
+/**
+ * MCP 工具调用审批策略
+ * - ask: 每次调用前询问（默认）
+ * - always: 始终允许
+ */
+export type McpToolPolicy = 'ask' | 'always';
+
+/**
+ * MCP 服务器的 OAuth 授权状态（加密存储）
+ */
+export interface McpOAuthState {
+  /** 动态注册得到的客户端信息 */
+  clientInformation?: OAuthClientInformationMixed;
+  tokens?: OAuthTokens;
+  /** 令牌保存时间（用于显示） */
+  tokensSavedAt?: number;
+  /** 本次授权的 PKCE code verifier */
+  codeVerifier?: string;
+  /** 本次授权的 state 参数（回调时校验） */
+  state?: string;
+}
+
+/**
+ * MCP 服务器授权状态
+ * - none: 未使用 OAuth
+ * - authorized: 已获得访问令牌
+ * - required: 服务器要求授权，等待用户登录
+ */
+export type McpAuthStatus = 'none' | 'authorized' | 'required';
+
 /**
  * 内置 MCP 服务器
  */
@@ -431,6 +467,8 @@ export interface MCPPromptResult {
     content: {
       type: 'text' | 'image' | 'resource';
       text?: string;
+      /** type 为 resource 时的嵌入资源 */
+      resource?: MCPResourceContent;
     };
   }>;
 }
@@ -496,6 +534,8 @@ export interface CreateMCPServerInput {
   headers?: Record<string, string>;
   timeout?: number;
   isActive?: boolean;
+  /** 传输协议（不传则首次连接时自动检测） */
+  type?: McpTransportType;
 }
 
 /**
@@ -0,0 +1,122 @@
+/**
+ * 消息树工具单元测试
+ */
+
+import type { Message } from '@/storage/core';
+import { findLatestLeaf, getAncestorPath, getContextSegment, resolveActivePath } from '../message-tree';
+
+function msg(id: string, parentId: string | null, createdAt: number, extra?: any): Message {
+  return {
+    id,
+    conversationId: 'c1',
+    role: createdAt % 2 === 1 ? 'user' : 'assistant',
+    text: id,
+    createdAt,
+    status: 'sent',
+    parentId,
+    extra,
+  };
+}
+
+/**
+ * u1 → a1 → u2 → a2
+ *         ↘ u2b → a2b（编辑 u2 后重新发送的分支）
+ */
+const tree: Message[] = [
+  msg('u1', null, 1),
+  msg('a1', 'u1', 2),
+  msg('u2', 'a1', 3),
+  msg('a2', 'u2', 4),
+  msg('u2b', 'a1', 5),
+  msg('a2b', 'u2b', 6),
+];
+
+describe('message-tree', () => {
+  describe('resolveActivePath', () => {
+    it('should return an empty path for an empty conversation', () => {
+      expect(resolveActivePath([])).toEqual({ messages: [], leafId: null, branches: {}, arenas: {} });
+    });
+
+    it('should follow the newest branch when no leaf is stored', () => {
+      const path = resolveActivePath(tree);
+
+      expect(path.leafId).toBe('a2b');
+      expect(path.messages.map(m => m.id)).toEqual(['u1', 'a1', 'u2b', 'a2b']);
+    });
+
+    it('should report sibling branches on the path', () => {
+      const path = resolveActivePath(tree);
+
+      expect(path.branches.u2b).toEqual({ index: 1, total: 2, siblingIds: ['u2', 'u2b'] });
+      expect(path.branches.u1).toEqual({ index: 0, total: 1, siblingIds: ['u1'] });
+    });
+
+    it('should switch to an older branch through the stored leaf', () => {
+      const path = resolveActivePath(tree, 'a2');
+
+      expect(path.leafId).toBe('a2');
+      expect(path.messages.map(m => m.id)).toEqual(['u1', 'a1', 'u2', 'a2']);
+      expect(path.branches.u2.index).toBe(0);
+    });
+
+    it('should descend to the latest leaf when the stored leaf has children', () => {
+      const path = resolveActivePath(tree, 'u2');
+
+      expect(path.leafId).toBe('a2');
+    });
+
+    it('should fall back to the latest message when the stored leaf is gone', () => {
+      const path = resolveActivePath(tree, 'deleted');
+
+      expect(path.leafId).toBe('a2b');
+    });
+
+    it('should attach orphans to the root when their parent was deleted', () => {
+      const messages = [msg('u1', null, 1), msg('a1', 'missing', 2)];
+      const path = resolveActivePath(messages, 'a1');
+
+      expect(path.messages.map(m => m.id)).toEqual(['a1']);
+      expect(path.branches.a1.siblingIds).toEqual(['u1', 'a1']);
+    });
+
+    it('should group arena answers on the path', () => {
+      const messages = [
+        msg('u1', null, 1),
+        msg('a1', 'u1', 2, { arena: { group: 'g1' } }),
+        msg('a1b', 'u1', 4, { arena: { group: 'g1' } }),
+      ];
+      const path = resolveActivePath(messages, 'a1');
+
+      expect(path.arenas.a1.map(m => m.id)).toEqual(['a1', 'a1b']);
+    });
+  });
+
+  describe('findLatestLeaf', () => {
+    it('should take the newest child at every level', () => {
+      expect(findLatestLeaf(tree, 'u1')).toBe('a2b');
+      expect(findLatestLeaf(tree, 'u2')).toBe('a2');
+    });
+  });
+
+  describe('getAncestorPath', () => {
+    it('should return the path from the root to the message', () => {
+      expect(getAncestorPath(tree, 'u2b').map(m => m.id)).toEqual(['u1', 'a1', 'u2b']);
+    });
+
+    it('should return an empty path for an unknown message', () => {
+      expect(getAncestorPath(tree, 'missing')).toEqual([]);
+    });
+  });
+
+  describe('getContextSegment', () => {
+    it('should keep only the messages after the last context boundary', () => {
+      const path = [msg('u1', null, 1), msg('a1', 'u1', 2, { contextBoundary: true }), msg('u2', 'a1', 3)];
+
+      expect(getContextSegment(path).map(m => m.id)).toEqual(['u2']);
+    });
+
+    it('should return the whole path without boundaries', () => {
+      expect(getContextSegment(tree).map(m => m.id)).toEqual(tree.map(m => m.id));
+    });
+  });
+});
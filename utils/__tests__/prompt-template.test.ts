@@ -0,0 +1,94 @@
+/**
+ * 提示词模板单元测试
+ */
+
+import * as Clipboard from 'expo-clipboard';
+import {
+  fillTemplate,
+  getDateVariables,
+  getInputVariables,
+  parseTemplateVariables,
+  renderTemplate,
+} from '../prompt-template';
+
+jest.mock('expo-clipboard', () => ({
+  getStringAsync: jest.fn(),
+}));
+
+const getStringAsync = Clipboard.getStringAsync as jest.Mock;
+
+describe('prompt-template', () => {
+  beforeEach(() => {
+    getStringAsync.mockReset();
+  });
+
+  describe('parseTemplateVariables', () => {
+    it('should parse variables with default values in order', () => {
+      expect(parseTemplateVariables('{{ topic }} in {{lang|中文}}, {{topic|ignored}} {{date}}')).toEqual([
+        { name: 'topic', defaultValue: undefined, builtin: false },
+        { name: 'lang', defaultValue: '中文', builtin: false },
+        { name: 'date', defaultValue: undefined, builtin: true },
+      ]);
+    });
+
+    it('should only ask the user for non-builtin variables', () => {
+      expect(getInputVariables('{{clipboard}} {{selection}} {{名称}}').map((v) => v.name)).toEqual(['名称']);
+    });
+  });
+
+  describe('renderTemplate', () => {
+    it('should substitute provided values', () => {
+      expect(renderTemplate('Translate {{text}} to {{lang}}', { text: 'hi', lang: 'French' })).toBe(
+        'Translate hi to French'
+      );
+    });
+
+    it('should fall back to the default value for missing or empty values', () => {
+      expect(renderTemplate('{{lang|English}} / {{tone| formal }}', { lang: '' })).toBe('English / formal');
+    });
+
+    it('should replace unknown variables without defaults with an empty string', () => {
+      expect(renderTemplate('[{{missing}}]', {})).toBe('[]');
+    });
+  });
+
+  describe('getDateVariables', () => {
+    it('should format the given time', () => {
+      expect(getDateVariables(new Date(2024, 0, 7, 9, 5))).toEqual({
+        date: '2024-01-07',
+        time: '09:05',
+        datetime: '2024-01-07 09:05',
+        weekday: '星期日',
+      });
+    });
+  });
+
+  describe('fillTemplate', () => {
+    it('should read the clipboard each time the template is filled', async () => {
+      getStringAsync.mockResolvedValueOnce('first').mockResolvedValueOnce('second');
+
+      await expect(fillTemplate('Explain: {{clipboard}}')).resolves.toBe('Explain: first');
+      await expect(fillTemplate('Explain: {{clipboard}}')).resolves.toBe('Explain: second');
+      expect(getStringAsync).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not read the clipboard when the template does not use it', async () => {
+      await expect(fillTemplate('Hello {{name}}', { name: 'Ada' })).resolves.toBe('Hello Ada');
+      expect(getStringAsync).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the default value when reading the clipboard fails', async () => {
+      getStringAsync.mockRejectedValueOnce(new Error('denied'));
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await expect(fillTemplate('{{clipboard|nothing}}')).resolves.toBe('nothing');
+      warn.mockRestore();
+    });
+
+    it('should use the selection and let user values override builtins', async () => {
+      await expect(fillTemplate('{{selection}} {{date}}', { date: 'today' }, { selection: 'text' })).resolves.toBe(
+        'text today'
+      );
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * 对话设置解析
+ *
+ * 优先级：话题设置 > 助手设置 > 全局设置（全局设置由调用方回退）
+ */
+
+import { AssistantsRepository } from '@/storage/repositories/assistants';
+import { ChatRepository } from '@/storage/repositories/chat';
+import { SettingKey, SettingsRepository } from '@/storage/repositories/settings';
+import type { TopicSettings } from '@/storage/types/topic-settings';
+import type { Assistant } from '@/types/assistant';
+import { getDateVariables, renderTemplate, resolveBuiltinVariables } from '@/utils/prompt-template';
+
+export interface ResolvedChatSettings {
+  assistantId: string;
+  assistant?: Assistant;
+  /** 话题自身的设置覆盖 */
+  topic: TopicSettings;
+  /** 合并后的设置（未设置的字段由调用方回退到全局设置） */
+  settings: TopicSettings;
+}
+
+/**
+ * 按优先级合并多层设置：靠前的层中已设置（非 undefined）的字段优先
+ */
+export function mergeChatSettings(...layers: (TopicSettings | null | undefined)[]): TopicSettings {
+  const merged: TopicSettings = {};
+  for (const layer of [...layers].reverse()) {
+    if (!layer) continue;
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined) {
+        (merged as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * 读取当前助手与话题的设置并合并
+ * @param conversationId 话题 ID（新话题为 null）
+ * @param options.forSend 发送消息时使用：读取剪贴板等内置变量渲染助手提示词（其余场景只代入日期时间）
+ */
+export async function loadChatSettings(
+  conversationId: string | null,
+  options: { forSend?: boolean } = {}
+): Promise<ResolvedChatSettings> {
+  const assistantId = (await SettingsRepository().get<string>(SettingKey.CurrentAssistantId)) ?? 'default';
+  const repo = AssistantsRepository();
+  const assistant = await repo.getById(assistantId);
+  const topic = conversationId ? await ChatRepository.getTopicSettings(conversationId) : {};
+
+  // 助手提示词模板：使用启用助手时填写的变量，内置变量（日期时间、剪贴板）每次取当前值
+  let systemPrompt: string | undefined;
+  if (assistant?.systemPrompt) {
+    const builtins = options.forSend
+      ? await resolveBuiltinVariables(assistant.systemPrompt)
+      : getDateVariables();
+    systemPrompt = renderTemplate(assistant.systemPrompt, { ...(await repo.getTemplateValues(assistantId)), ...builtins });
+  }
+
+  const assistantLayer: TopicSettings = {
+    ...assistant?.settings,
+    systemPrompt: systemPrompt || undefined,
+  };
+
+  return {
+    assistantId,
+    assistant,
+    topic,
+    settings: mergeChatSettings(topic, assistantLayer),
+  };
+}
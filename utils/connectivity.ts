@@ -0,0 +1,39 @@
+/**
+ * 网络连接状态
+ *
+ * 基于 expo-network 判断设备是否可以访问互联网，用于离线发送排队与联网后自动发送。
+ * 状态未知（平台未返回或读取失败）时视为在线，避免误把消息留在队列中。
+ */
+
+import * as Network from 'expo-network';
+import { logger } from '@/utils/logger';
+
+function isOnlineState(state: Network.NetworkState): boolean {
+  return state.isConnected !== false && state.isInternetReachable !== false;
+}
+
+/**
+ * 当前是否在线
+ */
+export async function isOnline(): Promise<boolean> {
+  try {
+    return isOnlineState(await Network.getNetworkStateAsync());
+  } catch (e) {
+    logger.warn('[Connectivity] 读取网络状态失败，按在线处理', e);
+    return true;
+  }
+}
+
+/**
+ * 监听在线状态变化（仅在状态改变时回调），返回取消监听函数
+ */
+export function onConnectivityChange(listener: (online: boolean) => void): () => void {
+  let last: boolean | null = null;
+  const subscription = Network.addNetworkStateListener((state) => {
+    const online = isOnlineState(state);
+    if (online === last) return;
+    last = online;
+    listener(online);
+  });
+  return () => subscription.remove();
+}
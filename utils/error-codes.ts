@@ -46,6 +46,8 @@ export enum ErrorCode {
   AI_ERR_CONTENT_POLICY = 'AI_ERR_008',
   /** AI MCP 工具调用失败 */
   AI_ERR_MCP_TOOL = 'AI_ERR_009',
+  /** AI 结构化输出不符合 JSON Schema */
+  AI_ERR_SCHEMA_VIOLATION = 'AI_ERR_010',
 
   // ========== 网络错误 (NET_ERR_xxx) ==========
   /** 网络请求失败 */
@@ -142,6 +144,7 @@ export const ERROR_SEVERITY_MAP: Record<ErrorCode, ErrorSeverity> = {
   [ErrorCode.AI_ERR_IMAGE_GENERATION]: ErrorSeverity.LOW,
   [ErrorCode.AI_ERR_CONTENT_POLICY]: ErrorSeverity.LOW,
   [ErrorCode.AI_ERR_MCP_TOOL]: ErrorSeverity.MEDIUM,
+  [ErrorCode.AI_ERR_SCHEMA_VIOLATION]: ErrorSeverity.LOW,
 
   // 网络错误 - 中严重级别
   [ErrorCode.NET_ERR_REQUEST]: ErrorSeverity.MEDIUM,
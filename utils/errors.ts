@@ -330,6 +330,36 @@ export class ImageModelResolutionError extends ImageGenerationError {
   }
 }
 
+/**
+ * 结构化输出校验错误类
+ *
+ * 模型回答无法解析为 JSON 或不符合所配置的 JSON Schema 时抛出（可重试）
+ *
+ * @example
+ * ```typescript
+ * throw new StructuredOutputError(['name: 必填字段缺失'], { provider: 'openai', model: 'gpt-4o' });
+ * ```
+ */
+export class StructuredOutputError extends AiError {
+  /** 校验失败的具体问题（路径 + 原因） */
+  public readonly issues: string[];
+
+  constructor(issues: string[], context?: AiErrorContext, cause?: Error) {
+    super(
+      `回答不符合 JSON Schema：${issues.slice(0, 3).join('；')}`,
+      ErrorCode.AI_ERR_SCHEMA_VIOLATION,
+      context,
+      cause
+    );
+    this.name = 'StructuredOutputError';
+    this.issues = issues;
+  }
+
+  override getUserMessage(): string {
+    return `回答不符合 JSON Schema（${this.issues.length} 处问题），请重试或调整 Schema`;
+  }
+}
+
 // ========== 网络错误 ==========
 
 /**
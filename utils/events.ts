@@ -144,8 +144,15 @@ export const AppEvents = {
   MESSAGE_CHANGED: 'message:changed',
   MESSAGE_STREAMING_UPDATE: 'message:streaming_update',
   MESSAGE_REGENERATE_REQUESTED: 'message:regenerate_requested', // ✨ 重新生成消息请求
+  MESSAGE_EDIT_RESEND_REQUESTED: 'message:edit_resend_requested', // ✨ 编辑历史消息后重新发送（产生新分支）
+  MESSAGE_TRANSLATION_UPDATE: 'message:translation_update', // ✨ 消息译文流式更新
+  MCP_TOOL_APPROVAL_CHANGED: 'mcp:tool_approval_changed', // ✨ 待审批的 MCP 工具调用列表已变化
+  MCP_RESOURCE_UPDATED: 'mcp:resource_updated', // ✨ 已订阅的 MCP 资源内容已更新（参数：{ serverId, uri }）
+  MCP_AUTH_CHANGED: 'mcp:auth_changed', // ✨ MCP 服务器 OAuth 授权状态已变化（参数：服务器 ID）
   CONVERSATION_CHANGED: 'conversation:changed',
   ASSISTANT_CHANGED: 'assistant:changed',
   ASSISTANTS_UPDATED: 'assistants:updated',
+  TOPIC_SETTINGS_CHANGED: 'topic:settings_changed', // ✨ 话题设置覆盖已更新（参数：话题 ID）
+  TOPIC_MEMORY_CHANGED: 'topic:memory_changed', // ✨ 话题滚动摘要已更新（参数：话题 ID）
   QUICK_PHRASES_SETTING_CHANGED: 'quick_phrases:setting_changed',
 } as const;
@@ -0,0 +1,156 @@
+/**
+ * 🌳 消息树工具
+ *
+ * 话题中的消息通过 parent_id 组成一棵树：编辑历史用户消息并重新发送时，
+ * 新消息与原消息共享同一个父节点，形成兄弟分支。
+ * 界面展示与上下文构建都只使用从根到"激活叶子"的一条路径。
+ *
+ * 路径上的消息可以带有上下文分界（extra.contextBoundary），
+ * 分界把路径切成多个上下文段，发送时只引用当前轮所在的段。
+ *
+ * 并排回答（arena）：同一轮同时发给多个模型时，各回答互为兄弟并共享
+ * extra.arena.group；路径上的回答即"首选回答"，作为后续对话的上下文。
+ */
+import type { Message } from '@/storage/core';
+
+/** 某条消息在其兄弟分支中的位置 */
+export interface MessageBranchInfo {
+  /** 当前消息在兄弟中的下标（按创建时间排序，从 0 开始） */
+  index: number;
+  /** 兄弟总数（包含自身） */
+  total: number;
+  /** 全部兄弟消息 ID（按创建时间排序） */
+  siblingIds: string[];
+}
+
+export interface ActiveMessagePath {
+  /** 从根到叶子的消息路径 */
+  messages: Message[];
+  /** 实际使用的叶子 ID（无消息时为 null） */
+  leafId: string | null;
+  /** 路径上每条消息的分支信息 */
+  branches: Record<string, MessageBranchInfo>;
+  /** 路径上属于并排回答的消息 → 同组全部回答（按创建时间排序，包含自身） */
+  arenas: Record<string, Message[]>;
+}
+
+const ROOT_KEY = '__root__';
+
+function groupChildren(messages: Message[]): Map<string, Message[]> {
+  const ids = new Set(messages.map(m => m.id));
+  const children = new Map<string, Message[]>();
+  for (const m of messages) {
+    // 父消息已被删除时挂到根上，避免整段历史丢失
+    const key = m.parentId && ids.has(m.parentId) ? m.parentId : ROOT_KEY;
+    const list = children.get(key);
+    if (list) list.push(m);
+    else children.set(key, [m]);
+  }
+  for (const list of children.values()) {
+    list.sort((a, b) => a.createdAt - b.createdAt);
+  }
+  return children;
+}
+
+/**
+ * 从指定消息向下查找最新叶子（每层取最新创建的子消息）
+ */
+export function findLatestLeaf(messages: Message[], fromId: string): string {
+  const children = groupChildren(messages);
+  let current = fromId;
+  const visited = new Set<string>();
+  while (!visited.has(current)) {
+    visited.add(current);
+    const list = children.get(current);
+    if (!list || list.length === 0) break;
+    current = list[list.length - 1].id;
+  }
+  return current;
+}
+
+/**
+ * 获取从根到指定消息的祖先路径（包含该消息本身）
+ */
+export function getAncestorPath(messages: Message[], messageId: string): Message[] {
+  const byId = new Map(messages.map(m => [m.id, m] as const));
+  const path: Message[] = [];
+  const visited = new Set<string>();
+  let cursor: Message | undefined = byId.get(messageId);
+  while (cursor && !visited.has(cursor.id)) {
+    visited.add(cursor.id);
+    path.unshift(cursor);
+    cursor = cursor.parentId ? byId.get(cursor.parentId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * 解析当前激活路径
+ *
+ * @param messages 话题内全部消息
+ * @param activeLeafId 已保存的激活叶子；缺失或已失效时回退到最新消息
+ */
+export function resolveActivePath(messages: Message[], activeLeafId?: string | null): ActiveMessagePath {
+  if (messages.length === 0) {
+    return { messages: [], leafId: null, branches: {}, arenas: {} };
+  }
+
+  const byId = new Map(messages.map(m => [m.id, m] as const));
+  const children = groupChildren(messages);
+
+  let start = activeLeafId && byId.has(activeLeafId) ? activeLeafId : null;
+  if (!start) {
+    start = messages.reduce((latest, m) => (m.createdAt >= latest.createdAt ? m : latest)).id;
+  }
+  // 激活节点的后代被删除后可能不再是叶子，继续向下取最新分支
+  const leafId = findLatestLeaf(messages, start);
+
+  const path = getAncestorPath(messages, leafId);
+
+  const branches: Record<string, MessageBranchInfo> = {};
+  const arenas: Record<string, Message[]> = {};
+  for (const m of path) {
+    const key = m.parentId && byId.has(m.parentId) ? m.parentId : ROOT_KEY;
+    const siblings = children.get(key) ?? [m];
+    const siblingIds = siblings.map(s => s.id);
+    branches[m.id] = {
+      index: Math.max(0, siblingIds.indexOf(m.id)),
+      total: siblingIds.length,
+      siblingIds,
+    };
+
+    const group = getArenaGroup(m);
+    if (group) {
+      const answers = siblings.filter(s => getArenaGroup(s) === group);
+      if (answers.length > 1) arenas[m.id] = answers;
+    }
+  }
+
+  return { messages: path, leafId, branches, arenas };
+}
+
+/**
+ * 获取消息所属的并排回答分组（非并排回答返回 null）
+ */
+export function getArenaGroup(message: Message): string | null {
+  return message.extra?.arena?.group ?? null;
+}
+
+/**
+ * 消息之后是否存在上下文分界
+ */
+export function hasContextBoundary(message: Message): boolean {
+  return !!message.extra?.contextBoundary;
+}
+
+/**
+ * 获取路径末尾所在的上下文段（最后一个分界之后的消息）
+ *
+ * @param path 从根开始的消息路径（末尾为当前轮的父消息）
+ */
+export function getContextSegment(path: Message[]): Message[] {
+  for (let i = path.length - 1; i >= 0; i--) {
+    if (hasContextBoundary(path[i])) return path.slice(i + 1);
+  }
+  return path;
+}
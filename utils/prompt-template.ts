@@ -0,0 +1,129 @@
+/**
+ * 提示词模板
+ *
+ * 语法：`{{name}}` 或 `{{name|默认值}}`，用于快捷短语、助手系统提示词与话题命名提示词。
+ *
+ * 内置变量：
+ * - date / time / datetime / weekday：使用时的当前日期时间
+ * - clipboard：剪贴板文本
+ * - selection：输入框中选中的文本（未选中时为输入框全部内容）
+ *
+ * 其余变量由用户在填写表单中输入，未填写时使用默认值（无默认值则为空）。
+ */
+
+import * as Clipboard from 'expo-clipboard';
+import { logger } from '@/utils/logger';
+
+export interface TemplateVariable {
+  name: string;
+  /** `{{name|默认值}}` 中的默认值（同名变量以首次出现的为准） */
+  defaultValue?: string;
+  /** 是否为内置变量（无需用户填写） */
+  builtin: boolean;
+}
+
+/** 日期时间变量：每次渲染时取当前时间 */
+const DATE_VARIABLES = ['date', 'time', 'datetime', 'weekday'];
+/** 在使用时读取的内置变量 */
+const CAPTURED_VARIABLES = ['clipboard', 'selection'];
+
+const VARIABLE_PATTERN = /\{\{\s*([\w一-龥-]+)\s*(?:\|([^}]*))?\}\}/g;
+
+const WEEKDAYS = ['星期日', '星期一', '星期二', '星期三', '星期四', '星期五', '星期六'];
+
+function isBuiltin(name: string): boolean {
+  return DATE_VARIABLES.includes(name) || CAPTURED_VARIABLES.includes(name);
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/**
+ * 解析模板中的变量（按出现顺序去重）
+ */
+export function parseTemplateVariables(template: string): TemplateVariable[] {
+  const variables = new Map<string, TemplateVariable>();
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    const name = match[1];
+    if (variables.has(name)) continue;
+    variables.set(name, {
+      name,
+      defaultValue: match[2]?.trim() || undefined,
+      builtin: isBuiltin(name),
+    });
+  }
+  return [...variables.values()];
+}
+
+/**
+ * 需要用户填写的变量（非内置变量）
+ */
+export function getInputVariables(template: string): TemplateVariable[] {
+  return parseTemplateVariables(template).filter((v) => !v.builtin);
+}
+
+/**
+ * 日期时间变量的当前值
+ */
+export function getDateVariables(at: Date = new Date()): Record<string, string> {
+  const date = `${at.getFullYear()}-${pad(at.getMonth() + 1)}-${pad(at.getDate())}`;
+  const time = `${pad(at.getHours())}:${pad(at.getMinutes())}`;
+  return {
+    date,
+    time,
+    datetime: `${date} ${time}`,
+    weekday: WEEKDAYS[at.getDay()],
+  };
+}
+
+/**
+ * 读取模板用到的内置变量（剪贴板仅在模板引用时读取）
+ *
+ * @param selection - 输入框中选中的文本
+ */
+export async function resolveBuiltinVariables(
+  template: string,
+  context: { selection?: string } = {}
+): Promise<Record<string, string>> {
+  const names = parseTemplateVariables(template).map((v) => v.name);
+  const values = getDateVariables();
+
+  if (names.includes('clipboard')) {
+    try {
+      values.clipboard = await Clipboard.getStringAsync();
+    } catch (e) {
+      logger.warn('[PromptTemplate] 读取剪贴板失败', e);
+      values.clipboard = '';
+    }
+  }
+  if (names.includes('selection')) {
+    values.selection = context.selection ?? '';
+  }
+  return values;
+}
+
+/**
+ * 使用变量值渲染模板
+ *
+ * 未提供或为空的变量使用默认值，无默认值时替换为空字符串
+ */
+export function renderTemplate(template: string, values: Record<string, string | undefined>): string {
+  return template.replace(VARIABLE_PATTERN, (_, name: string, defaultValue?: string) => {
+    const value = values[name];
+    if (value !== undefined && value !== '') return value;
+    return defaultValue?.trim() ?? '';
+  });
+}
+
+/**
+ * 渲染模板：内置变量自动读取，用户变量使用传入的值
+ */
+export async function fillTemplate(
+  template: string,
+  values: Record<string, string> = {},
+  context: { selection?: string } = {}
+): Promise<string> {
+  const builtins = await resolveBuiltinVariables(template, context);
+  return renderTemplate(template, { ...builtins, ...values });
+}